@@ -34,6 +34,7 @@ import { ThemeProvider, createTheme } from '@mui/material/styles';
 import { frFR as muiFrFR } from '@mui/material/locale';
 import polyglotI18nProvider from 'ra-i18n-polyglot';
 import frenchMessages from 'ra-language-french';
+import { ApiClient, type AdminBlogPostInput, type ListAdminBlogPostsParams } from '../../src/api/client';
 
 const AUTH_STORAGE_KEY = 'la_admin_basic_token';
 const API_BASE = '/admin';
@@ -106,18 +107,6 @@ const summarizeDailyResult = (status: DailyArticleStatus): string => {
   }
 };
 
-type BlogPostPayload = {
-  slug: string;
-  title: string;
-  excerpt: string | null;
-  contentMarkdown: string;
-  coverImageUrl: string | null;
-  tags: string[];
-  seoDescription: string | null;
-  publishedAt: string | null;
-  updatedAt: string | null;
-};
-
 type HiddenMemberPayload = {
   userId: string;
   idea?: string | null;
@@ -251,27 +240,25 @@ const authProvider = {
   getPermissions: async () => null,
 };
 
+/** Blog posts and hidden members go through the client generated from docs/openapi.json. */
+const apiClient = new ApiClient();
+
+const getAuthHeaders = (): Record<string, string> => {
+  const token = window.localStorage.getItem(AUTH_STORAGE_KEY);
+  return token ? { Authorization: `Basic ${token}` } : {};
+};
+
 const buildListQuery = (params: {
   pagination?: { page: number; perPage: number };
   sort?: { field?: string; order?: string };
   filter?: Record<string, unknown>;
-}): string => {
-  const searchParams = new URLSearchParams();
-  const page = params.pagination?.page ?? 1;
-  const perPage = params.pagination?.perPage ?? 25;
-  searchParams.set('page', String(page));
-  searchParams.set('perPage', String(perPage));
-  if (params.sort?.field) {
-    searchParams.set('sort', params.sort.field);
-  }
-  if (params.sort?.order) {
-    searchParams.set('order', params.sort.order);
-  }
-  if (params.filter) {
-    searchParams.set('filter', JSON.stringify(params.filter));
-  }
-  return searchParams.toString();
-};
+}): NonNullable<ListAdminBlogPostsParams['query']> => ({
+  page: params.pagination?.page ?? 1,
+  perPage: params.pagination?.perPage ?? 25,
+  sort: params.sort?.field || undefined,
+  order: (params.sort?.order || undefined) as NonNullable<ListAdminBlogPostsParams['query']>['order'],
+  filter: params.filter ? JSON.stringify(params.filter) : undefined,
+});
 
 const normalizeDateForApi = (value: unknown): string | null => {
   if (!value) {
@@ -281,7 +268,7 @@ const normalizeDateForApi = (value: unknown): string | null => {
   return Number.isNaN(date.getTime()) ? null : date.toISOString();
 };
 
-const prepareBlogPostPayload = (data: Record<string, unknown>): BlogPostPayload => {
+const prepareBlogPostPayload = (data: Record<string, unknown>): AdminBlogPostInput => {
   const tags = Array.isArray(data.tags)
     ? (data.tags as unknown[])
         .map((tag) => (typeof tag === 'string' ? tag.trim() : ''))
@@ -307,40 +294,28 @@ const prepareHiddenMemberPayload = (data: Record<string, unknown>): HiddenMember
 });
 
 const fetchBlogPost = async (id: string) => {
-  const { json } = await httpClient<{ data: Record<string, unknown> }>(
-    `${API_BASE}/blog/posts/${encodeURIComponent(id)}`,
-  );
-  return json?.data as Record<string, unknown>;
+  const { data } = await apiClient.getAdminBlogPost({ path: { slug: id } }, { headers: getAuthHeaders() });
+  return data;
 };
 
 const fetchHiddenMember = async (id: string) => {
-  const { json } = await httpClient<{ data: Record<string, unknown> }>(
-    `${API_BASE}/members/hidden/${encodeURIComponent(id)}`,
-  );
-  return json?.data as Record<string, unknown>;
+  const { data } = await apiClient.getAdminHiddenMember({ path: { userId: id } }, { headers: getAuthHeaders() });
+  return data;
 };
 
 const dataProvider: DataProvider = {
   getList: async (resource, params) => {
     switch (resource) {
       case 'blog-posts': {
-        const query = buildListQuery(params);
-        const { json } = await httpClient<{ data: Record<string, unknown>[]; total: number }>(
-          `${API_BASE}/blog/posts?${query}`,
+        const { data, total } = await apiClient.listAdminBlogPosts(
+          { query: buildListQuery(params) },
+          { headers: getAuthHeaders() },
         );
-        return {
-          data: json?.data ?? [],
-          total: json?.total ?? 0,
-        };
+        return { data, total };
       }
       case 'users': {
-        const { json } = await httpClient<{ data: Record<string, unknown>[]; total: number }>(
-          `${API_BASE}/members/hidden`,
-        );
-        return {
-          data: json?.data ?? [],
-          total: json?.total ?? 0,
-        };
+        const { data, total } = await apiClient.listAdminHiddenMembers({ headers: getAuthHeaders() });
+        return { data, total };
       }
       default:
         throw new Error(`Ressource inconnue: ${resource}`);
@@ -364,26 +339,22 @@ const dataProvider: DataProvider = {
   create: async (resource, params) => {
     switch (resource) {
       case 'blog-posts': {
-        const payload = prepareBlogPostPayload(params.data);
-        const { json } = await httpClient<{ data: Record<string, unknown> }>(`${API_BASE}/blog/posts`, {
-          method: 'POST',
-          body: JSON.stringify(payload),
-        });
-        return { data: json?.data ?? payload };
+        const { data } = await apiClient.createAdminBlogPost(
+          { body: prepareBlogPostPayload(params.data) },
+          { headers: getAuthHeaders() },
+        );
+        return { data };
       }
       case 'users': {
         const payload = prepareHiddenMemberPayload(params.data);
         if (!payload.userId) {
           throw new Error("L'identifiant utilisateur est obligatoire.");
         }
-        const { json } = await httpClient<{ data: Record<string, unknown> }>(
-          `${API_BASE}/members/${encodeURIComponent(payload.userId)}/hide`,
-          {
-            method: 'POST',
-            body: JSON.stringify({ idea: payload.idea ?? null }),
-          },
+        const { data } = await apiClient.hideAdminMember(
+          { path: { userId: payload.userId }, body: { idea: payload.idea ?? null } },
+          { headers: getAuthHeaders() },
         );
-        return { data: json?.data ?? payload };
+        return { data };
       }
       default:
         throw new Error(`Création non disponible pour ${resource}`);
@@ -392,29 +363,22 @@ const dataProvider: DataProvider = {
   update: async (resource, params) => {
     switch (resource) {
       case 'blog-posts': {
-        const payload = prepareBlogPostPayload(params.data);
-        const { json } = await httpClient<{ data: Record<string, unknown> }>(
-          `${API_BASE}/blog/posts/${encodeURIComponent(String(params.id))}`,
-          {
-            method: 'PUT',
-            body: JSON.stringify(payload),
-          },
+        const { data } = await apiClient.updateAdminBlogPost(
+          { path: { slug: String(params.id) }, body: prepareBlogPostPayload(params.data) },
+          { headers: getAuthHeaders() },
         );
-        return { data: json?.data ?? payload };
+        return { data };
       }
       case 'users': {
         const payload = prepareHiddenMemberPayload(params.data);
         if (!payload.userId) {
           throw new Error("L'identifiant utilisateur est obligatoire.");
         }
-        const { json } = await httpClient<{ data: Record<string, unknown> }>(
-          `${API_BASE}/members/${encodeURIComponent(payload.userId)}/hide`,
-          {
-            method: 'POST',
-            body: JSON.stringify({ idea: payload.idea ?? null }),
-          },
+        const { data } = await apiClient.hideAdminMember(
+          { path: { userId: payload.userId }, body: { idea: payload.idea ?? null } },
+          { headers: getAuthHeaders() },
         );
-        return { data: json?.data ?? payload };
+        return { data };
       }
       default:
         throw new Error(`Mise à jour non disponible pour ${resource}`);
@@ -429,10 +393,10 @@ const dataProvider: DataProvider = {
   delete: async (resource, params) => {
     switch (resource) {
       case 'blog-posts':
-        await httpClient(`${API_BASE}/blog/posts/${encodeURIComponent(String(params.id))}`, { method: 'DELETE' });
+        await apiClient.deleteAdminBlogPost({ path: { slug: String(params.id) } }, { headers: getAuthHeaders() });
         return { data: { id: params.id } };
       case 'users':
-        await httpClient(`${API_BASE}/members/${encodeURIComponent(String(params.id))}/hide`, { method: 'DELETE' });
+        await apiClient.unhideAdminMember({ path: { userId: String(params.id) } }, { headers: getAuthHeaders() });
         return { data: { id: params.id } };
       default:
         throw new Error(`Suppression non disponible pour ${resource}`);
@@ -41,9 +41,11 @@ import {
   Volume2,
   VolumeX,
   X,
+  Zap,
 } from '../core/deps.js';
 import { loadChart } from '../core/chart-loader.js';
 import { loadGLTFLoader, loadThree } from '../core/three-loader.js';
+import { createLiveStreamPlayer, isLiveStreamSupported } from '../core/live-stream-player.js';
 import {
   STATUS_LABELS,
   TALK_WINDOW_OPTIONS,
@@ -1815,7 +1817,13 @@ const getRouteFromHash = () => {
   return parseRouteFromLocation(window.location);
 };
 
-const AudioPlayer = ({ streamInfo, audioKey, status, bridgeStatus = { serverDeafened: false, selfDeafened: false } }) => {
+const AudioPlayer = ({
+  streamInfo,
+  audioKey,
+  status,
+  bridgeStatus = { serverDeafened: false, selfDeafened: false },
+  autopilot = null,
+}) => {
   const audioRef = useRef(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
@@ -1823,7 +1831,12 @@ const AudioPlayer = ({ streamInfo, audioKey, status, bridgeStatus = { serverDeaf
   const [isMuted, setIsMuted] = useState(false);
   const [volume, setVolume] = useState(0.75);
   const lastVolumeRef = useRef(0.75);
+  const [isLowLatency, setIsLowLatency] = useState(false);
+  const [liveLatencyMs, setLiveLatencyMs] = useState(null);
+  const liveStreamRef = useRef(null);
+  const isLowLatencyRef = useRef(false);
   const isBridgeServerDeafened = Boolean(bridgeStatus?.serverDeafened);
+  const canUseLowLatency = Boolean(streamInfo.liveSocketPath) && isLiveStreamSupported();
 
   const isIgnorablePlayError = (error) => {
     if (!error) return false;
@@ -1836,33 +1849,39 @@ const AudioPlayer = ({ streamInfo, audioKey, status, bridgeStatus = { serverDeaf
     if (!audio) return undefined;
 
     const handlePlaying = () => {
+      if (isLowLatencyRef.current) return;
       setIsPlaying(true);
       setIsLoading(false);
       setHasError(false);
     };
 
     const handleWaiting = () => {
+      if (isLowLatencyRef.current) return;
       if (!audio.paused) {
         setIsLoading(true);
       }
     };
 
     const handlePause = () => {
+      if (isLowLatencyRef.current) return;
       setIsPlaying(false);
       setIsLoading(false);
     };
 
     const handleCanPlay = () => {
+      if (isLowLatencyRef.current) return;
       setIsLoading(false);
     };
 
     const handleError = () => {
+      if (isLowLatencyRef.current) return;
       setHasError(true);
       setIsPlaying(false);
       setIsLoading(false);
     };
 
     const handleEnded = () => {
+      if (isLowLatencyRef.current) return;
       setIsPlaying(false);
     };
 
@@ -1901,6 +1920,56 @@ const AudioPlayer = ({ streamInfo, audioKey, status, bridgeStatus = { serverDeaf
     audio.muted = isMuted;
   }, [isMuted]);
 
+  useEffect(() => {
+    liveStreamRef.current?.setVolume(isMuted ? 0 : volume);
+  }, [volume, isMuted]);
+
+  const stopLiveStream = () => {
+    const player = liveStreamRef.current;
+    liveStreamRef.current = null;
+    if (player) {
+      player.stop();
+    }
+    setLiveLatencyMs(null);
+  };
+
+  const startLiveStream = async () => {
+    stopLiveStream();
+    const player = createLiveStreamPlayer({
+      path: streamInfo.liveSocketPath,
+      onStateChange: (state) => {
+        if (liveStreamRef.current !== player) {
+          return;
+        }
+        setIsPlaying(state === 'playing');
+        setIsLoading(state === 'loading');
+        setHasError(state === 'error');
+      },
+      onLatency: (value) => setLiveLatencyMs(Math.round(value)),
+    });
+    liveStreamRef.current = player;
+    player.setVolume(isMuted ? 0 : volume);
+    try {
+      await player.start();
+    } catch (error) {
+      console.error('Impossible de lancer le flux faible latence', error);
+      stopLiveStream();
+      setHasError(true);
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => () => stopLiveStream(), []);
+
+  useEffect(() => {
+    if (!canUseLowLatency && isLowLatencyRef.current) {
+      isLowLatencyRef.current = false;
+      setIsLowLatency(false);
+      stopLiveStream();
+      setIsPlaying(false);
+    }
+  }, [canUseLowLatency]);
+
   useEffect(() => {
     const audio = audioRef.current;
     if (!audio) return;
@@ -1936,6 +2005,7 @@ const AudioPlayer = ({ streamInfo, audioKey, status, bridgeStatus = { serverDeaf
     } catch (error) {
       console.warn('Impossible de mettre en pause le flux après mute casque serveur', error);
     }
+    stopLiveStream();
 
     setIsPlaying(false);
     setIsLoading(false);
@@ -1992,6 +2062,17 @@ const AudioPlayer = ({ streamInfo, audioKey, status, bridgeStatus = { serverDeaf
       setHasError(false);
     }
 
+    if (isLowLatency) {
+      if (isPlaying || isLoading) {
+        stopLiveStream();
+        setIsPlaying(false);
+        setIsLoading(false);
+        return;
+      }
+      await startLiveStream();
+      return;
+    }
+
     if (isPlaying) {
       audio.pause();
       return;
@@ -2036,6 +2117,11 @@ const AudioPlayer = ({ streamInfo, audioKey, status, bridgeStatus = { serverDeaf
     setHasError(false);
     setIsLoading(true);
 
+    if (isLowLatency) {
+      await startLiveStream();
+      return;
+    }
+
     try {
       await clearBrowserCaches();
     } catch (error) {
@@ -2067,6 +2153,43 @@ const AudioPlayer = ({ streamInfo, audioKey, status, bridgeStatus = { serverDeaf
     }
   };
 
+  const toggleLowLatency = async () => {
+    const audio = audioRef.current;
+    const wasPlaying = isPlaying;
+    const next = !isLowLatency;
+
+    isLowLatencyRef.current = next;
+    setIsLowLatency(next);
+    setHasError(false);
+
+    if (next) {
+      if (audio && !audio.paused) {
+        audio.pause();
+      }
+      setIsPlaying(false);
+      setIsLoading(false);
+      if (wasPlaying) {
+        await startLiveStream();
+      }
+      return;
+    }
+
+    stopLiveStream();
+    setIsPlaying(false);
+    setIsLoading(false);
+    if (wasPlaying && audio) {
+      try {
+        audio.load();
+        await audio.play();
+      } catch (error) {
+        if (!isIgnorablePlayError(error)) {
+          console.error('Impossible de reprendre le flux classique', error);
+          setHasError(true);
+        }
+      }
+    }
+  };
+
   const handleVolumeChange = (event) => {
     const value = Number(event?.target?.value ?? 0) / 100;
     const nextVolume = Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0;
@@ -2120,6 +2243,8 @@ const AudioPlayer = ({ streamInfo, audioKey, status, bridgeStatus = { serverDeaf
     ? 'Flux indisponible. Relance le flux pour réessayer.'
     : isLoading
     ? 'Connexion au flux…'
+    : isPlaying && isLowLatency && liveLatencyMs !== null
+    ? `Lecture en cours · latence ≈ ${liveLatencyMs} ms`
     : isPlaying
     ? 'Lecture en cours'
     : 'En pause';
@@ -2185,6 +2310,20 @@ const AudioPlayer = ({ streamInfo, audioKey, status, bridgeStatus = { serverDeaf
                     </span>
                   `;
                 })()}
+                ${
+                  autopilot?.active
+                    ? html`<span
+                        class="inline-flex max-w-xs items-center gap-1 rounded-full border border-amber-400/30 bg-amber-400/10 px-3 py-1 text-[0.7rem] font-medium uppercase tracking-[0.35em] text-amber-100"
+                        title=${autopilot.track?.title ?? ''}
+                      >
+                        <${RefreshCcw} class="h-3.5 w-3.5" aria-hidden="true" />
+                        <span>Rediffusion</span>
+                        ${autopilot.track?.title
+                          ? html`<span class="truncate tracking-normal text-amber-200/80">· ${autopilot.track.title}</span>`
+                          : null}
+                      </span>`
+                    : null
+                }
                 ${
                   isPlaying
                     ? html`<div class="audio-wave flex items-end gap-1 text-fuchsia-200">
@@ -2206,10 +2345,30 @@ const AudioPlayer = ({ streamInfo, audioKey, status, bridgeStatus = { serverDeaf
         <div class="relative w-full max-w-md rounded-2xl border border-white/10 bg-black/40 p-4 backdrop-blur">
           <div class="flex flex-wrap items-center justify-between gap-2 text-[0.65rem] uppercase tracking-[0.35em] text-slate-300">
             <span class="rounded-full border border-fuchsia-400/30 bg-fuchsia-500/10 px-3 py-1 text-fuchsia-100">
-              ${streamInfo.format === 'mp3' ? 'MP3' : 'OPUS'}
+              ${isLowLatency ? 'WebSocket' : String(streamInfo.format || 'opus').toUpperCase()}
+            </span>
+            <span class="truncate text-[0.6rem] text-slate-400">
+              Endpoint : ${isLowLatency ? streamInfo.liveSocketPath : streamInfo.path}
             </span>
-            <span class="truncate text-[0.6rem] text-slate-400">Endpoint : ${streamInfo.path}</span>
           </div>
+          ${
+            canUseLowLatency
+              ? html`<button
+                  type="button"
+                  class=${`mt-3 inline-flex items-center gap-2 rounded-full border px-3 py-1 text-[0.65rem] font-semibold uppercase tracking-[0.3em] transition focus:outline-none focus:ring-2 focus:ring-fuchsia-300 ${
+                    isLowLatency
+                      ? 'border-amber-300/50 bg-amber-300/15 text-amber-100'
+                      : 'border-white/10 bg-white/5 text-slate-300 hover:border-white/30 hover:text-white'
+                  }`}
+                  aria-pressed=${isLowLatency ? 'true' : 'false'}
+                  onClick=${toggleLowLatency}
+                  disabled=${isBridgeServerDeafened}
+                >
+                  <${Zap} class="h-3.5 w-3.5" aria-hidden="true" />
+                  Faible latence
+                </button>`
+              : null
+          }
           <div class="mt-4 flex items-center gap-3">
             <button
               type="button"
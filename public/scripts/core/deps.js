@@ -51,6 +51,7 @@ import {
   Minus,
   Send,
   X,
+  Zap,
 } from 'lucide-preact';
 
 const html = htm.bind(h);
@@ -109,4 +110,5 @@ export {
   Minus,
   Send,
   X,
+  Zap,
 };
@@ -0,0 +1,247 @@
+// Player for the low-latency WebSocket stream: Opus packets decoded with WebCodecs
+// (raw PCM when the browser has no AudioDecoder), scheduled back to back on an AudioContext.
+
+const TARGET_BUFFER_S = 0.12;
+const MAX_BUFFER_S = 0.5;
+const STATS_INTERVAL_MS = 2000;
+const RECONNECT_DELAY_MS = 2000;
+
+const getAudioContextClass = () => {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  return window.AudioContext || window.webkitAudioContext || null;
+};
+
+const canDecodeOpus = () => typeof window !== 'undefined' && typeof window.AudioDecoder === 'function';
+
+export const isLiveStreamSupported = () =>
+  typeof window !== 'undefined' && typeof window.WebSocket === 'function' && Boolean(getAudioContextClass());
+
+const buildSocketUrl = (path, codec) => {
+  const url = new URL(path, window.location.href);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  url.searchParams.set('codec', codec);
+  return url.toString();
+};
+
+export const createLiveStreamPlayer = ({ path, onStateChange = () => {}, onLatency = () => {} }) => {
+  const codec = canDecodeOpus() ? 'opus' : 'pcm';
+  let context = null;
+  let gain = null;
+  let socket = null;
+  let decoder = null;
+  let format = null;
+  let nextTime = 0;
+  let statsTimer = null;
+  let reconnectTimer = null;
+  let stopped = true;
+  let volume = 1;
+
+  const setState = (state) => {
+    try {
+      onStateChange(state);
+    } catch (error) {
+      console.warn('Live stream state listener failed', error);
+    }
+  };
+
+  const schedule = (buffer) => {
+    if (!context || !gain) {
+      return;
+    }
+    const now = context.currentTime;
+    if (nextTime < now) {
+      // Underrun: rebuild a small cushion instead of playing every frame late.
+      nextTime = now + TARGET_BUFFER_S;
+    } else if (nextTime - now > MAX_BUFFER_S) {
+      // Too far ahead (tab throttled, burst after a stall): skip to stay close to the room.
+      return;
+    }
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(gain);
+    source.start(nextTime);
+    nextTime += buffer.duration;
+  };
+
+  const handleDecodedAudio = (audioData) => {
+    try {
+      if (!context) {
+        return;
+      }
+      const buffer = context.createBuffer(audioData.numberOfChannels, audioData.numberOfFrames, audioData.sampleRate);
+      for (let channel = 0; channel < audioData.numberOfChannels; channel += 1) {
+        const plane = new Float32Array(audioData.numberOfFrames);
+        audioData.copyTo(plane, { planeIndex: channel, format: 'f32-planar' });
+        buffer.copyToChannel(plane, channel);
+      }
+      schedule(buffer);
+    } finally {
+      audioData.close();
+    }
+  };
+
+  const handlePcm = (payload) => {
+    if (!context || !format) {
+      return;
+    }
+    const channels = format.channels;
+    const samples = new Int16Array(payload.buffer, payload.byteOffset, Math.floor(payload.byteLength / 2));
+    const frameCount = Math.floor(samples.length / channels);
+    if (frameCount === 0) {
+      return;
+    }
+    const buffer = context.createBuffer(channels, frameCount, format.sampleRate);
+    for (let channel = 0; channel < channels; channel += 1) {
+      const plane = buffer.getChannelData(channel);
+      for (let i = 0; i < frameCount; i += 1) {
+        plane[i] = samples[i * channels + channel] / 32768;
+      }
+    }
+    schedule(buffer);
+  };
+
+  const configure = (config) => {
+    format = {
+      codec: config.codec,
+      sampleRate: Number(config.sampleRate) || 48000,
+      channels: Number(config.channels) || 2,
+      frameMs: Number(config.frameMs) || 20,
+      headerBytes: Number(config.headerBytes) || 12,
+    };
+    if (format.codec === 'opus') {
+      decoder = new window.AudioDecoder({
+        output: handleDecodedAudio,
+        error: (error) => console.warn('Live stream decoder error', error),
+      });
+      decoder.configure({ codec: 'opus', sampleRate: format.sampleRate, numberOfChannels: format.channels });
+    }
+    setState('playing');
+  };
+
+  const handleMessage = (event) => {
+    if (typeof event.data === 'string') {
+      try {
+        const message = JSON.parse(event.data);
+        if (message?.type === 'config') {
+          configure(message);
+        } else if (message?.type === 'latency' && Number.isFinite(message.estimatedLatencyMs)) {
+          onLatency(message.estimatedLatencyMs);
+        }
+      } catch (error) {
+        console.warn('Live stream control message parse error', error);
+      }
+      return;
+    }
+
+    if (!format || !(event.data instanceof ArrayBuffer) || event.data.byteLength <= format.headerBytes) {
+      return;
+    }
+    const view = new DataView(event.data);
+    const sequence = view.getUint32(0, true);
+    const payload = new Uint8Array(event.data, format.headerBytes);
+    if (format.codec === 'opus') {
+      if (decoder && decoder.state === 'configured') {
+        decoder.decode(
+          new window.EncodedAudioChunk({ type: 'key', timestamp: sequence * format.frameMs * 1000, data: payload }),
+        );
+      }
+      return;
+    }
+    handlePcm(payload);
+  };
+
+  const sendStats = () => {
+    if (!socket || socket.readyState !== WebSocket.OPEN || !context) {
+      return;
+    }
+    const queuedMs = Math.max(0, nextTime - context.currentTime) * 1000;
+    const outputMs = ((context.outputLatency || 0) + (context.baseLatency || 0)) * 1000;
+    socket.send(JSON.stringify({ type: 'stats', bufferedMs: Math.round(queuedMs + outputMs) }));
+  };
+
+  const closeDecoder = () => {
+    if (decoder && decoder.state !== 'closed') {
+      try {
+        decoder.close();
+      } catch (error) {
+        console.warn('Live stream decoder close failed', error);
+      }
+    }
+    decoder = null;
+    format = null;
+  };
+
+  const connect = () => {
+    socket = new WebSocket(buildSocketUrl(path, codec));
+    socket.binaryType = 'arraybuffer';
+    socket.addEventListener('message', handleMessage);
+    socket.addEventListener('close', () => {
+      closeDecoder();
+      socket = null;
+      if (stopped) {
+        return;
+      }
+      setState('loading');
+      reconnectTimer = window.setTimeout(() => {
+        reconnectTimer = null;
+        if (!stopped) {
+          connect();
+        }
+      }, RECONNECT_DELAY_MS);
+    });
+  };
+
+  const start = async () => {
+    const AudioContextClass = getAudioContextClass();
+    if (!AudioContextClass) {
+      setState('error');
+      return;
+    }
+    stopped = false;
+    setState('loading');
+    context = new AudioContextClass({ latencyHint: 'interactive', sampleRate: 48000 });
+    gain = context.createGain();
+    gain.gain.value = volume;
+    gain.connect(context.destination);
+    if (context.state === 'suspended') {
+      await context.resume();
+    }
+    nextTime = 0;
+    connect();
+    statsTimer = window.setInterval(sendStats, STATS_INTERVAL_MS);
+  };
+
+  const stop = () => {
+    stopped = true;
+    if (statsTimer) {
+      window.clearInterval(statsTimer);
+      statsTimer = null;
+    }
+    if (reconnectTimer) {
+      window.clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    if (socket) {
+      socket.close();
+      socket = null;
+    }
+    closeDecoder();
+    if (context) {
+      context.close().catch((error) => console.warn('Live stream audio context close failed', error));
+      context = null;
+      gain = null;
+    }
+    setState('stopped');
+  };
+
+  const setVolume = (value) => {
+    volume = Math.min(1, Math.max(0, Number(value) || 0));
+    if (gain) {
+      gain.gain.value = volume;
+    }
+  };
+
+  return { start, stop, setVolume };
+};
@@ -38,6 +38,7 @@ const ROUTE_LOADERS = {
   about: () => import('./pages/about.js').then((module) => module?.AboutPage ?? null),
   ban: () => import('./pages/ban.js').then((module) => module?.BanPage ?? null),
   cgu: () => import('./pages/cgu.js').then((module) => module?.CguPage ?? null),
+  clip: () => import('./pages/clip.js').then((module) => module?.ClipPage ?? null),
   'cgv-vente': () =>
     import('./pages/cgv-vente.js').then((module) => module?.CgvVentePage ?? null),
   'mentions-legales': () =>
@@ -478,6 +479,19 @@ const trimListenerHistory = (history, nowTs) => {
 
 
 
+
+// Browsers without Ogg/Opus but with native HLS (older iOS Safari) cope badly with the endless
+// chunked stream; the HLS playlist also lets them pause and rewind.
+const shouldPreferHls = () => {
+  if (typeof document === 'undefined') {
+    return false;
+  }
+  const probe = document.createElement('audio');
+  if (typeof probe.canPlayType !== 'function') {
+    return false;
+  }
+  return probe.canPlayType('audio/ogg; codecs=opus') === '' && probe.canPlayType('application/vnd.apple.mpegurl') !== '';
+};
 
 const App = () => {
   const [status, setStatus] = useState('connecting');
@@ -492,7 +506,7 @@ const App = () => {
   const [isHistoryLoading, setIsHistoryLoading] = useState(true);
   const [selectedWindowMinutes, setSelectedWindowMinutes] = useState(DEFAULT_WINDOW_MINUTES);
   const participantsRef = useRef(new Map());
-  const [streamInfo, setStreamInfo] = useState({ path: '/stream', format: 'opus', mimeType: 'audio/ogg' });
+  const [streamInfo, setStreamInfo] = useState({ path: '/stream', format: 'opus', mimeType: 'audio/ogg', liveSocketPath: null });
   const [lastUpdate, setLastUpdate] = useState(null);
   const [now, setNow] = useState(Date.now());
   const [menuOpen, setMenuOpen] = useState(false);
@@ -509,6 +523,7 @@ const App = () => {
       ? { ...BOOTSTRAP_BRIDGE_STATUS }
       : { serverDeafened: false, selfDeafened: false, updatedAt: Date.now() },
   );
+  const [autopilot, setAutopilot] = useState(null);
   const [asyncPages, setAsyncPages] = useState({});
   const sidebarTouchStartRef = useRef(null);
   const asyncPagesRef = useRef(asyncPages);
@@ -1410,6 +1425,10 @@ const App = () => {
         setAnonymousSlot(normalizeAnonymousSlot(payload.anonymousSlot));
       }
 
+      if (Object.prototype.hasOwnProperty.call(payload, 'autopilot')) {
+        setAutopilot(payload.autopilot?.active ? payload.autopilot : null);
+      }
+
       if (Object.prototype.hasOwnProperty.call(payload, 'bridgeStatus')) {
         const normalizedBridgeStatus = normalizeBootstrapBridgeStatus(payload.bridgeStatus);
         if (normalizedBridgeStatus) {
@@ -1538,10 +1557,21 @@ const App = () => {
     source.addEventListener('info', (event) => {
       try {
         const data = JSON.parse(event.data);
+        const liveSocketPath = typeof data?.liveSocketPath === 'string' ? data.liveSocketPath : null;
+        if (typeof data?.hlsPath === 'string' && shouldPreferHls()) {
+          setStreamInfo({
+            path: data.hlsPath,
+            format: 'hls',
+            mimeType: 'application/vnd.apple.mpegurl',
+            liveSocketPath,
+          });
+          return;
+        }
         setStreamInfo((prev) => ({
           path: data?.path ?? prev.path,
           format: data?.format ?? prev.format,
           mimeType: data?.mimeType ?? prev.mimeType,
+          liveSocketPath,
         }));
       } catch (err) {
         console.error('info event parse error', err);
@@ -1557,6 +1587,15 @@ const App = () => {
       }
     });
 
+    source.addEventListener('autopilot', (event) => {
+      try {
+        const data = JSON.parse(event.data);
+        setAutopilot(data?.active ? data : null);
+      } catch (err) {
+        console.error('autopilot event parse error', err);
+      }
+    });
+
     return () => source.close();
   }, []);
   const speakers = useMemo(() => {
@@ -1882,6 +1921,8 @@ const App = () => {
                 })
               : route.name === 'salons'
               ? renderAsyncPage('salons', { bootstrap: BOOTSTRAP_PAGES.salons ?? null })
+              : route.name === 'clip'
+              ? renderAsyncPage('clip', { params: route.params, bootstrap: BOOTSTRAP_PAGES.clip ?? null })
               : renderAsyncPage('home', {
                   status,
                   streamInfo,
@@ -1898,6 +1939,7 @@ const App = () => {
                   activityPulse: communityPulse,
                   guildSummary,
                   bridgeStatus,
+                  autopilot,
                 })
           }
         </div>
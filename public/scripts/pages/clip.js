@@ -0,0 +1,136 @@
+import { Fragment, html, useEffect, useState, AlertCircle, Clock3, Download, Users } from '../core/deps.js';
+import { formatDateTimeLabel, formatDuration } from '../utils/index.js';
+
+const normalizeClip = (raw) => {
+  if (!raw || typeof raw !== 'object' || typeof raw.id !== 'string') {
+    return null;
+  }
+  return {
+    id: raw.id,
+    title: typeof raw.title === 'string' && raw.title.trim() ? raw.title.trim() : 'Extrait du direct',
+    createdAtMs: Date.parse(raw.createdAt),
+    durationMs: Number(raw.durationMs) || 0,
+    audioUrl: typeof raw.audioUrl === 'string' ? raw.audioUrl : `/api/clips/${encodeURIComponent(raw.id)}/audio`,
+    speakers: Array.isArray(raw.speakers) ? raw.speakers.filter((name) => typeof name === 'string') : [],
+    transcriptions: Array.isArray(raw.transcriptions)
+      ? raw.transcriptions.filter((entry) => entry && typeof entry.content === 'string')
+      : [],
+  };
+};
+
+const formatOffset = (ms) => {
+  const totalSeconds = Math.max(0, Math.floor((Number(ms) || 0) / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  return `${minutes}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+export const ClipPage = ({ params = {}, bootstrap = null } = {}) => {
+  const clipId = typeof params?.clipId === 'string' ? params.clipId : '';
+  const bootstrapClip = normalizeClip(bootstrap?.clip);
+  const [state, setState] = useState(() =>
+    bootstrapClip && bootstrapClip.id === clipId
+      ? { status: 'ready', clip: bootstrapClip, error: null }
+      : { status: 'loading', clip: null, error: null },
+  );
+
+  useEffect(() => {
+    if (state.clip?.id === clipId) {
+      return undefined;
+    }
+    if (!clipId) {
+      setState({ status: 'error', clip: null, error: 'Cet extrait est introuvable.' });
+      return undefined;
+    }
+
+    const controller = typeof AbortController !== 'undefined' ? new AbortController() : null;
+    setState({ status: 'loading', clip: null, error: null });
+
+    const fetchClip = async () => {
+      try {
+        const response = await fetch(`/api/clips/${encodeURIComponent(clipId)}`, { signal: controller?.signal });
+        const body = await response.json().catch(() => null);
+        if (!response.ok) {
+          const message = typeof body?.message === 'string' ? body.message : 'Impossible de charger cet extrait.';
+          setState({ status: 'error', clip: null, error: message });
+          return;
+        }
+        const clip = normalizeClip(body?.clip);
+        setState(
+          clip
+            ? { status: 'ready', clip, error: null }
+            : { status: 'error', clip: null, error: 'Impossible de charger cet extrait.' },
+        );
+      } catch (error) {
+        if (error?.name === 'AbortError') {
+          return;
+        }
+        console.warn('Impossible de charger l’extrait', error);
+        setState({ status: 'error', clip: null, error: 'Impossible de charger cet extrait.' });
+      }
+    };
+
+    fetchClip();
+    return () => controller?.abort();
+  }, [clipId]);
+
+  if (state.status === 'loading') {
+    return html`<div class="flex min-h-[280px] items-center justify-center text-sm text-slate-400">
+      Chargement de l’extrait…
+    </div>`;
+  }
+
+  if (state.status === 'error' || !state.clip) {
+    return html`<section class="flex items-center gap-3 rounded-3xl border border-rose-400/30 bg-rose-500/10 p-6 text-rose-100">
+      <${AlertCircle} class="h-5 w-5 shrink-0" aria-hidden="true" />
+      <p>${state.error ?? 'Cet extrait est introuvable.'}</p>
+    </section>`;
+  }
+
+  const { clip } = state;
+  return html`
+    <${Fragment}>
+      <article class="space-y-6 rounded-3xl border border-white/10 bg-white/5 px-8 py-10 shadow-xl shadow-slate-950/40 backdrop-blur-xl">
+        <p class="text-xs uppercase tracking-[0.35em] text-slate-300">Extrait du direct</p>
+        <h1 class="text-3xl font-bold tracking-tight text-white sm:text-4xl">${clip.title}</h1>
+        <div class="flex flex-wrap gap-4 text-sm text-slate-300">
+          <span class="inline-flex items-center gap-2">
+            <${Clock3} class="h-4 w-4" aria-hidden="true" />
+            ${formatDateTimeLabel(clip.createdAtMs)} · ${formatDuration(clip.durationMs)}
+          </span>
+          ${clip.speakers.length > 0
+            ? html`<span class="inline-flex items-center gap-2">
+                <${Users} class="h-4 w-4" aria-hidden="true" />
+                ${clip.speakers.join(', ')}
+              </span>`
+            : null}
+        </div>
+        <audio class="w-full" controls preload="metadata" src=${clip.audioUrl}></audio>
+        <a
+          class="inline-flex items-center gap-2 rounded-full border border-white/10 bg-white/10 px-4 py-2 text-sm font-medium text-white transition hover:bg-white/20"
+          href=${clip.audioUrl}
+          download=${`libre-antenne-${clip.id}.mp3`}
+        >
+          <${Download} class="h-4 w-4" aria-hidden="true" />
+          Télécharger
+        </a>
+      </article>
+      ${clip.transcriptions.length > 0
+        ? html`<section class="space-y-4 rounded-3xl border border-white/10 bg-white/5 p-6 shadow-xl shadow-slate-950/40 backdrop-blur-xl">
+            <h2 class="text-lg font-semibold text-white">Retranscription</h2>
+            <ol class="space-y-3">
+              ${clip.transcriptions.map(
+                (entry, index) => html`<li key=${`transcription-${index}`} class="flex gap-3 text-sm text-slate-200">
+                  <span class="w-12 shrink-0 font-mono text-xs text-slate-400">${formatOffset(entry.offsetMs)}</span>
+                  <p>
+                    ${entry.displayName ? html`<strong class="text-white">${entry.displayName}</strong> ` : null}
+                    ${entry.content}
+                  </p>
+                </li>`,
+              )}
+            </ol>
+            <p class="text-xs text-slate-400">Retranscription automatique, des erreurs sont possibles.</p>
+          </section>`
+        : null}
+    </${Fragment}>
+  `;
+};
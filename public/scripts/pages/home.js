@@ -138,6 +138,7 @@ const HomePage = ({
   activityPulse = null,
   guildSummary = null,
   bridgeStatus = { serverDeafened: false, selfDeafened: false, updatedAt: Date.now() },
+  autopilot = null,
 }) => {
   const effectiveStatus = bridgeStatus?.serverDeafened ? 'muted' : status;
   const connectedCount = speakers.length;
@@ -333,6 +334,7 @@ const HomePage = ({
       audioKey=${audioKey}
       status=${effectiveStatus}
       bridgeStatus=${bridgeStatus}
+      autopilot=${autopilot}
     />
   </section>
 
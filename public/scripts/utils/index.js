@@ -139,6 +139,10 @@ export const buildRoutePath = (name, params = {}) => {
       const query = searchParams.toString();
       return query ? `${base}?${query}` : base;
     }
+    case 'clip': {
+      const clipId = params.clipId ? String(params.clipId).trim() : '';
+      return clipId ? `/clips/${encodeURIComponent(clipId)}` : '/';
+    }
     default:
       return '/';
   }
@@ -240,6 +244,9 @@ export const parseRouteFromLocation = (location) => {
       },
     };
   }
+  if (head === 'clips' && segments.length > 1) {
+    return { name: 'clip', params: { clipId: decodePathSegment(segments[1]) } };
+  }
   if (head === 'home') {
     return { name: 'home', params: {} };
   }
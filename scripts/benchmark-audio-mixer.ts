@@ -0,0 +1,374 @@
+import { createHash } from 'crypto';
+import { PerformanceObserver, type PerformanceEntry } from 'perf_hooks';
+import type { Writable } from 'stream';
+import AudioMixer from '../src/audio/AudioMixer';
+import PcmRingBuffer from '../src/audio/PcmRingBuffer';
+
+const SCRIPT_NAME = 'benchmark:audio-mixer';
+
+const DEFAULT_SPEAKERS = 24;
+const DEFAULT_SECONDS = 600;
+const SOURCE_BUFFER_FRAMES = 200;
+
+// Same PCM layout as the live mixer (48 kHz, stereo, 16-bit, 20 ms ticks); kept local so the
+// benchmark does not need a bot token to load the configuration.
+const MIX_FRAME_MS = 20;
+const FRAME_BYTES = (48000 * MIX_FRAME_MS / 1000) * 2 * 2;
+
+type CliOptions = {
+  speakers: number;
+  seconds: number;
+};
+
+interface SourceBuffering {
+  push(chunk: Buffer): void;
+  readFrame(): Buffer | null;
+}
+
+interface BenchmarkResult {
+  name: string;
+  wallMs: number;
+  cpuMs: number;
+  gcCount: number;
+  gcPauseMs: number;
+  digest: string;
+}
+
+interface BenchmarkInput {
+  speakers: number;
+  ticks: number;
+  frameBytes: number;
+  pattern: Uint8Array;
+  packets: Buffer[];
+}
+
+interface GcMeasurement {
+  finish(): Promise<Omit<BenchmarkResult, 'name' | 'digest'>>;
+}
+
+function parseCliOptions(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    speakers: DEFAULT_SPEAKERS,
+    seconds: DEFAULT_SECONDS,
+  };
+
+  for (const raw of argv) {
+    if (raw.startsWith('--speakers=')) {
+      const value = Number.parseInt(raw.split('=')[1] ?? '', 10);
+      if (Number.isFinite(value) && value > 0) {
+        options.speakers = value;
+      }
+      continue;
+    }
+
+    if (raw.startsWith('--seconds=')) {
+      const value = Number.parseInt(raw.split('=')[1] ?? '', 10);
+      if (Number.isFinite(value) && value > 0) {
+        options.seconds = value;
+      }
+    }
+  }
+
+  return options;
+}
+
+/**
+ * The buffering strategy AudioMixer used before ring buffers: one `Buffer.concat`
+ * per decoded chunk and one re-slice per mix tick.
+ */
+function createConcatBuffering(frameBytes: number): SourceBuffering {
+  let buffer = Buffer.alloc(0);
+  return {
+    push(chunk) {
+      buffer = Buffer.concat([buffer, chunk]);
+      const maxCapacity = frameBytes * SOURCE_BUFFER_FRAMES;
+      if (buffer.length > maxCapacity) {
+        buffer = buffer.slice(buffer.length - maxCapacity);
+      }
+    },
+    readFrame() {
+      if (buffer.length < frameBytes) {
+        return null;
+      }
+      const frame = buffer.slice(0, frameBytes);
+      buffer = buffer.slice(frameBytes);
+      return frame;
+    },
+  };
+}
+
+function createRingBuffering(frameBytes: number): SourceBuffering {
+  const ring = new PcmRingBuffer(frameBytes * SOURCE_BUFFER_FRAMES);
+  const frame = Buffer.alloc(frameBytes);
+  return {
+    push(chunk) {
+      ring.write(chunk);
+    },
+    readFrame() {
+      return ring.readInto(frame) ? frame : null;
+    },
+  };
+}
+
+/**
+ * Deterministic arrival pattern shared by both runs: Discord delivers one decoded
+ * 20 ms packet per tick most of the time, with occasional late packets arriving
+ * in pairs and a few short pauses between sentences.
+ */
+function createArrivalPattern(speakers: number, ticks: number): Uint8Array {
+  const pattern = new Uint8Array(speakers * ticks);
+  let seed = 0x2545f491;
+  const random = (): number => {
+    seed ^= seed << 13;
+    seed ^= seed >>> 17;
+    seed ^= seed << 5;
+    return (seed >>> 0) / 0x100000000;
+  };
+
+  for (let speaker = 0; speaker < speakers; speaker += 1) {
+    let carry = 0;
+    for (let tick = 0; tick < ticks; tick += 1) {
+      const roll = random();
+      let packets = 1 + carry;
+      carry = 0;
+      if (roll < 0.05) {
+        packets = 0;
+        carry = 1;
+      } else if (roll < 0.08) {
+        packets = 0;
+      }
+      pattern[speaker * ticks + tick] = packets;
+    }
+  }
+
+  return pattern;
+}
+
+function createPackets(speakers: number, frameBytes: number): Buffer[] {
+  return Array.from({ length: speakers }, (_, speaker) => {
+    const packet = Buffer.alloc(frameBytes);
+    for (let offset = 0; offset + 1 < frameBytes; offset += 2) {
+      packet.writeInt16LE(((offset * (speaker + 3)) % 20000) - 10000, offset);
+    }
+    return packet;
+  });
+}
+
+function startMeasurement(): GcMeasurement {
+  const gcEntries: PerformanceEntry[] = [];
+  const observer = new PerformanceObserver((list) => {
+    gcEntries.push(...list.getEntries());
+  });
+
+  const collect = (globalThis as { gc?: () => void }).gc;
+  collect?.();
+
+  observer.observe({ entryTypes: ['gc'] });
+  const cpuBefore = process.cpuUsage();
+  const start = process.hrtime.bigint();
+
+  return {
+    async finish() {
+      const wallMs = Number(process.hrtime.bigint() - start) / 1e6;
+      const cpu = process.cpuUsage(cpuBefore);
+      // GC entries are delivered asynchronously; let them reach the observer before disconnecting.
+      await new Promise((resolve) => setImmediate(resolve));
+      gcEntries.push(...observer.takeRecords());
+      observer.disconnect();
+      return {
+        wallMs,
+        cpuMs: (cpu.user + cpu.system) / 1000,
+        gcCount: gcEntries.length,
+        gcPauseMs: gcEntries.reduce((total, entry) => total + entry.duration, 0),
+      };
+    },
+  };
+}
+
+async function runBenchmark(
+  name: string,
+  factory: (frameBytes: number) => SourceBuffering,
+  { speakers, ticks, frameBytes, pattern, packets }: BenchmarkInput,
+): Promise<BenchmarkResult> {
+  const sources = Array.from({ length: speakers }, () => factory(frameBytes));
+  const hash = createHash('sha1');
+  const measurement = startMeasurement();
+
+  for (let tick = 0; tick < ticks; tick += 1) {
+    for (let speaker = 0; speaker < speakers; speaker += 1) {
+      const source = sources[speaker];
+      for (let count = pattern[speaker * ticks + tick]; count > 0; count -= 1) {
+        source.push(packets[speaker]);
+      }
+
+      const frame = source.readFrame();
+      if (frame) {
+        // Fingerprinting both ends of the frame catches wrap-around mistakes without hashing gigabytes.
+        hash.update(frame.subarray(0, 32));
+        hash.update(frame.subarray(frameBytes - 32));
+      }
+    }
+  }
+
+  return { name, ...(await measurement.finish()), digest: hash.digest('hex') };
+}
+
+/**
+ * Talk spurts of one to five seconds separated by pauses of half a second to three
+ * seconds, per speaker. The Discord bridge adds a source when a member starts
+ * speaking and removes it after they stop, so this is where sources come and go.
+ */
+function createUtterancePattern(speakers: number, ticks: number): Uint8Array {
+  const talking = new Uint8Array(speakers * ticks);
+  let seed = 0x9e3779b9;
+  const random = (): number => {
+    seed ^= seed << 13;
+    seed ^= seed >>> 17;
+    seed ^= seed << 5;
+    return (seed >>> 0) / 0x100000000;
+  };
+  const ticksFor = (minMs: number, maxMs: number): number =>
+    Math.round((minMs + random() * (maxMs - minMs)) / MIX_FRAME_MS);
+
+  for (let speaker = 0; speaker < speakers; speaker += 1) {
+    let tick = ticksFor(0, 3000);
+    while (tick < ticks) {
+      const end = Math.min(ticks, tick + ticksFor(1000, 5000));
+      talking.fill(1, speaker * ticks + tick, speaker * ticks + end);
+      tick = end + ticksFor(500, 3000);
+    }
+  }
+
+  return talking;
+}
+
+/**
+ * Runs the real `AudioMixer` tick by tick with the same talk spurts. With `churn`,
+ * sources are added and removed around every spurt like the bridge does; without,
+ * every speaker keeps its source and simply goes quiet between spurts.
+ */
+async function runMixerBenchmark(
+  name: string,
+  { speakers, ticks, frameBytes, pattern, packets }: BenchmarkInput,
+  utterances: Uint8Array,
+  churn: boolean,
+): Promise<BenchmarkResult> {
+  const hash = createHash('sha1');
+  let written = 0;
+  // A bare sink: a real stream would add its own buffering to the measurement.
+  const sink = {
+    writable: true,
+    write(frame: Buffer): boolean {
+      written += 1;
+      if (written % 50 === 0) {
+        hash.update(frame.subarray(0, 32));
+      }
+      return true;
+    },
+    on: () => sink,
+    removeListener: () => sink,
+  };
+
+  const mixer = new AudioMixer({
+    frameBytes,
+    mixFrameMs: MIX_FRAME_MS,
+    bytesPerSample: 2,
+    sampleRate: 48000,
+    channels: 2,
+  });
+  // Ticks are driven by hand below, so the mixer's own timer never gets a turn.
+  mixer.start();
+  mixer.setOutput(sink as unknown as Writable);
+  const ids = Array.from({ length: speakers }, (_, speaker) => `speaker-${speaker}`);
+  const added = new Uint8Array(speakers);
+  if (!churn) {
+    ids.forEach((id) => mixer.addSource(id));
+    added.fill(1);
+  }
+
+  const measurement = startMeasurement();
+
+  for (let tick = 0; tick < ticks; tick += 1) {
+    for (let speaker = 0; speaker < speakers; speaker += 1) {
+      const id = ids[speaker];
+      const talking = utterances[speaker * ticks + tick] === 1;
+      if (churn && talking && !added[speaker]) {
+        mixer.addSource(id);
+        added[speaker] = 1;
+      } else if (churn && !talking && added[speaker]) {
+        mixer.removeSource(id);
+        added[speaker] = 0;
+      }
+      if (!talking) {
+        continue;
+      }
+
+      for (let count = pattern[speaker * ticks + tick]; count > 0; count -= 1) {
+        mixer.pushToSource(id, packets[speaker]);
+      }
+    }
+
+    mixer['mixFrame']();
+  }
+
+  const result = { name, ...(await measurement.finish()), digest: hash.digest('hex') };
+  mixer.stop();
+  return result;
+}
+
+async function main(): Promise<void> {
+  const options = parseCliOptions(process.argv.slice(2));
+  const frameBytes = FRAME_BYTES;
+  const ticks = Math.round((options.seconds * 1000) / MIX_FRAME_MS);
+  const input = {
+    speakers: options.speakers,
+    ticks,
+    frameBytes,
+    pattern: createArrivalPattern(options.speakers, ticks),
+    packets: createPackets(options.speakers, frameBytes),
+  };
+
+  console.log(
+    `[${SCRIPT_NAME}] ${options.speakers} speakers, ${options.seconds}s of audio (${ticks} ticks of ${frameBytes} bytes)`,
+  );
+
+  const results = [
+    await runBenchmark('Buffer.concat', createConcatBuffering, input),
+    await runBenchmark('PcmRingBuffer', createRingBuffering, input),
+  ];
+  const utterances = createUtterancePattern(options.speakers, ticks);
+  const mixerResults = [
+    await runMixerBenchmark('AudioMixer, steady sources', input, utterances, false),
+    await runMixerBenchmark('AudioMixer, source per utterance', input, utterances, true),
+  ];
+
+  console.table(
+    [...results, ...mixerResults].map((result) => ({
+      strategy: result.name,
+      'wall (ms)': result.wallMs.toFixed(1),
+      'cpu (ms)': result.cpuMs.toFixed(1),
+      'gc events': result.gcCount,
+      'gc pause (ms)': result.gcPauseMs.toFixed(1),
+    })),
+  );
+
+  const [legacy, ring] = results;
+  if (legacy.digest !== ring.digest) {
+    console.error(`[${SCRIPT_NAME}] Both strategies must produce the same frames.`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const [steady, churn] = mixerResults;
+  console.log(
+    `[${SCRIPT_NAME}] Adding and removing sources on every utterance changed GC events by ${churn.gcCount - steady.gcCount} and GC pauses by ${(churn.gcPauseMs - steady.gcPauseMs).toFixed(1)} ms.`,
+  );
+  console.log(
+    `[${SCRIPT_NAME}] Ring buffers used ${(legacy.cpuMs / Math.max(ring.cpuMs, 0.001)).toFixed(1)}x less CPU and triggered ${legacy.gcCount - ring.gcCount} fewer GC events.`,
+  );
+}
+
+main().catch((error) => {
+  console.error(`[${SCRIPT_NAME}] Benchmark failed`, error);
+  process.exitCode = 1;
+});
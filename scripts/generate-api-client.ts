@@ -0,0 +1,406 @@
+import fs from 'fs';
+import path from 'path';
+
+import type {
+  JsonSchema,
+  OpenApiDocument,
+  OpenApiHttpMethod,
+  OpenApiOperation,
+} from '../src/http/openapi/schemaValidator';
+
+const SCRIPT_NAME = 'generate:api-client';
+
+const rootDir = path.resolve(__dirname, '..');
+const specPath = path.join(rootDir, 'docs', 'openapi.json');
+const outputPath = path.join(rootDir, 'src', 'api', 'client.ts');
+
+const HTTP_METHODS: OpenApiHttpMethod[] = ['get', 'post', 'put', 'patch', 'delete'];
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+function logInfo(message: string): void {
+  console.log(`[${SCRIPT_NAME}] ${message}`);
+}
+
+function formatKey(key: string): string {
+  return IDENTIFIER_PATTERN.test(key) ? key : `'${key.replace(/'/g, "\\'")}'`;
+}
+
+function formatDocComment(description: string | undefined, indent: string): string {
+  if (!description) {
+    return '';
+  }
+  return `${indent}/** ${description.replace(/\*\//g, '*\\/').replace(/\s+/g, ' ').trim()} */\n`;
+}
+
+function formatLiteral(value: unknown): string {
+  return typeof value === 'string' ? `'${value.replace(/'/g, "\\'")}'` : JSON.stringify(value);
+}
+
+function schemaToType(schema: JsonSchema | undefined, indent = ''): string {
+  if (!schema) {
+    return 'unknown';
+  }
+
+  if (schema.$ref) {
+    return schema.$ref.replace('#/components/schemas/', '');
+  }
+
+  if (schema.oneOf || schema.anyOf) {
+    const variants = (schema.oneOf ?? schema.anyOf ?? []).map((variant) => schemaToType(variant, indent));
+    return Array.from(new Set(variants)).join(' | ');
+  }
+
+  if (schema.allOf) {
+    return schema.allOf.map((variant) => schemaToType(variant, indent)).join(' & ');
+  }
+
+  if (schema.enum) {
+    return schema.enum.map(formatLiteral).join(' | ');
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  if (types.length === 0) {
+    return schema.properties ? objectToType(schema, indent) : 'unknown';
+  }
+
+  return types
+    .map((type) => {
+      switch (type) {
+        case 'integer':
+        case 'number':
+          return 'number';
+        case 'string':
+        case 'boolean':
+        case 'null':
+          return type;
+        case 'array': {
+          const itemType = schemaToType(schema.items, indent);
+          return /^[\w.]+$/.test(itemType) ? `${itemType}[]` : `Array<${itemType}>`;
+        }
+        case 'object':
+          return objectToType(schema, indent);
+        default:
+          return 'unknown';
+      }
+    })
+    .join(' | ');
+}
+
+function objectToType(schema: JsonSchema, indent: string): string {
+  const properties = Object.entries(schema.properties ?? {});
+  const additional = schema.additionalProperties;
+
+  if (properties.length === 0) {
+    if (additional && typeof additional === 'object') {
+      return `Record<string, ${schemaToType(additional, indent)}>`;
+    }
+    return 'Record<string, unknown>';
+  }
+
+  const required = new Set(schema.required ?? []);
+  const innerIndent = `${indent}  `;
+  const lines = properties.map(([key, propertySchema]) => {
+    const optional = required.has(key) ? '' : '?';
+    return `${formatDocComment(propertySchema.description, innerIndent)}${innerIndent}${formatKey(key)}${optional}: ${schemaToType(
+      propertySchema,
+      innerIndent,
+    )};`;
+  });
+
+  if (additional && typeof additional === 'object') {
+    lines.push(`${innerIndent}[key: string]: unknown;`);
+  }
+
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+function pascalCase(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+interface OperationDescriptor {
+  method: OpenApiHttpMethod;
+  template: string;
+  operation: OpenApiOperation;
+  operationId: string;
+}
+
+function collectOperations(document: OpenApiDocument): OperationDescriptor[] {
+  const descriptors: OperationDescriptor[] = [];
+  for (const [template, pathItem] of Object.entries(document.paths)) {
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!operation) {
+        continue;
+      }
+      if (!operation.operationId) {
+        throw new Error(`Missing operationId for ${method.toUpperCase()} ${template}`);
+      }
+      descriptors.push({ method, template, operation, operationId: operation.operationId });
+    }
+  }
+  return descriptors;
+}
+
+function resolveSuccessResponse(operation: OpenApiOperation): { json: boolean; type: string } {
+  const entries = Object.entries(operation.responses ?? {}).filter(([status]) => /^2\d\d$/.test(status));
+  for (const [, response] of entries) {
+    const jsonSchema = response.content?.['application/json']?.schema;
+    if (jsonSchema) {
+      return { json: true, type: schemaToType(jsonSchema) };
+    }
+  }
+  return { json: false, type: 'Response' };
+}
+
+function renderOperationTypes(descriptor: OperationDescriptor): { paramsType: string | null; declarations: string } {
+  const baseName = pascalCase(descriptor.operationId);
+  const parameters = descriptor.operation.parameters ?? [];
+  const pathParams = parameters.filter((parameter) => parameter.in === 'path');
+  const queryParams = parameters.filter((parameter) => parameter.in === 'query');
+  const bodySchema = descriptor.operation.requestBody?.content?.['application/json']?.schema;
+
+  const members: string[] = [];
+  const renderParams = (list: typeof parameters): string =>
+    `{\n${list
+      .map(
+        (parameter) =>
+          `    ${formatKey(parameter.name)}${parameter.required ? '' : '?'}: ${schemaToType(parameter.schema, '    ')};`,
+      )
+      .join('\n')}\n  }`;
+
+  if (pathParams.length > 0) {
+    members.push(`  path: ${renderParams(pathParams)};`);
+  }
+  if (queryParams.length > 0) {
+    const queryRequired = queryParams.some((parameter) => parameter.required);
+    members.push(`  query${queryRequired ? '' : '?'}: ${renderParams(queryParams)};`);
+  }
+  if (bodySchema) {
+    const bodyRequired = descriptor.operation.requestBody?.required ?? false;
+    members.push(`  body${bodyRequired ? '' : '?'}: ${schemaToType(bodySchema, '  ')};`);
+  }
+
+  if (members.length === 0) {
+    return { paramsType: null, declarations: '' };
+  }
+
+  const typeName = `${baseName}Params`;
+  return {
+    paramsType: typeName,
+    declarations: `export interface ${typeName} {\n${members.join('\n')}\n}\n`,
+  };
+}
+
+function renderMethod(descriptor: OperationDescriptor, paramsType: string | null): string {
+  const { json, type } = resolveSuccessResponse(descriptor.operation);
+  const hasRequiredInput = paramsType !== null
+    && ((descriptor.operation.parameters ?? []).some((parameter) => parameter.in === 'path' || parameter.required)
+      || Boolean(descriptor.operation.requestBody?.required));
+  const paramsSignature = paramsType
+    ? `params: ${paramsType}${hasRequiredInput ? '' : ' = {}'}, `
+    : '';
+  const paramsArgument = paramsType ? 'params' : '{}';
+  const requester = json ? `this.request<${type}>` : 'this.requestRaw';
+  const summary = descriptor.operation.summary
+    ? `  /** ${descriptor.operation.summary} (\`${descriptor.method.toUpperCase()} ${descriptor.template}\`) */\n`
+    : '';
+
+  return `${summary}  public ${descriptor.operationId}(${paramsSignature}options: ApiRequestOptions = {}): Promise<${type}> {
+    return ${requester}('${descriptor.method.toUpperCase()}', '${descriptor.template}', ${paramsArgument}, options);
+  }`;
+}
+
+const RUNTIME = `export interface ApiErrorPayload {
+  error?: string;
+  message?: string;
+  details?: Record<string, string>;
+  retryAt?: string;
+  [key: string]: unknown;
+}
+
+export class ApiError extends Error {
+  public readonly status: number;
+
+  public readonly code: string;
+
+  public readonly details: Record<string, string> | null;
+
+  public readonly payload: ApiErrorPayload | null;
+
+  constructor(status: number, payload: ApiErrorPayload | null) {
+    super(payload?.message ?? \`Request failed with status \${status}\`);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = payload?.error ?? 'HTTP_ERROR';
+    this.details = payload?.details ?? null;
+    this.payload = payload;
+  }
+}
+
+type FetchLike = (input: string, init?: {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+}) => Promise<Response>;
+
+export interface ApiClientOptions {
+  /** Origin of the API, e.g. \`https://libre-antenne.example.com\`. Empty for same-origin calls. */
+  baseUrl?: string;
+  fetch?: FetchLike;
+  headers?: Record<string, string>;
+}
+
+export interface ApiRequestOptions {
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+interface RequestParams {
+  path?: Record<string, string | number>;
+  query?: Record<string, string | number | boolean | null | undefined>;
+  body?: unknown;
+}
+
+function buildUrl(baseUrl: string, template: string, params: RequestParams): string {
+  const pathname = template.replace(/\\{([^}]+)\\}/g, (_match, name: string) => {
+    const value = params.path?.[name];
+    if (value === undefined) {
+      throw new Error(\`Missing path parameter "\${name}" for \${template}\`);
+    }
+    return encodeURIComponent(String(value));
+  });
+
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params.query ?? {})) {
+    if (value !== undefined && value !== null) {
+      search.set(key, String(value));
+    }
+  }
+
+  const query = search.toString();
+  return \`\${baseUrl.replace(/\\/$/, '')}\${pathname}\${query ? \`?\${query}\` : ''}\`;
+}
+
+async function readErrorPayload(response: Response): Promise<ApiErrorPayload | null> {
+  try {
+    return (await response.json()) as ApiErrorPayload;
+  } catch (error) {
+    return null;
+  }
+}
+`;
+
+const CLIENT_HELPERS = `  private readonly baseUrl: string;
+
+  private readonly fetchImpl: FetchLike;
+
+  private readonly defaultHeaders: Record<string, string>;
+
+  constructor({ baseUrl = '', fetch: fetchImpl, headers = {} }: ApiClientOptions = {}) {
+    this.baseUrl = baseUrl;
+    this.fetchImpl = fetchImpl ?? ((input, init) => fetch(input, init));
+    this.defaultHeaders = headers;
+  }
+
+  private async requestRaw(
+    method: string,
+    template: string,
+    params: RequestParams,
+    options: ApiRequestOptions,
+  ): Promise<Response> {
+    const headers: Record<string, string> = { ...this.defaultHeaders, ...options.headers };
+    let body: string | undefined;
+    if (params.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+      body = JSON.stringify(params.body);
+    }
+
+    const response = await this.fetchImpl(buildUrl(this.baseUrl, template, params), {
+      method,
+      headers,
+      body,
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      throw new ApiError(response.status, await readErrorPayload(response));
+    }
+
+    return response;
+  }
+
+  private async request<T>(
+    method: string,
+    template: string,
+    params: RequestParams,
+    options: ApiRequestOptions,
+  ): Promise<T> {
+    const response = await this.requestRaw(method, template, params, {
+      ...options,
+      headers: { Accept: 'application/json', ...options.headers },
+    });
+    return (await response.json()) as T;
+  }
+`;
+
+export function renderClient(document: OpenApiDocument): string {
+  const schemaDeclarations = Object.entries(document.components?.schemas ?? {}).map(
+    ([name, schema]) => `${formatDocComment(schema.description, '')}export type ${name} = ${schemaToType(schema)};\n`,
+  );
+
+  const operations = collectOperations(document);
+  const operationDeclarations: string[] = [];
+  const methods: string[] = [];
+  for (const descriptor of operations) {
+    const { paramsType, declarations } = renderOperationTypes(descriptor);
+    if (declarations) {
+      operationDeclarations.push(declarations);
+    }
+    methods.push(renderMethod(descriptor, paramsType));
+  }
+
+  const title = document.info?.title ?? 'API';
+  const version = document.info?.version ?? '0.0.0';
+
+  return `// Generated by scripts/generate-api-client.ts from docs/openapi.json (${title} ${version}).
+// Do not edit by hand: run \`npm run generate:api-client\` after changing the specification.
+
+${RUNTIME}
+${schemaDeclarations.join('\n')}
+${operationDeclarations.join('\n')}
+export class ApiClient {
+${CLIENT_HELPERS}
+${methods.join('\n\n')}
+}
+
+export function createApiClient(options: ApiClientOptions = {}): ApiClient {
+  return new ApiClient(options);
+}
+`;
+}
+
+function main(): void {
+  const checkOnly = process.argv.includes('--check');
+  const document = JSON.parse(fs.readFileSync(specPath, 'utf8')) as OpenApiDocument;
+  const output = renderClient(document);
+
+  if (checkOnly) {
+    const current = fs.existsSync(outputPath) ? fs.readFileSync(outputPath, 'utf8') : '';
+    if (current !== output) {
+      console.error(`[${SCRIPT_NAME}] ${path.relative(rootDir, outputPath)} is out of date. Run npm run generate:api-client.`);
+      process.exit(1);
+    }
+    logInfo('Client is up to date.');
+    return;
+  }
+
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, output, 'utf8');
+  logInfo(`Wrote ${path.relative(rootDir, outputPath)} (${collectOperations(document).length} operations).`);
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,2252 @@
+// Generated by scripts/generate-api-client.ts from docs/openapi.json (Libre Antenne API 1.0.0).
+// Do not edit by hand: run `npm run generate:api-client` after changing the specification.
+
+export interface ApiErrorPayload {
+  error?: string;
+  message?: string;
+  details?: Record<string, string>;
+  retryAt?: string;
+  [key: string]: unknown;
+}
+
+export class ApiError extends Error {
+  public readonly status: number;
+
+  public readonly code: string;
+
+  public readonly details: Record<string, string> | null;
+
+  public readonly payload: ApiErrorPayload | null;
+
+  constructor(status: number, payload: ApiErrorPayload | null) {
+    super(payload?.message ?? `Request failed with status ${status}`);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = payload?.error ?? 'HTTP_ERROR';
+    this.details = payload?.details ?? null;
+    this.payload = payload;
+  }
+}
+
+type FetchLike = (input: string, init?: {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+}) => Promise<Response>;
+
+export interface ApiClientOptions {
+  /** Origin of the API, e.g. `https://libre-antenne.example.com`. Empty for same-origin calls. */
+  baseUrl?: string;
+  fetch?: FetchLike;
+  headers?: Record<string, string>;
+}
+
+export interface ApiRequestOptions {
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+interface RequestParams {
+  path?: Record<string, string | number>;
+  query?: Record<string, string | number | boolean | null | undefined>;
+  body?: unknown;
+}
+
+function buildUrl(baseUrl: string, template: string, params: RequestParams): string {
+  const pathname = template.replace(/\{([^}]+)\}/g, (_match, name: string) => {
+    const value = params.path?.[name];
+    if (value === undefined) {
+      throw new Error(`Missing path parameter "${name}" for ${template}`);
+    }
+    return encodeURIComponent(String(value));
+  });
+
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params.query ?? {})) {
+    if (value !== undefined && value !== null) {
+      search.set(key, String(value));
+    }
+  }
+
+  const query = search.toString();
+  return `${baseUrl.replace(/\/$/, '')}${pathname}${query ? `?${query}` : ''}`;
+}
+
+async function readErrorPayload(response: Response): Promise<ApiErrorPayload | null> {
+  try {
+    return (await response.json()) as ApiErrorPayload;
+  } catch (error) {
+    return null;
+  }
+}
+
+export type ErrorResponse = {
+  /** Code d'erreur stable. */
+  error: string;
+  /** Message lisible destiné à l'utilisateur. */
+  message: string;
+  /** Informations additionnelles sur l'erreur. */
+  details?: Record<string, string>;
+};
+
+export type RateLimitedErrorResponse = ErrorResponse & {
+  /** Date ISO 8601 à partir de laquelle une nouvelle tentative est autorisée. */
+  retryAt: string;
+};
+
+export type ChatStatusResponse = {
+  /** Nombre de passages indexés dans la base documentaire. */
+  vectorCount: number;
+};
+
+export type ChatCompletionRequest = {
+  /** Message utilisateur adressé au chatbot. */
+  message: string;
+  /** Historique récent de la conversation (10 derniers échanges conservés). */
+  conversation?: Array<{
+    role?: 'user' | 'assistant';
+    content?: string;
+  }>;
+};
+
+export type ChatCompletionResponse = {
+  /** Réponse générée par le chatbot. */
+  answer: string;
+};
+
+export type AboutPageHero = {
+  eyebrow: string;
+  title: string;
+  paragraphs: string[];
+  cta: {
+    label: string;
+    href: string;
+  };
+};
+
+export type AboutPageHighlight = {
+  title: string;
+  body: string;
+};
+
+export type AboutPageContent = {
+  hero: AboutPageHero;
+  highlights: AboutPageHighlight[];
+};
+
+export type ShopProductPrice = {
+  amount: number;
+  /** Code ISO 4217. */
+  currency: string;
+  formatted: string;
+};
+
+export type ShopProductImage = {
+  url: string;
+  alt: string;
+};
+
+export type ShopProduct = {
+  id: string;
+  name: string;
+  description: string;
+  price: ShopProductPrice;
+  includes: string[];
+  shippingEstimate: string;
+  badges: string[];
+  accent: string;
+  accentSoft: string;
+  emoji: string;
+  highlight: boolean;
+  providers: Array<'stripe' | 'coingate' | 'paypal'>;
+  image: ShopProductImage | null;
+  updatedAt: string | null;
+};
+
+export type ShopProductListResponse = {
+  currency: string;
+  products: ShopProduct[];
+};
+
+export type ShopCheckoutRequest = {
+  productId: string;
+  provider: 'stripe' | 'coingate' | 'paypal';
+  successUrl?: string | null;
+  cancelUrl?: string | null;
+  customerEmail?: string | null;
+};
+
+export type ShopCheckoutResponse = {
+  provider: 'stripe' | 'coingate' | 'paypal';
+  url: string;
+  termsUrl: string;
+};
+
+export type AnonymousSlotState = {
+  occupied: boolean;
+  alias: string | null;
+  /** Horodatage Unix ms. */
+  claimedAt: number | null;
+  /** Horodatage Unix ms. */
+  expiresAt: number | null;
+  remainingMs: number | null;
+  connectionPending: boolean;
+  message?: string | null;
+};
+
+export type AnonymousSlotClaimResponse = {
+  token: string;
+  alias: string;
+  expiresAt: number;
+  state: AnonymousSlotState;
+};
+
+export type AnonymousSlotReleaseResponse = {
+  state: AnonymousSlotState;
+};
+
+export type TestBeepResponse = {
+  ok: boolean;
+  written: number;
+};
+
+export type ListenerStatsEntry = {
+  /** Horodatage Unix ms. */
+  timestamp: number;
+  count: number;
+};
+
+export type ListenerStatsResponse = {
+  count: number;
+  history: ListenerStatsEntry[];
+  /** Connexions ouvertes par déclinaison du flux (un auditeur peut en ouvrir plusieurs). Absent des événements temps réel. */
+  renditions?: StreamRenditionListeners[];
+};
+
+export type Room = {
+  id: string;
+  name: string;
+  voiceChannelId: string;
+  /** Le bot du salon est connecté au salon vocal. */
+  connected: boolean;
+  /** Déclinaison principale du flux du salon. */
+  streamPath: string;
+  eventsPath: string;
+  listenersPath: string;
+  renditions: Array<{
+    id: 'opus' | 'mp3' | 'aac';
+    path: string;
+    mimeType: string;
+    bitrate: string;
+  }>;
+  speakers: number;
+  listeners: number;
+};
+
+export type RoomsResponse = {
+  rooms: Room[];
+};
+
+export type DiscordGuildSummary = {
+  id: string;
+  name?: string | null;
+  description?: string | null;
+  iconUrl?: string | null;
+  bannerUrl?: string | null;
+  memberCount?: number | null;
+  approximateMemberCount?: number | null;
+  approximatePresenceCount?: number | null;
+};
+
+export type GuildSummaryResponse = {
+  guild: DiscordGuildSummary;
+};
+
+export type DiscordTextChannelSummary = {
+  id: string;
+  name?: string | null;
+  topic?: string | null;
+  lastMessageId?: string | null;
+  lastMessageAt?: string | null;
+  position: number;
+  parentId?: string | null;
+};
+
+export type TextChannelsResponse = {
+  channels: DiscordTextChannelSummary[];
+  refreshedAt: string | null;
+};
+
+export type DiscordChannelMessageAuthor = {
+  id: string;
+  displayName?: string | null;
+  username?: string | null;
+  avatarUrl?: string | null;
+};
+
+export type DiscordChannelMessage = {
+  id: string;
+  content: string;
+  createdAt: string;
+  author: DiscordChannelMessageAuthor;
+};
+
+export type TextChannelMessagesResponse = {
+  messages: DiscordChannelMessage[];
+  hasMore: boolean;
+  nextCursor: string | null;
+};
+
+export type TextChannelCaptchaResponse = {
+  challenge: {
+    id: string;
+    question: string;
+    expiresAt: string;
+  };
+};
+
+export type TextChannelMessageRequest = {
+  message: string;
+  captchaId: string;
+  captchaAnswer: number | string;
+};
+
+export type TextChannelMessageResponse = {
+  data: DiscordChannelMessage;
+  nextAllowedAt: string;
+};
+
+export type PrivacyDeletionOption = {
+  id: 'private' | 'radio';
+  label: string;
+  description: string;
+};
+
+export type PrivacyDeletionOptionsResponse = {
+  options: PrivacyDeletionOption[];
+};
+
+export type PrivacyCaptchaChallengeResponse = {
+  challenge: {
+    id: string;
+    question: string;
+    expiresAt: string;
+  };
+};
+
+export type PrivacyDeletionRequest = {
+  contactMethod: 'private' | 'radio';
+  message: string;
+  contactHandle?: string | null;
+  profileId?: string | null;
+  profileName?: string | null;
+  captchaId: string;
+  captchaAnswer: number | string;
+};
+
+export type PrivacyDeletionSubmissionResponse = {
+  status: 'SUBMITTED';
+  message: string;
+  nextAllowedAt: string;
+};
+
+export type ListenerMessageRequest = {
+  author?: string | null;
+  text: string;
+  captchaId: string;
+  captchaAnswer: number | string;
+};
+
+export type ListenerMessageSubmissionResponse = {
+  status: 'PENDING';
+  message: string;
+  nextAllowedAt: string;
+};
+
+export type MemberConsent = {
+  userId: string;
+  mix: boolean;
+  transcription: boolean;
+  recording: boolean;
+  persona: boolean;
+  updatedAt: string | null;
+};
+
+export type ConsentCodeRequest = {
+  userId: string;
+};
+
+export type ConsentCodeResponse = {
+  status: 'SENT';
+  message: string;
+  expiresAt: string;
+};
+
+export type ConsentResponse = {
+  consent: MemberConsent;
+};
+
+export type ConsentLookupRequest = {
+  userId: string;
+  code: string;
+};
+
+export type ConsentUpdateRequest = {
+  userId: string;
+  code: string;
+  mix?: boolean;
+  transcription?: boolean;
+  recording?: boolean;
+  persona?: boolean;
+};
+
+export type ConsentUpdateResponse = {
+  consent: MemberConsent;
+  message: string;
+};
+
+export type HomePulseMetric = {
+  id: 'voice' | 'members' | 'messages';
+  label: string;
+  icon: string;
+  iconClass: string;
+  valueLabel: string;
+  valueAccessibleLabel: string;
+  previousLabel: string;
+  changeLabel: string;
+  changeAccessibleLabel: string;
+  percentLabel: string | null;
+  trend: 'up' | 'down' | 'steady';
+  trendLabel: string;
+  trendIcon: string;
+  trendAccentClass: string;
+  description: string;
+};
+
+export type HomePulseData = {
+  generatedAt: string | null;
+  generatedAtLabel: string | null;
+  windowMinutes: number;
+  windowLabel: string;
+  comparisonLabel: string;
+  metrics: HomePulseMetric[];
+};
+
+export type CommunityPulseResponse = {
+  pulse: HomePulseData | null;
+};
+
+export type StatisticsTotals = {
+  totalMembers: number;
+  activeMembers: number;
+  newMembers: number;
+  voiceMinutes: number;
+  messageCount: number;
+  averageConnectedPerHour: number;
+  retentionRate: number | null;
+  growthRate: number | null;
+};
+
+export type StatisticsSeriesPoint = {
+  bucket: string;
+  voiceMinutes: number;
+  messageCount: number;
+  activeMembers: number;
+};
+
+export type StatisticsNewMemberPoint = {
+  bucket: string;
+  count: number;
+};
+
+export type StatisticsTopMemberEntry = {
+  userId: string;
+  displayName: string;
+  username?: string | null;
+  voiceMinutes: number;
+  messageCount: number;
+  activityScore: number;
+};
+
+export type StatisticsChannelActivityEntry = {
+  channelId: string | null;
+  channelName: string | null;
+  voiceMinutes: number;
+  messageCount: number;
+};
+
+export type StatisticsChannelActivity = {
+  voice: StatisticsChannelActivityEntry[];
+  text: StatisticsChannelActivityEntry[];
+};
+
+export type StatisticsRetentionBucket = {
+  windowDays: number;
+  returningUsers: number;
+  totalUsers: number;
+  rate: number | null;
+};
+
+export type StatisticsHeatmapEntry = {
+  source: 'voice' | 'text';
+  dayOfWeek: number;
+  hour: number;
+  value: number;
+};
+
+export type StatisticsHypeHistoryEntry = {
+  bucketStart: string;
+  averageSchScore: number | null;
+  leaderCount: number;
+};
+
+export type CommunityStatisticsSnapshot = {
+  generatedAt: string;
+  timezone: string;
+  totals: StatisticsTotals;
+  newMembers: StatisticsNewMemberPoint[];
+  activitySeries: StatisticsSeriesPoint[];
+  topMembers: StatisticsTopMemberEntry[];
+  channelActivity: StatisticsChannelActivity;
+  retention: StatisticsRetentionBucket[];
+  heatmap: StatisticsHeatmapEntry[];
+  hypeHistory: StatisticsHypeHistoryEntry[];
+  availableChannels: Array<{
+    channelId: string;
+    channelName: string | null;
+    channelType: 'text' | 'voice' | 'unknown';
+    activityScore: number;
+  }>;
+  availableUsers: Array<{
+    userId: string;
+    displayName: string;
+    username?: string | null;
+    avatarUrl?: string | null;
+  }>;
+};
+
+export type StatisticsResponse = {
+  statistics: CommunityStatisticsSnapshot;
+};
+
+export type BlogPostSummary = {
+  slug: string;
+  title: string;
+  date: string | null;
+  updatedAt: string | null;
+  excerpt: string | null;
+  coverImageUrl: string | null;
+  tags: string[];
+  seoDescription: string | null;
+};
+
+export type BlogPostDetail = BlogPostSummary & {
+  contentHtml: string;
+  contentMarkdown: string;
+};
+
+export type BlogPostListResponse = {
+  posts: BlogPostSummary[];
+  tags: string[];
+};
+
+export type BlogPostResponse = {
+  post: BlogPostDetail;
+};
+
+export type BlogSubmissionRequest = {
+  title: string;
+  slug?: string | null;
+  excerpt?: string | null;
+  contentMarkdown: string;
+  coverImageUrl?: string | null;
+  tags?: string[];
+  seoDescription?: string | null;
+};
+
+export type BlogSubmissionResponse = {
+  message: string;
+  article: {
+    slug: string;
+    publishedAt: string;
+  };
+};
+
+export type DailyArticleGenerationResult = {
+  status: 'generated' | 'skipped' | 'failed';
+  slug: string | null;
+  title?: string | null;
+  publishedAt?: string | null;
+  tags?: string[];
+  reason?: string | null;
+  error?: string | null;
+};
+
+export type ManualArticleResponse = {
+  result: DailyArticleGenerationResult;
+  message: string;
+};
+
+export type TemporalMarker = {
+  ms: number;
+  iso: string;
+};
+
+export type VoiceActivityHistoryEntry = {
+  id: string;
+  userId: string;
+  channelId: string | null;
+  guildId: string | null;
+  durationMs: number;
+  startedAt: string;
+  endedAt: string;
+  startedAtMs: number;
+  endedAtMs: number;
+  profile: {
+    displayName: string | null;
+    username: string | null;
+    avatar: string | null;
+  } | null;
+};
+
+export type VoiceActivityHistoryResponse = {
+  segments: VoiceActivityHistoryEntry[];
+};
+
+export type UserProfileSummary = {
+  id: string;
+  displayName: string | null;
+  username: string | null;
+  avatar: string | null;
+  discriminator: string | null;
+  globalName: string | null;
+  bannerUrl: string | null;
+  accentColor: string | null;
+  createdAt: string | null;
+  guild: {
+    id: string;
+    nickname: string | null;
+    displayName: string | null;
+    joinedAt: string | null;
+    roles: Array<{
+      id: string;
+      name: string;
+    }>;
+  } | null;
+};
+
+export type ProfileRange = {
+  since: string;
+  until: string;
+  sinceMs: number;
+  untilMs: number;
+};
+
+export type ProfileSummary = {
+  rangeDurationMs: number;
+  totalPresenceMs: number;
+  totalSpeakingMs: number;
+  messageCount: number;
+  presenceSessions: number;
+  speakingSessions: number;
+  uniqueActiveDays: string[];
+  activeDayCount: number;
+  firstPresenceAt: TemporalMarker | null;
+  lastPresenceAt: TemporalMarker | null;
+  firstSpeakingAt: TemporalMarker | null;
+  lastSpeakingAt: TemporalMarker | null;
+  firstMessageAt: TemporalMarker | null;
+  lastMessageAt: TemporalMarker | null;
+  firstActivityAt: TemporalMarker | null;
+  lastActivityAt: TemporalMarker | null;
+};
+
+export type VoicePresenceSegment = {
+  channelId: string | null;
+  guildId: string | null;
+  joinedAt: string;
+  joinedAtMs: number;
+  leftAt: string | null;
+  leftAtMs: number | null;
+};
+
+export type VoiceSpeakingSegment = {
+  channelId: string | null;
+  guildId: string | null;
+  startedAt: string;
+  startedAtMs: number;
+  durationMs: number;
+  endedAt: string;
+  endedAtMs: number;
+};
+
+export type MessageActivityEntry = {
+  messageId: string;
+  channelId: string | null;
+  guildId: string | null;
+  content: string | null;
+  timestamp: string;
+  timestampMs: number;
+};
+
+export type PersonaInsight = {
+  title: string;
+  detail: string;
+  confidence: 'low' | 'medium' | 'high';
+  evidence?: string[];
+};
+
+export type PersonaProfile = {
+  version: string;
+  summary: string;
+  highlights: PersonaInsight[];
+  identity: {
+    selfDescription: string | null;
+    roles: PersonaInsight[];
+    languages: PersonaInsight[];
+    locations: PersonaInsight[];
+  };
+  interests: PersonaInsight[];
+  expertise: PersonaInsight[];
+  personality: {
+    traits: PersonaInsight[];
+    communication: PersonaInsight[];
+    values: PersonaInsight[];
+  };
+  preferences: {
+    likes: PersonaInsight[];
+    dislikes: PersonaInsight[];
+    collaborationTips: PersonaInsight[];
+    contentFormats: PersonaInsight[];
+  };
+  conversationStarters: PersonaInsight[];
+  lifestyle: PersonaInsight[];
+  notableQuotes: Array<{
+    quote: string;
+    context: string | null;
+    sourceType: 'voice' | 'text';
+    timestamp: string | null;
+  }>;
+  disclaimers: PersonaInsight[];
+};
+
+export type PersonaRecord = {
+  summary: string;
+  data: PersonaProfile;
+  model: string | null;
+  version: string | null;
+  generatedAt: string | null;
+  updatedAt: string | null;
+  lastActivityAt: string | null;
+  voiceSampleCount: number;
+  messageSampleCount: number;
+  inputCharacterCount: number;
+};
+
+export type UserProfileResponse = {
+  profile: UserProfileSummary | null;
+  range: ProfileRange;
+  stats: ProfileSummary;
+  presenceSegments: VoicePresenceSegment[];
+  speakingSegments: VoiceSpeakingSegment[];
+  messageEvents: MessageActivityEntry[];
+  persona: PersonaRecord | null;
+};
+
+export type PersonaGenerationResponse = {
+  status: 'generated' | 'skipped' | 'failed';
+  message: string;
+};
+
+export type RecordingEntry = {
+  id: string;
+  fileName: string;
+  createdAt: string;
+  createdAtMs: number;
+  sizeBytes: number | null;
+  durationMs: number | null;
+  downloadUrl: string;
+  streamUrl: string;
+};
+
+export type RecordingsListResponse = {
+  range: ProfileRange;
+  entries: RecordingEntry[];
+};
+
+export type VoiceTranscriptionEntry = {
+  transcriptionId: string;
+  channelId: string | null;
+  guildId: string | null;
+  content: string | null;
+  timestamp: string;
+  timestampMs: number;
+};
+
+export type VoiceTranscriptionsResponse = {
+  entries: VoiceTranscriptionEntry[];
+  hasMore: boolean;
+  nextCursor: string | null;
+};
+
+export type MemberRecentMessage = {
+  messageId: string;
+  channelId: string | null;
+  guildId: string | null;
+  content: string | null;
+  timestamp: string;
+  timestampMs: number;
+};
+
+export type MemberEntry = {
+  id: string;
+  displayName: string;
+  username: string | null;
+  nickname: string | null;
+  avatarUrl: string | null;
+  joinedAt: string | null;
+  lastSeenAt: string | null;
+  lastActivityAt: string | null;
+  roles: Array<{
+    id: string;
+    name: string;
+  }>;
+  isBot: boolean;
+  voiceMinutes: number;
+  messageCount: number;
+  recentMessages: MemberRecentMessage[];
+};
+
+export type MembersResponse = {
+  members: MemberEntry[];
+  nextCursor: string | null;
+  hasMore: boolean;
+};
+
+export type LeaderboardPositionTrend = {
+  rank: number;
+  previousRank: number | null;
+  delta: number | null;
+  movement: 'up' | 'down' | 'same' | 'new';
+  comparedTo: string | null;
+};
+
+export type HypeLeader = {
+  userId: string;
+  displayName: string;
+  username: string | null;
+  sessions: number;
+  absoluteRank: number;
+  arrivalEffect: number;
+  departureEffect: number;
+  retentionMinutes: number;
+  activityScore: number;
+  schRaw: number;
+  schScoreNorm: number;
+  rank: number;
+  positionTrend: LeaderboardPositionTrend;
+  avatar: string | null;
+  avatarUrl: string | null;
+  profile: {
+    avatar: string | null;
+  } | null;
+};
+
+export type HypeLeaderboardSnapshot = {
+  bucketStart: string;
+  comparedTo: string | null;
+};
+
+export type HypeLeaderboardResponse = {
+  leaders: HypeLeader[];
+  snapshot: HypeLeaderboardSnapshot;
+};
+
+export type StatusResponse = {
+  ffmpeg_pid: number | null;
+  headerBufferBytes: number;
+  activeSpeakers: number;
+  renditions: StreamRenditionStatus[];
+  /** Flux WebSocket faible latence (`/stream/live`) ; `null` s’il est désactivé. */
+  lowLatency: LowLatencyStreamStatus | null;
+};
+
+export type StreamSpeaker = {
+  id: string;
+  username: string;
+  displayName: string;
+  avatar: string;
+  isSpeaking: boolean;
+  startedAt: number | null;
+  lastSpokeAt: number | null;
+  joinedAt: number | null;
+  voiceState: {
+    channelId: string | null;
+    guildId: string | null;
+    deaf: boolean;
+    mute: boolean;
+    selfDeaf: boolean;
+    selfMute: boolean;
+    suppress: boolean;
+    streaming: boolean;
+    video: boolean;
+    displayName: string | null;
+    username: string | null;
+  };
+};
+
+export type BridgeStatus = {
+  serverDeafened: boolean;
+  selfDeafened: boolean;
+  updatedAt: number;
+};
+
+export type StreamInitialState = {
+  speakers: StreamSpeaker[];
+  bridgeStatus: BridgeStatus;
+  anonymousSlot: AnonymousSlotState;
+  listeners: ListenerStatsResponse;
+};
+
+export type StreamRenditionStatus = {
+  id: 'opus' | 'mp3' | 'aac';
+  path: string;
+  mimeType: string;
+  bitrate: string;
+  ffmpegPid: number | null;
+  headerBufferBytes: number;
+  droppedFrames: number;
+  listeners: number;
+};
+
+export type LowLatencyClientStatus = {
+  id: number;
+  codec: 'opus' | 'pcm';
+  connectedAt: string;
+  sentFrames: number;
+  /** Trames sautées parce que la connexion du client était en retard. */
+  droppedFrames: number;
+  /** Audio en attente dans la socket côté serveur. */
+  queuedMs: number;
+  /** Aller-retour du dernier ping WebSocket. */
+  rttMs: number | null;
+  /** Tampon de lecture annoncé par le lecteur. */
+  clientBufferMs: number | null;
+  /** File serveur + moitié de l’aller-retour + tampon du lecteur. */
+  estimatedLatencyMs: number | null;
+};
+
+export type LowLatencyStreamStatus = {
+  clients: number;
+  averageLatencyMs: number | null;
+  details: LowLatencyClientStatus[];
+};
+
+export type StreamRenditionListeners = {
+  id: 'opus' | 'mp3' | 'aac';
+  path: string;
+  count: number;
+};
+
+export type ArchiveSpeaker = {
+  id: string;
+  displayName: string;
+};
+
+export type ArchiveChapter = {
+  startMs: number;
+  endMs: number;
+  title: string;
+  speakers: ArchiveSpeaker[];
+};
+
+export type ArchiveTranscription = {
+  offsetMs: number;
+  durationMs: number;
+  userId: string;
+  displayName: string | null;
+  content: string;
+};
+
+export type ArchiveSummary = {
+  id: string;
+  startedAt: string;
+  endedAt: string | null;
+  durationMs: number;
+  sizeBytes: number;
+  chapterCount: number;
+  speakers: string[];
+  inProgress: boolean;
+  audioUrl: string;
+  downloadUrl: string;
+  chaptersUrl: string;
+};
+
+export type ArchiveDetail = {
+  id: string;
+  mode: 'hourly' | 'show';
+  startedAt: string;
+  endedAt: string | null;
+  durationMs: number;
+  audioFile: string;
+  sizeBytes: number;
+  chapters: ArchiveChapter[];
+  transcriptions: ArchiveTranscription[];
+  audioUrl: string;
+  downloadUrl: string;
+  chaptersUrl: string;
+};
+
+export type ArchivesListResponse = {
+  archives: ArchiveSummary[];
+};
+
+export type ArchiveResponse = {
+  archive: ArchiveDetail;
+};
+
+export type Clip = {
+  id: string;
+  title: string;
+  createdAt: string;
+  startedAt: string;
+  durationMs: number;
+  audioFile: string;
+  sizeBytes: number;
+  requestedBy: string | null;
+  speakers: string[];
+  transcriptions: ArchiveTranscription[];
+  audioUrl: string;
+  pageUrl: string;
+};
+
+export type ClipResponse = {
+  clip: Clip;
+};
+
+export type AdminBlogPost = {
+  /** Identique au slug. */
+  id: string;
+  slug: string;
+  title: string;
+  excerpt: string | null;
+  contentMarkdown: string;
+  coverImageUrl: string | null;
+  tags: string[];
+  seoDescription: string | null;
+  publishedAt: string | null;
+  updatedAt: string | null;
+};
+
+export type AdminBlogPostInput = {
+  /** Ignoré en modification : le slug de l’URL fait foi. */
+  slug?: string | null;
+  title: string;
+  excerpt?: string | null;
+  contentMarkdown: string;
+  coverImageUrl?: string | null;
+  tags?: string[];
+  seoDescription?: string | null;
+  /** Date ISO 8601 ; maintenant par défaut. */
+  publishedAt?: string | null;
+  /** Date ISO 8601 ; maintenant par défaut. */
+  updatedAt?: string | null;
+};
+
+export type AdminBlogPostListResponse = {
+  data: AdminBlogPost[];
+  total: number;
+};
+
+export type AdminBlogPostResponse = {
+  data: AdminBlogPost;
+};
+
+export type AudioSourceControl = {
+  /** Identifiant Discord du membre ou de la source. */
+  id: string;
+  /** Vrai si la source alimente actuellement le mix. */
+  active: boolean;
+  gainDb: number;
+  muted: boolean;
+  solo: boolean;
+};
+
+export type AudioSourceControlsUpdate = {
+  gainDb?: number;
+  muted?: boolean;
+  solo?: boolean;
+};
+
+export type AudioSourceLoudness = {
+  id: string;
+  active: boolean;
+  momentaryLufs: number | null;
+  shortTermLufs: number | null;
+  /** Gain appliqué par la normalisation de sonie. */
+  gainDb: number;
+};
+
+export type AudioSourceStreamStats = {
+  id: string;
+  active: boolean;
+  jitterMs: number;
+  targetDepthMs: number;
+  bufferedMs: number | null;
+  underruns: number;
+  latePackets: number;
+  concealedFrames: number;
+};
+
+export type AudioMixerStats = {
+  mixTicks: number;
+  concealedFrameCount: number;
+  backpressureCount: number;
+  avgActiveSources: number;
+  limiterGainReductionDb: number;
+  limiterMaxGainReductionDb: number;
+  limiterActiveTicks: number;
+  compressorGainReductionDb: number;
+  sourceLoudness: AudioSourceLoudness[];
+  sourceStreams: AudioSourceStreamStats[];
+};
+
+export type AdminAudioSourceListResponse = {
+  data: AudioSourceControl[];
+};
+
+export type AdminAudioSourceResponse = {
+  data: AudioSourceControl;
+};
+
+export type AdminAudioStatsResponse = {
+  data: AudioMixerStats;
+};
+
+export type QueuedAnnouncement = {
+  id: string;
+  kind: 'manual' | 'welcome' | 'scheduled' | 'message';
+  text: string;
+  requestedBy: string | null;
+  queuedAt: string;
+};
+
+export type SpeakingAnnouncement = QueuedAnnouncement & {
+  startedAt: string;
+};
+
+export type TextToSpeechStatus = {
+  engine: string;
+  speaking: SpeakingAnnouncement | null;
+  queue: QueuedAnnouncement[];
+  /** Nombre d’annonces programmées. */
+  scheduled: number;
+  /** Messages d’auditeurs en attente de validation. */
+  pendingMessages: number;
+};
+
+export type ScheduledAnnouncement = {
+  id: string;
+  text: string;
+  everyMinutes: number | null;
+  at: string[];
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ScheduledAnnouncementCreateRequest = {
+  /** Texte lu à l’antenne, limité à TTS_MAX_CHARACTERS caractères (300 par défaut, 1000 au plus). */
+  text: string;
+  everyMinutes?: number | null;
+  at?: string[];
+  enabled?: boolean;
+};
+
+export type ScheduledAnnouncementUpdateRequest = {
+  /** Texte lu à l’antenne, limité à TTS_MAX_CHARACTERS caractères (300 par défaut, 1000 au plus). */
+  text?: string;
+  everyMinutes?: number | null;
+  at?: string[];
+  enabled?: boolean;
+};
+
+export type TextToSpeechSayRequest = {
+  /** Texte lu à l’antenne, limité à TTS_MAX_CHARACTERS caractères (300 par défaut, 1000 au plus). */
+  text: string;
+};
+
+export type ListenerMessage = {
+  id: string;
+  author: string | null;
+  text: string;
+  submittedAt: string;
+};
+
+export type AdminTextToSpeechStatusResponse = {
+  data: TextToSpeechStatus;
+};
+
+export type AdminQueuedAnnouncementResponse = {
+  data: QueuedAnnouncement;
+};
+
+export type AdminScheduledAnnouncementListResponse = {
+  data: ScheduledAnnouncement[];
+};
+
+export type AdminScheduledAnnouncementResponse = {
+  data: ScheduledAnnouncement;
+};
+
+export type AdminListenerMessageListResponse = {
+  data: ListenerMessage[];
+};
+
+export type SoundboardSound = {
+  /** Nom de fichier converti en identifiant. */
+  id: string;
+  label: string;
+  fileName: string;
+  volumeDb: number;
+};
+
+export type SoundboardPlayback = {
+  soundId: string;
+  label: string;
+  startedAt: string;
+  durationMs: number;
+};
+
+export type SoundboardStatus = {
+  sounds: number;
+  playing: SoundboardPlayback | null;
+};
+
+export type SoundboardSoundUpdateRequest = {
+  volumeDb?: number;
+  /** Un libellé vide rétablit le nom du fichier. */
+  label?: string;
+};
+
+export type AdminSoundboardListResponse = {
+  data: SoundboardSound[];
+  status: SoundboardStatus;
+};
+
+export type AdminSoundboardStatusResponse = {
+  data: SoundboardStatus;
+};
+
+export type AdminSoundboardSoundResponse = {
+  data: SoundboardSound;
+};
+
+export type BroadcastDelayStatus = {
+  targetMs: number;
+  /** Délai effectif, inférieur à la cible pendant la reconstruction. */
+  currentMs: number;
+  rebuilding: boolean;
+  jingleLoaded: boolean;
+  dumpCount: number;
+  lastDumpAt: string | null;
+};
+
+export type BroadcastDelayDumpResult = {
+  /** Audio retenu puis supprimé. */
+  droppedMs: number;
+  /** Durée du jingle ou du silence diffusé à la place. */
+  fillMs: number;
+  status: BroadcastDelayStatus;
+};
+
+export type AdminBroadcastDelayResponse = {
+  data: BroadcastDelayStatus;
+};
+
+export type AdminBroadcastDelayDumpResponse = {
+  data: BroadcastDelayDumpResult;
+};
+
+export type ProfanityBleepEntry = {
+  id: string;
+  userId: string;
+  displayName: string | null;
+  guildId: string | null;
+  channelId: string | null;
+  /** Entrée de la liste qui a été reconnue. */
+  word: string;
+  /** Ce que la reconnaissance vocale a entendu. */
+  heard: string;
+  startedAt: string;
+  endedAt: string;
+  loggedAt: string;
+  /** `estimated` quand la fenêtre couverte précède une hypothèse partielle sans horodatage des mots. */
+  timing: 'words' | 'estimated';
+  /** Faux si une partie du mot était déjà diffusée. */
+  covered: boolean;
+};
+
+export type ProfanityFilterStatus = {
+  words: number;
+  totalBleeps: number;
+  lastBleepAt: string | null;
+};
+
+export type AdminBleepListResponse = {
+  data: ProfanityBleepEntry[];
+  status: ProfanityFilterStatus;
+};
+
+export type ClipCreateRequest = {
+  /** Durée à extraire, limitée à CLIP_MAX_SECONDS (CLIP_DEFAULT_SECONDS si absente). */
+  seconds?: number;
+  title?: string | null;
+};
+
+export type AdminClipListResponse = {
+  data: Clip[];
+  total: number;
+  /** Audio disponible pour un nouvel extrait. */
+  bufferedSeconds: number;
+  maxSeconds: number;
+};
+
+export type AdminClipResponse = {
+  data: Clip;
+};
+
+export type AdminClipDeleteResponse = {
+  data: {
+    id: string;
+  };
+};
+
+export type AdminOverview = {
+  timestamp: string;
+  /** État de la génération de l’article quotidien, null si désactivée. */
+  dailyArticle: Record<string, unknown> | null;
+  /** État de la génération des personas. */
+  userPersona: Record<string, unknown>;
+  /** État de chaque relais Icecast, null sans relais configuré. */
+  icecastRelays: Record<string, unknown> | null;
+  broadcastDelay: BroadcastDelayStatus | null;
+  profanityFilter: ProfanityFilterStatus | null;
+  soundboard: SoundboardStatus | null;
+  /** État du pilote automatique, null s’il est désactivé. */
+  autopilot: Record<string, unknown> | null;
+  textToSpeech: TextToSpeechStatus | null;
+};
+
+export type HiddenMember = {
+  /** Identique à userId, pour l’interface d’administration. */
+  id: string;
+  userId: string;
+  /** Note interne sur la raison du masquage. */
+  idea: string | null;
+  hiddenAt: string;
+};
+
+export type HideMemberRequest = {
+  idea?: string | null;
+};
+
+export type AdminHiddenMemberListResponse = {
+  data: HiddenMember[];
+  total: number;
+};
+
+export type AdminHiddenMemberResponse = {
+  data: HiddenMember;
+};
+
+export type AdminUnhideMemberResponse = {
+  data: {
+    id: string;
+  };
+};
+
+export type AdminDailyArticleResponse = {
+  result: DailyArticleGenerationResult;
+};
+
+export interface GetAudioStreamRenditionParams {
+  path: {
+    format: 'opus' | 'mp3' | 'aac';
+  };
+}
+
+export interface GetHlsSegmentParams {
+  path: {
+    segment: string;
+  };
+}
+
+export interface PostChatCompletionParams {
+  body: ChatCompletionRequest;
+}
+
+export interface CreateCheckoutSessionParams {
+  body: ShopCheckoutRequest;
+}
+
+export interface ClaimAnonymousSlotParams {
+  body?: {
+    displayName?: string;
+  };
+}
+
+export interface ReleaseAnonymousSlotParams {
+  query?: {
+    token?: string;
+  };
+}
+
+export interface GetArchiveParams {
+  path: {
+    archiveId: string;
+  };
+}
+
+export interface GetArchiveChaptersParams {
+  path: {
+    archiveId: string;
+  };
+}
+
+export interface GetArchiveAudioParams {
+  path: {
+    archiveId: string;
+  };
+}
+
+export interface DownloadArchiveParams {
+  path: {
+    archiveId: string;
+  };
+}
+
+export interface GetClipParams {
+  path: {
+    clipId: string;
+  };
+}
+
+export interface GetClipAudioParams {
+  path: {
+    clipId: string;
+  };
+}
+
+export interface GetRoomListenersParams {
+  path: {
+    roomId: string;
+  };
+}
+
+export interface SubscribeRoomEventsParams {
+  path: {
+    roomId: string;
+  };
+}
+
+export interface GetRoomAudioStreamRenditionParams {
+  path: {
+    roomId: string;
+    format: 'opus' | 'mp3' | 'aac';
+  };
+}
+
+export interface GetTextChannelMessagesParams {
+  path: {
+    channelId: string;
+  };
+  query?: {
+    before?: string;
+    limit?: number;
+  };
+}
+
+export interface PostTextChannelMessageParams {
+  path: {
+    channelId: string;
+  };
+  body: TextChannelMessageRequest;
+}
+
+export interface CreateTextChannelCaptchaParams {
+  path: {
+    channelId: string;
+  };
+}
+
+export interface SubmitPrivacyDeletionParams {
+  body: PrivacyDeletionRequest;
+}
+
+export interface RequestConsentCodeParams {
+  body: ConsentCodeRequest;
+}
+
+export interface LookupConsentParams {
+  body: ConsentLookupRequest;
+}
+
+export interface UpdateConsentParams {
+  body: ConsentUpdateRequest;
+}
+
+export interface SubmitListenerMessageParams {
+  body: ListenerMessageRequest;
+}
+
+export interface GetCommunityStatisticsParams {
+  query?: {
+    since?: string;
+    until?: string;
+    granularity?: string;
+    activity?: string;
+    channels?: string;
+    userId?: string;
+    userSearch?: string;
+    retention?: string;
+    limitTop?: number;
+    limitChannels?: number;
+    heatmap?: boolean;
+    hype?: boolean;
+  };
+}
+
+export interface ListBlogPostsParams {
+  query?: {
+    search?: string;
+    tag?: string;
+    sort?: 'date' | 'title';
+    order?: 'asc' | 'desc';
+    limit?: number;
+  };
+}
+
+export interface GetBlogPostParams {
+  path: {
+    slug: string;
+  };
+}
+
+export interface SubmitBlogPostParams {
+  body: BlogSubmissionRequest;
+}
+
+export interface GetVoiceActivityHistoryParams {
+  query?: {
+    since?: string;
+    until?: string;
+    limit?: number;
+  };
+}
+
+export interface GetUserProfileAnalyticsParams {
+  path: {
+    userId: string;
+  };
+  query?: {
+    since?: string;
+    until?: string;
+  };
+}
+
+export interface GenerateUserPersonaParams {
+  path: {
+    userId: string;
+  };
+}
+
+export interface ListUserRecordingsParams {
+  path: {
+    userId: string;
+  };
+  query?: {
+    since?: string;
+    until?: string;
+    limit?: number;
+  };
+}
+
+export interface DownloadUserRecordingParams {
+  path: {
+    userId: string;
+    recordingId: string;
+  };
+}
+
+export interface StreamUserRecordingParams {
+  path: {
+    userId: string;
+    recordingId: string;
+  };
+}
+
+export interface ListUserTranscriptionsParams {
+  path: {
+    userId: string;
+  };
+  query?: {
+    limit?: number;
+    cursor?: string;
+  };
+}
+
+export interface ListMembersParams {
+  query?: {
+    limit?: number;
+    after?: string;
+    search?: string;
+    sort?: 'voice' | 'messages';
+  };
+}
+
+export interface GetHypeLeaderboardParams {
+  query?: {
+    limit?: number;
+    search?: string;
+    sortBy?: string;
+    sortOrder?: 'asc' | 'desc';
+    period?: number;
+  };
+}
+
+export interface ListAdminBlogPostsParams {
+  query?: {
+    page?: number;
+    perPage?: number;
+    sort?: string;
+    order?: 'asc' | 'desc' | 'ASC' | 'DESC';
+    filter?: string;
+  };
+}
+
+export interface CreateAdminBlogPostParams {
+  body: AdminBlogPostInput;
+}
+
+export interface GetAdminBlogPostParams {
+  path: {
+    slug: string;
+  };
+}
+
+export interface UpdateAdminBlogPostParams {
+  path: {
+    slug: string;
+  };
+  body: AdminBlogPostInput;
+}
+
+export interface DeleteAdminBlogPostParams {
+  path: {
+    slug: string;
+  };
+}
+
+export interface GetAdminHiddenMemberParams {
+  path: {
+    userId: string;
+  };
+}
+
+export interface HideAdminMemberParams {
+  path: {
+    userId: string;
+  };
+  body?: HideMemberRequest;
+}
+
+export interface UnhideAdminMemberParams {
+  path: {
+    userId: string;
+  };
+}
+
+export interface UpdateAdminAudioSourceParams {
+  path: {
+    userId: string;
+  };
+  body: AudioSourceControlsUpdate;
+}
+
+export interface ResetAdminAudioSourceParams {
+  path: {
+    userId: string;
+  };
+}
+
+export interface UpdateAdminSoundboardSoundParams {
+  path: {
+    soundId: string;
+  };
+  body: SoundboardSoundUpdateRequest;
+}
+
+export interface PlayAdminSoundboardSoundParams {
+  path: {
+    soundId: string;
+  };
+}
+
+export interface ListAdminBleepsParams {
+  query?: {
+    limit?: number;
+  };
+}
+
+export interface SayAdminAnnouncementParams {
+  body: TextToSpeechSayRequest;
+}
+
+export interface CreateAdminScheduledAnnouncementParams {
+  body: ScheduledAnnouncementCreateRequest;
+}
+
+export interface UpdateAdminScheduledAnnouncementParams {
+  path: {
+    announcementId: string;
+  };
+  body: ScheduledAnnouncementUpdateRequest;
+}
+
+export interface DeleteAdminScheduledAnnouncementParams {
+  path: {
+    announcementId: string;
+  };
+}
+
+export interface RejectAdminListenerMessageParams {
+  path: {
+    messageId: string;
+  };
+}
+
+export interface ApproveAdminListenerMessageParams {
+  path: {
+    messageId: string;
+  };
+}
+
+export interface CreateAdminClipParams {
+  body?: ClipCreateRequest;
+}
+
+export interface DeleteAdminClipParams {
+  path: {
+    clipId: string;
+  };
+}
+
+export class ApiClient {
+  private readonly baseUrl: string;
+
+  private readonly fetchImpl: FetchLike;
+
+  private readonly defaultHeaders: Record<string, string>;
+
+  constructor({ baseUrl = '', fetch: fetchImpl, headers = {} }: ApiClientOptions = {}) {
+    this.baseUrl = baseUrl;
+    this.fetchImpl = fetchImpl ?? ((input, init) => fetch(input, init));
+    this.defaultHeaders = headers;
+  }
+
+  private async requestRaw(
+    method: string,
+    template: string,
+    params: RequestParams,
+    options: ApiRequestOptions,
+  ): Promise<Response> {
+    const headers: Record<string, string> = { ...this.defaultHeaders, ...options.headers };
+    let body: string | undefined;
+    if (params.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+      body = JSON.stringify(params.body);
+    }
+
+    const response = await this.fetchImpl(buildUrl(this.baseUrl, template, params), {
+      method,
+      headers,
+      body,
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      throw new ApiError(response.status, await readErrorPayload(response));
+    }
+
+    return response;
+  }
+
+  private async request<T>(
+    method: string,
+    template: string,
+    params: RequestParams,
+    options: ApiRequestOptions,
+  ): Promise<T> {
+    const response = await this.requestRaw(method, template, params, {
+      ...options,
+      headers: { Accept: 'application/json', ...options.headers },
+    });
+    return (await response.json()) as T;
+  }
+
+  /** Obtenir l’état du transcodeur audio (`GET /status`) */
+  public getStreamStatus(options: ApiRequestOptions = {}): Promise<StatusResponse> {
+    return this.request<StatusResponse>('GET', '/status', {}, options);
+  }
+
+  /** Souscrire au flux SSE temps réel (`GET /events`) */
+  public subscribeEvents(options: ApiRequestOptions = {}): Promise<Response> {
+    return this.requestRaw('GET', '/events', {}, options);
+  }
+
+  /** Diffusion audio temps réel (`GET /stream`) */
+  public getAudioStream(options: ApiRequestOptions = {}): Promise<Response> {
+    return this.requestRaw('GET', '/stream', {}, options);
+  }
+
+  /** Diffusion audio dans un format donné (`GET /stream.{format}`) */
+  public getAudioStreamRendition(params: GetAudioStreamRenditionParams, options: ApiRequestOptions = {}): Promise<Response> {
+    return this.requestRaw('GET', '/stream.{format}', params, options);
+  }
+
+  /** Playlist HLS avec fenêtre de réécoute (`GET /hls/playlist.m3u8`) */
+  public getHlsPlaylist(options: ApiRequestOptions = {}): Promise<Response> {
+    return this.requestRaw('GET', '/hls/playlist.m3u8', {}, options);
+  }
+
+  /** Segment audio HLS (`GET /hls/{segment}`) */
+  public getHlsSegment(params: GetHlsSegmentParams, options: ApiRequestOptions = {}): Promise<Response> {
+    return this.requestRaw('GET', '/hls/{segment}', params, options);
+  }
+
+  /** État du corpus conversationnel (`GET /api/chat/status`) */
+  public getChatStatus(options: ApiRequestOptions = {}): Promise<ChatStatusResponse> {
+    return this.request<ChatStatusResponse>('GET', '/api/chat/status', {}, options);
+  }
+
+  /** Générer une réponse contextuelle (`POST /api/chat`) */
+  public postChatCompletion(params: PostChatCompletionParams, options: ApiRequestOptions = {}): Promise<ChatCompletionResponse> {
+    return this.request<ChatCompletionResponse>('POST', '/api/chat', params, options);
+  }
+
+  /** Contenu de la page À propos (`GET /api/pages/about`) */
+  public getAboutPage(options: ApiRequestOptions = {}): Promise<AboutPageContent> {
+    return this.request<AboutPageContent>('GET', '/api/pages/about', {}, options);
+  }
+
+  /** Lister les produits dérivés (`GET /api/shop/products`) */
+  public listShopProducts(options: ApiRequestOptions = {}): Promise<ShopProductListResponse> {
+    return this.request<ShopProductListResponse>('GET', '/api/shop/products', {}, options);
+  }
+
+  /** Initier un paiement (`POST /api/shop/checkout`) */
+  public createCheckoutSession(params: CreateCheckoutSessionParams, options: ApiRequestOptions = {}): Promise<ShopCheckoutResponse> {
+    return this.request<ShopCheckoutResponse>('POST', '/api/shop/checkout', params, options);
+  }
+
+  /** Obtenir l’état du micro anonyme (`GET /anonymous-slot`) */
+  public getAnonymousSlot(options: ApiRequestOptions = {}): Promise<AnonymousSlotState> {
+    return this.request<AnonymousSlotState>('GET', '/anonymous-slot', {}, options);
+  }
+
+  /** Réserver le micro anonyme (`POST /anonymous-slot`) */
+  public claimAnonymousSlot(params: ClaimAnonymousSlotParams = {}, options: ApiRequestOptions = {}): Promise<AnonymousSlotClaimResponse> {
+    return this.request<AnonymousSlotClaimResponse>('POST', '/anonymous-slot', params, options);
+  }
+
+  /** Libérer le micro anonyme (`DELETE /anonymous-slot`) */
+  public releaseAnonymousSlot(params: ReleaseAnonymousSlotParams = {}, options: ApiRequestOptions = {}): Promise<AnonymousSlotReleaseResponse> {
+    return this.request<AnonymousSlotReleaseResponse>('DELETE', '/anonymous-slot', params, options);
+  }
+
+  /** Déclencher un bip de test (`POST /test-beep`) */
+  public postTestBeep(options: ApiRequestOptions = {}): Promise<TestBeepResponse> {
+    return this.request<TestBeepResponse>('POST', '/test-beep', {}, options);
+  }
+
+  /** Statistiques d’écoute (`GET /api/stream/listeners`) */
+  public getStreamListeners(options: ApiRequestOptions = {}): Promise<ListenerStatsResponse> {
+    return this.request<ListenerStatsResponse>('GET', '/api/stream/listeners', {}, options);
+  }
+
+  /** Lister les émissions archivées (`GET /api/archives`) */
+  public listArchives(options: ApiRequestOptions = {}): Promise<ArchivesListResponse> {
+    return this.request<ArchivesListResponse>('GET', '/api/archives', {}, options);
+  }
+
+  /** Détail d’une archive (chapitres et retranscriptions) (`GET /api/archives/{archiveId}`) */
+  public getArchive(params: GetArchiveParams, options: ApiRequestOptions = {}): Promise<ArchiveResponse> {
+    return this.request<ArchiveResponse>('GET', '/api/archives/{archiveId}', params, options);
+  }
+
+  /** Chapitres d’une archive au format WebVTT (`GET /api/archives/{archiveId}/chapters.vtt`) */
+  public getArchiveChapters(params: GetArchiveChaptersParams, options: ApiRequestOptions = {}): Promise<Response> {
+    return this.requestRaw('GET', '/api/archives/{archiveId}/chapters.vtt', params, options);
+  }
+
+  /** Écouter une archive (`GET /api/archives/{archiveId}/audio`) */
+  public getArchiveAudio(params: GetArchiveAudioParams, options: ApiRequestOptions = {}): Promise<Response> {
+    return this.requestRaw('GET', '/api/archives/{archiveId}/audio', params, options);
+  }
+
+  /** Télécharger une archive (`GET /api/archives/{archiveId}/download`) */
+  public downloadArchive(params: DownloadArchiveParams, options: ApiRequestOptions = {}): Promise<Response> {
+    return this.requestRaw('GET', '/api/archives/{archiveId}/download', params, options);
+  }
+
+  /** Détail d’un extrait (intervenants et retranscription) (`GET /api/clips/{clipId}`) */
+  public getClip(params: GetClipParams, options: ApiRequestOptions = {}): Promise<ClipResponse> {
+    return this.request<ClipResponse>('GET', '/api/clips/{clipId}', params, options);
+  }
+
+  /** Écouter un extrait (`GET /api/clips/{clipId}/audio`) */
+  public getClipAudio(params: GetClipAudioParams, options: ApiRequestOptions = {}): Promise<Response> {
+    return this.requestRaw('GET', '/api/clips/{clipId}/audio', params, options);
+  }
+
+  /** Lister les salons diffusés (`GET /api/rooms`) */
+  public listRooms(options: ApiRequestOptions = {}): Promise<RoomsResponse> {
+    return this.request<RoomsResponse>('GET', '/api/rooms', {}, options);
+  }
+
+  /** Statistiques d’écoute d’un salon (`GET /api/rooms/{roomId}/listeners`) */
+  public getRoomListeners(params: GetRoomListenersParams, options: ApiRequestOptions = {}): Promise<ListenerStatsResponse> {
+    return this.request<ListenerStatsResponse>('GET', '/api/rooms/{roomId}/listeners', params, options);
+  }
+
+  /** Souscrire au flux SSE d’un salon (`GET /rooms/{roomId}/events`) */
+  public subscribeRoomEvents(params: SubscribeRoomEventsParams, options: ApiRequestOptions = {}): Promise<Response> {
+    return this.requestRaw('GET', '/rooms/{roomId}/events', params, options);
+  }
+
+  /** Diffusion audio d’un salon dans un format donné (`GET /rooms/{roomId}/stream.{format}`) */
+  public getRoomAudioStreamRendition(params: GetRoomAudioStreamRenditionParams, options: ApiRequestOptions = {}): Promise<Response> {
+    return this.requestRaw('GET', '/rooms/{roomId}/stream.{format}', params, options);
+  }
+
+  /** Résumé du serveur Discord (`GET /api/guild/summary`) */
+  public getGuildSummary(options: ApiRequestOptions = {}): Promise<GuildSummaryResponse> {
+    return this.request<GuildSummaryResponse>('GET', '/api/guild/summary', {}, options);
+  }
+
+  /** Lister les salons textuels accessibles (`GET /api/text-channels`) */
+  public listTextChannels(options: ApiRequestOptions = {}): Promise<TextChannelsResponse> {
+    return this.request<TextChannelsResponse>('GET', '/api/text-channels', {}, options);
+  }
+
+  /** Récupérer l’historique d’un salon (`GET /api/text-channels/{channelId}/messages`) */
+  public getTextChannelMessages(params: GetTextChannelMessagesParams, options: ApiRequestOptions = {}): Promise<TextChannelMessagesResponse> {
+    return this.request<TextChannelMessagesResponse>('GET', '/api/text-channels/{channelId}/messages', params, options);
+  }
+
+  /** Envoyer un message dans un salon (`POST /api/text-channels/{channelId}/messages`) */
+  public postTextChannelMessage(params: PostTextChannelMessageParams, options: ApiRequestOptions = {}): Promise<TextChannelMessageResponse> {
+    return this.request<TextChannelMessageResponse>('POST', '/api/text-channels/{channelId}/messages', params, options);
+  }
+
+  /** Générer un captcha d’envoi (`POST /api/text-channels/{channelId}/captcha`) */
+  public createTextChannelCaptcha(params: CreateTextChannelCaptchaParams, options: ApiRequestOptions = {}): Promise<TextChannelCaptchaResponse> {
+    return this.request<TextChannelCaptchaResponse>('POST', '/api/text-channels/{channelId}/captcha', params, options);
+  }
+
+  /** Lister les canaux de suppression immédiate (`GET /api/privacy/data-deletion/options`) */
+  public listPrivacyDeletionOptions(options: ApiRequestOptions = {}): Promise<PrivacyDeletionOptionsResponse> {
+    return this.request<PrivacyDeletionOptionsResponse>('GET', '/api/privacy/data-deletion/options', {}, options);
+  }
+
+  /** Générer un captcha avant demande de suppression (`POST /api/privacy/data-deletion/captcha`) */
+  public createPrivacyDeletionCaptcha(options: ApiRequestOptions = {}): Promise<PrivacyCaptchaChallengeResponse> {
+    return this.request<PrivacyCaptchaChallengeResponse>('POST', '/api/privacy/data-deletion/captcha', {}, options);
+  }
+
+  /** Transmettre une demande de suppression (`POST /api/privacy/data-deletion`) */
+  public submitPrivacyDeletion(params: SubmitPrivacyDeletionParams, options: ApiRequestOptions = {}): Promise<PrivacyDeletionSubmissionResponse> {
+    return this.request<PrivacyDeletionSubmissionResponse>('POST', '/api/privacy/data-deletion', params, options);
+  }
+
+  /** Recevoir en message privé un code pour gérer son consentement (`POST /api/privacy/consent/code`) */
+  public requestConsentCode(params: RequestConsentCodeParams, options: ApiRequestOptions = {}): Promise<ConsentCodeResponse> {
+    return this.request<ConsentCodeResponse>('POST', '/api/privacy/consent/code', params, options);
+  }
+
+  /** Lire ses choix de consentement (`POST /api/privacy/consent/lookup`) */
+  public lookupConsent(params: LookupConsentParams, options: ApiRequestOptions = {}): Promise<ConsentResponse> {
+    return this.request<ConsentResponse>('POST', '/api/privacy/consent/lookup', params, options);
+  }
+
+  /** Modifier ses choix de consentement (`PUT /api/privacy/consent`) */
+  public updateConsent(params: UpdateConsentParams, options: ApiRequestOptions = {}): Promise<ConsentUpdateResponse> {
+    return this.request<ConsentUpdateResponse>('PUT', '/api/privacy/consent', params, options);
+  }
+
+  /** Générer un captcha avant l’envoi d’un message à lire (`POST /api/messages/captcha`) */
+  public createListenerMessageCaptcha(options: ApiRequestOptions = {}): Promise<PrivacyCaptchaChallengeResponse> {
+    return this.request<PrivacyCaptchaChallengeResponse>('POST', '/api/messages/captcha', {}, options);
+  }
+
+  /** Proposer un message à lire à l’antenne (`POST /api/messages`) */
+  public submitListenerMessage(params: SubmitListenerMessageParams, options: ApiRequestOptions = {}): Promise<ListenerMessageSubmissionResponse> {
+    return this.request<ListenerMessageSubmissionResponse>('POST', '/api/messages', params, options);
+  }
+
+  /** Obtenir le pouls communautaire (`GET /api/community/pulse`) */
+  public getCommunityPulse(options: ApiRequestOptions = {}): Promise<CommunityPulseResponse> {
+    return this.request<CommunityPulseResponse>('GET', '/api/community/pulse', {}, options);
+  }
+
+  /** Tableau de bord chiffré (`GET /api/statistiques`) */
+  public getCommunityStatistics(params: GetCommunityStatisticsParams = {}, options: ApiRequestOptions = {}): Promise<StatisticsResponse> {
+    return this.request<StatisticsResponse>('GET', '/api/statistiques', params, options);
+  }
+
+  /** Lister les articles publiés (`GET /api/blog/posts`) */
+  public listBlogPosts(params: ListBlogPostsParams = {}, options: ApiRequestOptions = {}): Promise<BlogPostListResponse> {
+    return this.request<BlogPostListResponse>('GET', '/api/blog/posts', params, options);
+  }
+
+  /** Consulter un article (`GET /api/blog/posts/{slug}`) */
+  public getBlogPost(params: GetBlogPostParams, options: ApiRequestOptions = {}): Promise<BlogPostResponse> {
+    return this.request<BlogPostResponse>('GET', '/api/blog/posts/{slug}', params, options);
+  }
+
+  /** Publier un article communautaire (`POST /api/blog/submissions`) */
+  public submitBlogPost(params: SubmitBlogPostParams, options: ApiRequestOptions = {}): Promise<BlogSubmissionResponse> {
+    return this.request<BlogSubmissionResponse>('POST', '/api/blog/submissions', params, options);
+  }
+
+  /** Déclencher la génération automatique (`POST /api/blog/manual-generate`) */
+  public triggerManualArticleGeneration(options: ApiRequestOptions = {}): Promise<ManualArticleResponse> {
+    return this.request<ManualArticleResponse>('POST', '/api/blog/manual-generate', {}, options);
+  }
+
+  /** Historique des segments vocaux (`GET /api/voice-activity/history`) */
+  public getVoiceActivityHistory(params: GetVoiceActivityHistoryParams = {}, options: ApiRequestOptions = {}): Promise<VoiceActivityHistoryResponse> {
+    return this.request<VoiceActivityHistoryResponse>('GET', '/api/voice-activity/history', params, options);
+  }
+
+  /** Statistiques détaillées d’un membre (`GET /api/users/{userId}/profile`) */
+  public getUserProfileAnalytics(params: GetUserProfileAnalyticsParams, options: ApiRequestOptions = {}): Promise<UserProfileResponse> {
+    return this.request<UserProfileResponse>('GET', '/api/users/{userId}/profile', params, options);
+  }
+
+  /** Regénérer la fiche persona (`POST /api/users/{userId}/persona/generate`) */
+  public generateUserPersona(params: GenerateUserPersonaParams, options: ApiRequestOptions = {}): Promise<PersonaGenerationResponse> {
+    return this.request<PersonaGenerationResponse>('POST', '/api/users/{userId}/persona/generate', params, options);
+  }
+
+  /** Lister les enregistrements audio d’un membre (`GET /api/users/{userId}/recordings`) */
+  public listUserRecordings(params: ListUserRecordingsParams, options: ApiRequestOptions = {}): Promise<RecordingsListResponse> {
+    return this.request<RecordingsListResponse>('GET', '/api/users/{userId}/recordings', params, options);
+  }
+
+  /** Télécharger un enregistrement audio (`GET /api/users/{userId}/recordings/{recordingId}/download`) */
+  public downloadUserRecording(params: DownloadUserRecordingParams, options: ApiRequestOptions = {}): Promise<Response> {
+    return this.requestRaw('GET', '/api/users/{userId}/recordings/{recordingId}/download', params, options);
+  }
+
+  /** Diffuser un enregistrement audio (`GET /api/users/{userId}/recordings/{recordingId}/stream`) */
+  public streamUserRecording(params: StreamUserRecordingParams, options: ApiRequestOptions = {}): Promise<Response> {
+    return this.requestRaw('GET', '/api/users/{userId}/recordings/{recordingId}/stream', params, options);
+  }
+
+  /** Historique des retranscriptions vocales (`GET /api/users/{userId}/voice-transcriptions`) */
+  public listUserTranscriptions(params: ListUserTranscriptionsParams, options: ApiRequestOptions = {}): Promise<VoiceTranscriptionsResponse> {
+    return this.request<VoiceTranscriptionsResponse>('GET', '/api/users/{userId}/voice-transcriptions', params, options);
+  }
+
+  /** Lister les membres et leurs indicateurs (`GET /api/members`) */
+  public listMembers(params: ListMembersParams = {}, options: ApiRequestOptions = {}): Promise<MembersResponse> {
+    return this.request<MembersResponse>('GET', '/api/members', params, options);
+  }
+
+  /** Classement Hype (`GET /api/voice-activity/hype-leaders`) */
+  public getHypeLeaderboard(params: GetHypeLeaderboardParams = {}, options: ApiRequestOptions = {}): Promise<HypeLeaderboardResponse> {
+    return this.request<HypeLeaderboardResponse>('GET', '/api/voice-activity/hype-leaders', params, options);
+  }
+
+  /** Tableau de bord d’administration (`GET /admin`) */
+  public getAdminOverview(options: ApiRequestOptions = {}): Promise<AdminOverview> {
+    return this.request<AdminOverview>('GET', '/admin', {}, options);
+  }
+
+  /** Lister les articles (administration) (`GET /admin/blog/posts`) */
+  public listAdminBlogPosts(params: ListAdminBlogPostsParams = {}, options: ApiRequestOptions = {}): Promise<AdminBlogPostListResponse> {
+    return this.request<AdminBlogPostListResponse>('GET', '/admin/blog/posts', params, options);
+  }
+
+  /** Créer un article (administration) (`POST /admin/blog/posts`) */
+  public createAdminBlogPost(params: CreateAdminBlogPostParams, options: ApiRequestOptions = {}): Promise<AdminBlogPostResponse> {
+    return this.request<AdminBlogPostResponse>('POST', '/admin/blog/posts', params, options);
+  }
+
+  /** Consulter un article (administration) (`GET /admin/blog/posts/{slug}`) */
+  public getAdminBlogPost(params: GetAdminBlogPostParams, options: ApiRequestOptions = {}): Promise<AdminBlogPostResponse> {
+    return this.request<AdminBlogPostResponse>('GET', '/admin/blog/posts/{slug}', params, options);
+  }
+
+  /** Modifier un article (administration) (`PUT /admin/blog/posts/{slug}`) */
+  public updateAdminBlogPost(params: UpdateAdminBlogPostParams, options: ApiRequestOptions = {}): Promise<AdminBlogPostResponse> {
+    return this.request<AdminBlogPostResponse>('PUT', '/admin/blog/posts/{slug}', params, options);
+  }
+
+  /** Supprimer un article (administration) (`DELETE /admin/blog/posts/{slug}`) */
+  public deleteAdminBlogPost(params: DeleteAdminBlogPostParams, options: ApiRequestOptions = {}): Promise<Response> {
+    return this.requestRaw('DELETE', '/admin/blog/posts/{slug}', params, options);
+  }
+
+  /** Lister les membres masqués (`GET /admin/members/hidden`) */
+  public listAdminHiddenMembers(options: ApiRequestOptions = {}): Promise<AdminHiddenMemberListResponse> {
+    return this.request<AdminHiddenMemberListResponse>('GET', '/admin/members/hidden', {}, options);
+  }
+
+  /** Consulter un membre masqué (`GET /admin/members/hidden/{userId}`) */
+  public getAdminHiddenMember(params: GetAdminHiddenMemberParams, options: ApiRequestOptions = {}): Promise<AdminHiddenMemberResponse> {
+    return this.request<AdminHiddenMemberResponse>('GET', '/admin/members/hidden/{userId}', params, options);
+  }
+
+  /** Masquer la fiche d’un membre (`POST /admin/members/{userId}/hide`) */
+  public hideAdminMember(params: HideAdminMemberParams, options: ApiRequestOptions = {}): Promise<AdminHiddenMemberResponse> {
+    return this.request<AdminHiddenMemberResponse>('POST', '/admin/members/{userId}/hide', params, options);
+  }
+
+  /** Ré-afficher la fiche d’un membre (`DELETE /admin/members/{userId}/hide`) */
+  public unhideAdminMember(params: UnhideAdminMemberParams, options: ApiRequestOptions = {}): Promise<AdminUnhideMemberResponse> {
+    return this.request<AdminUnhideMemberResponse>('DELETE', '/admin/members/{userId}/hide', params, options);
+  }
+
+  /** Lancer la génération de l’article quotidien (`POST /admin/articles/daily`) */
+  public generateAdminDailyArticle(options: ApiRequestOptions = {}): Promise<AdminDailyArticleResponse> {
+    return this.request<AdminDailyArticleResponse>('POST', '/admin/articles/daily', {}, options);
+  }
+
+  /** Lister les réglages des sources du mix (`GET /admin/audio/sources`) */
+  public listAdminAudioSources(options: ApiRequestOptions = {}): Promise<AdminAudioSourceListResponse> {
+    return this.request<AdminAudioSourceListResponse>('GET', '/admin/audio/sources', {}, options);
+  }
+
+  /** Régler le gain, la coupure ou le solo d’une source (`PATCH /admin/audio/sources/{userId}`) */
+  public updateAdminAudioSource(params: UpdateAdminAudioSourceParams, options: ApiRequestOptions = {}): Promise<AdminAudioSourceResponse> {
+    return this.request<AdminAudioSourceResponse>('PATCH', '/admin/audio/sources/{userId}', params, options);
+  }
+
+  /** Réinitialiser les réglages d’une source (`DELETE /admin/audio/sources/{userId}`) */
+  public resetAdminAudioSource(params: ResetAdminAudioSourceParams, options: ApiRequestOptions = {}): Promise<AdminAudioSourceResponse> {
+    return this.request<AdminAudioSourceResponse>('DELETE', '/admin/audio/sources/{userId}', params, options);
+  }
+
+  /** Consulter les statistiques du mixeur (`GET /admin/audio/stats`) */
+  public getAdminAudioStats(options: ApiRequestOptions = {}): Promise<AdminAudioStatsResponse> {
+    return this.request<AdminAudioStatsResponse>('GET', '/admin/audio/stats', {}, options);
+  }
+
+  /** Lister les sons de la boîte à sons (`GET /admin/audio/soundboard`) */
+  public listAdminSoundboardSounds(options: ApiRequestOptions = {}): Promise<AdminSoundboardListResponse> {
+    return this.request<AdminSoundboardListResponse>('GET', '/admin/audio/soundboard', {}, options);
+  }
+
+  /** Arrêter le son en cours (`POST /admin/audio/soundboard/stop`) */
+  public stopAdminSoundboard(options: ApiRequestOptions = {}): Promise<AdminSoundboardStatusResponse> {
+    return this.request<AdminSoundboardStatusResponse>('POST', '/admin/audio/soundboard/stop', {}, options);
+  }
+
+  /** Régler le volume ou le libellé d’un son (`PATCH /admin/audio/soundboard/{soundId}`) */
+  public updateAdminSoundboardSound(params: UpdateAdminSoundboardSoundParams, options: ApiRequestOptions = {}): Promise<AdminSoundboardSoundResponse> {
+    return this.request<AdminSoundboardSoundResponse>('PATCH', '/admin/audio/soundboard/{soundId}', params, options);
+  }
+
+  /** Jouer un son à l’antenne (`POST /admin/audio/soundboard/{soundId}/play`) */
+  public playAdminSoundboardSound(params: PlayAdminSoundboardSoundParams, options: ApiRequestOptions = {}): Promise<AdminSoundboardStatusResponse> {
+    return this.request<AdminSoundboardStatusResponse>('POST', '/admin/audio/soundboard/{soundId}/play', params, options);
+  }
+
+  /** Consulter le délai de diffusion (`GET /admin/audio/delay`) */
+  public getAdminBroadcastDelay(options: ApiRequestOptions = {}): Promise<AdminBroadcastDelayResponse> {
+    return this.request<AdminBroadcastDelayResponse>('GET', '/admin/audio/delay', {}, options);
+  }
+
+  /** Supprimer l’audio retenu par le délai de diffusion (`POST /admin/audio/delay/dump`) */
+  public dumpAdminBroadcastDelay(options: ApiRequestOptions = {}): Promise<AdminBroadcastDelayDumpResponse> {
+    return this.request<AdminBroadcastDelayDumpResponse>('POST', '/admin/audio/delay/dump', {}, options);
+  }
+
+  /** Consulter le journal du filtre de grossièretés (`GET /admin/audio/bleeps`) */
+  public listAdminBleeps(params: ListAdminBleepsParams = {}, options: ApiRequestOptions = {}): Promise<AdminBleepListResponse> {
+    return this.request<AdminBleepListResponse>('GET', '/admin/audio/bleeps', params, options);
+  }
+
+  /** Consulter la voix de synthèse (`GET /admin/tts`) */
+  public getAdminTextToSpeechStatus(options: ApiRequestOptions = {}): Promise<AdminTextToSpeechStatusResponse> {
+    return this.request<AdminTextToSpeechStatusResponse>('GET', '/admin/tts', {}, options);
+  }
+
+  /** Faire lire une annonce (`POST /admin/tts/say`) */
+  public sayAdminAnnouncement(params: SayAdminAnnouncementParams, options: ApiRequestOptions = {}): Promise<AdminQueuedAnnouncementResponse> {
+    return this.request<AdminQueuedAnnouncementResponse>('POST', '/admin/tts/say', params, options);
+  }
+
+  /** Interrompre l’annonce en cours et vider la file (`DELETE /admin/tts/queue`) */
+  public clearAdminTextToSpeechQueue(options: ApiRequestOptions = {}): Promise<AdminTextToSpeechStatusResponse> {
+    return this.request<AdminTextToSpeechStatusResponse>('DELETE', '/admin/tts/queue', {}, options);
+  }
+
+  /** Lister les annonces programmées (`GET /admin/tts/announcements`) */
+  public listAdminScheduledAnnouncements(options: ApiRequestOptions = {}): Promise<AdminScheduledAnnouncementListResponse> {
+    return this.request<AdminScheduledAnnouncementListResponse>('GET', '/admin/tts/announcements', {}, options);
+  }
+
+  /** Programmer une annonce (`POST /admin/tts/announcements`) */
+  public createAdminScheduledAnnouncement(params: CreateAdminScheduledAnnouncementParams, options: ApiRequestOptions = {}): Promise<AdminScheduledAnnouncementResponse> {
+    return this.request<AdminScheduledAnnouncementResponse>('POST', '/admin/tts/announcements', params, options);
+  }
+
+  /** Modifier une annonce programmée (`PATCH /admin/tts/announcements/{announcementId}`) */
+  public updateAdminScheduledAnnouncement(params: UpdateAdminScheduledAnnouncementParams, options: ApiRequestOptions = {}): Promise<AdminScheduledAnnouncementResponse> {
+    return this.request<AdminScheduledAnnouncementResponse>('PATCH', '/admin/tts/announcements/{announcementId}', params, options);
+  }
+
+  /** Supprimer une annonce programmée (`DELETE /admin/tts/announcements/{announcementId}`) */
+  public deleteAdminScheduledAnnouncement(params: DeleteAdminScheduledAnnouncementParams, options: ApiRequestOptions = {}): Promise<Response> {
+    return this.requestRaw('DELETE', '/admin/tts/announcements/{announcementId}', params, options);
+  }
+
+  /** Lister les messages d’auditeurs en attente (`GET /admin/tts/messages`) */
+  public listAdminListenerMessages(options: ApiRequestOptions = {}): Promise<AdminListenerMessageListResponse> {
+    return this.request<AdminListenerMessageListResponse>('GET', '/admin/tts/messages', {}, options);
+  }
+
+  /** Refuser un message d’auditeur (`DELETE /admin/tts/messages/{messageId}`) */
+  public rejectAdminListenerMessage(params: RejectAdminListenerMessageParams, options: ApiRequestOptions = {}): Promise<Response> {
+    return this.requestRaw('DELETE', '/admin/tts/messages/{messageId}', params, options);
+  }
+
+  /** Valider un message d’auditeur (`POST /admin/tts/messages/{messageId}/approve`) */
+  public approveAdminListenerMessage(params: ApproveAdminListenerMessageParams, options: ApiRequestOptions = {}): Promise<AdminQueuedAnnouncementResponse> {
+    return this.request<AdminQueuedAnnouncementResponse>('POST', '/admin/tts/messages/{messageId}/approve', params, options);
+  }
+
+  /** Lister les extraits (`GET /admin/clips`) */
+  public listAdminClips(options: ApiRequestOptions = {}): Promise<AdminClipListResponse> {
+    return this.request<AdminClipListResponse>('GET', '/admin/clips', {}, options);
+  }
+
+  /** Créer un extrait des dernières secondes de l’antenne (`POST /admin/clips`) */
+  public createAdminClip(params: CreateAdminClipParams = {}, options: ApiRequestOptions = {}): Promise<AdminClipResponse> {
+    return this.request<AdminClipResponse>('POST', '/admin/clips', params, options);
+  }
+
+  /** Supprimer un extrait (`DELETE /admin/clips/{clipId}`) */
+  public deleteAdminClip(params: DeleteAdminClipParams, options: ApiRequestOptions = {}): Promise<AdminClipDeleteResponse> {
+    return this.request<AdminClipDeleteResponse>('DELETE', '/admin/clips/{clipId}', params, options);
+  }
+}
+
+export function createApiClient(options: ApiClientOptions = {}): ApiClient {
+  return new ApiClient(options);
+}
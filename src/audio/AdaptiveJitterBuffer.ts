@@ -0,0 +1,233 @@
+import PcmRingBuffer from './PcmRingBuffer';
+
+export interface JitterBufferOptions {
+  minDepthFrames: number;
+  maxDepthFrames: number;
+}
+
+/**
+ * Arrival statistics of one speaker. The mixer keeps this object per user so the
+ * jitter estimate and the counters survive the buffer being recreated for every
+ * utterance.
+ */
+export interface JitterStatistics {
+  jitterMs: number;
+  targetDepthFrames: number;
+  underruns: number;
+  latePackets: number;
+}
+
+export interface AdaptiveJitterBufferOptions extends JitterBufferOptions {
+  frameBytes: number;
+  frameMs: number;
+  bytesPerMs: number;
+  capacityFrames: number;
+  statistics: JitterStatistics;
+  /** Storage to reuse instead of allocating `capacityFrames`; it is cleared first. */
+  ring?: PcmRingBuffer;
+}
+
+export type JitterReadResult = 'frame' | 'underrun' | 'idle';
+
+export const DEFAULT_JITTER_BUFFER_OPTIONS: JitterBufferOptions = {
+  minDepthFrames: 1,
+  maxDepthFrames: 10,
+};
+
+// Target depth covers this many times the smoothed jitter, as most jitter buffers do.
+const JITTER_DEPTH_MULTIPLIER = 3;
+
+// RFC 3550 smoothing factor for the interarrival jitter estimate.
+const JITTER_SMOOTHING = 1 / 16;
+
+// Frames tolerated above the target before the buffer starts catching up.
+const SHRINK_MARGIN_FRAMES = 2;
+
+// Minimum number of ticks between two catch-up merges, to keep them inaudible.
+const SHRINK_INTERVAL_TICKS = 10;
+
+// A starved stream that stays empty this long has simply stopped talking.
+const MAX_UNDERRUN_FRAMES = 10;
+
+// Each underrun raises the depth by one frame; the extra frame is given back after this many clean ticks.
+const UNDERRUN_BOOST_DECAY_TICKS = 250;
+
+export function createJitterStatistics(): JitterStatistics {
+  return { jitterMs: 0, targetDepthFrames: 0, underruns: 0, latePackets: 0 };
+}
+
+/**
+ * Per-source playout buffer that absorbs irregular packet arrival. Playback only
+ * starts once `targetDepthFrames` frames are queued; the target follows the
+ * measured interarrival jitter and grows after underruns. When the queue runs
+ * deeper than needed, two frames are crossfaded into one so latency drops back
+ * without skipping audio.
+ */
+export default class AdaptiveJitterBuffer {
+  private readonly frameBytes: number;
+
+  private readonly frameMs: number;
+
+  private readonly bytesPerMs: number;
+
+  private readonly options: JitterBufferOptions;
+
+  private readonly statistics: JitterStatistics;
+
+  private readonly ring: PcmRingBuffer;
+
+  private readonly spareFrame: Buffer;
+
+  private playing: boolean;
+
+  private draining: boolean;
+
+  private lastArrivalTs: number | null;
+
+  private starvedTicks: number;
+
+  private underrunBoost: number;
+
+  private cleanTicks: number;
+
+  private ticksSinceShrink: number;
+
+  constructor({
+    frameBytes,
+    frameMs,
+    bytesPerMs,
+    capacityFrames,
+    minDepthFrames,
+    maxDepthFrames,
+    statistics,
+    ring,
+  }: AdaptiveJitterBufferOptions) {
+    this.frameBytes = frameBytes;
+    this.frameMs = frameMs;
+    this.bytesPerMs = bytesPerMs;
+    this.options = {
+      minDepthFrames: Math.max(1, minDepthFrames),
+      maxDepthFrames: Math.max(1, minDepthFrames, maxDepthFrames),
+    };
+    this.statistics = statistics;
+    const capacity = frameBytes * Math.max(capacityFrames, this.options.maxDepthFrames * 2);
+    this.ring = ring && ring.capacity >= capacity ? ring : new PcmRingBuffer(capacity);
+    this.ring.clear();
+    this.spareFrame = Buffer.alloc(frameBytes);
+    this.playing = false;
+    this.draining = false;
+    this.lastArrivalTs = null;
+    this.starvedTicks = 0;
+    this.underrunBoost = 0;
+    this.cleanTicks = 0;
+    this.ticksSinceShrink = 0;
+    this.updateTargetDepth();
+  }
+
+  public get bufferedFrames(): number {
+    return this.ring.length / this.frameBytes;
+  }
+
+  /**
+   * While draining, no more packets are expected: what is queued plays out even
+   * below the target depth, and an empty queue is the end of the stream rather
+   * than an underrun to conceal.
+   */
+  public setDraining(draining: boolean): void {
+    this.draining = draining;
+  }
+
+  public push(chunk: Buffer, now = Date.now()): void {
+    if (this.lastArrivalTs !== null) {
+      const deviation = Math.abs(now - this.lastArrivalTs - chunk.length / this.bytesPerMs);
+      this.statistics.jitterMs += (deviation - this.statistics.jitterMs) * JITTER_SMOOTHING;
+    }
+    this.lastArrivalTs = now;
+
+    if (this.playing && this.starvedTicks > 0) {
+      // These packets belong to slots that were already concealed.
+      const lateFrames = Math.min(this.starvedTicks, Math.max(1, Math.ceil(chunk.length / this.frameBytes)));
+      this.statistics.latePackets += lateFrames;
+      this.starvedTicks -= lateFrames;
+      // Counted once the stream resumes, so the silence after the last word is not an underrun.
+      if (this.starvedTicks === 0) {
+        this.statistics.underruns += 1;
+        this.underrunBoost = Math.min(this.underrunBoost + 1, this.options.maxDepthFrames);
+        this.cleanTicks = 0;
+      }
+    }
+
+    this.ring.write(chunk);
+    this.updateTargetDepth();
+  }
+
+  /**
+   * Fills `target` with the next frame to play. `underrun` means the stream is
+   * mid-utterance but starved and should be concealed; `idle` means nothing is
+   * due yet (pre-buffering, or the speaker went quiet).
+   */
+  public read(target: Buffer): JitterReadResult {
+    this.ticksSinceShrink += 1;
+
+    const { targetDepthFrames } = this.statistics;
+    if (!this.playing) {
+      if (this.draining ? this.ring.length < this.frameBytes : this.bufferedFrames < targetDepthFrames) {
+        return 'idle';
+      }
+      this.playing = true;
+    }
+
+    if (this.draining && this.ring.length < this.frameBytes) {
+      this.playing = false;
+      this.starvedTicks = 0;
+      return 'idle';
+    }
+
+    if (!this.ring.readInto(target)) {
+      this.starvedTicks += 1;
+      if (this.starvedTicks > MAX_UNDERRUN_FRAMES) {
+        this.playing = false;
+        this.starvedTicks = 0;
+        // The next packet starts a new talkspurt; the pause says nothing about network jitter.
+        this.lastArrivalTs = null;
+        return 'idle';
+      }
+      return 'underrun';
+    }
+
+    this.cleanTicks += 1;
+    if (this.underrunBoost > 0 && this.cleanTicks >= UNDERRUN_BOOST_DECAY_TICKS) {
+      this.underrunBoost -= 1;
+      this.cleanTicks = 0;
+      this.updateTargetDepth();
+    }
+
+    if (
+      this.bufferedFrames > targetDepthFrames + SHRINK_MARGIN_FRAMES &&
+      this.ticksSinceShrink >= SHRINK_INTERVAL_TICKS &&
+      this.ring.readInto(this.spareFrame)
+    ) {
+      this.mergeFrames(target, this.spareFrame);
+      this.ticksSinceShrink = 0;
+    }
+
+    return 'frame';
+  }
+
+  private mergeFrames(target: Buffer, next: Buffer): void {
+    const samples = this.frameBytes / 2;
+    for (let i = 0; i < samples; i += 1) {
+      const weight = i / samples;
+      const value = target.readInt16LE(i * 2) * (1 - weight) + next.readInt16LE(i * 2) * weight;
+      target.writeInt16LE(Math.round(value), i * 2);
+    }
+  }
+
+  private updateTargetDepth(): void {
+    const jitterFrames = Math.ceil((this.statistics.jitterMs * JITTER_DEPTH_MULTIPLIER) / this.frameMs);
+    this.statistics.targetDepthFrames = Math.min(
+      this.options.maxDepthFrames,
+      Math.max(this.options.minDepthFrames, jitterFrames + this.underrunBoost),
+    );
+  }
+}
@@ -1,3 +1,5 @@
+import type { AudioProcessor } from './AudioProcessor';
+
 export interface AntiCrackleFilterOptions {
   bytesPerSample: number;
   sampleCount: number;
@@ -15,7 +17,7 @@ export interface AntiCrackleFilterOptions {
  * milliseconds instead of instantaneously. This lightweight processor removes
  * the perceivable "pop" without affecting the overall frequency content.
  */
-export default class AntiCrackleFilter {
+export default class AntiCrackleFilter implements AudioProcessor {
   private readonly bytesPerSample: number;
 
   private readonly smoothingSamples: number;
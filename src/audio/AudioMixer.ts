@@ -1,12 +1,83 @@
 import type { Writable } from 'stream';
-import AntiCrackleFilter from './AntiCrackleFilter';
+import AudioProcessorChain, {
+  isAudioProcessorType,
+  type AudioFormat,
+  type AudioProcessorDefinition,
+} from './AudioProcessor';
+import AdaptiveJitterBuffer, {
+  DEFAULT_JITTER_BUFFER_OPTIONS,
+  createJitterStatistics,
+  type JitterStatistics,
+} from './AdaptiveJitterBuffer';
+import PacketLossConcealer from './PacketLossConcealer';
+import PcmRingBuffer from './PcmRingBuffer';
+import VoiceActivityDetector from './VoiceActivityDetector';
+import MasterBusDynamics, {
+  DEFAULT_COMPRESSOR_OPTIONS,
+  DEFAULT_LIMITER_OPTIONS,
+  type CompressorOptions,
+  type LookaheadLimiterOptions,
+} from './MasterBusDynamics';
+import SourceLoudnessNormalizer, {
+  DEFAULT_LOUDNESS_NORMALIZATION_OPTIONS,
+  type LoudnessNormalizationOptions,
+  type SourceLoudnessSnapshot,
+} from './SourceLoudnessNormalizer';
 
 interface SourceEntry {
-  buffer: Buffer;
-  lastFrame: Buffer | null;
+  jitterBuffer: AdaptiveJitterBuffer;
+  ring: PcmRingBuffer;
+  concealer: PacketLossConcealer;
+  frameBuffer: Buffer;
+  voiceActivity: VoiceActivityDetector;
+  processors: AudioProcessorChain;
   lastActiveTs: number;
   envelope: number;
-  consecutiveFallbacks: number;
+  gainDb: number;
+  muted: boolean;
+  solo: boolean;
+  appliedGain: number;
+  /** Set once the speaker stopped: the source is removed as soon as its queue has played out. */
+  draining: boolean;
+  /** False for pre-produced audio, which skips the source chain, loudness normalization and voice activity. */
+  processed: boolean;
+}
+
+export interface AudioSourceOptions {
+  processed?: boolean;
+}
+
+export interface AudioSourceControls {
+  gainDb: number;
+  muted: boolean;
+  solo: boolean;
+}
+
+export interface AudioSourceControlState extends AudioSourceControls {
+  id: string;
+  active: boolean;
+}
+
+export type AudioSourceControlsUpdate = Partial<AudioSourceControls>;
+
+export interface AudioSourceLoudness extends SourceLoudnessSnapshot {
+  id: string;
+  active: boolean;
+}
+
+interface SourceStreamStatistics extends JitterStatistics {
+  concealedFrames: number;
+}
+
+export interface AudioSourceStreamStats {
+  id: string;
+  active: boolean;
+  jitterMs: number;
+  targetDepthMs: number;
+  bufferedMs: number | null;
+  underruns: number;
+  latePackets: number;
+  concealedFrames: number;
 }
 
 interface ReadFrameResult {
@@ -16,17 +87,57 @@ interface ReadFrameResult {
 
 export interface AudioMixerStats {
   mixTicks: number;
-  useLastFrameCount: number;
+  concealedFrameCount: number;
   backpressureCount: number;
   avgActiveSources: number;
+  limiterGainReductionDb: number;
+  limiterMaxGainReductionDb: number;
+  limiterActiveTicks: number;
+  compressorGainReductionDb: number;
+  sourceLoudness: AudioSourceLoudness[];
+  sourceStreams: AudioSourceStreamStats[];
 }
 
+type AudioMixerCounters = Omit<AudioMixerStats, 'sourceLoudness' | 'sourceStreams'>;
+
+export const MIN_SOURCE_GAIN_DB = -60;
+
+export const MAX_SOURCE_GAIN_DB = 12;
+
 export interface AudioMixerOptions {
   frameBytes: number;
   mixFrameMs: number;
   bytesPerSample: number;
+  sampleRate: number;
+  channels: number;
+  limiter?: LookaheadLimiterOptions;
+  compressor?: CompressorOptions;
+  loudness?: LoudnessNormalizationOptions;
+  sourceProcessors?: AudioProcessorDefinition[];
+  masterProcessors?: AudioProcessorDefinition[];
 }
 
+export const DEFAULT_MASTER_PROCESSORS: AudioProcessorDefinition[] = [{ type: 'anticrackle', params: {} }];
+
+// Hard cap of the per-source queue: four seconds of audio at the default 20 ms frame size.
+const SOURCE_BUFFER_FRAMES = 200;
+
+// Per-user detector, AGC and statistics are forgotten after this long without speaking,
+// and beyond this many silent users, so a long-running bot does not keep everyone it ever heard.
+const IDLE_SOURCE_STATE_TTL_MS = 30 * 60 * 1000;
+const MAX_IDLE_SOURCE_STATES = 200;
+// The mix tick checks for expired idle state this often, so it is also dropped when nobody speaks again.
+const IDLE_SOURCE_STATE_PRUNE_INTERVAL_MS = 60 * 1000;
+
+// Queues of removed sources kept for the next utterances; beyond this they are left to the GC.
+const MAX_IDLE_SOURCE_BUFFERS = 16;
+
+// Reductions below this are rounding noise from the release curve, not limiting.
+const LIMITER_ACTIVE_THRESHOLD_DB = 0.1;
+
+// Ducking moves over this long, so speakers dip under an announcement without a jump.
+const DUCKING_RAMP_MS = 150;
+
 export default class AudioMixer {
   private readonly frameBytes: number;
 
@@ -38,6 +149,35 @@ export default class AudioMixer {
 
   private readonly sources: Map<string, SourceEntry>;
 
+  // Speakers are added and removed on every utterance, so moderator settings outlive SourceEntry.
+  private readonly sourceControls = new Map<string, AudioSourceControls>();
+
+  // AGC state is kept per user for the same reason, so a quiet speaker is not reset to unity each sentence.
+  private readonly loudnessNormalizers = new Map<string, SourceLoudnessNormalizer>();
+
+  private readonly streamStatistics = new Map<string, SourceStreamStatistics>();
+
+  // Kept per user so the adaptive noise floor does not have to be relearnt at every utterance.
+  private readonly voiceActivityDetectors = new Map<string, VoiceActivityDetector>();
+
+  // Each queue is several hundred kilobytes and speakers come and go with every utterance, so they are recycled.
+  private readonly idleSourceBuffers: PcmRingBuffer[] = [];
+
+  // When each removed source stopped, oldest first.
+  private readonly idleSourceStates = new Map<string, number>();
+
+  private lastIdleSourceStatePruneTs = 0;
+
+  private readonly voiceActivityListeners = new Set<(id: string, speaking: boolean) => void>();
+
+  private readonly controlListeners = new Set<(state: AudioSourceControlState[]) => void>();
+
+  private duckOwnerId: string | null = null;
+
+  private duckTarget = 1;
+
+  private duckGain = 1;
+
   private timer: NodeJS.Timeout | null;
 
   private output: Writable | null;
@@ -48,13 +188,9 @@ export default class AudioMixer {
 
   private pausedForBackpressure: boolean;
 
-  private readonly nullFrame: Buffer;
-
   private readonly mixedFloat: Float32Array;
 
-  public readonly stats: AudioMixerStats;
-
-  private readonly ACTIVE_RMS_THRESHOLD: number;
+  public readonly stats: AudioMixerCounters;
 
   private readonly FADE_FRAMES: number;
 
@@ -62,13 +198,39 @@ export default class AudioMixer {
 
   private readonly MAX_PLC_FRAMES: number;
 
-  private readonly antiCrackleFilter: AntiCrackleFilter;
+  private readonly format: AudioFormat;
+
+  private readonly sourceProcessors: AudioProcessorDefinition[];
+
+  private readonly masterChain: AudioProcessorChain;
+
+  private readonly dynamics: MasterBusDynamics;
 
-  constructor({ frameBytes, mixFrameMs, bytesPerSample }: AudioMixerOptions) {
+  private readonly sampleRate: number;
+
+  private readonly channels: number;
+
+  private readonly loudnessOptions: LoudnessNormalizationOptions;
+
+  constructor({
+    frameBytes,
+    mixFrameMs,
+    bytesPerSample,
+    sampleRate,
+    channels,
+    limiter = DEFAULT_LIMITER_OPTIONS,
+    compressor = DEFAULT_COMPRESSOR_OPTIONS,
+    loudness = DEFAULT_LOUDNESS_NORMALIZATION_OPTIONS,
+    sourceProcessors = [],
+    masterProcessors = DEFAULT_MASTER_PROCESSORS,
+  }: AudioMixerOptions) {
     this.frameBytes = frameBytes;
     this.mixFrameMs = mixFrameMs;
     this.bytesPerSample = bytesPerSample;
     this.sampleCount = this.frameBytes / this.bytesPerSample;
+    this.sampleRate = sampleRate;
+    this.channels = channels;
+    this.loudnessOptions = loudness;
 
     this.sources = new Map();
     this.timer = null;
@@ -77,25 +239,33 @@ export default class AudioMixer {
     this.running = false;
     this.pausedForBackpressure = false;
 
-    this.nullFrame = Buffer.alloc(this.frameBytes);
     this.mixedFloat = new Float32Array(this.sampleCount);
 
     this.stats = {
       mixTicks: 0,
-      useLastFrameCount: 0,
+      concealedFrameCount: 0,
       backpressureCount: 0,
       avgActiveSources: 0,
+      limiterGainReductionDb: 0,
+      limiterMaxGainReductionDb: 0,
+      limiterActiveTicks: 0,
+      compressorGainReductionDb: 0,
     };
 
-    this.ACTIVE_RMS_THRESHOLD = 0.002;
     this.FADE_FRAMES = 2;
     this.fadeIncrement = this.FADE_FRAMES > 0 ? 1 / this.FADE_FRAMES : 1;
     this.MAX_PLC_FRAMES = 5;
 
-    this.antiCrackleFilter = new AntiCrackleFilter({
-      bytesPerSample: this.bytesPerSample,
-      sampleCount: this.sampleCount,
-    });
+    this.format = { sampleRate, channels, bytesPerSample, sampleCount: this.sampleCount };
+    // Source chains are only built when someone speaks, so a typo would otherwise surface much later.
+    const unknownProcessor = sourceProcessors.find((definition) => !isAudioProcessorType(definition.type));
+    if (unknownProcessor) {
+      throw new Error(`Unknown audio processor "${unknownProcessor.type}"`);
+    }
+    this.sourceProcessors = sourceProcessors;
+    this.masterChain = new AudioProcessorChain(masterProcessors, this.format);
+
+    this.dynamics = new MasterBusDynamics({ sampleRate, channels, limiter, compressor });
   }
 
   public setOutput(writable: Writable | null): void {
@@ -116,77 +286,318 @@ export default class AudioMixer {
       this.output.on('drain', this.outputDrainListener);
     } else {
       this.outputDrainListener = null;
-      this.antiCrackleFilter.reset();
+      this.masterChain.reset();
+      this.dynamics.reset();
     }
 
     this.ensureMixLoop();
   }
 
-  public addSource(id: string): void {
-    if (!this.sources.has(id)) {
+  public addSource(id: string, { processed = true }: AudioSourceOptions = {}): void {
+    const existing = this.sources.get(id);
+    if (existing?.draining) {
+      // Speaking again before the tail played out: carry on with the same queue.
+      existing.draining = false;
+      existing.jitterBuffer.setDraining(false);
+    }
+    this.idleSourceStates.delete(id);
+    if (!existing) {
+      const controls = this.sourceControls.get(id);
+      const gainDb = controls?.gainDb ?? 0;
+      const normalizer = this.getLoudnessNormalizer(id);
+      const ring = this.idleSourceBuffers.pop() ?? new PcmRingBuffer(this.frameBytes * SOURCE_BUFFER_FRAMES);
       this.sources.set(id, {
-        buffer: Buffer.alloc(0),
-        lastFrame: null,
+        jitterBuffer: new AdaptiveJitterBuffer({
+          ...DEFAULT_JITTER_BUFFER_OPTIONS,
+          frameBytes: this.frameBytes,
+          frameMs: this.mixFrameMs,
+          bytesPerMs: this.frameBytes / this.mixFrameMs,
+          capacityFrames: SOURCE_BUFFER_FRAMES,
+          statistics: this.getStreamStatistics(id),
+          ring,
+        }),
+        ring,
+        concealer: new PacketLossConcealer({
+          sampleRate: this.sampleRate,
+          channels: this.channels,
+          frameBytes: this.frameBytes,
+          maxConcealedFrames: this.MAX_PLC_FRAMES,
+        }),
+        frameBuffer: Buffer.alloc(this.frameBytes),
+        voiceActivity: this.getVoiceActivityDetector(id),
+        processors: new AudioProcessorChain(this.sourceProcessors, this.format),
         lastActiveTs: 0,
         envelope: 0,
-        consecutiveFallbacks: 0,
+        gainDb,
+        muted: controls?.muted ?? false,
+        solo: controls?.solo ?? false,
+        appliedGain: controls?.muted ? 0 : this.dbToLinear(gainDb) * (processed ? normalizer.getGain() : 1),
+        draining: false,
+        processed,
       });
     }
   }
 
   public removeSource(id: string): void {
+    const entry = this.sources.get(id);
     this.sources.delete(id);
+    if (entry) {
+      this.idleSourceStates.delete(id);
+      this.idleSourceStates.set(id, Date.now());
+      this.pruneIdleSourceStates();
+    }
+    if (entry && this.idleSourceBuffers.length < MAX_IDLE_SOURCE_BUFFERS) {
+      entry.ring.clear();
+      this.idleSourceBuffers.push(entry.ring);
+    }
+    if (entry?.voiceActivity.isSpeaking()) {
+      entry.voiceActivity.reset();
+      this.notifyVoiceActivity(id, false);
+    }
   }
 
-  public pushToSource(id: string, chunk: Buffer): void {
+  private pruneIdleSourceStates(now = Date.now()): void {
+    this.lastIdleSourceStatePruneTs = now;
+    for (const [id, idleSince] of this.idleSourceStates) {
+      if (now - idleSince < IDLE_SOURCE_STATE_TTL_MS && this.idleSourceStates.size <= MAX_IDLE_SOURCE_STATES) {
+        break;
+      }
+      this.idleSourceStates.delete(id);
+      this.voiceActivityDetectors.delete(id);
+      this.loudnessNormalizers.delete(id);
+      this.streamStatistics.delete(id);
+    }
+  }
+
+  /**
+   * Removes the source once the audio already queued has played out. Discord reports
+   * the end of speech before the jitter buffer is empty, so removing it at once would
+   * cut off the last words.
+   */
+  public drainSource(id: string): void {
     const entry = this.sources.get(id);
     if (!entry) {
       return;
     }
+    // Without a running mix loop nothing would ever read the queue.
+    if (!this.running || !this.output) {
+      this.removeSource(id);
+      return;
+    }
+    entry.draining = true;
+    entry.jitterBuffer.setDraining(true);
+  }
 
-    entry.buffer = Buffer.concat([entry.buffer, chunk]);
-    const maxCapacity = this.frameBytes * 200;
-    if (entry.buffer.length > maxCapacity) {
-      entry.buffer = entry.buffer.slice(entry.buffer.length - maxCapacity);
+  public isSourceSpeaking(id: string): boolean {
+    return this.sources.get(id)?.voiceActivity.isSpeaking() ?? false;
+  }
+
+  /**
+   * Notified when the voice activity detector opens or closes the gate of a source.
+   * Removing a source while it is speaking reports it as silent.
+   */
+  public onVoiceActivity(listener: (id: string, speaking: boolean) => void): () => void {
+    this.voiceActivityListeners.add(listener);
+    return () => {
+      this.voiceActivityListeners.delete(listener);
+    };
+  }
+
+  private notifyVoiceActivity(id: string, speaking: boolean): void {
+    for (const listener of this.voiceActivityListeners) {
+      try {
+        listener(id, speaking);
+      } catch (error) {
+        console.error('AudioMixer voice activity listener failed', error);
+      }
     }
   }
 
-  private readFrameForSource(id: string): ReadFrameResult {
+  private getVoiceActivityDetector(id: string): VoiceActivityDetector {
+    let detector = this.voiceActivityDetectors.get(id);
+    if (!detector) {
+      detector = new VoiceActivityDetector({ sampleRate: this.sampleRate, channels: this.channels });
+      this.voiceActivityDetectors.set(id, detector);
+    }
+    return detector;
+  }
+
+  public setSourceControls(id: string, update: AudioSourceControlsUpdate): AudioSourceControlState {
+    const current = this.sourceControls.get(id) ?? { gainDb: 0, muted: false, solo: false };
+    const next: AudioSourceControls = {
+      gainDb:
+        typeof update.gainDb === 'number' && Number.isFinite(update.gainDb)
+          ? Math.min(MAX_SOURCE_GAIN_DB, Math.max(MIN_SOURCE_GAIN_DB, update.gainDb))
+          : current.gainDb,
+      muted: typeof update.muted === 'boolean' ? update.muted : current.muted,
+      solo: typeof update.solo === 'boolean' ? update.solo : current.solo,
+    };
+
+    if (next.gainDb === 0 && !next.muted && !next.solo) {
+      this.sourceControls.delete(id);
+    } else {
+      this.sourceControls.set(id, next);
+    }
+
     const entry = this.sources.get(id);
-    if (!entry) {
-      return { frame: null, isFresh: false };
+    if (entry) {
+      entry.gainDb = next.gainDb;
+      entry.muted = next.muted;
+      entry.solo = next.solo;
     }
 
-    if (entry.buffer.length >= this.frameBytes) {
-      const frame = entry.buffer.slice(0, this.frameBytes);
-      entry.buffer = entry.buffer.slice(this.frameBytes);
-      entry.lastFrame = frame;
-      entry.lastActiveTs = Date.now();
-      entry.consecutiveFallbacks = 0;
-      return { frame, isFresh: true };
+    this.notifyControlListeners();
+    return { id, active: Boolean(entry), ...next };
+  }
+
+  public resetSourceControls(id: string): AudioSourceControlState {
+    return this.setSourceControls(id, { gainDb: 0, muted: false, solo: false });
+  }
+
+  public getSourceControls(id: string): AudioSourceControlState {
+    const controls = this.sourceControls.get(id) ?? { gainDb: 0, muted: false, solo: false };
+    return { id, active: this.sources.has(id), ...controls };
+  }
+
+  public listSourceControls(): AudioSourceControlState[] {
+    const ids = new Set<string>([...this.sources.keys(), ...this.sourceControls.keys()]);
+    return Array.from(ids, (id) => this.getSourceControls(id));
+  }
+
+  public onControlsChange(listener: (state: AudioSourceControlState[]) => void): () => void {
+    this.controlListeners.add(listener);
+    return () => {
+      this.controlListeners.delete(listener);
+    };
+  }
+
+  private getLoudnessNormalizer(id: string): SourceLoudnessNormalizer {
+    let normalizer = this.loudnessNormalizers.get(id);
+    if (!normalizer) {
+      normalizer = new SourceLoudnessNormalizer({
+        ...this.loudnessOptions,
+        sampleRate: this.sampleRate,
+        channels: this.channels,
+        bytesPerSample: this.bytesPerSample,
+      });
+      this.loudnessNormalizers.set(id, normalizer);
     }
+    return normalizer;
+  }
 
-    if (entry.lastFrame) {
-      entry.consecutiveFallbacks += 1;
-      return { frame: entry.lastFrame, isFresh: false };
+  private getStreamStatistics(id: string): SourceStreamStatistics {
+    let statistics = this.streamStatistics.get(id);
+    if (!statistics) {
+      statistics = { ...createJitterStatistics(), concealedFrames: 0 };
+      this.streamStatistics.set(id, statistics);
     }
+    return statistics;
+  }
 
-    return { frame: null, isFresh: false };
+  public listSourceStreams(): AudioSourceStreamStats[] {
+    return Array.from(this.streamStatistics.entries(), ([id, statistics]) => {
+      const entry = this.sources.get(id);
+      return {
+        id,
+        active: Boolean(entry),
+        jitterMs: statistics.jitterMs,
+        targetDepthMs: statistics.targetDepthFrames * this.mixFrameMs,
+        bufferedMs: entry ? entry.jitterBuffer.bufferedFrames * this.mixFrameMs : null,
+        underruns: statistics.underruns,
+        latePackets: statistics.latePackets,
+        concealedFrames: statistics.concealedFrames,
+      };
+    });
+  }
+
+  public listSourceLoudness(): AudioSourceLoudness[] {
+    return Array.from(this.loudnessNormalizers.entries(), ([id, normalizer]) => ({
+      id,
+      active: this.sources.has(id),
+      ...normalizer.getSnapshot(),
+    }));
   }
 
-  private computeRMS(frameBuf: Buffer | null, envelope = 1): number {
-    if (!frameBuf) {
-      return 0;
+  private notifyControlListeners(): void {
+    if (this.controlListeners.size === 0) {
+      return;
     }
 
-    let sumSquares = 0;
-    for (let i = 0; i < this.sampleCount; i += 1) {
-      const sample = frameBuf.readInt16LE(i * this.bytesPerSample) / 32768.0;
-      const scaled = sample * envelope;
-      sumSquares += scaled * scaled;
+    const state = this.listSourceControls();
+    for (const listener of this.controlListeners) {
+      try {
+        listener(state);
+      } catch (error) {
+        console.error('AudioMixer control listener failed', error);
+      }
+    }
+  }
+
+  /**
+   * Lowers every source but `ownerId` by `gainDb` until `clearDucking`, so an
+   * announcement is heard over the speakers. A later owner replaces the current one.
+   */
+  public setDucking(ownerId: string, gainDb: number): void {
+    this.duckOwnerId = ownerId;
+    this.duckTarget = this.dbToLinear(Math.min(0, gainDb));
+  }
+
+  public clearDucking(ownerId: string): void {
+    if (this.duckOwnerId === ownerId) {
+      this.duckTarget = 1;
     }
+  }
 
-    return Math.sqrt(sumSquares / this.sampleCount);
+  private dbToLinear(gainDb: number): number {
+    return 10 ** (gainDb / 20);
+  }
+
+  private isSoloActive(): boolean {
+    for (const controls of this.sourceControls.values()) {
+      if (controls.solo) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  public pushToSource(id: string, chunk: Buffer): void {
+    const entry = this.sources.get(id);
+    if (!entry) {
+      return;
+    }
+
+    entry.jitterBuffer.push(chunk);
+    if (!entry.processed) {
+      return;
+    }
+
+    // Classified on arrival rather than at mix time so speaking state does not depend on the output being attached.
+    const wasSpeaking = entry.voiceActivity.isSpeaking();
+    const speaking = entry.voiceActivity.process(chunk);
+    if (speaking !== wasSpeaking) {
+      this.notifyVoiceActivity(id, speaking);
+    }
+  }
+
+  private readFrameForSource(id: string): ReadFrameResult {
+    const entry = this.sources.get(id);
+    if (!entry) {
+      return { frame: null, isFresh: false };
+    }
+
+    const result = entry.jitterBuffer.read(entry.frameBuffer);
+    if (result === 'frame') {
+      entry.concealer.accept(entry.frameBuffer);
+      entry.lastActiveTs = Date.now();
+      return { frame: entry.frameBuffer, isFresh: true };
+    }
+
+    if (result === 'underrun' && entry.concealer.conceal(entry.frameBuffer)) {
+      return { frame: entry.frameBuffer, isFresh: false };
+    }
+
+    return { frame: null, isFresh: false };
   }
 
   private mixFrame(): void {
@@ -200,84 +611,97 @@ export default class AudioMixer {
 
     this.stats.mixTicks += 1;
 
-    const activeFrames: Array<{ id: string; frame: Buffer; envelope: number; rms: number }> = [];
+    const now = Date.now();
+    if (now - this.lastIdleSourceStatePruneTs >= IDLE_SOURCE_STATE_PRUNE_INTERVAL_MS) {
+      this.pruneIdleSourceStates(now);
+    }
 
-    for (const [id] of this.sources.entries()) {
-      const { frame, isFresh } = this.readFrameForSource(id);
-      if (!frame) {
+    const activeFrames: Array<{
+      id: string;
+      frame: Buffer;
+      envelope: number;
+      startGain: number;
+      endGain: number;
+      speaking: boolean;
+    }> = [];
+    const soloActive = this.isSoloActive();
+    const duckStep = this.mixFrameMs / DUCKING_RAMP_MS;
+    this.duckGain =
+      this.duckTarget < this.duckGain
+        ? Math.max(this.duckTarget, this.duckGain - duckStep)
+        : Math.min(this.duckTarget, this.duckGain + duckStep);
+
+    for (const [id, entry] of this.sources.entries()) {
+      const { frame: rawFrame, isFresh } = this.readFrameForSource(id);
+      if (!rawFrame && entry.draining) {
+        this.removeSource(id);
         continue;
       }
-
-      const entry = this.sources.get(id);
-      if (!entry) {
+      if (!rawFrame) {
+        // Concealment already faded out; start from silence when the speaker comes back.
+        entry.envelope = 0;
         continue;
       }
 
+      // Concealed frames go through the chain too, so its filters see a continuous signal.
+      const frame = entry.processed ? entry.processors.process(rawFrame) : rawFrame;
+
       let { envelope } = entry;
       if (isFresh) {
         envelope = Math.min(1, envelope + this.fadeIncrement);
-        entry.lastActiveTs = Date.now();
       } else {
-        this.stats.useLastFrameCount += 1;
-        if (entry.consecutiveFallbacks > this.MAX_PLC_FRAMES) {
-          envelope = Math.max(0, envelope - this.fadeIncrement);
-          if (envelope === 0) {
-            entry.envelope = 0;
-            continue;
-          }
-        } else if (envelope === 0) {
-          envelope = this.fadeIncrement;
-        }
+        this.stats.concealedFrameCount += 1;
+        this.getStreamStatistics(id).concealedFrames += 1;
       }
 
       entry.envelope = envelope;
-      const rms = this.computeRMS(frame, envelope);
-      activeFrames.push({ id, frame, envelope, rms });
-    }
 
-    let activeForStats = 0;
+      const normalizer = this.getLoudnessNormalizer(id);
+      const speaking = entry.voiceActivity.isSpeaking();
+      let loudnessGain = 1;
+      if (entry.processed) {
+        loudnessGain = isFresh ? normalizer.process(frame, this.mixFrameMs, speaking) : normalizer.getGain();
+      }
 
-    if (activeFrames.length === 0) {
-      const processedFrame = this.antiCrackleFilter.process(this.nullFrame);
-      const ok = this.writeToOutput(processedFrame);
-      if (!ok) {
-        this.stats.backpressureCount += 1;
-        this.pauseMixingForBackpressure();
+      const silenced = entry.muted || (soloActive && !entry.solo);
+      const startGain = entry.appliedGain;
+      const duckGain = id === this.duckOwnerId ? 1 : this.duckGain;
+      const endGain = silenced ? 0 : this.dbToLinear(entry.gainDb) * loudnessGain * duckGain;
+      entry.appliedGain = endGain;
+      if (startGain === 0 && endGain === 0) {
+        continue;
       }
-      this.updateAverageActiveSources(activeForStats);
-      return;
+
+      activeFrames.push({ id, frame, envelope, startGain, endGain, speaking });
     }
 
-    const activeSpeakers = activeFrames.filter((frameInfo) => frameInfo.rms >= this.ACTIVE_RMS_THRESHOLD);
-    activeForStats = activeSpeakers.length;
-    const normalizationCount = Math.max(1, activeSpeakers.length);
+    // Speakers are summed at unity gain; the master bus dynamics keep the sum below the ceiling.
+    const activeForStats = activeFrames.filter((frameInfo) => frameInfo.speaking).length;
 
     this.mixedFloat.fill(0);
 
     for (const frameInfo of activeFrames) {
-      const { frame, envelope } = frameInfo;
+      const { frame, envelope, startGain, endGain } = frameInfo;
+      // Ramp gain changes across the frame so mute/unmute does not click.
+      const gainStep = (endGain - startGain) / this.sampleCount;
       for (let i = 0; i < this.sampleCount; i += 1) {
-        const sample = frame.readInt16LE(i * this.bytesPerSample);
-        this.mixedFloat[i] += sample * envelope;
+        const sample = frame.readInt16LE(i * this.bytesPerSample) / 32768.0;
+        this.mixedFloat[i] += sample * envelope * (startGain + gainStep * i);
       }
     }
 
-    const normalization = 1 / (normalizationCount * 32768.0);
-    const outputBuffer = Buffer.allocUnsafe(this.frameBytes);
+    // Silent ticks still go through the dynamics so the look-ahead delay line drains.
+    this.dynamics.process(this.mixedFloat);
+    this.updateGainReductionStats();
 
+    const outputBuffer = Buffer.allocUnsafe(this.frameBytes);
     for (let i = 0; i < this.sampleCount; i += 1) {
-      let value = this.mixedFloat[i] * normalization;
-      if (value > 1) {
-        value = 1;
-      } else if (value < -1) {
-        value = -1;
-      }
-      outputBuffer.writeInt16LE(Math.round(value * 32767), i * this.bytesPerSample);
+      outputBuffer.writeInt16LE(Math.round(this.mixedFloat[i] * 32767), i * this.bytesPerSample);
     }
 
     this.updateAverageActiveSources(activeForStats);
 
-    const processedFrame = this.antiCrackleFilter.process(outputBuffer);
+    const processedFrame = this.masterChain.process(outputBuffer);
     const ok = this.writeToOutput(processedFrame);
     if (!ok) {
       this.stats.backpressureCount += 1;
@@ -322,8 +746,29 @@ export default class AudioMixer {
     this.stats.avgActiveSources = ((this.stats.avgActiveSources * (mixTicks - 1)) + count) / mixTicks;
   }
 
+  private updateGainReductionStats(): void {
+    const { compressorDb, limiterDb } = this.dynamics.getLastReduction();
+    this.stats.compressorGainReductionDb = compressorDb;
+    this.stats.limiterGainReductionDb = limiterDb;
+    this.stats.limiterMaxGainReductionDb = Math.max(this.stats.limiterMaxGainReductionDb, limiterDb);
+    if (limiterDb >= LIMITER_ACTIVE_THRESHOLD_DB) {
+      this.stats.limiterActiveTicks += 1;
+    }
+  }
+
   public getStats(): AudioMixerStats {
-    return { ...this.stats };
+    return {
+      ...this.stats,
+      sourceLoudness: this.listSourceLoudness(),
+      sourceStreams: this.listSourceStreams(),
+    };
+  }
+
+  public getProcessorChains(): { source: string[]; master: string[] } {
+    return {
+      source: this.sourceProcessors.map((definition) => definition.type),
+      master: this.masterChain.describe(),
+    };
   }
 
   public getSourceCount(): number {
@@ -0,0 +1,126 @@
+import AntiCrackleFilter from './AntiCrackleFilter';
+import BiquadFilter from './BiquadFilter';
+import DeEsser from './DeEsser';
+import VoiceAnonymizer from './VoiceAnonymizer';
+
+/**
+ * A stateful effect applied to interleaved 16-bit PCM frames. Implementations
+ * may process the frame in place or return a new buffer.
+ */
+export interface AudioProcessor {
+  process(frame: Buffer): Buffer;
+  reset(): void;
+}
+
+export interface AudioFormat {
+  sampleRate: number;
+  channels: number;
+  bytesPerSample: number;
+  sampleCount: number;
+}
+
+export const AUDIO_PROCESSOR_TYPES = ['highpass', 'eq', 'deesser', 'anticrackle', 'anonymizer'] as const;
+
+export type AudioProcessorType = (typeof AUDIO_PROCESSOR_TYPES)[number];
+
+/**
+ * Declarative description of a processor, as read from the configuration.
+ * Parameters that are omitted fall back to the processor defaults.
+ */
+export interface AudioProcessorDefinition {
+  type: string;
+  params: Record<string, number>;
+}
+
+export function isAudioProcessorType(value: string): value is AudioProcessorType {
+  return (AUDIO_PROCESSOR_TYPES as readonly string[]).includes(value);
+}
+
+export function createAudioProcessor(definition: AudioProcessorDefinition, format: AudioFormat): AudioProcessor {
+  const { type, params } = definition;
+  const { sampleRate, channels, bytesPerSample, sampleCount } = format;
+
+  switch (type) {
+    case 'highpass':
+      return new BiquadFilter({
+        sampleRate,
+        channels,
+        bytesPerSample,
+        kind: 'highpass',
+        frequencyHz: params.frequencyHz ?? 80,
+        q: params.q ?? Math.SQRT1_2,
+      });
+    case 'eq':
+      return new BiquadFilter({
+        sampleRate,
+        channels,
+        bytesPerSample,
+        kind: 'peaking',
+        frequencyHz: params.frequencyHz ?? 1000,
+        q: params.q ?? 1,
+        gainDb: Math.min(24, Math.max(-24, params.gainDb ?? 0)),
+      });
+    case 'deesser':
+      return new DeEsser({
+        sampleRate,
+        channels,
+        bytesPerSample,
+        frequencyHz: params.frequencyHz,
+        thresholdDb: params.thresholdDb,
+        maxReductionDb: params.maxReductionDb,
+      });
+    case 'anticrackle':
+      return new AntiCrackleFilter({
+        bytesPerSample,
+        sampleCount,
+        smoothingSamples: params.smoothingSamples,
+        activationThreshold: params.activationThreshold,
+      });
+    case 'anonymizer':
+      return new VoiceAnonymizer({
+        sampleRate,
+        bytesPerSample,
+        modulationFrequency: params.modulationFrequency,
+        noiseAmplitude: params.noiseAmplitude,
+      });
+    default:
+      throw new Error(`Unknown audio processor "${type}"`);
+  }
+}
+
+/**
+ * Ordered list of processors built from definitions. Each source of the mixer
+ * gets its own chain so filter histories never leak from one speaker to another.
+ */
+export default class AudioProcessorChain {
+  private readonly processors: AudioProcessor[];
+
+  private readonly types: string[];
+
+  constructor(definitions: AudioProcessorDefinition[], format: AudioFormat) {
+    this.processors = definitions.map((definition) => createAudioProcessor(definition, format));
+    this.types = definitions.map((definition) => definition.type);
+  }
+
+  public get length(): number {
+    return this.processors.length;
+  }
+
+  public describe(): string[] {
+    return [...this.types];
+  }
+
+  public reset(): void {
+    for (const processor of this.processors) {
+      processor.reset();
+    }
+  }
+
+  public process(frame: Buffer): Buffer {
+    let current = frame;
+    for (const processor of this.processors) {
+      current = processor.process(current);
+    }
+    return current;
+  }
+}
@@ -0,0 +1,121 @@
+import type { AudioProcessor } from './AudioProcessor';
+
+export type BiquadKind = 'highpass' | 'lowpass' | 'peaking';
+
+export interface BiquadCoefficients {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+export interface BiquadDesign {
+  kind: BiquadKind;
+  frequencyHz: number;
+  q: number;
+  gainDb?: number;
+}
+
+export interface BiquadFilterOptions extends BiquadDesign {
+  sampleRate: number;
+  channels: number;
+  bytesPerSample: number;
+}
+
+/**
+ * Second-order filter coefficients from the RBJ audio EQ cookbook, normalised so
+ * that a0 is 1. The centre frequency is kept below Nyquist so a misconfigured
+ * chain cannot produce an unstable filter.
+ */
+export function designBiquad(sampleRate: number, { kind, frequencyHz, q, gainDb = 0 }: BiquadDesign): BiquadCoefficients {
+  const frequency = Math.min(sampleRate * 0.45, Math.max(10, frequencyHz));
+  const w0 = (2 * Math.PI * frequency) / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * Math.max(0.1, q));
+
+  if (kind === 'highpass') {
+    const a0 = 1 + alpha;
+    return {
+      b0: (1 + cos) / 2 / a0,
+      b1: -(1 + cos) / a0,
+      b2: (1 + cos) / 2 / a0,
+      a1: (-2 * cos) / a0,
+      a2: (1 - alpha) / a0,
+    };
+  }
+
+  if (kind === 'lowpass') {
+    const a0 = 1 + alpha;
+    return {
+      b0: (1 - cos) / 2 / a0,
+      b1: (1 - cos) / a0,
+      b2: (1 - cos) / 2 / a0,
+      a1: (-2 * cos) / a0,
+      a2: (1 - alpha) / a0,
+    };
+  }
+
+  const amplitude = 10 ** (gainDb / 40);
+  const a0 = 1 + alpha / amplitude;
+  return {
+    b0: (1 + alpha * amplitude) / a0,
+    b1: (-2 * cos) / a0,
+    b2: (1 - alpha * amplitude) / a0,
+    a1: (-2 * cos) / a0,
+    a2: (1 - alpha / amplitude) / a0,
+  };
+}
+
+/**
+ * Biquad applied to interleaved 16-bit PCM, with an independent history per
+ * channel. Used for the high-pass (rumble, handling noise) and peaking EQ
+ * processors. Frames are filtered in place.
+ */
+export default class BiquadFilter implements AudioProcessor {
+  private readonly channels: number;
+
+  private readonly bytesPerSample: number;
+
+  private readonly coefficients: BiquadCoefficients;
+
+  // x1, x2, y1, y2 per channel.
+  private readonly state: Float64Array;
+
+  constructor({ sampleRate, channels, bytesPerSample, ...design }: BiquadFilterOptions) {
+    this.channels = Math.max(1, channels);
+    this.bytesPerSample = bytesPerSample;
+    this.coefficients = designBiquad(sampleRate, design);
+    this.state = new Float64Array(this.channels * 4);
+  }
+
+  public reset(): void {
+    this.state.fill(0);
+  }
+
+  public process(frame: Buffer): Buffer {
+    const { channels, coefficients, state } = this;
+    const frameCount = Math.floor(frame.length / (this.bytesPerSample * channels));
+
+    for (let i = 0; i < frameCount; i += 1) {
+      for (let channel = 0; channel < channels; channel += 1) {
+        const offset = (i * channels + channel) * this.bytesPerSample;
+        const base = channel * 4;
+        const input = frame.readInt16LE(offset) / 32768;
+        const output =
+          coefficients.b0 * input +
+          coefficients.b1 * state[base] +
+          coefficients.b2 * state[base + 1] -
+          coefficients.a1 * state[base + 2] -
+          coefficients.a2 * state[base + 3];
+        state[base + 1] = state[base];
+        state[base] = input;
+        state[base + 3] = state[base + 2];
+        state[base + 2] = output;
+        frame.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(output * 32768))), offset);
+      }
+    }
+
+    return frame;
+  }
+}
@@ -0,0 +1,181 @@
+import { Writable } from 'stream';
+
+export interface BroadcastDelayOptions {
+  frameBytes: number;
+  frameMs: number;
+  delayMs: number;
+  /** Share of the ticks, in percent, that may be stretched with silence while the delay rebuilds. */
+  rebuildPercent: number;
+  /** Silence played in place of the dumped audio when no jingle is loaded. */
+  dumpSilenceMs: number;
+  /** Frames whose peak stays below this level (dBFS) count as pauses the rebuild can stretch. */
+  pauseThresholdDb?: number;
+}
+
+export interface BroadcastDelayStatus {
+  targetMs: number;
+  currentMs: number;
+  rebuilding: boolean;
+  jingleLoaded: boolean;
+  dumpCount: number;
+  lastDumpAt: string | null;
+}
+
+export interface BroadcastDelayDumpResult {
+  droppedMs: number;
+  fillMs: number;
+}
+
+/** Credit is capped so a long monologue cannot turn the next pause into dead air. */
+const MAX_REBUILD_CREDIT_FRAMES = 10;
+
+/**
+ * Safety delay between the mixer and the encoders. Mixed frames are held for
+ * `delayMs` before they reach the fan-out, so a moderator can `dump()` the
+ * window: the held audio is dropped and a jingle (or a short silence) airs in
+ * its place while the delay starts again from the fill length.
+ *
+ * Like a talk-radio delay unit, the window is then rebuilt gradually: while it
+ * is short of the target, pauses in the program are stretched by repeating
+ * silence, never more than `rebuildPercent` of the time. Speech is not
+ * time-stretched, so a room that never pauses rebuilds only through jingles.
+ */
+export default class BroadcastDelay extends Writable {
+  private readonly frameMs: number;
+
+  private readonly targetFrames: number;
+
+  private readonly rebuildRatio: number;
+
+  private readonly dumpSilenceFrames: number;
+
+  private readonly pauseThreshold: number;
+
+  private readonly silenceFrame: Buffer;
+
+  private readonly queue: Buffer[] = [];
+
+  private fill: Buffer[] = [];
+
+  private output: Writable | null = null;
+
+  private jingleFrames: Buffer[] = [];
+
+  private rebuildCredit = 0;
+
+  private dumpCount = 0;
+
+  private lastDumpAt: number | null = null;
+
+  constructor({
+    frameBytes,
+    frameMs,
+    delayMs,
+    rebuildPercent,
+    dumpSilenceMs,
+    pauseThresholdDb = -50,
+  }: BroadcastDelayOptions) {
+    super({ highWaterMark: frameBytes });
+    this.frameMs = frameMs;
+    this.targetFrames = Math.max(1, Math.round(delayMs / frameMs));
+    this.rebuildRatio = Math.min(1, Math.max(0, rebuildPercent / 100));
+    this.dumpSilenceFrames = Math.min(this.targetFrames, Math.max(0, Math.round(dumpSilenceMs / frameMs)));
+    this.pauseThreshold = Math.round(32768 * 10 ** (pauseThresholdDb / 20));
+    this.silenceFrame = Buffer.alloc(frameBytes);
+    // Start with a full window so the first listeners are already behind the room.
+    for (let i = 0; i < this.targetFrames; i += 1) {
+      this.queue.push(this.silenceFrame);
+    }
+  }
+
+  public setOutput(output: Writable | null): void {
+    this.output = output;
+  }
+
+  /** PCM played in place of the dumped window; it is cut to the delay length. */
+  public setJingle(pcm: Buffer | null): void {
+    const frames: Buffer[] = [];
+    const frameBytes = this.silenceFrame.length;
+    let offset = 0;
+    while (pcm && offset + frameBytes <= pcm.length && frames.length < this.targetFrames) {
+      frames.push(pcm.subarray(offset, offset + frameBytes));
+      offset += frameBytes;
+    }
+    this.jingleFrames = frames;
+  }
+
+  /** Drops everything not yet aired and schedules the jingle, or silence, in its place. */
+  public dump(): BroadcastDelayDumpResult {
+    const droppedFrames = this.queue.length;
+    this.queue.length = 0;
+    this.rebuildCredit = 0;
+
+    let fillFrames = this.fill.length;
+    if (fillFrames === 0) {
+      this.fill = this.jingleFrames.length > 0
+        ? this.jingleFrames.slice()
+        : Array.from({ length: this.dumpSilenceFrames }, () => this.silenceFrame);
+      fillFrames = this.fill.length;
+    }
+
+    this.dumpCount += 1;
+    this.lastDumpAt = Date.now();
+    return { droppedMs: droppedFrames * this.frameMs, fillMs: fillFrames * this.frameMs };
+  }
+
+  public getCurrentDelayMs(): number {
+    return (this.queue.length + this.fill.length) * this.frameMs;
+  }
+
+  public getStatus(): BroadcastDelayStatus {
+    const currentMs = this.getCurrentDelayMs();
+    const targetMs = this.targetFrames * this.frameMs;
+    return {
+      targetMs,
+      currentMs,
+      rebuilding: currentMs < targetMs,
+      jingleLoaded: this.jingleFrames.length > 0,
+      dumpCount: this.dumpCount,
+      lastDumpAt: this.lastDumpAt === null ? null : new Date(this.lastDumpAt).toISOString(),
+    };
+  }
+
+  public override _write(chunk: Buffer, _encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+    this.queue.push(chunk);
+    const frame = this.nextFrame();
+    const output = this.output;
+    if (!output || !output.writable || output.write(frame)) {
+      callback();
+      return;
+    }
+    // Hold the mixer back exactly as if it were writing to the fan-out directly.
+    output.once('drain', () => callback());
+  }
+
+  private nextFrame(): Buffer {
+    const fillFrame = this.fill.shift();
+    if (fillFrame) {
+      return fillFrame;
+    }
+
+    if (this.queue.length > this.targetFrames) {
+      return this.queue.shift() as Buffer;
+    }
+
+    this.rebuildCredit = Math.min(MAX_REBUILD_CREDIT_FRAMES, this.rebuildCredit + this.rebuildRatio);
+    if (this.rebuildCredit >= 1 && this.isPause(this.queue[0])) {
+      this.rebuildCredit -= 1;
+      return this.silenceFrame;
+    }
+    return this.queue.shift() as Buffer;
+  }
+
+  private isPause(frame: Buffer): boolean {
+    for (let offset = 0; offset + 1 < frame.length; offset += 2) {
+      if (Math.abs(frame.readInt16LE(offset)) > this.pauseThreshold) {
+        return false;
+      }
+    }
+    return true;
+  }
+}
@@ -0,0 +1,115 @@
+import type { AudioProcessor } from './AudioProcessor';
+import { designBiquad, type BiquadCoefficients } from './BiquadFilter';
+
+export interface DeEsserOptions {
+  sampleRate: number;
+  channels: number;
+  bytesPerSample: number;
+  frequencyHz?: number;
+  thresholdDb?: number;
+  maxReductionDb?: number;
+}
+
+const ATTACK_MS = 1;
+const RELEASE_MS = 60;
+
+const MIN_LEVEL_DB = -120;
+
+/**
+ * Split-band de-esser. The signal is split at `frequencyHz` into a low-passed
+ * band and its exact complement (input minus low band); when the envelope of the
+ * high band exceeds `thresholdDb`, only that band is turned down (by the excess,
+ * up to `maxReductionDb`), so sibilants soften without dulling the rest of the voice.
+ * All channels share the detector so the stereo image stays put.
+ */
+export default class DeEsser implements AudioProcessor {
+  private readonly channels: number;
+
+  private readonly bytesPerSample: number;
+
+  private readonly thresholdDb: number;
+
+  private readonly maxReductionDb: number;
+
+  private readonly coefficients: BiquadCoefficients;
+
+  private readonly attackCoef: number;
+
+  private readonly releaseCoef: number;
+
+  // x1, x2, y1, y2 per channel for the crossover low-pass.
+  private readonly state: Float64Array;
+
+  private readonly highBand: Float64Array;
+
+  private envelope: number;
+
+  constructor({
+    sampleRate,
+    channels,
+    bytesPerSample,
+    frequencyHz = 6000,
+    thresholdDb = -30,
+    maxReductionDb = 10,
+  }: DeEsserOptions) {
+    this.channels = Math.max(1, channels);
+    this.bytesPerSample = bytesPerSample;
+    this.thresholdDb = thresholdDb;
+    this.maxReductionDb = Math.max(0, maxReductionDb);
+    this.coefficients = designBiquad(sampleRate, { kind: 'lowpass', frequencyHz, q: Math.SQRT1_2 });
+    this.attackCoef = Math.exp(-1000 / (ATTACK_MS * sampleRate));
+    this.releaseCoef = Math.exp(-1000 / (RELEASE_MS * sampleRate));
+    this.state = new Float64Array(this.channels * 4);
+    this.highBand = new Float64Array(this.channels);
+    this.envelope = 0;
+  }
+
+  public reset(): void {
+    this.state.fill(0);
+    this.envelope = 0;
+  }
+
+  public process(frame: Buffer): Buffer {
+    const { channels, coefficients, state, highBand } = this;
+    const frameCount = Math.floor(frame.length / (this.bytesPerSample * channels));
+
+    for (let i = 0; i < frameCount; i += 1) {
+      let peak = 0;
+      for (let channel = 0; channel < channels; channel += 1) {
+        const base = channel * 4;
+        const input = frame.readInt16LE((i * channels + channel) * this.bytesPerSample) / 32768;
+        const output =
+          coefficients.b0 * input +
+          coefficients.b1 * state[base] +
+          coefficients.b2 * state[base + 1] -
+          coefficients.a1 * state[base + 2] -
+          coefficients.a2 * state[base + 3];
+        state[base + 1] = state[base];
+        state[base] = input;
+        state[base + 3] = state[base + 2];
+        state[base + 2] = output;
+        highBand[channel] = input - output;
+        peak = Math.max(peak, Math.abs(highBand[channel]));
+      }
+
+      const coef = peak > this.envelope ? this.attackCoef : this.releaseCoef;
+      this.envelope = peak + coef * (this.envelope - peak);
+
+      const levelDb = this.envelope > 0 ? Math.max(MIN_LEVEL_DB, 20 * Math.log10(this.envelope)) : MIN_LEVEL_DB;
+      const reductionDb = Math.min(this.maxReductionDb, Math.max(0, levelDb - this.thresholdDb));
+      if (reductionDb === 0) {
+        continue;
+      }
+
+      // Low band plus attenuated high band; with no reduction this adds back up to the input.
+      const bandGain = 10 ** (-reductionDb / 20) - 1;
+      for (let channel = 0; channel < channels; channel += 1) {
+        const offset = (i * channels + channel) * this.bytesPerSample;
+        const value = frame.readInt16LE(offset) / 32768 + highBand[channel] * bandGain;
+        frame.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(value * 32768))), offset);
+      }
+    }
+
+    return frame;
+  }
+}
@@ -1,7 +1,7 @@
 import { EventEmitter } from 'events';
 import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
 import { PassThrough } from 'stream';
-import type AudioMixer from './AudioMixer';
+import type PcmFanout from './PcmFanout';
 
 function calculateOpusHeaderLength(buffer: Buffer): number | null {
   let offset = 0;
@@ -50,11 +50,12 @@ function calculateOpusHeaderLength(buffer: Buffer): number | null {
   return null;
 }
 
+export type StreamFormat = 'opus' | 'mp3' | 'aac';
+
 export interface FfmpegTranscoderOptions {
   ffmpegPath: string;
-  outputFormat: string;
-  opusBitrate: string;
-  mp3Bitrate: string;
+  outputFormat: StreamFormat;
+  bitrate: string;
   sampleRate: number;
   channels: number;
   headerBufferMaxBytes: number;
@@ -69,11 +70,9 @@ export interface FfmpegTranscoderOptions {
 export default class FfmpegTranscoder extends EventEmitter {
   private readonly ffmpegPath: string;
 
-  private readonly outputFormat: string;
-
-  private readonly opusBitrate: string;
+  private readonly outputFormat: StreamFormat;
 
-  private readonly mp3Bitrate: string;
+  private readonly bitrate: string;
 
   private readonly sampleRate: number;
 
@@ -97,7 +96,7 @@ export default class FfmpegTranscoder extends EventEmitter {
 
   private headerBuffer: Buffer;
 
-  private mixer: AudioMixer | null;
+  private input: PcmFanout | null;
 
   private currentProcess: ChildProcessWithoutNullStreams | null;
 
@@ -114,8 +113,7 @@ export default class FfmpegTranscoder extends EventEmitter {
   constructor({
     ffmpegPath,
     outputFormat,
-    opusBitrate,
-    mp3Bitrate,
+    bitrate,
     sampleRate,
     channels,
     headerBufferMaxBytes,
@@ -129,8 +127,7 @@ export default class FfmpegTranscoder extends EventEmitter {
     super();
     this.ffmpegPath = ffmpegPath;
     this.outputFormat = outputFormat;
-    this.opusBitrate = opusBitrate;
-    this.mp3Bitrate = mp3Bitrate;
+    this.bitrate = bitrate;
     this.sampleRate = sampleRate;
     this.channels = channels;
     this.headerBufferMaxBytes = headerBufferMaxBytes;
@@ -144,7 +141,7 @@ export default class FfmpegTranscoder extends EventEmitter {
     this.stallRestartDelayMs = Math.max(0, stallRestartDelayMs ?? 1000);
 
     this.headerBuffer = Buffer.alloc(0);
-    this.mixer = null;
+    this.input = null;
     this.currentProcess = null;
     this.restartTimer = null;
     this.watchdogTimer = null;
@@ -153,11 +150,19 @@ export default class FfmpegTranscoder extends EventEmitter {
     this.captureHeader = false;
   }
 
-  public start(mixer: AudioMixer): void {
-    this.mixer = mixer;
+  public start(input: PcmFanout): void {
+    this.input = input;
     this.spawnProcess();
   }
 
+  public getOutputFormat(): StreamFormat {
+    return this.outputFormat;
+  }
+
+  public getDroppedFrames(): number {
+    return this.currentProcess && this.input ? this.input.getDroppedFrames(this.currentProcess.stdin) : 0;
+  }
+
   private spawnProcess(): void {
     if (this.restarting) {
       return;
@@ -191,19 +196,29 @@ export default class FfmpegTranscoder extends EventEmitter {
         '-application',
         'voip',
         '-b:a',
-        String(this.opusBitrate),
+        String(this.bitrate),
         '-frame_duration',
         String(this.mixFrameMs),
         '-f',
         'ogg',
         'pipe:1',
       );
+    } else if (this.outputFormat === 'aac') {
+      args.push(
+        '-c:a',
+        'aac',
+        '-b:a',
+        String(this.bitrate),
+        '-f',
+        'adts',
+        'pipe:1',
+      );
     } else {
       args.push(
         '-c:a',
         'libmp3lame',
         '-b:a',
-        String(this.mp3Bitrate),
+        String(this.bitrate),
         '-f',
         'mp3',
         'pipe:1',
@@ -216,8 +231,8 @@ export default class FfmpegTranscoder extends EventEmitter {
     this.restarting = false;
     this.headerBuffer = Buffer.alloc(0);
     this.captureHeader = this.outputFormat === 'opus';
-    if (this.mixer) {
-      this.mixer.setOutput(ffmpeg.stdin);
+    if (this.input) {
+      this.input.addSink(ffmpeg.stdin);
     }
 
     this.startWatchdog();
@@ -357,8 +372,8 @@ export default class FfmpegTranscoder extends EventEmitter {
     const processRef = this.currentProcess;
     this.currentProcess = null;
 
-    if (this.mixer) {
-      this.mixer.setOutput(null);
+    if (this.input && processRef) {
+      this.input.removeSink(processRef.stdin);
     }
 
     if (processRef && !processRef.killed) {
@@ -451,6 +466,9 @@ export default class FfmpegTranscoder extends EventEmitter {
     this.clearRestartTimer();
     this.clearWatchdogTimer();
     this.restarting = false;
+    if (this.currentProcess && this.input) {
+      this.input.removeSink(this.currentProcess.stdin);
+    }
     if (this.currentProcess && !this.currentProcess.killed) {
       try {
         this.currentProcess.stdin.end();
@@ -460,9 +478,6 @@ export default class FfmpegTranscoder extends EventEmitter {
       this.currentProcess.kill('SIGTERM');
     }
     this.currentProcess = null;
-    if (this.mixer) {
-      this.mixer.setOutput(null);
-    }
     this.broadcastStream.end();
   }
 }
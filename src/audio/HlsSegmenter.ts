@@ -0,0 +1,220 @@
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+import { mkdirSync, readdirSync, rmSync } from 'fs';
+import path from 'path';
+import type PcmFanout from './PcmFanout';
+
+export interface HlsSegmenterOptions {
+  ffmpegPath: string;
+  sampleRate: number;
+  channels: number;
+  directory: string;
+  bitrate: string;
+  segmentSeconds: number;
+  windowSeconds: number;
+  restartDelayMs?: number;
+}
+
+const STOP_GRACE_MS = 2000;
+
+export const HLS_PLAYLIST_NAME = 'playlist.m3u8';
+
+export const HLS_SEGMENT_PATTERN = /^segment-\d+\.ts$/;
+
+/**
+ * Sibling of `FfmpegTranscoder` that encodes the mix to AAC and lets ffmpeg's
+ * HLS muxer cut it into MPEG-TS segments with a rolling playlist. The playlist
+ * keeps `windowSeconds` of audio (older segments are deleted from disk) and has
+ * no end tag, so players treat it as a live stream they can rewind within.
+ */
+export default class HlsSegmenter {
+  private readonly ffmpegPath: string;
+
+  private readonly sampleRate: number;
+
+  private readonly channels: number;
+
+  private readonly directory: string;
+
+  private readonly bitrate: string;
+
+  private readonly segmentSeconds: number;
+
+  private readonly listSize: number;
+
+  private readonly restartDelayMs: number;
+
+  private input: PcmFanout | null = null;
+
+  private currentProcess: ChildProcessWithoutNullStreams | null = null;
+
+  private restartTimer: NodeJS.Timeout | null = null;
+
+  private stopped = true;
+
+  constructor({
+    ffmpegPath,
+    sampleRate,
+    channels,
+    directory,
+    bitrate,
+    segmentSeconds,
+    windowSeconds,
+    restartDelayMs,
+  }: HlsSegmenterOptions) {
+    this.ffmpegPath = ffmpegPath;
+    this.sampleRate = sampleRate;
+    this.channels = channels;
+    this.directory = directory;
+    this.bitrate = bitrate;
+    this.segmentSeconds = Math.max(1, segmentSeconds);
+    this.listSize = Math.max(3, Math.ceil(windowSeconds / this.segmentSeconds));
+    this.restartDelayMs = Math.max(0, restartDelayMs ?? 2000);
+  }
+
+  public get playlistPath(): string {
+    return path.join(this.directory, HLS_PLAYLIST_NAME);
+  }
+
+  public getWindowSeconds(): number {
+    return this.listSize * this.segmentSeconds;
+  }
+
+  public getCurrentProcessPid(): number | null {
+    return this.currentProcess?.pid ?? null;
+  }
+
+  /**
+   * Resolves a segment file name from a request, or null when it does not look
+   * like one of ours (which also rules out path traversal).
+   */
+  public resolveSegmentPath(name: string): string | null {
+    return HLS_SEGMENT_PATTERN.test(name) ? path.join(this.directory, name) : null;
+  }
+
+  public start(input: PcmFanout): void {
+    this.input = input;
+    this.stopped = false;
+    this.clearDirectory();
+    this.spawnProcess();
+  }
+
+  private clearDirectory(): void {
+    try {
+      mkdirSync(this.directory, { recursive: true });
+      for (const entry of readdirSync(this.directory)) {
+        if (entry === HLS_PLAYLIST_NAME || HLS_SEGMENT_PATTERN.test(entry)) {
+          rmSync(path.join(this.directory, entry), { force: true });
+        }
+      }
+    } catch (error) {
+      console.error('Failed to prepare HLS directory', { directory: this.directory, error });
+    }
+  }
+
+  private spawnProcess(): void {
+    if (this.stopped || this.currentProcess) {
+      return;
+    }
+
+    const args = [
+      '-f',
+      's16le',
+      '-ar',
+      String(this.sampleRate),
+      '-ac',
+      String(this.channels),
+      '-i',
+      'pipe:0',
+      '-vn',
+      '-loglevel',
+      'error',
+      '-c:a',
+      'aac',
+      '-b:a',
+      String(this.bitrate),
+      '-f',
+      'hls',
+      '-hls_time',
+      String(this.segmentSeconds),
+      '-hls_list_size',
+      String(this.listSize),
+      // A restarted encoder continues the numbering and marks the gap instead of wiping the window.
+      '-hls_flags',
+      'delete_segments+append_list+omit_endlist+program_date_time+discont_start',
+      '-hls_segment_filename',
+      path.join(this.directory, 'segment-%d.ts'),
+      this.playlistPath,
+    ];
+
+    const ffmpeg = spawn(this.ffmpegPath, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+    this.currentProcess = ffmpeg;
+    this.input?.addSink(ffmpeg.stdin);
+
+    ffmpeg.stdout.resume();
+    ffmpeg.stderr.on('data', (data: Buffer) => process.stderr.write(data.toString()));
+    ffmpeg.stdin.on('error', (error: Error) => {
+      console.error('HLS ffmpeg stdin error', error);
+    });
+    ffmpeg.on('error', (error) => {
+      console.error('HLS ffmpeg error', error);
+      this.handleExit(ffmpeg);
+    });
+    ffmpeg.on('exit', (code, signal) => {
+      if (!this.stopped) {
+        console.error(`HLS ffmpeg exited code=${code} signal=${signal}`);
+      }
+      this.handleExit(ffmpeg);
+    });
+  }
+
+  private handleExit(processRef: ChildProcessWithoutNullStreams): void {
+    if (this.currentProcess !== processRef) {
+      return;
+    }
+
+    this.input?.removeSink(processRef.stdin);
+    this.currentProcess = null;
+
+    if (this.stopped || this.restartTimer) {
+      return;
+    }
+
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      this.spawnProcess();
+    }, this.restartDelayMs);
+    if (typeof this.restartTimer.unref === 'function') {
+      this.restartTimer.unref();
+    }
+  }
+
+  public stop(): void {
+    this.stopped = true;
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+
+    const processRef = this.currentProcess;
+    this.currentProcess = null;
+    if (!processRef) {
+      return;
+    }
+
+    this.input?.removeSink(processRef.stdin);
+    try {
+      // Closing stdin lets ffmpeg flush the last segment before it exits.
+      processRef.stdin.end();
+    } catch (error) {
+      console.error('Error while closing HLS ffmpeg stdin', error);
+    }
+    const killTimer = setTimeout(() => {
+      if (processRef.exitCode === null && !processRef.killed) {
+        processRef.kill('SIGTERM');
+      }
+    }, STOP_GRACE_MS);
+    if (typeof killTimer.unref === 'function') {
+      killTimer.unref();
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import { Transform, type TransformCallback } from 'stream';
+
+export interface IcyMetadataInjectorOptions {
+  metaInt?: number;
+  getTitle: () => string;
+}
+
+export const DEFAULT_ICY_METAINT = 16000;
+
+// The length byte counts 16-byte blocks, so a block can carry at most 255 * 16 bytes.
+const MAX_METADATA_BYTES = 255 * 16;
+
+/**
+ * Builds one ICY metadata block: a length byte (in 16-byte units) followed by
+ * `StreamTitle='...';` padded with NUL bytes. Quotes are dropped from the title
+ * because players do not agree on an escape sequence, and a long title is cut
+ * between characters so the block always ends with the closing `';`.
+ */
+export function buildIcyMetadataBlock(title: string): Buffer {
+  const sanitized = title.replace(/[\r\n']+/g, ' ').trim();
+  const maxTitleBytes = MAX_METADATA_BYTES - Buffer.byteLength("StreamTitle='';");
+  let truncated = '';
+  let titleBytes = 0;
+  for (const character of sanitized) {
+    titleBytes += Buffer.byteLength(character);
+    if (titleBytes > maxTitleBytes) {
+      break;
+    }
+    truncated += character;
+  }
+  const payload = Buffer.from(`StreamTitle='${truncated}';`, 'utf8');
+  const blocks = Math.ceil(payload.length / 16);
+  const block = Buffer.alloc(1 + blocks * 16);
+  block[0] = blocks;
+  payload.copy(block, 1);
+  return block;
+}
+
+/**
+ * Interleaves ICY ("Shoutcast") metadata into an MP3 or AAC listener stream:
+ * after every `metaInt` bytes of audio, a metadata block carrying the current
+ * title, or a single zero byte when the title has not changed since the last
+ * block. Clients opt in with the `Icy-MetaData: 1` request header and learn the
+ * interval from the `icy-metaint` response header.
+ */
+export default class IcyMetadataInjector extends Transform {
+  private readonly metaInt: number;
+
+  private readonly getTitle: () => string;
+
+  private bytesUntilMetadata: number;
+
+  private lastTitle: string | null = null;
+
+  constructor({ metaInt = DEFAULT_ICY_METAINT, getTitle }: IcyMetadataInjectorOptions) {
+    super();
+    this.metaInt = Math.max(1, Math.floor(metaInt));
+    this.getTitle = getTitle;
+    this.bytesUntilMetadata = this.metaInt;
+  }
+
+  public override _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    let offset = 0;
+    while (offset < chunk.length) {
+      const length = Math.min(this.bytesUntilMetadata, chunk.length - offset);
+      this.push(chunk.subarray(offset, offset + length));
+      offset += length;
+      this.bytesUntilMetadata -= length;
+
+      if (this.bytesUntilMetadata === 0) {
+        this.push(this.nextMetadataBlock());
+        this.bytesUntilMetadata = this.metaInt;
+      }
+    }
+    callback();
+  }
+
+  private nextMetadataBlock(): Buffer {
+    let title: string;
+    try {
+      title = this.getTitle();
+    } catch (error) {
+      console.error('Failed to resolve ICY stream title', error);
+      title = this.lastTitle ?? '';
+    }
+
+    if (title === this.lastTitle) {
+      return Buffer.alloc(1);
+    }
+    this.lastTitle = title;
+    return buildIcyMetadataBlock(title);
+  }
+}
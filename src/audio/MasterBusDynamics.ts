@@ -0,0 +1,210 @@
+export interface LookaheadLimiterOptions {
+  ceilingDb: number;
+  lookaheadMs: number;
+  releaseMs: number;
+}
+
+export interface CompressorOptions {
+  enabled: boolean;
+  thresholdDb: number;
+  ratio: number;
+  attackMs: number;
+  releaseMs: number;
+  makeupDb: number;
+}
+
+export interface MasterBusDynamicsOptions {
+  sampleRate: number;
+  channels: number;
+  limiter: LookaheadLimiterOptions;
+  compressor: CompressorOptions;
+}
+
+export interface MasterBusGainReduction {
+  compressorDb: number;
+  limiterDb: number;
+}
+
+export const DEFAULT_LIMITER_OPTIONS: LookaheadLimiterOptions = {
+  ceilingDb: -1,
+  lookaheadMs: 5,
+  releaseMs: 120,
+};
+
+export const DEFAULT_COMPRESSOR_OPTIONS: CompressorOptions = {
+  enabled: false,
+  thresholdDb: -18,
+  ratio: 3,
+  attackMs: 10,
+  releaseMs: 150,
+  makeupDb: 0,
+};
+
+const MIN_LEVEL_DB = -120;
+
+function dbToLinear(value: number): number {
+  return 10 ** (value / 20);
+}
+
+function linearToDb(value: number): number {
+  return value > 0 ? Math.max(MIN_LEVEL_DB, 20 * Math.log10(value)) : MIN_LEVEL_DB;
+}
+
+function timeConstant(ms: number, sampleRate: number): number {
+  const samples = (Math.max(0, ms) / 1000) * sampleRate;
+  return samples > 0 ? Math.exp(-1 / samples) : 0;
+}
+
+/**
+ * Dynamics stage applied to the summed master bus before it reaches the encoder.
+ * An optional feed-forward compressor evens out the overall level, then a
+ * look-ahead limiter delays the signal by a few milliseconds so it can start
+ * reducing the gain before a peak arrives instead of clipping it. Samples are
+ * interleaved floats in the [-1, 1] range and are processed in place; every
+ * channel of a frame shares the same gain so the stereo image does not shift.
+ */
+export default class MasterBusDynamics {
+  private readonly channels: number;
+
+  private readonly limiterCeiling: number;
+
+  private readonly lookaheadFrames: number;
+
+  private readonly limiterAttackCoef: number;
+
+  private readonly limiterReleaseCoef: number;
+
+  private readonly compressor: CompressorOptions;
+
+  private readonly compressorAttackCoef: number;
+
+  private readonly compressorReleaseCoef: number;
+
+  private readonly delayLine: Float32Array;
+
+  private delayIndex: number;
+
+  private limiterGain: number;
+
+  private heldGain: number;
+
+  private holdRemaining: number;
+
+  private compressorReductionDb: number;
+
+  private lastReduction: MasterBusGainReduction;
+
+  constructor({ sampleRate, channels, limiter, compressor }: MasterBusDynamicsOptions) {
+    this.channels = Math.max(1, channels);
+    this.limiterCeiling = Math.min(1, dbToLinear(Math.min(0, limiter.ceilingDb)));
+    this.lookaheadFrames = Math.max(1, Math.round((Math.max(0, limiter.lookaheadMs) / 1000) * sampleRate));
+    // Reach 99% of the required reduction by the time the peak leaves the delay line.
+    this.limiterAttackCoef = Math.exp(Math.log(0.01) / this.lookaheadFrames);
+    this.limiterReleaseCoef = timeConstant(limiter.releaseMs, sampleRate);
+
+    this.compressor = {
+      ...compressor,
+      ratio: Math.max(1, compressor.ratio),
+    };
+    this.compressorAttackCoef = timeConstant(compressor.attackMs, sampleRate);
+    this.compressorReleaseCoef = timeConstant(compressor.releaseMs, sampleRate);
+
+    this.delayLine = new Float32Array(this.lookaheadFrames * this.channels);
+    this.delayIndex = 0;
+    this.limiterGain = 1;
+    this.heldGain = 1;
+    this.holdRemaining = 0;
+    this.compressorReductionDb = 0;
+    this.lastReduction = { compressorDb: 0, limiterDb: 0 };
+  }
+
+  public reset(): void {
+    this.delayLine.fill(0);
+    this.delayIndex = 0;
+    this.limiterGain = 1;
+    this.heldGain = 1;
+    this.holdRemaining = 0;
+    this.compressorReductionDb = 0;
+    this.lastReduction = { compressorDb: 0, limiterDb: 0 };
+  }
+
+  /**
+   * Gain reduction applied during the last processed block, in positive decibels.
+   */
+  public getLastReduction(): MasterBusGainReduction {
+    return { ...this.lastReduction };
+  }
+
+  public process(samples: Float32Array): void {
+    const { channels } = this;
+    const frameCount = Math.floor(samples.length / channels);
+    const makeup = this.compressor.enabled ? dbToLinear(this.compressor.makeupDb) : 1;
+
+    let maxCompressorReductionDb = 0;
+    let minLimiterGain = 1;
+
+    for (let frame = 0; frame < frameCount; frame += 1) {
+      const offset = frame * channels;
+
+      let compressorGain = makeup;
+      if (this.compressor.enabled) {
+        let peak = 0;
+        for (let channel = 0; channel < channels; channel += 1) {
+          peak = Math.max(peak, Math.abs(samples[offset + channel]));
+        }
+
+        const overDb = linearToDb(peak) - this.compressor.thresholdDb;
+        const targetReductionDb = overDb > 0 ? overDb * (1 - 1 / this.compressor.ratio) : 0;
+        const coef =
+          targetReductionDb > this.compressorReductionDb ? this.compressorAttackCoef : this.compressorReleaseCoef;
+        this.compressorReductionDb = targetReductionDb + coef * (this.compressorReductionDb - targetReductionDb);
+        maxCompressorReductionDb = Math.max(maxCompressorReductionDb, this.compressorReductionDb);
+        compressorGain = makeup * dbToLinear(-this.compressorReductionDb);
+      }
+
+      let peak = 0;
+      for (let channel = 0; channel < channels; channel += 1) {
+        const value = samples[offset + channel] * compressorGain;
+        samples[offset + channel] = value;
+        peak = Math.max(peak, Math.abs(value));
+      }
+
+      // Hold the smallest gain required by any frame still inside the look-ahead window.
+      const requiredGain = peak > this.limiterCeiling ? this.limiterCeiling / peak : 1;
+      if (requiredGain <= this.heldGain) {
+        this.heldGain = requiredGain;
+        this.holdRemaining = this.lookaheadFrames;
+      } else if (this.holdRemaining > 0) {
+        this.holdRemaining -= 1;
+      } else {
+        this.heldGain = requiredGain;
+      }
+
+      const coef = this.heldGain < this.limiterGain ? this.limiterAttackCoef : this.limiterReleaseCoef;
+      this.limiterGain = this.heldGain + coef * (this.limiterGain - this.heldGain);
+      minLimiterGain = Math.min(minLimiterGain, this.limiterGain);
+
+      const delayOffset = this.delayIndex * channels;
+      for (let channel = 0; channel < channels; channel += 1) {
+        const delayed = this.delayLine[delayOffset + channel];
+        this.delayLine[delayOffset + channel] = samples[offset + channel];
+
+        // The smoothed gain can lag a few hundredths behind an abrupt peak; never let it through.
+        let value = delayed * this.limiterGain;
+        if (value > this.limiterCeiling) {
+          value = this.limiterCeiling;
+        } else if (value < -this.limiterCeiling) {
+          value = -this.limiterCeiling;
+        }
+        samples[offset + channel] = value;
+      }
+
+      this.delayIndex = (this.delayIndex + 1) % this.lookaheadFrames;
+    }
+
+    this.lastReduction = {
+      compressorDb: maxCompressorReductionDb,
+      limiterDb: Math.max(0, -linearToDb(minLimiterGain)),
+    };
+  }
+}
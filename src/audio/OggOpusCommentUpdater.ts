@@ -0,0 +1,328 @@
+import { randomBytes } from 'crypto';
+import { Transform, type TransformCallback } from 'stream';
+
+export interface OggOpusCommentUpdaterOptions {
+  getTitle: () => string;
+}
+
+const OGG_CAPTURE = Buffer.from('OggS', 'latin1');
+const OPUS_HEAD = Buffer.from('OpusHead', 'latin1');
+const OPUS_TAGS = Buffer.from('OpusTags', 'latin1');
+
+const PAGE_HEADER_BYTES = 27;
+const FLAG_CONTINUED = 0x01;
+const FLAG_BOS = 0x02;
+const FLAG_EOS = 0x04;
+const NO_GRANULE = -1n;
+
+const DEFAULT_VENDOR = 'Libre Antenne';
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i += 1) {
+    let value = i << 24;
+    for (let bit = 0; bit < 8; bit += 1) {
+      value = value & 0x80000000 ? (value << 1) ^ 0x04c11db7 : value << 1;
+    }
+    table[i] = value >>> 0;
+  }
+  return table;
+})();
+
+function oggCrc(page: Buffer): number {
+  let crc = 0;
+  for (let i = 0; i < page.length; i += 1) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ page[i]) & 0xff]) >>> 0;
+  }
+  return crc;
+}
+
+interface OggPage {
+  flags: number;
+  granule: bigint;
+  serial: number;
+  sequence: number;
+  segments: Buffer;
+  body: Buffer;
+}
+
+function buildPage({ flags, granule, serial, sequence, segments, body }: OggPage): Buffer {
+  const page = Buffer.alloc(PAGE_HEADER_BYTES + segments.length + body.length);
+  OGG_CAPTURE.copy(page, 0);
+  page[4] = 0;
+  page[5] = flags;
+  page.writeBigInt64LE(granule, 6);
+  page.writeUInt32LE(serial, 14);
+  page.writeUInt32LE(sequence, 18);
+  page[26] = segments.length;
+  segments.copy(page, PAGE_HEADER_BYTES);
+  body.copy(page, PAGE_HEADER_BYTES + segments.length);
+  page.writeUInt32LE(oggCrc(page), 22);
+  return page;
+}
+
+/** Page for a single packet that fits in one page (at most 255 lacing values). */
+function buildSinglePacketPage(page: Omit<OggPage, 'segments' | 'body'>, packet: Buffer): Buffer {
+  const lacing: number[] = [];
+  let remaining = packet.length;
+  while (remaining >= 255) {
+    lacing.push(255);
+    remaining -= 255;
+  }
+  lacing.push(remaining);
+  return buildPage({ ...page, segments: Buffer.from(lacing), body: packet });
+}
+
+function readVendor(tags: Buffer): string {
+  if (tags.length < 12) {
+    return DEFAULT_VENDOR;
+  }
+  const length = tags.readUInt32LE(8);
+  return 12 + length <= tags.length ? tags.toString('utf8', 12, 12 + length) : DEFAULT_VENDOR;
+}
+
+function buildOpusTags(vendor: string, title: string): Buffer {
+  const vendorBytes = Buffer.from(vendor, 'utf8');
+  const comment = Buffer.from(`TITLE=${title}`, 'utf8');
+  const packet = Buffer.alloc(8 + 4 + vendorBytes.length + 4 + 4 + comment.length);
+  let offset = OPUS_TAGS.copy(packet, 0);
+  offset = packet.writeUInt32LE(vendorBytes.length, offset);
+  offset += vendorBytes.copy(packet, offset);
+  offset = packet.writeUInt32LE(1, offset);
+  offset = packet.writeUInt32LE(comment.length, offset);
+  comment.copy(packet, offset);
+  return packet;
+}
+
+/**
+ * Carries the stream title to Ogg/Opus listeners as comment (OpusTags) updates,
+ * the Ogg counterpart of ICY metadata. The tags of the header pages are replaced
+ * with the current title, and when the title changes the stream is chained the
+ * way Icecast does it: the current logical stream is closed with an EOS page and
+ * a new one starts with the same OpusHead (pre-skip cleared, since the encoder
+ * keeps running) and fresh tags. Audio pages are then re-stamped with the new
+ * serial, sequence numbers and granule positions.
+ */
+export default class OggOpusCommentUpdater extends Transform {
+  private readonly getTitle: () => string;
+
+  private pending: Buffer = Buffer.alloc(0);
+
+  private opusHead: Buffer | null = null;
+
+  private vendor = DEFAULT_VENDOR;
+
+  private awaitingTags = false;
+
+  private currentTitle: string | null = null;
+
+  private sourceSerial: number | null = null;
+
+  private chained = false;
+
+  private linkOpen = false;
+
+  private outSerial = 0;
+
+  private outSequence = 0;
+
+  private granuleBase = 0n;
+
+  private lastSourceGranule = 0n;
+
+  private lastOutGranule = 0n;
+
+  constructor({ getTitle }: OggOpusCommentUpdaterOptions) {
+    super();
+    this.getTitle = getTitle;
+  }
+
+  public override _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.pending = this.pending.length > 0 ? Buffer.concat([this.pending, chunk]) : chunk;
+
+    while (true) {
+      const start = this.pending.indexOf(OGG_CAPTURE);
+      if (start === -1) {
+        // Keep a possible partial capture pattern at the end of the buffer.
+        this.pending = this.pending.subarray(Math.max(0, this.pending.length - (OGG_CAPTURE.length - 1)));
+        break;
+      }
+      if (start > 0) {
+        this.pending = this.pending.subarray(start);
+      }
+      if (this.pending.length < PAGE_HEADER_BYTES) {
+        break;
+      }
+      const segmentCount = this.pending[26];
+      const headerLength = PAGE_HEADER_BYTES + segmentCount;
+      if (this.pending.length < headerLength) {
+        break;
+      }
+      let bodyLength = 0;
+      for (let i = PAGE_HEADER_BYTES; i < headerLength; i += 1) {
+        bodyLength += this.pending[i];
+      }
+      if (this.pending.length < headerLength + bodyLength) {
+        break;
+      }
+
+      const raw = this.pending.subarray(0, headerLength + bodyLength);
+      this.pending = this.pending.subarray(headerLength + bodyLength);
+      this.handlePage(raw, {
+        flags: raw[5],
+        granule: raw.readBigInt64LE(6),
+        serial: raw.readUInt32LE(14),
+        sequence: raw.readUInt32LE(18),
+        segments: raw.subarray(PAGE_HEADER_BYTES, headerLength),
+        body: raw.subarray(headerLength),
+      });
+    }
+
+    callback();
+  }
+
+  private handlePage(raw: Buffer, page: OggPage): void {
+    if (page.flags & FLAG_BOS) {
+      this.startSourceLink(raw, page);
+      return;
+    }
+
+    if (page.serial !== this.sourceSerial) {
+      this.push(raw);
+      return;
+    }
+
+    if (this.awaitingTags) {
+      this.awaitingTags = false;
+      if (page.body.subarray(0, OPUS_TAGS.length).equals(OPUS_TAGS)) {
+        this.replaceTags(raw, page);
+        return;
+      }
+    }
+
+    if (this.opusHead && !(page.flags & FLAG_CONTINUED)) {
+      const title = this.resolveTitle();
+      if (title !== this.currentTitle) {
+        this.chainNewLink(title);
+      }
+    }
+
+    this.pushAudioPage(raw, page);
+  }
+
+  private startSourceLink(raw: Buffer, page: OggPage): void {
+    if (this.linkOpen) {
+      this.pushEndOfLink();
+    }
+
+    this.sourceSerial = page.serial;
+    this.chained = false;
+    this.linkOpen = !(page.flags & FLAG_EOS);
+    this.outSerial = page.serial;
+    this.outSequence = page.sequence + 1;
+    this.granuleBase = 0n;
+    this.lastSourceGranule = 0n;
+    this.lastOutGranule = 0n;
+    this.currentTitle = null;
+
+    const isOpus = page.body.subarray(0, OPUS_HEAD.length).equals(OPUS_HEAD);
+    this.opusHead = isOpus ? Buffer.from(page.body) : null;
+    this.awaitingTags = isOpus;
+    this.push(raw);
+  }
+
+  private replaceTags(raw: Buffer, page: OggPage): void {
+    if (page.segments[page.segments.length - 1] === 255) {
+      // Tags spread over several pages: pass them through, the next audio page chains a titled link.
+      this.pushAudioPage(raw, page);
+      return;
+    }
+
+    this.vendor = readVendor(page.body);
+    this.currentTitle = this.resolveTitle();
+    const tags = buildOpusTags(this.vendor, this.currentTitle);
+    this.push(buildSinglePacketPage({ ...page, sequence: this.outSequence }, tags));
+    this.outSequence += 1;
+  }
+
+  private chainNewLink(title: string): void {
+    const head = this.opusHead;
+    if (!head) {
+      return;
+    }
+
+    if (this.linkOpen) {
+      this.pushEndOfLink();
+    }
+
+    let serial = randomBytes(4).readUInt32LE(0);
+    if (serial === this.outSerial) {
+      serial = (serial + 1) >>> 0;
+    }
+    this.outSerial = serial;
+    this.outSequence = 0;
+    this.granuleBase = this.lastSourceGranule;
+    this.lastOutGranule = 0n;
+    this.chained = true;
+    this.linkOpen = true;
+    this.currentTitle = title;
+
+    const chainedHead = Buffer.from(head);
+    if (chainedHead.length >= 12) {
+      chainedHead.writeUInt16LE(0, 10);
+    }
+    this.push(buildSinglePacketPage({ flags: FLAG_BOS, granule: 0n, serial, sequence: this.outSequence }, chainedHead));
+    this.outSequence += 1;
+    this.push(
+      buildSinglePacketPage(
+        { flags: 0, granule: 0n, serial, sequence: this.outSequence },
+        buildOpusTags(this.vendor, title),
+      ),
+    );
+    this.outSequence += 1;
+  }
+
+  private pushEndOfLink(): void {
+    this.push(
+      buildPage({
+        flags: FLAG_EOS,
+        granule: this.lastOutGranule,
+        serial: this.outSerial,
+        sequence: this.outSequence,
+        segments: Buffer.alloc(0),
+        body: Buffer.alloc(0),
+      }),
+    );
+    this.outSequence += 1;
+    this.linkOpen = false;
+  }
+
+  private pushAudioPage(raw: Buffer, page: OggPage): void {
+    const granule = page.granule === NO_GRANULE ? NO_GRANULE : page.granule - this.granuleBase;
+    if (page.granule !== NO_GRANULE) {
+      this.lastSourceGranule = page.granule;
+      this.lastOutGranule = granule;
+    }
+    if (page.flags & FLAG_EOS) {
+      this.linkOpen = false;
+    }
+
+    if (!this.chained) {
+      this.outSequence = page.sequence + 1;
+      this.push(raw);
+      return;
+    }
+
+    this.push(buildPage({ ...page, serial: this.outSerial, sequence: this.outSequence, granule }));
+    this.outSequence += 1;
+  }
+
+  private resolveTitle(): string {
+    try {
+      return this.getTitle();
+    } catch (error) {
+      console.error('Failed to resolve Ogg stream title', error);
+      return this.currentTitle ?? '';
+    }
+  }
+}
@@ -0,0 +1,163 @@
+export interface PacketLossConcealerOptions {
+  sampleRate: number;
+  channels: number;
+  frameBytes: number;
+  maxConcealedFrames: number;
+}
+
+// Voice fundamentals sit between roughly 70 Hz and 400 Hz.
+const MIN_PITCH_HZ = 70;
+const MAX_PITCH_HZ = 400;
+
+// Below this normalized correlation the signal is treated as noise-like and a fixed period is used.
+const VOICED_CORRELATION = 0.3;
+
+const RECOVERY_CROSSFADE_MS = 2.5;
+
+/**
+ * Replaces missing frames with a pitch-synchronous extrapolation of the last
+ * decoded audio instead of repeating the previous frame verbatim. The pitch
+ * period is estimated by autocorrelation, the final period is looped with a
+ * continuous phase, and the result fades out over `maxConcealedFrames` frames.
+ * When real audio resumes, the first couple of milliseconds are crossfaded with
+ * the extrapolation so the seam does not click.
+ */
+export default class PacketLossConcealer {
+  private readonly channels: number;
+
+  private readonly frameSamples: number;
+
+  private readonly maxConcealedFrames: number;
+
+  private readonly minLag: number;
+
+  private readonly maxLag: number;
+
+  private readonly crossfadeSamples: number;
+
+  // Last decoded frame, as interleaved floats.
+  private readonly history: Float32Array;
+
+  private hasHistory: boolean;
+
+  private period: number;
+
+  private phase: number;
+
+  private concealedFrames: number;
+
+  constructor({ sampleRate, channels, frameBytes, maxConcealedFrames }: PacketLossConcealerOptions) {
+    this.channels = Math.max(1, channels);
+    this.frameSamples = Math.floor(frameBytes / 2 / this.channels);
+    this.maxConcealedFrames = Math.max(1, maxConcealedFrames);
+    this.maxLag = Math.min(Math.floor(sampleRate / MIN_PITCH_HZ), Math.floor(this.frameSamples / 2));
+    this.minLag = Math.min(Math.ceil(sampleRate / MAX_PITCH_HZ), this.maxLag);
+    this.crossfadeSamples = Math.min(
+      this.frameSamples,
+      Math.max(1, Math.round((sampleRate * RECOVERY_CROSSFADE_MS) / 1000)),
+    );
+    this.history = new Float32Array(this.frameSamples * this.channels);
+    this.hasHistory = false;
+    this.period = this.maxLag;
+    this.phase = 0;
+    this.concealedFrames = 0;
+  }
+
+  /**
+   * Records a decoded frame. If it follows concealed frames, its beginning is
+   * crossfaded in place with the extrapolated signal first.
+   */
+  public accept(frame: Buffer): void {
+    if (this.concealedFrames > 0 && this.concealedFrames <= this.maxConcealedFrames) {
+      const gain = this.gainAt(this.concealedFrames);
+      for (let i = 0; i < this.crossfadeSamples; i += 1) {
+        const weight = (i + 1) / (this.crossfadeSamples + 1);
+        for (let channel = 0; channel < this.channels; channel += 1) {
+          const offset = (i * this.channels + channel) * 2;
+          const extrapolated = this.extrapolate(i, channel) * gain * 32768;
+          const value = extrapolated * (1 - weight) + frame.readInt16LE(offset) * weight;
+          frame.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(value))), offset);
+        }
+      }
+    }
+
+    for (let i = 0; i < this.history.length; i += 1) {
+      this.history[i] = frame.readInt16LE(i * 2) / 32768;
+    }
+    this.hasHistory = true;
+    this.concealedFrames = 0;
+    this.phase = 0;
+  }
+
+  /**
+   * Writes the next concealment frame into `target`. Returns false once the
+   * concealment has fully faded out, or when there is nothing to extrapolate from.
+   */
+  public conceal(target: Buffer): boolean {
+    if (!this.hasHistory || this.concealedFrames >= this.maxConcealedFrames) {
+      return false;
+    }
+
+    if (this.concealedFrames === 0) {
+      this.period = this.estimatePeriod();
+    }
+
+    const startGain = this.gainAt(this.concealedFrames);
+    const endGain = this.gainAt(this.concealedFrames + 1);
+    for (let i = 0; i < this.frameSamples; i += 1) {
+      const gain = startGain + ((endGain - startGain) * i) / this.frameSamples;
+      for (let channel = 0; channel < this.channels; channel += 1) {
+        const value = this.extrapolate(i, channel) * gain * 32768;
+        target.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(value))), (i * this.channels + channel) * 2);
+      }
+    }
+
+    this.phase = (this.phase + this.frameSamples) % this.period;
+    this.concealedFrames += 1;
+    return true;
+  }
+
+  private gainAt(concealedFrames: number): number {
+    return Math.max(0, 1 - concealedFrames / this.maxConcealedFrames);
+  }
+
+  private extrapolate(index: number, channel: number): number {
+    // Loop the last pitch period of the history, continuing from where the previous frame stopped.
+    const position = this.frameSamples - this.period + ((this.phase + index) % this.period);
+    return this.history[position * this.channels + channel];
+  }
+
+  private estimatePeriod(): number {
+    const { channels, frameSamples } = this;
+    const mono = (index: number): number => {
+      let sum = 0;
+      for (let channel = 0; channel < channels; channel += 1) {
+        sum += this.history[index * channels + channel];
+      }
+      return sum / channels;
+    };
+
+    let bestLag = this.maxLag;
+    let bestCorrelation = 0;
+    for (let lag = this.minLag; lag <= this.maxLag; lag += 1) {
+      let product = 0;
+      let energyA = 0;
+      let energyB = 0;
+      for (let i = frameSamples - this.maxLag; i < frameSamples; i += 1) {
+        const a = mono(i);
+        const b = mono(i - lag);
+        product += a * b;
+        energyA += a * a;
+        energyB += b * b;
+      }
+      const denominator = Math.sqrt(energyA * energyB);
+      const correlation = denominator > 0 ? product / denominator : 0;
+      if (correlation > bestCorrelation) {
+        bestCorrelation = correlation;
+        bestLag = lag;
+      }
+    }
+
+    return bestCorrelation >= VOICED_CORRELATION ? bestLag : this.maxLag;
+  }
+}
@@ -0,0 +1,90 @@
+import { Writable } from 'stream';
+
+/**
+ * Writable that copies the mixer output to every attached encoder input.
+ * A sink that is still draining simply misses frames instead of stalling the
+ * other renditions; the mixer only sees backpressure once every sink is full.
+ */
+export default class PcmFanout extends Writable {
+  private readonly sinks = new Set<Writable>();
+
+  private readonly droppedFrames = new Map<Writable, number>();
+
+  private pendingCallback: ((error?: Error | null) => void) | null = null;
+
+  constructor(frameBytes: number) {
+    super({ highWaterMark: frameBytes });
+  }
+
+  public addSink(sink: Writable): void {
+    if (this.sinks.has(sink)) {
+      return;
+    }
+    this.sinks.add(sink);
+    this.droppedFrames.set(sink, 0);
+    sink.on('drain', this.handleSinkDrain);
+    this.releasePending();
+  }
+
+  public removeSink(sink: Writable): void {
+    if (!this.sinks.delete(sink)) {
+      return;
+    }
+    this.droppedFrames.delete(sink);
+    sink.removeListener('drain', this.handleSinkDrain);
+    this.releasePending();
+  }
+
+  public getDroppedFrames(sink: Writable): number {
+    return this.droppedFrames.get(sink) ?? 0;
+  }
+
+  public get sinkCount(): number {
+    return this.sinks.size;
+  }
+
+  public override _write(chunk: Buffer, _encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+    let accepted = 0;
+    for (const sink of this.sinks) {
+      if (!sink.writable || sink.writableNeedDrain) {
+        this.droppedFrames.set(sink, (this.droppedFrames.get(sink) ?? 0) + 1);
+        continue;
+      }
+      try {
+        sink.write(chunk);
+        accepted += 1;
+      } catch (error) {
+        console.error('PCM fan-out sink write failed', error);
+      }
+    }
+
+    if (accepted === 0 && this.hasBlockedSink()) {
+      // Hold the callback so the mixer pauses until one encoder catches up.
+      this.pendingCallback = callback;
+      return;
+    }
+
+    callback();
+  }
+
+  private hasBlockedSink(): boolean {
+    for (const sink of this.sinks) {
+      if (sink.writable && sink.writableNeedDrain) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private readonly handleSinkDrain = (): void => {
+    this.releasePending();
+  };
+
+  private releasePending(): void {
+    const callback = this.pendingCallback;
+    if (callback) {
+      this.pendingCallback = null;
+      callback();
+    }
+  }
+}
@@ -0,0 +1,102 @@
+/** Produces the next frame, or null to leave that frame out (the mixer conceals or mixes silence). */
+export type PcmFrameRenderer = () => Buffer | null;
+
+export interface PcmPlayoutOptions {
+  frameBytes: number;
+  frameMs: number;
+  onFrame: (frame: Buffer) => void;
+  /** Called once the last frame of a buffer has had time to play; not called after `stop()`. */
+  onEnd?: () => void;
+  /** Frames written ahead of the clock so the mixer's jitter buffer never runs dry. */
+  leadFrames?: number;
+}
+
+/** After a stall longer than this, the clock skips ahead instead of flooding the mixer. */
+const MAX_CATCH_UP_FRAMES = 50;
+
+/**
+ * Paces audio out in frames at real-time speed, either a decoded buffer or frames
+ * rendered on demand until `stop()`. Every tick writes the frames due by the wall
+ * clock rather than one per timer call, since timers drift.
+ */
+export default class PcmPlayout {
+  private readonly pcm: Buffer | null;
+
+  private readonly render: PcmFrameRenderer;
+
+  private readonly frameBytes: number;
+
+  private readonly frameMs: number;
+
+  private readonly onFrame: (frame: Buffer) => void;
+
+  private readonly onEnd: (() => void) | null;
+
+  private readonly leadFrames: number;
+
+  private framesWritten = 0;
+
+  private startedAt = 0;
+
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(source: Buffer | PcmFrameRenderer, { frameBytes, frameMs, onFrame, onEnd, leadFrames = 3 }: PcmPlayoutOptions) {
+    this.pcm = Buffer.isBuffer(source) ? source : null;
+    this.render = Buffer.isBuffer(source) ? () => this.readFrame() : source;
+    this.frameBytes = frameBytes;
+    this.frameMs = frameMs;
+    this.onFrame = onFrame;
+    this.onEnd = onEnd ?? null;
+    this.leadFrames = Math.max(0, leadFrames);
+  }
+
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.startedAt = Date.now();
+    this.timer = setInterval(() => this.pump(), this.frameMs);
+    this.pump();
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private pump(): void {
+    const dueFrames = Math.floor((Date.now() - this.startedAt) / this.frameMs) + this.leadFrames;
+    if (dueFrames - this.framesWritten > MAX_CATCH_UP_FRAMES) {
+      this.framesWritten = dueFrames - this.leadFrames;
+    }
+    while (this.timer && this.framesWritten < dueFrames && !this.bufferExhausted()) {
+      const frame = this.render();
+      this.framesWritten += 1;
+      if (frame) {
+        this.onFrame(frame);
+      }
+    }
+
+    if (this.timer && this.bufferExhausted()) {
+      // Let the frames written ahead play out before reporting the end.
+      clearInterval(this.timer);
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.onEnd?.();
+      }, (this.leadFrames + 1) * this.frameMs);
+    }
+  }
+
+  private bufferExhausted(): boolean {
+    return this.pcm !== null && this.framesWritten * this.frameBytes >= this.pcm.length;
+  }
+
+  private readFrame(): Buffer {
+    const offset = this.framesWritten * this.frameBytes;
+    const frame = Buffer.alloc(this.frameBytes);
+    this.pcm?.copy(frame, 0, offset, Math.min(this.pcm.length, offset + this.frameBytes));
+    return frame;
+  }
+}
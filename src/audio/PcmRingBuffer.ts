@@ -0,0 +1,99 @@
+/**
+ * Fixed-capacity FIFO of raw PCM bytes. The backing buffer is allocated once and
+ * reused for the lifetime of the source, so buffering decoded audio no longer
+ * allocates on every chunk. When a writer outpaces the reader, the oldest bytes
+ * are overwritten, which keeps latency bounded exactly like the previous
+ * truncation did.
+ */
+export default class PcmRingBuffer {
+  private readonly storage: Buffer;
+
+  private readIndex: number;
+
+  private size: number;
+
+  constructor(capacity: number) {
+    this.storage = Buffer.alloc(Math.max(1, Math.floor(capacity)));
+    this.readIndex = 0;
+    this.size = 0;
+  }
+
+  public get capacity(): number {
+    return this.storage.length;
+  }
+
+  public get length(): number {
+    return this.size;
+  }
+
+  public clear(): void {
+    this.readIndex = 0;
+    this.size = 0;
+  }
+
+  public write(chunk: Buffer): void {
+    const { capacity } = this;
+    let source = chunk;
+    if (source.length > capacity) {
+      source = source.subarray(source.length - capacity);
+    }
+
+    const overflow = this.size + source.length - capacity;
+    if (overflow > 0) {
+      this.readIndex = (this.readIndex + overflow) % capacity;
+      this.size -= overflow;
+    }
+
+    const writeIndex = (this.readIndex + this.size) % capacity;
+    const firstPart = Math.min(source.length, capacity - writeIndex);
+    source.copy(this.storage, writeIndex, 0, firstPart);
+    if (firstPart < source.length) {
+      source.copy(this.storage, 0, firstPart);
+    }
+
+    this.size += source.length;
+  }
+
+  /**
+   * Moves `target.length` bytes into `target`. Returns false, leaving the buffer
+   * untouched, when not enough data is available.
+   */
+  public readInto(target: Buffer): boolean {
+    const length = target.length;
+    if (length > this.size) {
+      return false;
+    }
+
+    const { capacity } = this;
+    const firstPart = Math.min(length, capacity - this.readIndex);
+    this.storage.copy(target, 0, this.readIndex, this.readIndex + firstPart);
+    if (firstPart < length) {
+      this.storage.copy(target, firstPart, 0, length - firstPart);
+    }
+
+    this.readIndex = (this.readIndex + length) % capacity;
+    this.size -= length;
+    return true;
+  }
+
+  /**
+   * Copies the newest `length` bytes (or everything buffered when less is
+   * available) without consuming them.
+   */
+  public copyLatest(length: number): Buffer {
+    const size = Math.min(this.size, Math.max(0, Math.floor(length)));
+    const target = Buffer.alloc(size);
+    if (size === 0) {
+      return target;
+    }
+
+    const { capacity } = this;
+    const start = (this.readIndex + this.size - size) % capacity;
+    const firstPart = Math.min(size, capacity - start);
+    this.storage.copy(target, 0, start, start + firstPart);
+    if (firstPart < size) {
+      this.storage.copy(target, firstPart, 0, size - firstPart);
+    }
+    return target;
+  }
+}
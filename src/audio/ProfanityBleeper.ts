@@ -0,0 +1,150 @@
+import { Writable } from 'stream';
+
+export interface ProfanityBleeperOptions {
+  frameBytes: number;
+  frameMs: number;
+  sampleRate: number;
+  channels: number;
+  /** How long the program is held back, i.e. how late a match may arrive and still be bleeped. */
+  holdMs: number;
+  toneHz?: number;
+  toneDb?: number;
+}
+
+interface HeldFrame {
+  frame: Buffer;
+  /** Wall-clock time the mixer produced the frame; its audio spans the preceding `frameMs`. */
+  mixedAt: number;
+}
+
+interface BleepRange {
+  startMs: number;
+  endMs: number;
+}
+
+/** Short fades keep the tone from clicking in and out of the program. */
+const BLEEP_FADE_MS = 5;
+
+/**
+ * Holds the mixed program for `holdMs` so words recognised in the live
+ * transcription can be covered before they air. `bleep()` takes wall-clock
+ * ranges; every held sample inside a range is replaced by a sine tone, with a
+ * few milliseconds of crossfade at the edges.
+ *
+ * The stage writes exactly one frame per frame received, like the broadcast
+ * delay, so it can sit anywhere between the mixer and the fan-out.
+ */
+export default class ProfanityBleeper extends Writable {
+  private readonly frameMs: number;
+
+  private readonly sampleRate: number;
+
+  private readonly channels: number;
+
+  private readonly holdFrames: number;
+
+  private readonly toneStep: number;
+
+  private readonly toneAmplitude: number;
+
+  private readonly queue: HeldFrame[] = [];
+
+  private ranges: BleepRange[] = [];
+
+  private output: Writable | null = null;
+
+  private tonePhase = 0;
+
+  constructor({
+    frameBytes,
+    frameMs,
+    sampleRate,
+    channels,
+    holdMs,
+    toneHz = 1000,
+    toneDb = -12,
+  }: ProfanityBleeperOptions) {
+    super({ highWaterMark: frameBytes });
+    this.frameMs = frameMs;
+    this.sampleRate = sampleRate;
+    this.channels = channels;
+    this.holdFrames = Math.max(1, Math.round(holdMs / frameMs));
+    this.toneStep = (2 * Math.PI * toneHz) / sampleRate;
+    this.toneAmplitude = 32767 * 10 ** (toneDb / 20);
+    const silenceFrame = Buffer.alloc(frameBytes);
+    for (let i = 0; i < this.holdFrames; i += 1) {
+      this.queue.push({ frame: silenceFrame, mixedAt: 0 });
+    }
+  }
+
+  public setOutput(output: Writable | null): void {
+    this.output = output;
+  }
+
+  public getHoldMs(): number {
+    return this.holdFrames * this.frameMs;
+  }
+
+  /**
+   * Covers the audio spoken between `startMs` and `endMs` (epoch milliseconds).
+   * Returns false when part of the range has already aired.
+   */
+  public bleep(startMs: number, endMs: number): boolean {
+    if (!(endMs > startMs)) {
+      return true;
+    }
+    this.ranges.push({ startMs, endMs });
+    return startMs >= this.getAiredUntil();
+  }
+
+  public override _write(chunk: Buffer, _encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+    this.queue.push({ frame: chunk, mixedAt: Date.now() });
+    const frame = this.nextFrame();
+    const output = this.output;
+    if (!output || !output.writable || output.write(frame)) {
+      callback();
+      return;
+    }
+    output.once('drain', () => callback());
+  }
+
+  /** Start of the oldest audio still held: anything before it is already on air. */
+  private getAiredUntil(): number {
+    const head = this.queue.find((held) => held.mixedAt > 0);
+    return head ? head.mixedAt - this.frameMs : Date.now();
+  }
+
+  private nextFrame(): Buffer {
+    const held = this.queue.shift() as HeldFrame;
+    const frameEnd = held.mixedAt;
+    const frameStart = frameEnd - this.frameMs;
+    this.ranges = this.ranges.filter((range) => range.endMs > frameStart);
+    const overlapping = this.ranges.filter((range) => range.startMs < frameEnd && range.endMs > frameStart);
+    if (held.mixedAt === 0 || overlapping.length === 0) {
+      return held.frame;
+    }
+
+    const frame = Buffer.from(held.frame);
+    const blockAlign = this.channels * 2;
+    const msPerSample = 1000 / this.sampleRate;
+    for (let offset = 0, index = 0; offset + blockAlign <= frame.length; offset += blockAlign, index += 1) {
+      const time = frameStart + index * msPerSample;
+      let gain = 0;
+      for (const range of overlapping) {
+        const edge = Math.min(time - range.startMs, range.endMs - time) / BLEEP_FADE_MS;
+        gain = Math.max(gain, Math.min(1, edge));
+      }
+      const tone = Math.sin(this.tonePhase) * this.toneAmplitude;
+      this.tonePhase = (this.tonePhase + this.toneStep) % (2 * Math.PI);
+      if (gain <= 0) {
+        continue;
+      }
+      for (let channel = 0; channel < this.channels; channel += 1) {
+        const position = offset + channel * 2;
+        const mixed = frame.readInt16LE(position) * (1 - gain) + tone * gain;
+        frame.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(mixed))), position);
+      }
+    }
+    return frame;
+  }
+}
@@ -0,0 +1,251 @@
+export interface LoudnessNormalizationOptions {
+  enabled: boolean;
+  targetLufs: number;
+  maxBoostDb: number;
+  attackMs: number;
+  releaseMs: number;
+}
+
+export interface SourceLoudnessNormalizerOptions extends LoudnessNormalizationOptions {
+  sampleRate: number;
+  channels: number;
+  bytesPerSample: number;
+}
+
+export interface SourceLoudnessSnapshot {
+  momentaryLufs: number | null;
+  shortTermLufs: number | null;
+  gainDb: number;
+}
+
+export const DEFAULT_LOUDNESS_NORMALIZATION_OPTIONS: LoudnessNormalizationOptions = {
+  enabled: true,
+  targetLufs: -20,
+  maxBoostDb: 12,
+  attackMs: 500,
+  releaseMs: 3000,
+};
+
+// EBU R128 measures 400 ms (momentary) and 3 s (short-term) windows built from 100 ms blocks.
+const BLOCK_MS = 100;
+const MOMENTARY_BLOCKS = 4;
+const SHORT_TERM_BLOCKS = 30;
+
+const MAX_CUT_DB = 24;
+
+// BS.1770 absolute gate: blocks quieter than this are silence and do not count toward loudness.
+const ABSOLUTE_GATE_LUFS = -70;
+const ABSOLUTE_GATE_ENERGY = 10 ** ((ABSOLUTE_GATE_LUFS + 0.691) / 10);
+
+// Stored in place of a block's energy when it was gated out.
+const GATED_BLOCK = -1;
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+/**
+ * K-weighting pre-filter from ITU-R BS.1770 (high shelf followed by a high-pass),
+ * with the coefficients derived for the actual sample rate.
+ */
+function createKWeightingStages(sampleRate: number): [Biquad, Biquad] {
+  const shelfK = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const shelfQ = 0.7071752369554196;
+  const vh = 10 ** (3.999843853973347 / 20);
+  const vb = vh ** 0.4996667741545416;
+  const shelfA0 = 1 + shelfK / shelfQ + shelfK * shelfK;
+
+  const highPassK = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  const highPassQ = 0.5003270373238773;
+  const highPassA0 = 1 + highPassK / highPassQ + highPassK * highPassK;
+
+  return [
+    {
+      b0: (vh + (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+      b1: (2 * (shelfK * shelfK - vh)) / shelfA0,
+      b2: (vh - (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+      a1: (2 * (shelfK * shelfK - 1)) / shelfA0,
+      a2: (1 - shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+    },
+    {
+      b0: 1,
+      b1: -2,
+      b2: 1,
+      a1: (2 * (highPassK * highPassK - 1)) / highPassA0,
+      a2: (1 - highPassK / highPassQ + highPassK * highPassK) / highPassA0,
+    },
+  ];
+}
+
+function energyToLufs(meanSquare: number): number | null {
+  return meanSquare > 0 ? -0.691 + 10 * Math.log10(meanSquare) : null;
+}
+
+/**
+ * Measures the loudness of a single speaker and derives an automatic gain that
+ * moves it toward a common target, so whispering and shouting members end up at
+ * a comparable level before the master bus. The gain only moves while the
+ * voice activity detector reports speech: breathing, background noise and
+ * concealed frames leave it untouched, and only blocks that contain speech and
+ * pass the absolute gate count toward the measured loudness, so the pauses of a
+ * quiet speaker do not pull their level down and trigger an excessive boost.
+ */
+export default class SourceLoudnessNormalizer {
+  private readonly channels: number;
+
+  private readonly bytesPerSample: number;
+
+  private readonly options: LoudnessNormalizationOptions;
+
+  private readonly stages: [Biquad, Biquad];
+
+  // Two biquads per channel, each with its x1, x2, y1, y2 history.
+  private readonly filterState: Float64Array;
+
+  private readonly blockSize: number;
+
+  private readonly blockEnergies: Float64Array;
+
+  private blockCount: number;
+
+  private blockCursor: number;
+
+  private pendingEnergy: number;
+
+  private pendingSamples: number;
+
+  private pendingSpeech: boolean;
+
+  private gainDb: number;
+
+  constructor({ sampleRate, channels, bytesPerSample, ...options }: SourceLoudnessNormalizerOptions) {
+    this.channels = Math.max(1, channels);
+    this.bytesPerSample = bytesPerSample;
+    this.options = {
+      ...options,
+      maxBoostDb: Math.max(0, options.maxBoostDb),
+    };
+    this.stages = createKWeightingStages(sampleRate);
+    this.filterState = new Float64Array(this.channels * 8);
+    this.blockSize = Math.max(1, Math.round((sampleRate * BLOCK_MS) / 1000));
+    this.blockEnergies = new Float64Array(SHORT_TERM_BLOCKS);
+    this.blockCount = 0;
+    this.blockCursor = 0;
+    this.pendingEnergy = 0;
+    this.pendingSamples = 0;
+    this.pendingSpeech = false;
+    this.gainDb = 0;
+  }
+
+  public getGain(): number {
+    return this.options.enabled ? 10 ** (this.gainDb / 20) : 1;
+  }
+
+  public getSnapshot(): SourceLoudnessSnapshot {
+    return {
+      momentaryLufs: this.computeLoudness(MOMENTARY_BLOCKS),
+      shortTermLufs: this.computeLoudness(SHORT_TERM_BLOCKS),
+      gainDb: this.options.enabled ? this.gainDb : 0,
+    };
+  }
+
+  /**
+   * Feeds a freshly decoded frame to the meter and, while `speaking`, advances the
+   * gain by `frameMs`. Returns the linear gain to apply to that frame.
+   */
+  public process(frame: Buffer, frameMs: number, speaking: boolean): number {
+    const completedBlock = this.measure(frame, speaking);
+    if (!this.options.enabled || !completedBlock || !speaking) {
+      return this.getGain();
+    }
+
+    const momentary = this.computeLoudness(MOMENTARY_BLOCKS);
+    const shortTerm = this.computeLoudness(SHORT_TERM_BLOCKS);
+    if (momentary === null || shortTerm === null) {
+      return this.getGain();
+    }
+
+    const targetGainDb = Math.min(
+      this.options.maxBoostDb,
+      Math.max(-MAX_CUT_DB, this.options.targetLufs - shortTerm),
+    );
+    const timeMs = targetGainDb < this.gainDb ? this.options.attackMs : this.options.releaseMs;
+    // The gain is only updated once per completed block, so the smoothing runs at block rate.
+    const elapsedMs = Math.max(frameMs, BLOCK_MS);
+    const coef = timeMs > 0 ? Math.exp(-elapsedMs / timeMs) : 0;
+    this.gainDb = targetGainDb + coef * (this.gainDb - targetGainDb);
+
+    return this.getGain();
+  }
+
+  private measure(frame: Buffer, speaking: boolean): boolean {
+    const { channels, stages } = this;
+    const frameCount = Math.floor(frame.length / (this.bytesPerSample * channels));
+    const state = this.filterState;
+    let completedBlock = false;
+    this.pendingSpeech = this.pendingSpeech || speaking;
+
+    for (let i = 0; i < frameCount; i += 1) {
+      for (let channel = 0; channel < channels; channel += 1) {
+        let value = frame.readInt16LE((i * channels + channel) * this.bytesPerSample) / 32768.0;
+
+        for (let stage = 0; stage < 2; stage += 1) {
+          const base = channel * 8 + stage * 4;
+          const coefficients = stages[stage];
+          const output =
+            coefficients.b0 * value +
+            coefficients.b1 * state[base] +
+            coefficients.b2 * state[base + 1] -
+            coefficients.a1 * state[base + 2] -
+            coefficients.a2 * state[base + 3];
+          state[base + 1] = state[base];
+          state[base] = value;
+          state[base + 3] = state[base + 2];
+          state[base + 2] = output;
+          value = output;
+        }
+
+        this.pendingEnergy += value * value;
+      }
+
+      this.pendingSamples += 1;
+      if (this.pendingSamples >= this.blockSize) {
+        const energy = this.pendingEnergy / this.pendingSamples;
+        this.blockEnergies[this.blockCursor] =
+          this.pendingSpeech && energy >= ABSOLUTE_GATE_ENERGY ? energy : GATED_BLOCK;
+        this.blockCursor = (this.blockCursor + 1) % SHORT_TERM_BLOCKS;
+        this.blockCount = Math.min(SHORT_TERM_BLOCKS, this.blockCount + 1);
+        this.pendingEnergy = 0;
+        this.pendingSamples = 0;
+        this.pendingSpeech = speaking;
+        completedBlock = true;
+      }
+    }
+
+    return completedBlock;
+  }
+
+  private computeLoudness(windowBlocks: number): number | null {
+    // Until a full window is available, the most recent blocks stand in for it so new speakers adapt quickly.
+    const count = Math.min(windowBlocks, this.blockCount);
+    if (count === 0) {
+      return null;
+    }
+
+    let sum = 0;
+    let measured = 0;
+    for (let i = 1; i <= count; i += 1) {
+      const energy = this.blockEnergies[(this.blockCursor - i + SHORT_TERM_BLOCKS) % SHORT_TERM_BLOCKS];
+      if (energy !== GATED_BLOCK) {
+        sum += energy;
+        measured += 1;
+      }
+    }
+
+    return measured > 0 ? energyToLufs(sum / measured) : null;
+  }
+}
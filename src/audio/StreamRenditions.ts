@@ -0,0 +1,158 @@
+import type { PassThrough, Writable } from 'stream';
+import type AudioMixer from './AudioMixer';
+import FfmpegTranscoder, { type FfmpegTranscoderOptions, type StreamFormat } from './FfmpegTranscoder';
+import PcmFanout from './PcmFanout';
+
+export interface StreamRenditionDefinition {
+  format: StreamFormat;
+  bitrate: string;
+}
+
+export interface StreamRenditionsOptions
+  extends Omit<FfmpegTranscoderOptions, 'outputFormat' | 'bitrate'> {
+  renditions: StreamRenditionDefinition[];
+  basePath: string;
+  frameBytes: number;
+  mimeTypes: Record<string, string>;
+}
+
+/** Frame-for-frame processing between the mixer and the fan-out, such as the broadcast delay. */
+export type ProgramStage = Writable & { setOutput(output: Writable | null): void };
+
+export interface StreamRendition {
+  id: StreamFormat;
+  format: StreamFormat;
+  bitrate: string;
+  path: string;
+  mimeType: string;
+  transcoder: FfmpegTranscoder;
+}
+
+export interface StreamRenditionStatus {
+  id: StreamFormat;
+  path: string;
+  mimeType: string;
+  bitrate: string;
+  ffmpegPid: number | null;
+  headerBufferBytes: number;
+  droppedFrames: number;
+  listeners: number;
+}
+
+/**
+ * Encodes the mixer output into several formats at once. The PCM is fanned out
+ * to one ffmpeg process per rendition; each rendition is mounted at
+ * `<basePath>.<format>` and keeps its own header buffer, restart watchdog and
+ * listener count.
+ */
+export default class StreamRenditions {
+  private readonly fanout: PcmFanout;
+
+  private readonly renditions: StreamRendition[];
+
+  private readonly listenerCounts = new Map<StreamFormat, number>();
+
+  private mixer: AudioMixer | null = null;
+
+  private stages: ProgramStage[] = [];
+
+  constructor({ renditions, basePath, frameBytes, mimeTypes, ...transcoderOptions }: StreamRenditionsOptions) {
+    if (renditions.length === 0) {
+      throw new Error('At least one stream rendition is required');
+    }
+
+    this.fanout = new PcmFanout(frameBytes);
+    this.renditions = renditions.map(({ format, bitrate }) => ({
+      id: format,
+      format,
+      bitrate,
+      path: `${basePath}.${format}`,
+      mimeType: mimeTypes[format] || 'application/octet-stream',
+      transcoder: new FfmpegTranscoder({ ...transcoderOptions, outputFormat: format, bitrate }),
+    }));
+  }
+
+  /** Program stages are chained in order after the mixer; only their output reaches the fan-out. */
+  public start(mixer: AudioMixer, stages: ProgramStage[] = []): void {
+    this.mixer = mixer;
+    this.stages = stages;
+    let next: Writable = this.fanout;
+    for (const stage of [...stages].reverse()) {
+      stage.setOutput(next);
+      next = stage;
+    }
+    mixer.setOutput(next);
+    for (const rendition of this.renditions) {
+      rendition.transcoder.start(this.fanout);
+    }
+  }
+
+  public stop(): void {
+    for (const rendition of this.renditions) {
+      rendition.transcoder.stop();
+    }
+    if (this.mixer) {
+      this.mixer.setOutput(null);
+      this.mixer = null;
+    }
+    for (const stage of this.stages) {
+      stage.setOutput(null);
+    }
+    this.stages = [];
+  }
+
+  /** Mixer output shared by the renditions, for other encoders that need the raw PCM. */
+  public getPcmOutput(): PcmFanout {
+    return this.fanout;
+  }
+
+  public list(): StreamRendition[] {
+    return [...this.renditions];
+  }
+
+  public get(id: string): StreamRendition | null {
+    return this.renditions.find((rendition) => rendition.id === id) ?? null;
+  }
+
+  /**
+   * Rendition served on the legacy endpoint and announced to the web player:
+   * Opus when it is configured, the first rendition otherwise.
+   */
+  public getPrimary(): StreamRendition {
+    return this.get('opus') ?? this.renditions[0];
+  }
+
+  public openListenerStream(rendition: StreamRendition): PassThrough {
+    const stream = rendition.transcoder.createClientStream();
+    this.listenerCounts.set(rendition.id, this.getListenerCount(rendition.id) + 1);
+    return stream;
+  }
+
+  public closeListenerStream(rendition: StreamRendition, stream: PassThrough): void {
+    rendition.transcoder.releaseClientStream(stream);
+    this.listenerCounts.set(rendition.id, Math.max(0, this.getListenerCount(rendition.id) - 1));
+  }
+
+  public getListenerCount(id: StreamFormat): number {
+    return this.listenerCounts.get(id) ?? 0;
+  }
+
+  public getStatus(): StreamRenditionStatus[] {
+    return this.renditions.map((rendition) => ({
+      id: rendition.id,
+      path: rendition.path,
+      mimeType: rendition.mimeType,
+      bitrate: rendition.bitrate,
+      ffmpegPid: rendition.transcoder.getCurrentProcessPid(),
+      headerBufferBytes: rendition.transcoder.getHeaderBuffer().length,
+      droppedFrames: rendition.transcoder.getDroppedFrames(),
+      listeners: this.getListenerCount(rendition.id),
+    }));
+  }
+
+  public requestRestart(reason: string, delay?: number): void {
+    for (const rendition of this.renditions) {
+      rendition.transcoder.requestRestart(reason, delay);
+    }
+  }
+}
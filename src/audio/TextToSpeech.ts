@@ -0,0 +1,111 @@
+import { spawn } from 'child_process';
+
+/**
+ * Turns text into a WAV file. Engines are local programs run once per
+ * utterance; the caller decodes the file to the mixer format.
+ */
+export interface TextToSpeechEngine {
+  readonly name: string;
+  synthesize(text: string, outputFile: string): Promise<void>;
+}
+
+export const TEXT_TO_SPEECH_ENGINES = ['espeak', 'piper'] as const;
+
+export type TextToSpeechEngineType = (typeof TEXT_TO_SPEECH_ENGINES)[number];
+
+export interface TextToSpeechEngineOptions {
+  type: TextToSpeechEngineType;
+  /** Program to run; `espeak-ng` or `piper` from the PATH when null. */
+  command: string | null;
+  /** An espeak voice such as `fr`, or the path of a piper `.onnx` model. */
+  voice: string;
+  /** Speaking rate, 1 being the engine's default. */
+  rate: number;
+  timeoutMs: number;
+}
+
+export function isTextToSpeechEngineType(value: string): value is TextToSpeechEngineType {
+  return (TEXT_TO_SPEECH_ENGINES as readonly string[]).includes(value);
+}
+
+/** Runs a synthesizer that reads the text on stdin, so nothing in it can be taken for an option. */
+function runSynthesizer(command: string, args: string[], text: string, timeoutMs: number): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['pipe', 'ignore', 'pipe'] });
+    let stderr = '';
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL');
+    }, timeoutMs);
+
+    child.stderr.on('data', (data: Buffer) => {
+      stderr = `${stderr}${data.toString()}`.slice(-2000);
+    });
+    child.stdin.on('error', () => {
+      // Reported through the exit code.
+    });
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('exit', (code, signal) => {
+      clearTimeout(timer);
+      if (code !== 0) {
+        reject(new Error(`${command} failed (code=${code} signal=${signal}): ${stderr.trim()}`));
+        return;
+      }
+      resolve();
+    });
+
+    child.stdin.end(`${text}\n`);
+  });
+}
+
+class EspeakEngine implements TextToSpeechEngine {
+  public readonly name = 'espeak';
+
+  private readonly options: TextToSpeechEngineOptions;
+
+  constructor(options: TextToSpeechEngineOptions) {
+    this.options = options;
+  }
+
+  public synthesize(text: string, outputFile: string): Promise<void> {
+    const { command, voice, rate, timeoutMs } = this.options;
+    // espeak counts in words per minute, 175 by default.
+    const speed = String(Math.round(175 * rate));
+    return runSynthesizer(command ?? 'espeak-ng', ['-v', voice, '-s', speed, '-w', outputFile, '--stdin'], text, timeoutMs);
+  }
+}
+
+class PiperEngine implements TextToSpeechEngine {
+  public readonly name = 'piper';
+
+  private readonly options: TextToSpeechEngineOptions;
+
+  constructor(options: TextToSpeechEngineOptions) {
+    this.options = options;
+  }
+
+  public synthesize(text: string, outputFile: string): Promise<void> {
+    const { command, voice, rate, timeoutMs } = this.options;
+    // Piper stretches phonemes, so a faster rate is a shorter length.
+    const lengthScale = (1 / rate).toFixed(2);
+    return runSynthesizer(
+      command ?? 'piper',
+      ['--model', voice, '--length_scale', lengthScale, '--output_file', outputFile],
+      text,
+      timeoutMs,
+    );
+  }
+}
+
+export function createTextToSpeechEngine(options: TextToSpeechEngineOptions): TextToSpeechEngine {
+  switch (options.type) {
+    case 'espeak':
+      return new EspeakEngine(options);
+    case 'piper':
+      return new PiperEngine(options);
+    default:
+      throw new Error(`Unknown text-to-speech engine "${String(options.type)}"`);
+  }
+}
@@ -0,0 +1,273 @@
+export interface VoiceActivityThresholds {
+  minEnergyDb: number;
+  noiseMarginDb: number;
+  maxSpectralFlatness: number;
+  maxZeroCrossingHz: number;
+  onsetFrames: number;
+  hangoverMs: number;
+}
+
+export interface VoiceActivityDetectorOptions extends Partial<VoiceActivityThresholds> {
+  sampleRate: number;
+  channels: number;
+}
+
+export interface VoiceActivityFeatures {
+  energyDb: number;
+  noiseFloorDb: number;
+  spectralFlatness: number;
+  zeroCrossingHz: number;
+}
+
+export const DEFAULT_VOICE_ACTIVITY_THRESHOLDS: VoiceActivityThresholds = {
+  minEnergyDb: -50,
+  noiseMarginDb: 9,
+  // White noise sits around 0.56 with a Hann window; voiced speech is far more tonal.
+  maxSpectralFlatness: 0.3,
+  maxZeroCrossingHz: 3000,
+  // Two 20 ms frames: a single keyboard click never opens the gate.
+  onsetFrames: 2,
+  hangoverMs: 300,
+};
+
+const MAX_FFT_SIZE = 1024;
+
+// Flatness is measured over the band that carries speech harmonics.
+const SPEECH_BAND_LOW_HZ = 200;
+const SPEECH_BAND_HIGH_HZ = 4000;
+
+const INITIAL_NOISE_FLOOR_DB = -70;
+const MAX_NOISE_FLOOR_DB = -30;
+const NOISE_FLOOR_FALL_RATE = 0.2;
+const NOISE_FLOOR_RISE_RATE = 0.02;
+
+const MIN_LEVEL_DB = -120;
+
+/**
+ * Lightweight voice activity detector. Each frame is classified from three
+ * cheap features: energy relative to an adaptive noise floor, spectral flatness
+ * in the speech band (tonal voice versus breath, fans and hiss) and the
+ * zero-crossing rate (rejects clicks and hiss dominated by high frequencies). Speech must be
+ * detected on `onsetFrames` consecutive frames to open the gate, and the gate
+ * stays open for `hangoverMs` after the last speech frame so word gaps and
+ * unvoiced consonants do not chop the decision.
+ */
+export default class VoiceActivityDetector {
+  private readonly sampleRate: number;
+
+  private readonly channels: number;
+
+  private readonly thresholds: VoiceActivityThresholds;
+
+  private readonly fftSize: number;
+
+  private window: Float64Array;
+
+  private readonly real: Float64Array;
+
+  private readonly imag: Float64Array;
+
+  private readonly bandStart: number;
+
+  private readonly bandEnd: number;
+
+  private speaking: boolean;
+
+  private consecutiveSpeechFrames: number;
+
+  private hangoverRemainingMs: number;
+
+  private noiseFloorDb: number;
+
+  private lastFeatures: VoiceActivityFeatures;
+
+  constructor({ sampleRate, channels, ...thresholds }: VoiceActivityDetectorOptions) {
+    this.sampleRate = sampleRate;
+    this.channels = Math.max(1, channels);
+    this.thresholds = { ...DEFAULT_VOICE_ACTIVITY_THRESHOLDS, ...thresholds };
+
+    this.fftSize = MAX_FFT_SIZE;
+    this.window = new Float64Array(0);
+    this.real = new Float64Array(this.fftSize);
+    this.imag = new Float64Array(this.fftSize);
+
+    const binHz = sampleRate / this.fftSize;
+    this.bandStart = Math.max(1, Math.floor(SPEECH_BAND_LOW_HZ / binHz));
+    this.bandEnd = Math.min(this.fftSize / 2, Math.ceil(SPEECH_BAND_HIGH_HZ / binHz));
+
+    this.speaking = false;
+    this.consecutiveSpeechFrames = 0;
+    this.hangoverRemainingMs = 0;
+    this.noiseFloorDb = INITIAL_NOISE_FLOOR_DB;
+    this.lastFeatures = {
+      energyDb: MIN_LEVEL_DB,
+      noiseFloorDb: this.noiseFloorDb,
+      spectralFlatness: 1,
+      zeroCrossingHz: 0,
+    };
+  }
+
+  public isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  public getLastFeatures(): VoiceActivityFeatures {
+    return { ...this.lastFeatures };
+  }
+
+  public reset(): void {
+    this.speaking = false;
+    this.consecutiveSpeechFrames = 0;
+    this.hangoverRemainingMs = 0;
+  }
+
+  /**
+   * Classifies one block of interleaved 16-bit PCM and returns the gated decision.
+   */
+  public process(chunk: Buffer): boolean {
+    const frameCount = Math.floor(chunk.length / (2 * this.channels));
+    if (frameCount === 0) {
+      return this.speaking;
+    }
+
+    const durationMs = (frameCount / this.sampleRate) * 1000;
+    const features = this.extractFeatures(chunk, frameCount);
+    this.lastFeatures = features;
+
+    const { thresholds } = this;
+    const isSpeechFrame =
+      features.energyDb >= Math.max(thresholds.minEnergyDb, this.noiseFloorDb + thresholds.noiseMarginDb) &&
+      features.spectralFlatness <= thresholds.maxSpectralFlatness &&
+      features.zeroCrossingHz <= thresholds.maxZeroCrossingHz;
+
+    if (isSpeechFrame) {
+      this.consecutiveSpeechFrames += 1;
+      if (this.consecutiveSpeechFrames >= thresholds.onsetFrames) {
+        this.speaking = true;
+      }
+      if (this.speaking) {
+        this.hangoverRemainingMs = thresholds.hangoverMs;
+      }
+    } else {
+      this.consecutiveSpeechFrames = 0;
+      this.updateNoiseFloor(features.energyDb);
+      if (this.speaking) {
+        this.hangoverRemainingMs -= durationMs;
+        if (this.hangoverRemainingMs <= 0) {
+          this.speaking = false;
+        }
+      }
+    }
+
+    return this.speaking;
+  }
+
+  private updateNoiseFloor(energyDb: number): void {
+    const rate = energyDb < this.noiseFloorDb ? NOISE_FLOOR_FALL_RATE : NOISE_FLOOR_RISE_RATE;
+    this.noiseFloorDb = Math.min(MAX_NOISE_FLOOR_DB, this.noiseFloorDb + (energyDb - this.noiseFloorDb) * rate);
+  }
+
+  private extractFeatures(chunk: Buffer, frameCount: number): VoiceActivityFeatures {
+    const { channels, fftSize } = this;
+    const analysed = Math.min(frameCount, fftSize);
+    if (this.window.length !== analysed) {
+      // Frames are shorter than the FFT (960 samples at 20 ms); the Hann window spans the real data only.
+      this.window = new Float64Array(analysed);
+      for (let i = 0; i < analysed; i += 1) {
+        this.window[i] = analysed > 1 ? 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (analysed - 1)) : 1;
+      }
+    }
+
+    let sumSquares = 0;
+    let crossings = 0;
+    let previous = 0;
+    for (let i = 0; i < frameCount; i += 1) {
+      let sample = 0;
+      for (let channel = 0; channel < channels; channel += 1) {
+        sample += chunk.readInt16LE((i * channels + channel) * 2);
+      }
+      sample /= channels * 32768;
+
+      sumSquares += sample * sample;
+      if (i > 0 && (sample >= 0) !== (previous >= 0)) {
+        crossings += 1;
+      }
+      previous = sample;
+
+      if (i < analysed) {
+        this.real[i] = sample * this.window[i];
+        this.imag[i] = 0;
+      }
+    }
+    this.real.fill(0, analysed);
+    this.imag.fill(0, analysed);
+
+    const rms = Math.sqrt(sumSquares / frameCount);
+    const energyDb = rms > 0 ? Math.max(MIN_LEVEL_DB, 20 * Math.log10(rms)) : MIN_LEVEL_DB;
+    // Each full cycle crosses zero twice.
+    const zeroCrossingHz = (crossings / Math.max(1, frameCount - 1)) * (this.sampleRate / 2);
+
+    return {
+      energyDb,
+      noiseFloorDb: this.noiseFloorDb,
+      spectralFlatness: rms > 0 ? this.computeSpectralFlatness() : 1,
+      zeroCrossingHz,
+    };
+  }
+
+  private computeSpectralFlatness(): number {
+    this.transform();
+
+    let logSum = 0;
+    let sum = 0;
+    const bins = this.bandEnd - this.bandStart;
+    for (let bin = this.bandStart; bin < this.bandEnd; bin += 1) {
+      const power = this.real[bin] * this.real[bin] + this.imag[bin] * this.imag[bin] + 1e-20;
+      logSum += Math.log(power);
+      sum += power;
+    }
+
+    const arithmeticMean = sum / bins;
+    return arithmeticMean > 0 ? Math.exp(logSum / bins) / arithmeticMean : 1;
+  }
+
+  // In-place iterative radix-2 FFT over `real`/`imag`.
+  private transform(): void {
+    const { real, imag, fftSize } = this;
+
+    for (let i = 1, j = 0; i < fftSize; i += 1) {
+      let bit = fftSize >> 1;
+      for (; j & bit; bit >>= 1) {
+        j ^= bit;
+      }
+      j ^= bit;
+      if (i < j) {
+        [real[i], real[j]] = [real[j], real[i]];
+        [imag[i], imag[j]] = [imag[j], imag[i]];
+      }
+    }
+
+    for (let size = 2; size <= fftSize; size <<= 1) {
+      const angle = (-2 * Math.PI) / size;
+      const stepReal = Math.cos(angle);
+      const stepImag = Math.sin(angle);
+      for (let start = 0; start < fftSize; start += size) {
+        let twiddleReal = 1;
+        let twiddleImag = 0;
+        for (let k = 0; k < size / 2; k += 1) {
+          const even = start + k;
+          const odd = even + size / 2;
+          const oddReal = real[odd] * twiddleReal - imag[odd] * twiddleImag;
+          const oddImag = real[odd] * twiddleImag + imag[odd] * twiddleReal;
+          real[odd] = real[even] - oddReal;
+          imag[odd] = imag[even] - oddImag;
+          real[even] += oddReal;
+          imag[even] += oddImag;
+          const nextReal = twiddleReal * stepReal - twiddleImag * stepImag;
+          twiddleImag = twiddleReal * stepImag + twiddleImag * stepReal;
+          twiddleReal = nextReal;
+        }
+      }
+    }
+  }
+}
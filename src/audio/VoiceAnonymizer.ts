@@ -1,3 +1,5 @@
+import type { AudioProcessor } from './AudioProcessor';
+
 interface VoiceAnonymizerOptions {
   sampleRate: number;
   bytesPerSample: number;
@@ -5,7 +7,7 @@ interface VoiceAnonymizerOptions {
   noiseAmplitude?: number;
 }
 
-export default class VoiceAnonymizer {
+export default class VoiceAnonymizer implements AudioProcessor {
   private readonly bytesPerSample: number;
 
   private readonly modulationFrequency: number;
@@ -0,0 +1,57 @@
+import { spawn, type ChildProcessByStdio } from 'child_process';
+import type { Readable } from 'stream';
+
+export const AUDIO_FILE_EXTENSIONS = new Set(['.mp3', '.ogg', '.opus', '.wav', '.flac', '.m4a', '.aac']);
+
+export interface DecodeAudioFileOptions {
+  ffmpegPath: string;
+  filePath: string;
+  sampleRate: number;
+  channels: number;
+  /** Decoding stops after this many seconds of audio. */
+  maxSeconds?: number;
+}
+
+/**
+ * Starts ffmpeg writing the file as interleaved s16le PCM in the mixer format
+ * to its stdout, for files too long to be held in memory.
+ */
+export function spawnAudioDecoder({
+  ffmpegPath,
+  filePath,
+  sampleRate,
+  channels,
+  maxSeconds,
+}: DecodeAudioFileOptions): ChildProcessByStdio<null, Readable, Readable> {
+  const args = ['-loglevel', 'error', '-i', filePath, '-vn'];
+  if (maxSeconds !== undefined) {
+    args.push('-t', String(Math.max(0, maxSeconds)));
+  }
+  args.push('-f', 's16le', '-ar', String(sampleRate), '-ac', String(channels), 'pipe:1');
+  return spawn(ffmpegPath, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+}
+
+/** Decodes any file ffmpeg can read to interleaved s16le PCM in the mixer format. */
+export function decodeAudioFile(options: DecodeAudioFileOptions): Promise<Buffer> {
+  const { filePath, channels } = options;
+  return new Promise<Buffer>((resolve, reject) => {
+    const ffmpeg = spawnAudioDecoder(options);
+    const chunks: Buffer[] = [];
+    let stderr = '';
+
+    ffmpeg.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+    ffmpeg.stderr.on('data', (data: Buffer) => {
+      stderr += data.toString();
+    });
+    ffmpeg.on('error', reject);
+    ffmpeg.on('exit', (code, signal) => {
+      if (code !== 0) {
+        reject(new Error(`ffmpeg could not decode ${filePath} (code=${code} signal=${signal}): ${stderr.trim()}`));
+        return;
+      }
+      const pcm = Buffer.concat(chunks);
+      const frameBytes = channels * 2;
+      resolve(pcm.subarray(0, pcm.length - (pcm.length % frameBytes)));
+    });
+  });
+}
@@ -5,6 +5,9 @@ import {
   ChannelType,
   PermissionsBitField,
   Collection,
+  MessageFlags,
+  type ChatInputCommandInteraction,
+  type Interaction,
   type Message,
   type GuildBasedChannel,
   type TextChannel,
@@ -32,6 +35,7 @@ import * as prism from 'prism-media';
 import { PassThrough } from 'stream';
 import { EventEmitter } from 'node:events';
 import type AudioMixer from '../audio/AudioMixer';
+import type BroadcastDelay from '../audio/BroadcastDelay';
 import type SpeakerTracker from '../services/SpeakerTracker';
 import type { VoiceStateSnapshot } from '../services/SpeakerTracker';
 import type VoiceActivityRepository from '../services/VoiceActivityRepository';
@@ -39,15 +43,42 @@ import { type UserSyncRecord } from '../services/VoiceActivityRepository';
 import type KaldiTranscriptionService from '../services/KaldiTranscriptionService';
 import type UserAudioRecorder from '../services/UserAudioRecorder';
 import type { UserAudioRecordingSession } from '../services/UserAudioRecorder';
+import type ClipService from '../services/ClipService';
+import type ListenerStatsService from '../services/ListenerStatsService';
+import type ConsentService from '../services/ConsentService';
+import type SoundboardService from '../services/SoundboardService';
+import type TextToSpeechService from '../services/TextToSpeechService';
+import { CONSENT_SCOPES, type ConsentChange, type ConsentScope } from '../services/ConsentService';
 import type { Config } from '../config';
+import {
+  ANNOUNCEMENT_TEXT_OPTION,
+  ANTENNA_COMMAND_NAME,
+  ANTENNA_SUBCOMMANDS,
+  CLIP_SECONDS_OPTION,
+  CLIP_TITLE_OPTION,
+  CONSENT_ALL_SCOPES,
+  CONSENT_COMMAND_NAME,
+  CONSENT_SCOPE_LABELS,
+  CONSENT_SCOPE_OPTION,
+  CONSENT_SUBCOMMANDS,
+  JOIN_CHANNEL_OPTION,
+  SOUND_OPTION,
+  buildSlashCommands,
+} from './slashCommands';
 
 type DecoderStream = prism.opus.Decoder;
 
+// Decoded audio kept before the detector opens the gate (300 ms of 20 ms frames), so the
+// transcription starts with the first syllable rather than at the confirmed onset.
+const PRE_ONSET_TRANSCRIPTION_CHUNKS = 15;
+
 interface Subscription {
   opusStream: AudioReceiveStream;
   decoder: DecoderStream;
   cleanup: (() => void) | null;
   recordingSession: UserAudioRecordingSession | null;
+  /** Latest decoded chunks, replayed into the transcription session when it opens. */
+  preOnsetAudio: Buffer[];
 }
 
 export interface DiscordAudioBridgeOptions {
@@ -57,6 +88,14 @@ export interface DiscordAudioBridgeOptions {
   voiceActivityRepository?: VoiceActivityRepository | null;
   transcriptionService?: KaldiTranscriptionService | null;
   audioRecorder?: UserAudioRecorder | null;
+  clipService?: ClipService | null;
+  broadcastDelay?: BroadcastDelay | null;
+  listenerStatsService?: Pick<ListenerStatsService, 'getCurrentCount'> | null;
+  consentService?: ConsentService | null;
+  soundboardService?: SoundboardService | null;
+  textToSpeechService?: TextToSpeechService | null;
+  /** Room bridges run their own bot in the same guild and leave commands to the main one. */
+  commands?: boolean;
 }
 
 export interface DiscordUserIdentity {
@@ -185,10 +224,28 @@ export default class DiscordAudioBridge {
 
   private readonly audioRecorder: UserAudioRecorder | null;
 
+  private readonly clipService: ClipService | null;
+
+  private readonly broadcastDelay: BroadcastDelay | null;
+
+  private readonly listenerStatsService: Pick<ListenerStatsService, 'getCurrentCount'> | null;
+
+  private readonly consentService: ConsentService | null;
+
+  private readonly unsubscribeConsent: () => void;
+
+  private readonly soundboardService: SoundboardService | null;
+
+  private readonly textToSpeechService: TextToSpeechService | null;
+
+  private readonly commands: boolean;
+
   private anonymousPipelineReady = false;
 
   private anonymousPipelineSetupInProgress = false;
 
+  private readonly unsubscribeVoiceActivity: () => void;
+
   constructor({
     config,
     mixer,
@@ -196,6 +253,13 @@ export default class DiscordAudioBridge {
     voiceActivityRepository = null,
     transcriptionService = null,
     audioRecorder = null,
+    clipService = null,
+    broadcastDelay = null,
+    listenerStatsService = null,
+    consentService = null,
+    soundboardService = null,
+    textToSpeechService = null,
+    commands = true,
   }: DiscordAudioBridgeOptions) {
     this.config = config;
     this.mixer = mixer;
@@ -203,6 +267,13 @@ export default class DiscordAudioBridge {
     this.voiceActivityRepository = voiceActivityRepository;
     this.transcriptionService = transcriptionService;
     this.audioRecorder = audioRecorder;
+    this.clipService = clipService;
+    this.broadcastDelay = broadcastDelay;
+    this.listenerStatsService = listenerStatsService;
+    this.consentService = consentService;
+    this.soundboardService = soundboardService;
+    this.textToSpeechService = textToSpeechService;
+    this.commands = commands;
 
     this.client = new Client({
       intents: [
@@ -215,10 +286,101 @@ export default class DiscordAudioBridge {
     });
 
     this.speakerTracker.setUserFetcher((userId) => this.client.users.fetch(userId));
+    this.unsubscribeVoiceActivity = this.mixer.onVoiceActivity((userId, speaking) =>
+      this.handleVoiceActivity(userId, speaking),
+    );
+    this.unsubscribeConsent = consentService?.onChange((change) => this.handleConsentChange(change)) ?? (() => {});
 
     this.registerEventHandlers();
   }
 
+  /**
+   * Discord's speaking events fire on any packet, including breathing and background
+   * noise, so speaker tracking and transcription sessions follow the mixer's voice
+   * activity detector instead.
+   */
+  private handleVoiceActivity(userId: Snowflake, speaking: boolean): void {
+    const subscription = this.activeSubscriptions.get(userId);
+    if (!speaking) {
+      if (subscription) {
+        subscription.preOnsetAudio.length = 0;
+      }
+      this.speakerTracker.handleSpeakingEnd(userId);
+      void this.transcriptionService?.finalizeSession(userId).catch((error) => {
+        console.error('Failed to finalize transcription session on voice activity end', {
+          userId,
+          error,
+        });
+      });
+      return;
+    }
+
+    if (!subscription || this.isUserExcluded(userId)) {
+      return;
+    }
+
+    this.speakerTracker.handleSpeakingStart(userId).catch((error) => {
+      console.error('Failed to handle speaking start', error);
+    });
+    if (this.hasConsented(userId, 'transcription')) {
+      this.transcriptionService?.startSession(userId, {
+        guildId: this.currentGuildId,
+        channelId: this.currentVoiceChannelId,
+      });
+      for (const chunk of subscription.preOnsetAudio) {
+        this.transcriptionService?.pushAudio(userId, chunk);
+      }
+    }
+    subscription.preOnsetAudio.length = 0;
+  }
+
+  private hasConsented(userId: Snowflake, scope: ConsentScope): boolean {
+    return this.consentService?.hasConsented(userId, scope) ?? true;
+  }
+
+  /** Applies a member's consent change to the sessions already running. */
+  private handleConsentChange({ consent, withdrawn, granted }: ConsentChange): void {
+    const userId = consent.userId;
+    if (withdrawn.includes('mix')) {
+      this.cleanupSubscriptionForUser(userId);
+      void this.speakerTracker.handleVoiceStateUpdate(userId, null).catch((error) => {
+        console.error('Failed to remove opted-out member from the speakers', { userId, error });
+      });
+      return;
+    }
+
+    const subscription = this.activeSubscriptions.get(userId);
+    if (withdrawn.includes('transcription')) {
+      this.transcriptionService?.discardSession(userId);
+      if (subscription) {
+        subscription.preOnsetAudio.length = 0;
+      }
+    }
+
+    if (withdrawn.includes('recording') && subscription?.recordingSession) {
+      const { filePath } = subscription.recordingSession;
+      subscription.recordingSession.finalize().catch((error) => {
+        console.error('Failed to finalize audio recording session after consent withdrawal', {
+          userId,
+          filePath,
+          error,
+        });
+      });
+      subscription.recordingSession = null;
+    }
+
+    if (granted.includes('mix') && this.currentGuildId && this.currentVoiceChannelId && !this.isUserExcluded(userId)) {
+      const member = this.client.guilds.cache.get(this.currentGuildId)?.members.cache.get(userId);
+      if (member?.voice?.channelId === this.currentVoiceChannelId) {
+        void this.speakerTracker
+          .handleVoiceStateUpdate(userId, this.serializeVoiceState(member.voice))
+          .catch((error) => {
+            console.error('Failed to restore member to the speakers', { userId, error });
+          });
+      }
+    }
+  }
+
   private resolveActiveGuildId(): Snowflake {
     const guildId = this.config.guildId ?? this.currentGuildId;
     if (!guildId) {
@@ -262,6 +424,9 @@ export default class DiscordAudioBridge {
         console.error('Discord client ready without user context');
         return;
       }
+      if (this.commands && this.config.discordCommands.slashCommands) {
+        await this.registerSlashCommands();
+      }
       if (this.config.guildId && this.config.voiceChannelId) {
         try {
           await this.joinVoice(this.config.guildId, this.config.voiceChannelId);
@@ -272,6 +437,13 @@ export default class DiscordAudioBridge {
     });
 
     this.client.on(Events.MessageCreate, async (message) => this.handleMessage(message));
+    this.client.on(Events.InteractionCreate, async (interaction) => {
+      try {
+        await this.handleInteraction(interaction);
+      } catch (error) {
+        console.error('Slash command handling failed', error);
+      }
+    });
     this.client.on(Events.VoiceStateUpdate, async (oldState, newState) => {
       try {
         await this.handleVoiceStateUpdate(oldState, newState);
@@ -279,6 +451,13 @@ export default class DiscordAudioBridge {
         console.error('Voice state update handling failed', error);
       }
     });
+    this.client.on(Events.GuildMemberUpdate, (_oldMember, newMember) => {
+      try {
+        this.handleGuildMemberUpdate(newMember);
+      } catch (error) {
+        console.error('Guild member update handling failed', error);
+      }
+    });
     this.client.on(Events.GuildMemberAdd, async (member) => {
       try {
         await this.handleGuildMemberAdd(member);
@@ -362,11 +541,13 @@ export default class DiscordAudioBridge {
     }
 
     const content = (message.content || '').trim();
-    if (!content.startsWith('!')) {
+    if (!this.commands || !content.startsWith('!')) {
       return;
     }
 
-    if (content === '!join') {
+    const prefixCommands = this.config.discordCommands.prefixCommands;
+
+    if (content === '!join' && prefixCommands) {
       const memberVoiceChannelId = message.member?.voice?.channelId ?? null;
 
       const fallbackGuildId = this.currentGuildId ?? this.config.guildId ?? null;
@@ -415,7 +596,17 @@ export default class DiscordAudioBridge {
       return;
     }
 
-    if (content.startsWith('!joinVoice')) {
+    if (content === '!dump' && prefixCommands) {
+      await this.handleDumpCommand(message);
+      return;
+    }
+
+    if ((content === '!clip' || content.startsWith('!clip ')) && prefixCommands) {
+      await this.handleClipCommand(message, content.slice('!clip'.length).trim());
+      return;
+    }
+
+    if (content.startsWith('!joinVoice') && prefixCommands) {
       const parts = content.split(/\s+/);
       const guildId = (parts[1] as Snowflake | undefined) || message.guildId || undefined;
       const channelId = parts[2] as Snowflake | undefined;
@@ -434,7 +625,7 @@ export default class DiscordAudioBridge {
       }
     }
 
-    if (content === '!leaveVoice') {
+    if (content === '!leaveVoice' && prefixCommands) {
       if (this.voiceConnection) {
         await message.reply('Disconnecting from voice channel.');
         this.leaveVoice();
@@ -444,6 +635,378 @@ export default class DiscordAudioBridge {
     }
   }
 
+  /** `!clip [secondes] [titre]`: cuts the last seconds of the stream and answers with the public clip page. */
+  private async handleClipCommand(message: Message, args: string): Promise<void> {
+    if (!this.hasModeratorAccess(message.member, this.config.clips.discordRoleIds)) {
+      await message.reply('Tu n’as pas la permission de créer des extraits.');
+      return;
+    }
+
+    const [firstArg = '', ...rest] = args.split(/\s+/).filter((part) => part.length > 0);
+    const hasSeconds = /^\d+$/.test(firstArg);
+    await message.reply(
+      await this.createClip(
+        hasSeconds ? Number.parseInt(firstArg, 10) : null,
+        hasSeconds ? rest.join(' ') : args,
+        message.member?.displayName ?? message.author.username ?? null,
+      ),
+    );
+  }
+
+  /** `!dump`: drops the audio held by the broadcast delay before it airs. */
+  private async handleDumpCommand(message: Message): Promise<void> {
+    if (!this.hasModeratorAccess(message.member, this.config.broadcastDelay.discordRoleIds)) {
+      await message.reply('Tu n’as pas la permission de vider le délai.');
+      return;
+    }
+
+    await message.reply(this.dumpBroadcastDelay(message.author.tag ?? message.author.id));
+  }
+
+  /** Shared by `!clip` and `/antenne extrait`; returns the reply for the caller. */
+  private async createClip(seconds: number | null, title: string | null, requestedBy: string | null): Promise<string> {
+    if (!this.clipService) {
+      return 'Les extraits ne sont pas activés sur ce serveur.';
+    }
+
+    const clipSeconds = seconds ?? this.config.clips.defaultSeconds;
+    if (clipSeconds < 1 || clipSeconds > this.clipService.maxSeconds) {
+      return `La durée d’un extrait doit être comprise entre 1 et ${this.clipService.maxSeconds} secondes.`;
+    }
+
+    try {
+      const clip = await this.clipService.createClip({ seconds: clipSeconds, title: title || null, requestedBy });
+      const url = new URL(`/clips/${clip.id}`, this.config.publicBaseUrl || 'http://localhost').toString();
+      return `🎬 Extrait de ${Math.round(clip.durationMs / 1000)} s enregistré : ${url}`;
+    } catch (error) {
+      if ((error as Error)?.message === 'CLIP_BUFFER_EMPTY') {
+        return 'Rien à extraire pour l’instant : le direct vient de démarrer.';
+      }
+      console.error('Failed to create clip from Discord', error);
+      return 'Impossible de créer l’extrait.';
+    }
+  }
+
+  /** Shared by `!dump` and `/antenne vider-delai`; returns the reply for the caller. */
+  private dumpBroadcastDelay(actor: string): string {
+    if (!this.broadcastDelay) {
+      return 'Aucun délai de diffusion n’est configuré.';
+    }
+
+    const { droppedMs } = this.broadcastDelay.dump();
+    console.warn(`Broadcast delay dumped by ${actor} (${droppedMs} ms dropped)`);
+    return `🚨 Délai vidé : ${(droppedMs / 1000).toFixed(1)} s retirées de l’antenne.`;
+  }
+
+  /** Guild commands appear at once; global ones, used without `GUILD_ID`, can take up to an hour. */
+  private async registerSlashCommands(): Promise<void> {
+    const commands = buildSlashCommands({
+      restrictedToRoles: [
+        this.config.discordCommands.roleIds,
+        this.config.broadcastDelay.discordRoleIds,
+        this.config.clips.discordRoleIds,
+      ].some((roleIds) => roleIds.length > 0),
+      consent: Boolean(this.consentService),
+      soundboard: Boolean(this.soundboardService),
+      textToSpeech: Boolean(this.textToSpeechService),
+      broadcastDelay: Boolean(this.broadcastDelay),
+      clips: Boolean(this.clipService),
+    });
+    try {
+      if (this.config.guildId) {
+        const guild = await this.client.guilds.fetch(this.config.guildId);
+        await guild.commands.set(commands);
+      } else {
+        await this.client.application?.commands.set(commands);
+      }
+    } catch (error) {
+      console.error('Failed to register slash commands', error);
+    }
+  }
+
+  private async handleInteraction(interaction: Interaction): Promise<void> {
+    if (!this.commands) {
+      return;
+    }
+
+    if (interaction.isAutocomplete()) {
+      if (interaction.commandName === ANTENNA_COMMAND_NAME && this.soundboardService) {
+        const query = interaction.options.getFocused().toLowerCase();
+        const choices = this.soundboardService
+          .listSounds()
+          .filter((sound) => sound.id.includes(query) || sound.label.toLowerCase().includes(query))
+          .slice(0, 25)
+          .map((sound) => ({ name: sound.label.slice(0, 100), value: sound.id }));
+        await interaction.respond(choices);
+      }
+      return;
+    }
+
+    if (!interaction.isChatInputCommand()) {
+      return;
+    }
+
+    if (interaction.commandName === CONSENT_COMMAND_NAME && this.consentService) {
+      await this.handleConsentInteraction(interaction, this.consentService);
+      return;
+    }
+
+    if (interaction.commandName !== ANTENNA_COMMAND_NAME) {
+      return;
+    }
+
+    const subcommand = interaction.options.getSubcommand();
+    if (
+      !interaction.inCachedGuild()
+      || !this.hasModeratorAccess(interaction.member, this.getAntennaRoleIds(subcommand))
+    ) {
+      await interaction.reply({
+        content: 'Tu n’as pas la permission de piloter l’antenne.',
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    switch (subcommand) {
+      case ANTENNA_SUBCOMMANDS.join:
+        await this.handleJoinInteraction(interaction);
+        break;
+      case ANTENNA_SUBCOMMANDS.leave:
+        if (this.voiceConnection) {
+          this.leaveVoice();
+          await interaction.reply({ content: 'Déconnexion du salon vocal.', flags: MessageFlags.Ephemeral });
+        } else {
+          await interaction.reply({
+            content: 'Je ne suis pas connecté à un salon vocal.',
+            flags: MessageFlags.Ephemeral,
+          });
+        }
+        break;
+      case ANTENNA_SUBCOMMANDS.status:
+        await interaction.reply({ content: this.describeStatus(), flags: MessageFlags.Ephemeral });
+        break;
+      case ANTENNA_SUBCOMMANDS.listeners:
+        await interaction.reply({ content: this.describeListeners(), flags: MessageFlags.Ephemeral });
+        break;
+      case ANTENNA_SUBCOMMANDS.jingle:
+        await this.handleJingleInteraction(interaction);
+        break;
+      case ANTENNA_SUBCOMMANDS.stopJingle:
+        await interaction.reply({
+          content: this.soundboardService?.stopPlayback() ? 'Son coupé.' : 'Aucun son en cours.',
+          flags: MessageFlags.Ephemeral,
+        });
+        break;
+      case ANTENNA_SUBCOMMANDS.announce:
+        await this.handleAnnounceInteraction(interaction);
+        break;
+      case ANTENNA_SUBCOMMANDS.dump:
+        await interaction.reply({
+          content: this.dumpBroadcastDelay(interaction.user.tag),
+          flags: MessageFlags.Ephemeral,
+        });
+        break;
+      case ANTENNA_SUBCOMMANDS.clip:
+        await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+        await interaction.editReply(
+          await this.createClip(
+            interaction.options.getInteger(CLIP_SECONDS_OPTION),
+            interaction.options.getString(CLIP_TITLE_OPTION),
+            interaction.member.displayName ?? interaction.user.username,
+          ),
+        );
+        break;
+      default:
+        await interaction.reply({ content: 'Commande inconnue.', flags: MessageFlags.Ephemeral });
+    }
+  }
+
+  /** Dumping the delay and cutting clips keep their own roles, as with `!dump` and `!clip`. */
+  private getAntennaRoleIds(subcommand: string): string[] {
+    switch (subcommand) {
+      case ANTENNA_SUBCOMMANDS.dump:
+        return this.config.broadcastDelay.discordRoleIds;
+      case ANTENNA_SUBCOMMANDS.clip:
+        return this.config.clips.discordRoleIds;
+      default:
+        return this.config.discordCommands.roleIds;
+    }
+  }
+
+  private async handleJingleInteraction(interaction: ChatInputCommandInteraction<'cached'>): Promise<void> {
+    if (!this.soundboardService) {
+      await interaction.reply({ content: 'La boîte à sons n’est pas activée.', flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    const soundId = interaction.options.getString(SOUND_OPTION, true);
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+    try {
+      const status = await this.soundboardService.play(soundId);
+      console.info(`Soundboard "${soundId}" started via /antenne by ${interaction.user.tag}`);
+      await interaction.editReply(`🎵 À l’antenne : ${status.playing?.label ?? soundId}`);
+    } catch (error) {
+      const code = (error as Error)?.message;
+      await interaction.editReply(
+        code === 'SOUND_NOT_FOUND' ? 'Ce son n’existe pas.' : 'Impossible de lire ce son.',
+      );
+    }
+  }
+
+  private async handleAnnounceInteraction(interaction: ChatInputCommandInteraction<'cached'>): Promise<void> {
+    if (!this.textToSpeechService) {
+      await interaction.reply({ content: 'La voix de synthèse n’est pas activée.', flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    try {
+      const announcement = this.textToSpeechService.say(interaction.options.getString(ANNOUNCEMENT_TEXT_OPTION, true), {
+        kind: 'manual',
+        requestedBy: interaction.member.displayName ?? interaction.user.tag,
+      });
+      console.info(`Text-to-speech announcement ${announcement.id} queued via /antenne by ${interaction.user.tag}`);
+      await interaction.reply({
+        content: '📢 Annonce ajoutée : elle sera lue à la prochaine pause.',
+        flags: MessageFlags.Ephemeral,
+      });
+    } catch (error) {
+      const code = (error as Error)?.message;
+      const content = code === 'TEXT_TOO_LONG'
+        ? 'Ce texte est trop long pour être lu.'
+        : code === 'QUEUE_FULL'
+          ? 'Trop d’annonces sont déjà en attente.'
+          : 'Impossible d’ajouter cette annonce.';
+      await interaction.reply({ content, flags: MessageFlags.Ephemeral });
+    }
+  }
+
+  /** `/confidentialite`: any member manages their own consent. */
+  private async handleConsentInteraction(
+    interaction: ChatInputCommandInteraction,
+    consentService: ConsentService,
+  ): Promise<void> {
+    const userId = interaction.user.id;
+    const subcommand = interaction.options.getSubcommand();
+    if (subcommand === CONSENT_SUBCOMMANDS.status) {
+      await interaction.reply({ content: this.describeConsent(userId), flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    const granted = subcommand === CONSENT_SUBCOMMANDS.grant;
+    const requested = interaction.options.getString(CONSENT_SCOPE_OPTION, true);
+    const scopes = requested === CONSENT_ALL_SCOPES
+      ? CONSENT_SCOPES
+      : CONSENT_SCOPES.filter((scope) => scope === requested);
+    if (scopes.length === 0) {
+      await interaction.reply({ content: 'Usage inconnu.', flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    try {
+      await consentService.update(userId, Object.fromEntries(scopes.map((scope) => [scope, granted])));
+    } catch (error) {
+      console.error('Failed to update consent via /confidentialite', { userId, error });
+      await interaction.reply({
+        content: 'Impossible d’enregistrer ton choix pour le moment.',
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    await interaction.reply({
+      content: `${granted ? 'C’est noté, merci !' : 'C’est noté, c’est pris en compte immédiatement.'}\n\n${this.describeConsent(userId)}`,
+      flags: MessageFlags.Ephemeral,
+    });
+  }
+
+  private describeConsent(userId: Snowflake): string {
+    const consent = this.consentService?.getConsent(userId);
+    if (!consent) {
+      return 'Le registre de consentement n’est pas disponible.';
+    }
+    const lines = CONSENT_SCOPES.map(
+      (scope) => `${consent[scope] ? '✅' : '🚫'} ${CONSENT_SCOPE_LABELS[scope]}`,
+    );
+    if (!consent.mix) {
+      lines.push('', 'Ta voix n’étant plus captée, elle n’est pas non plus transcrite ni enregistrée.');
+    }
+    return lines.join('\n');
+  }
+
+  /** `/antenne rejoindre [salon]`: the given channel, else the member's, else the configured one. */
+  private async handleJoinInteraction(interaction: ChatInputCommandInteraction<'cached'>): Promise<void> {
+    const guildId = interaction.guildId;
+    const channelId = interaction.options.getChannel(JOIN_CHANNEL_OPTION)?.id
+      ?? interaction.member.voice.channelId
+      ?? (guildId === this.config.guildId ? this.config.voiceChannelId : null)
+      ?? null;
+
+    if (!channelId) {
+      await interaction.reply({
+        content: 'Je ne sais pas quel salon vocal rejoindre : choisis-en un ou rejoins-le avant de lancer la commande.',
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    if (this.hasActiveVoiceConnection() && this.currentGuildId === guildId && this.currentVoiceChannelId === channelId) {
+      await interaction.reply({ content: 'Je suis déjà connecté à ce salon vocal. ✅', flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+    if (this.voiceConnection) {
+      this.leaveVoice();
+    }
+    try {
+      await this.joinVoice(guildId, channelId);
+      console.info(`Voice channel ${channelId} joined via /antenne by ${interaction.user.tag}`);
+      await interaction.editReply(`Connexion à <#${channelId}> effectuée ✅`);
+    } catch (error) {
+      console.error('Failed to join voice channel via /antenne', error);
+      await interaction.editReply('Impossible de rejoindre le salon vocal demandé.');
+    }
+  }
+
+  private describeStatus(): string {
+    const lines = this.hasActiveVoiceConnection() && this.currentVoiceChannelId
+      ? [`🔴 En direct depuis <#${this.currentVoiceChannelId}>.`]
+      : ['⚪ Hors antenne : je ne suis connecté à aucun salon vocal.'];
+    const present = this.speakerTracker.getSpeakerCount();
+    lines.push(`🎙️ ${present} personne${present > 1 ? 's' : ''} dans le salon.`);
+    if (this.listenerStatsService) {
+      lines.push(this.describeListeners());
+    }
+    if (this.config.onAir.enabled) {
+      const onAir = this.speakerTracker.getSpeakers().filter((speaker) => this.isOnAir(speaker.id)).length;
+      lines.push(`📻 Mode antenne : ${onAir} intervenant${onAir > 1 ? 's' : ''} à l’antenne, les autres écoutent.`);
+    }
+    if (this.broadcastDelay) {
+      const { currentMs, targetMs } = this.broadcastDelay.getStatus();
+      lines.push(`⏱️ Délai de diffusion : ${(currentMs / 1000).toFixed(1)} s sur ${(targetMs / 1000).toFixed(0)} s.`);
+    }
+    return lines.join('\n');
+  }
+
+  private describeListeners(): string {
+    if (!this.listenerStatsService) {
+      return 'Le nombre d’auditeurs n’est pas disponible.';
+    }
+    const count = this.listenerStatsService.getCurrentCount();
+    return `🎧 ${count} auditeur${count > 1 ? 's' : ''} en ce moment.`;
+  }
+
+  /** Members holding one of `roleIds`, or when none are configured, those allowed to manage messages. */
+  private hasModeratorAccess(member: GuildMember | null, roleIds: string[]): boolean {
+    if (!member) {
+      return false;
+    }
+    if (roleIds.length > 0) {
+      return roleIds.some((roleId) => member.roles.cache.has(roleId));
+    }
+    return member.permissions.has(PermissionsBitField.Flags.ManageMessages);
+  }
+
   public async fetchUserIdentity(userId: string): Promise<DiscordUserIdentity | null> {
     try {
       const user = await this.client.users.fetch(userId);
@@ -891,6 +1454,35 @@ export default class DiscordAudioBridge {
     }
   }
 
+  /** Sends a private message to a member of the active guild. */
+  public async sendDirectMessage(userId: Snowflake, content: string): Promise<void> {
+    const guildId = this.resolveActiveGuildId();
+    const guild = this.client.guilds.cache.get(guildId) ?? null;
+    if (!guild) {
+      const error = new Error('GUILD_UNAVAILABLE');
+      error.name = 'GUILD_UNAVAILABLE';
+      throw error;
+    }
+
+    let member: GuildMember;
+    try {
+      member = await guild.members.fetch(userId);
+    } catch {
+      const error = new Error('MEMBER_NOT_FOUND');
+      error.name = 'MEMBER_NOT_FOUND';
+      throw error;
+    }
+
+    try {
+      await member.send({ content });
+    } catch (sendError) {
+      console.warn('Failed to send direct message', { userId, error: sendError });
+      const error = new Error('DIRECT_MESSAGE_BLOCKED');
+      error.name = 'DIRECT_MESSAGE_BLOCKED';
+      throw error;
+    }
+  }
+
   public async sendTextChannelMessage(channelId: Snowflake, content: string): Promise<DiscordChannelMessage> {
     const guildId = this.resolveActiveGuildId();
 
@@ -1001,15 +1593,11 @@ export default class DiscordAudioBridge {
         this.cleanupSubscriptionForUser(userId);
         return;
       }
+      if (!this.isOnAir(userId)) {
+        return;
+      }
 
       this.mixer.addSource(userId);
-      this.speakerTracker.handleSpeakingStart(userId).catch((error) => {
-        console.error('Failed to handle speaking start', error);
-      });
-      this.transcriptionService?.startSession(userId, {
-        guildId: this.currentGuildId,
-        channelId: this.currentVoiceChannelId,
-      });
       this.subscribeToUserAudio(userId, receiver);
     });
 
@@ -1019,14 +1607,8 @@ export default class DiscordAudioBridge {
         return;
       }
 
-      this.speakerTracker.handleSpeakingEnd(userId);
-      this.mixer.removeSource(userId);
-      void this.transcriptionService?.finalizeSession(userId).catch((error) => {
-        console.error('Failed to finalize transcription session on speaking end', {
-          userId,
-          error,
-        });
-      });
+      // Lets the jitter buffer play out; the end of voice activity is reported once it is removed.
+      this.mixer.drainSource(userId);
     });
 
     connection.on('stateChange', (oldState, newState) => {
@@ -1078,7 +1660,7 @@ export default class DiscordAudioBridge {
   }
 
   private subscribeToUserAudio(userId: Snowflake, receiver: VoiceReceiver): void {
-    if (this.isUserExcluded(userId)) {
+    if (this.isUserExcluded(userId) || !this.isOnAir(userId)) {
       return;
     }
 
@@ -1098,19 +1680,27 @@ export default class DiscordAudioBridge {
 
       opusStream.pipe(decoder);
       const identity = this.getRecordingIdentity(userId);
-      const recordingSession = this.audioRecorder?.openSession({
-        id: userId,
-        username: identity.username,
-        displayName: identity.displayName,
-      }) ?? null;
+      const recordingSession = this.hasConsented(userId, 'recording')
+        ? this.audioRecorder?.openSession({
+          id: userId,
+          username: identity.username,
+          displayName: identity.displayName,
+        }) ?? null
+        : null;
       const onData = (chunk: Buffer) => {
         this.mixer.pushToSource(userId, chunk);
-        this.transcriptionService?.pushAudio(userId, chunk);
-        recordingSession?.write(chunk);
+        if (this.transcriptionService && this.hasConsented(userId, 'transcription')) {
+          this.transcriptionService.pushAudio(userId, chunk);
+          subscription.preOnsetAudio.push(chunk);
+          if (subscription.preOnsetAudio.length > PRE_ONSET_TRANSCRIPTION_CHUNKS) {
+            subscription.preOnsetAudio.shift();
+          }
+        }
+        subscription.recordingSession?.write(chunk);
       };
       decoder.on('data', onData);
 
-      const subscription: Subscription = { opusStream, decoder, cleanup: null, recordingSession };
+      const subscription: Subscription = { opusStream, decoder, cleanup: null, recordingSession, preOnsetAudio: [] };
       this.activeSubscriptions.set(userId, subscription);
 
       let cleanedUp = false;
@@ -1213,6 +1803,9 @@ export default class DiscordAudioBridge {
   }
 
   public async destroy(): Promise<void> {
+    this.unsubscribeVoiceActivity();
+    this.unsubscribeConsent();
+
     try {
       this.leaveVoice();
     } catch (error) {
@@ -1316,6 +1909,12 @@ export default class DiscordAudioBridge {
 
     const channelId = newState?.channelId;
     if (channelId === this.currentVoiceChannelId) {
+      // Moving a Stage speaker back to the audience takes them off air; inviting one to speak puts them on.
+      if (this.isOnAir(userId)) {
+        this.subscribeOnAirMember(userId);
+      } else {
+        this.cleanupSubscriptionForUser(userId);
+      }
       const serialized = this.serializeVoiceState(newState);
       await this.speakerTracker.handleVoiceStateUpdate(userId, serialized);
       return;
@@ -1326,6 +1925,63 @@ export default class DiscordAudioBridge {
     }
   }
 
+  /** Gaining or losing the on-air role takes effect at once for a member in the channel. */
+  private handleGuildMemberUpdate(member: GuildMember): void {
+    if (!this.config.onAir.enabled || member.guild.id !== this.currentGuildId) {
+      return;
+    }
+    if (member.voice?.channelId !== this.currentVoiceChannelId) {
+      return;
+    }
+    if (this.isOnAir(member.id)) {
+      const wasMixed = this.activeSubscriptions.has(member.id);
+      this.subscribeOnAirMember(member.id);
+      if (!wasMixed && this.activeSubscriptions.has(member.id)) {
+        console.info(`${member.user?.tag ?? member.id} got the on-air role and joined the mix`);
+      }
+      return;
+    }
+    if (this.activeSubscriptions.has(member.id)) {
+      console.info(`${member.user?.tag ?? member.id} lost the on-air role and left the mix`);
+    }
+    this.cleanupSubscriptionForUser(member.id);
+  }
+
+  /**
+   * Mixes a member who just went on air without waiting for their next
+   * `speaking` start, which never comes if they are already talking.
+   */
+  private subscribeOnAirMember(userId: Snowflake): void {
+    const receiver = this.voiceConnection?.receiver;
+    if (!receiver || this.activeSubscriptions.has(userId) || this.isUserExcluded(userId) || !this.isOnAir(userId)) {
+      return;
+    }
+    this.mixer.addSource(userId);
+    this.subscribeToUserAudio(userId, receiver);
+  }
+
+  /** In on-air mode, holders of an on-air role and speakers of a Stage channel. */
+  private isOnAir(userId: Snowflake): boolean {
+    const { enabled, roleIds } = this.config.onAir;
+    if (!enabled) {
+      return true;
+    }
+
+    const guild = this.currentGuildId ? this.client.guilds.cache.get(this.currentGuildId) : null;
+    const member = guild?.members.cache.get(userId);
+    if (!member) {
+      return false;
+    }
+    if (roleIds.some((roleId) => member.roles.cache.has(roleId))) {
+      return true;
+    }
+
+    const channel = this.currentVoiceChannelId ? guild?.channels.cache.get(this.currentVoiceChannelId) : null;
+    return channel?.type === ChannelType.GuildStageVoice
+      && member.voice?.channelId === channel.id
+      && !member.voice.suppress;
+  }
+
   private async handleGuildMemberAdd(member: GuildMember | PartialGuildMember): Promise<void> {
     if (!this.voiceActivityRepository) {
       return;
@@ -1703,7 +2359,7 @@ export default class DiscordAudioBridge {
   }
 
   private isUserExcluded(userId: Snowflake): boolean {
-    if (this.config.excludedUserIds.includes(userId)) {
+    if (this.config.excludedUserIds.includes(userId) || !this.hasConsented(userId, 'mix')) {
       return true;
     }
 
@@ -0,0 +1,193 @@
+import {
+  ChannelType,
+  InteractionContextType,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+  type RESTPostAPIChatInputApplicationCommandsJSONBody,
+} from 'discord.js';
+import type { ConsentScope } from '../services/ConsentService';
+
+export const ANTENNA_COMMAND_NAME = 'antenne';
+
+export const ANTENNA_SUBCOMMANDS = {
+  join: 'rejoindre',
+  leave: 'quitter',
+  status: 'statut',
+  listeners: 'auditeurs',
+  jingle: 'jingle',
+  stopJingle: 'couper-jingle',
+  announce: 'annonce',
+  dump: 'vider-delai',
+  clip: 'extrait',
+} as const;
+
+export const JOIN_CHANNEL_OPTION = 'salon';
+
+export const SOUND_OPTION = 'son';
+
+export const ANNOUNCEMENT_TEXT_OPTION = 'texte';
+
+export const CLIP_SECONDS_OPTION = 'secondes';
+
+export const CLIP_TITLE_OPTION = 'titre';
+
+export const CONSENT_COMMAND_NAME = 'confidentialite';
+
+export const CONSENT_SUBCOMMANDS = {
+  status: 'statut',
+  withdraw: 'retirer',
+  grant: 'autoriser',
+} as const;
+
+export const CONSENT_SCOPE_OPTION = 'usage';
+
+export const CONSENT_ALL_SCOPES = 'all';
+
+export const CONSENT_SCOPE_LABELS: Record<ConsentScope, string> = {
+  mix: 'Diffusion de ma voix',
+  transcription: 'Transcription',
+  recording: 'Extraits enregistrés',
+  persona: 'Fiche persona',
+};
+
+export interface SlashCommandsOptions {
+  /** Without roles, Discord only shows `/antenne` to members allowed to manage messages. */
+  restrictedToRoles: boolean;
+  consent: boolean;
+  soundboard: boolean;
+  textToSpeech: boolean;
+  broadcastDelay: boolean;
+  clips: boolean;
+}
+
+/**
+ * `/antenne` and its subcommands, plus `/confidentialite` for every member
+ * when the consent registry is available. With roles, every member sees
+ * `/antenne` and the bridge checks the roles itself, since Discord cannot
+ * express "any of these roles" in a command's default permissions.
+ */
+export function buildSlashCommands({
+  restrictedToRoles,
+  consent,
+  soundboard,
+  textToSpeech,
+  broadcastDelay,
+  clips,
+}: SlashCommandsOptions): RESTPostAPIChatInputApplicationCommandsJSONBody[] {
+  const command = new SlashCommandBuilder()
+    .setName(ANTENNA_COMMAND_NAME)
+    .setDescription('Piloter la diffusion du salon vocal')
+    .setContexts(InteractionContextType.Guild)
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName(ANTENNA_SUBCOMMANDS.join)
+        .setDescription('Connecter le bot à un salon vocal')
+        .addChannelOption((option) =>
+          option
+            .setName(JOIN_CHANNEL_OPTION)
+            .setDescription('Salon à diffuser (par défaut, le tien ou celui configuré)')
+            .addChannelTypes(ChannelType.GuildVoice, ChannelType.GuildStageVoice),
+        ),
+    )
+    .addSubcommand((subcommand) =>
+      subcommand.setName(ANTENNA_SUBCOMMANDS.leave).setDescription('Déconnecter le bot du salon vocal'),
+    )
+    .addSubcommand((subcommand) =>
+      subcommand.setName(ANTENNA_SUBCOMMANDS.status).setDescription('État de la diffusion'),
+    )
+    .addSubcommand((subcommand) =>
+      subcommand.setName(ANTENNA_SUBCOMMANDS.listeners).setDescription('Nombre d’auditeurs en ce moment'),
+    );
+
+  if (soundboard) {
+    command
+      .addSubcommand((subcommand) =>
+        subcommand
+          .setName(ANTENNA_SUBCOMMANDS.jingle)
+          .setDescription('Lancer un son de la boîte à sons')
+          .addStringOption((option) =>
+            option.setName(SOUND_OPTION).setDescription('Son à diffuser').setRequired(true).setAutocomplete(true),
+          ),
+      )
+      .addSubcommand((subcommand) =>
+        subcommand.setName(ANTENNA_SUBCOMMANDS.stopJingle).setDescription('Couper le son en cours'),
+      );
+  }
+
+  if (textToSpeech) {
+    command.addSubcommand((subcommand) =>
+      subcommand
+        .setName(ANTENNA_SUBCOMMANDS.announce)
+        .setDescription('Faire lire une annonce par la voix de synthèse')
+        .addStringOption((option) =>
+          option.setName(ANNOUNCEMENT_TEXT_OPTION).setDescription('Texte à lire').setRequired(true).setMaxLength(1000),
+        ),
+    );
+  }
+
+  if (broadcastDelay) {
+    command.addSubcommand((subcommand) =>
+      subcommand.setName(ANTENNA_SUBCOMMANDS.dump).setDescription('Vider le délai de diffusion avant qu’il passe à l’antenne'),
+    );
+  }
+
+  if (clips) {
+    command.addSubcommand((subcommand) =>
+      subcommand
+        .setName(ANTENNA_SUBCOMMANDS.clip)
+        .setDescription('Créer un extrait des dernières secondes du direct')
+        .addIntegerOption((option) =>
+          option.setName(CLIP_SECONDS_OPTION).setDescription('Durée de l’extrait en secondes').setMinValue(1),
+        )
+        .addStringOption((option) =>
+          option.setName(CLIP_TITLE_OPTION).setDescription('Titre de l’extrait').setMaxLength(120),
+        ),
+    );
+  }
+
+  if (!restrictedToRoles) {
+    command.setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages);
+  }
+
+  if (!consent) {
+    return [command.toJSON()];
+  }
+
+  const scopeChoices = [
+    { name: 'Tout', value: CONSENT_ALL_SCOPES },
+    ...Object.entries(CONSENT_SCOPE_LABELS).map(([value, name]) => ({ name, value })),
+  ];
+  const consentCommand = new SlashCommandBuilder()
+    .setName(CONSENT_COMMAND_NAME)
+    .setDescription('Choisir comment ta voix est utilisée par l’antenne')
+    .setContexts(InteractionContextType.Guild)
+    .addSubcommand((subcommand) =>
+      subcommand.setName(CONSENT_SUBCOMMANDS.status).setDescription('Voir ce que tu autorises'),
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName(CONSENT_SUBCOMMANDS.withdraw)
+        .setDescription('Retirer ton accord pour un usage')
+        .addStringOption((option) =>
+          option
+            .setName(CONSENT_SCOPE_OPTION)
+            .setDescription('Usage concerné')
+            .setRequired(true)
+            .addChoices(...scopeChoices),
+        ),
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName(CONSENT_SUBCOMMANDS.grant)
+        .setDescription('Donner à nouveau ton accord pour un usage')
+        .addStringOption((option) =>
+          option
+            .setName(CONSENT_SCOPE_OPTION)
+            .setDescription('Usage concerné')
+            .setRequired(true)
+            .addChoices(...scopeChoices),
+        ),
+    );
+
+  return [command.toJSON(), consentCommand.toJSON()];
+}
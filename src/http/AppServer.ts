@@ -1,36 +1,297 @@
 import compression from 'compression';
-import express, { type Request, type Response } from 'express';
+import crypto from 'crypto';
+import express, { type NextFunction, type Request, type Response } from 'express';
+import fs from 'fs';
 import helmet from 'helmet';
-import type { Server } from 'http';
-import type FfmpegTranscoder from '../audio/FfmpegTranscoder';
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex, Transform, Writable } from 'stream';
+import path from 'path';
+import { WebSocketServer } from 'ws';
+import type AudioMixer from '../audio/AudioMixer';
+import type BroadcastDelay from '../audio/BroadcastDelay';
+import type HlsSegmenter from '../audio/HlsSegmenter';
+import IcyMetadataInjector, { DEFAULT_ICY_METAINT } from '../audio/IcyMetadataInjector';
+import OggOpusCommentUpdater from '../audio/OggOpusCommentUpdater';
+import type StreamRenditions from '../audio/StreamRenditions';
+import type { StreamRendition } from '../audio/StreamRenditions';
 import type { Config } from '../config';
+import type DiscordAudioBridge from '../discord/DiscordAudioBridge';
+import type AdminService from '../services/AdminService';
+import type ConsentService from '../services/ConsentService';
+import type AnonymousSpeechManager from '../services/AnonymousSpeechManager';
+import type BlogRepository from '../services/BlogRepository';
+import type BlogService from '../services/BlogService';
+import type BlogSubmissionService from '../services/BlogSubmissionService';
+import type ClipService from '../services/ClipService';
+import type { ClipManifest } from '../services/ClipService';
+import type DailyArticleService from '../services/DailyArticleService';
+import type HypeLeaderboardService from '../services/HypeLeaderboardService';
+import type IcecastRelayService from '../services/IcecastRelayService';
 import type ListenerStatsService from '../services/ListenerStatsService';
+import type LowLatencyStreamService from '../services/LowLatencyStreamService';
+import type ProfanityFilterService from '../services/ProfanityFilterService';
+import type SoundboardService from '../services/SoundboardService';
+import type AutopilotService from '../services/AutopilotService';
+import type TextToSpeechService from '../services/TextToSpeechService';
+import type RoomService from '../services/RoomService';
+import type { BridgedRoom } from '../services/RoomService';
+import type ShopService from '../services/ShopService';
+import type ShowArchiveService from '../services/ShowArchiveService';
+import type SpeakerTracker from '../services/SpeakerTracker';
+import type { Participant } from '../services/SpeakerTracker';
+import type SseService from '../services/SseService';
+import type StatisticsService from '../services/StatisticsService';
+import type UserAudioRecorder from '../services/UserAudioRecorder';
+import type UserPersonaService from '../services/UserPersonaService';
+import type VoiceActivityRepository from '../services/VoiceActivityRepository';
+import { createAdminRouter } from './routes/admin';
+import { createAnonymousRouter } from './routes/anonymous';
+import { createArchivesRouter } from './routes/archives';
+import { createBlogRouter } from './routes/blog';
+import { registerChatRoute } from './routes/chat';
+import { buildClipLinks, createClipsRouter } from './routes/clips';
+import { createCommunityRouter } from './routes/community';
+import { createDiscordRouter } from './routes/discord';
+import { createMessagesRouter } from './routes/messages';
+import { createPrivacyRouter } from './routes/privacy';
+import { createRoomsRouter } from './routes/rooms';
+import { createShopRouter } from './routes/shop';
+import { createStatsRouter } from './routes/stats';
+import { createUsersRouter } from './routes/users';
+import { createOpenApiRequestValidator, loadOpenApiDocument } from './openapi/requestValidator';
+import SeoRenderer from './SeoRenderer';
+import { buildHomePulsePresentation } from './utils/pulse';
+import {
+  buildStreamInitialState,
+  subscribeToAudioControlUpdates,
+  subscribeToAutopilotUpdates,
+  subscribeToListenerUpdates,
+} from './utils/sse';
 
 type FlushCapableResponse = Response & { flushHeaders?: () => void; flush?: () => void };
 
-interface AppServerOptions {
+const ANONYMOUS_STREAM_PATH = '/anonymous-stream';
+
+export const HLS_PLAYLIST_PATH = '/hls/playlist.m3u8';
+
+export const LIVE_STREAM_SOCKET_PATH = '/stream/live';
+
+const MAX_TITLE_SPEAKERS = 6;
+
+/** Program a stream request is served from: the main mix or a bridged room. */
+interface StreamTarget {
+  renditions: StreamRenditions;
+  listenerStats: ListenerStatsService;
+  listenersByIp: Map<string, number>;
+  getSpeakers: () => Participant[];
+  /** Shown after the site name in ICY headers and titles; null for the main program. */
+  roomName: string | null;
+}
+
+export interface AppServerOptions {
   config: Config;
-  transcoder: FfmpegTranscoder;
+  audioMixer: AudioMixer;
+  broadcastDelay: BroadcastDelay | null;
+  streamRenditions: StreamRenditions;
+  hlsSegmenter: HlsSegmenter | null;
+  icecastRelayService: IcecastRelayService | null;
+  lowLatencyStream: LowLatencyStreamService | null;
+  showArchiveService: ShowArchiveService | null;
+  clipService: ClipService | null;
+  profanityFilterService: ProfanityFilterService | null;
+  soundboardService: SoundboardService | null;
+  autopilotService: AutopilotService | null;
+  textToSpeechService: TextToSpeechService | null;
+  roomService: RoomService;
+  speakerTracker: SpeakerTracker;
+  sseService: SseService;
+  anonymousSpeechManager: AnonymousSpeechManager;
+  discordBridge: DiscordAudioBridge;
   listenerStatsService: ListenerStatsService;
+  voiceActivityRepository: VoiceActivityRepository;
+  statisticsService: StatisticsService;
+  userAudioRecorder: UserAudioRecorder | null;
+  userPersonaService: UserPersonaService;
+  adminService: AdminService;
+  consentService: ConsentService;
+  blogRepository: BlogRepository | null;
+  blogService: BlogService;
+  blogSubmissionService: BlogSubmissionService;
+  dailyArticleService: DailyArticleService | null;
+  shopService: ShopService;
+  hypeLeaderboardService: HypeLeaderboardService | null;
 }
 
 export default class AppServer {
   private readonly config: Config;
 
-  private readonly transcoder: FfmpegTranscoder;
+  private readonly audioMixer: AudioMixer;
+
+  private readonly broadcastDelay: BroadcastDelay | null;
+
+  private readonly streamRenditions: StreamRenditions;
+
+  private readonly hlsSegmenter: HlsSegmenter | null;
+
+  private readonly icecastRelayService: IcecastRelayService | null;
+
+  private readonly lowLatencyStream: LowLatencyStreamService | null;
+
+  private readonly showArchiveService: ShowArchiveService | null;
+
+  private readonly clipService: ClipService | null;
+
+  private readonly profanityFilterService: ProfanityFilterService | null;
+
+  private readonly soundboardService: SoundboardService | null;
+
+  private readonly autopilotService: AutopilotService | null;
+
+  private readonly textToSpeechService: TextToSpeechService | null;
+
+  private readonly roomService: RoomService;
+
+  private readonly speakerTracker: SpeakerTracker;
+
+  private readonly sseService: SseService;
+
+  private readonly anonymousSpeechManager: AnonymousSpeechManager;
+
+  private readonly discordBridge: DiscordAudioBridge;
 
   private readonly listenerStatsService: ListenerStatsService;
 
+  private readonly voiceActivityRepository: VoiceActivityRepository;
+
+  private readonly statisticsService: StatisticsService;
+
+  private readonly userAudioRecorder: UserAudioRecorder | null;
+
+  private readonly userPersonaService: UserPersonaService;
+
+  private readonly adminService: AdminService;
+
+  private readonly consentService: ConsentService;
+
+  private readonly blogRepository: BlogRepository | null;
+
+  private readonly blogService: BlogService;
+
+  private readonly blogSubmissionService: BlogSubmissionService;
+
+  private readonly dailyArticleService: DailyArticleService | null;
+
+  private readonly shopService: ShopService;
+
+  private readonly hypeLeaderboardService: HypeLeaderboardService | null;
+
   private readonly app = express();
 
+  private readonly publicDir = path.resolve(__dirname, '..', '..', 'public');
+
+  private readonly openApiSpecPath = path.resolve(__dirname, '..', '..', 'docs', 'openapi.json');
+
+  private readonly seoRenderer: SeoRenderer | null;
+
+  private readonly anonymousSocketServer = new WebSocketServer({ noServer: true });
+
+  private readonly liveSocketServer = new WebSocketServer({ noServer: true });
+
   private httpServer: Server | null = null;
 
-  private readonly streamListenersByIp = new Map<string, number>();
+  private unsubscribeListenerUpdates: (() => void) | null = null;
+
+  private unsubscribeAudioControlUpdates: (() => void) | null = null;
+
+  private unsubscribeAutopilotUpdates: (() => void) | null = null;
+
+  private readonly roomUnsubscribers: Array<() => void> = [];
 
-  constructor({ config, transcoder, listenerStatsService }: AppServerOptions) {
+  private readonly mainStream: StreamTarget;
+
+  private readonly roomStreams = new Map<string, StreamTarget>();
+
+  constructor({
+    config,
+    audioMixer,
+    broadcastDelay,
+    streamRenditions,
+    hlsSegmenter,
+    icecastRelayService,
+    lowLatencyStream,
+    showArchiveService,
+    clipService,
+    profanityFilterService,
+    soundboardService,
+    autopilotService,
+    textToSpeechService,
+    roomService,
+    speakerTracker,
+    sseService,
+    anonymousSpeechManager,
+    discordBridge,
+    listenerStatsService,
+    voiceActivityRepository,
+    statisticsService,
+    userAudioRecorder,
+    userPersonaService,
+    adminService,
+    consentService,
+    blogRepository,
+    blogService,
+    blogSubmissionService,
+    dailyArticleService,
+    shopService,
+    hypeLeaderboardService,
+  }: AppServerOptions) {
     this.config = config;
-    this.transcoder = transcoder;
+    this.audioMixer = audioMixer;
+    this.broadcastDelay = broadcastDelay;
+    this.streamRenditions = streamRenditions;
+    this.hlsSegmenter = hlsSegmenter;
+    this.icecastRelayService = icecastRelayService;
+    this.lowLatencyStream = lowLatencyStream;
+    this.showArchiveService = showArchiveService;
+    this.clipService = clipService;
+    this.profanityFilterService = profanityFilterService;
+    this.soundboardService = soundboardService;
+    this.autopilotService = autopilotService;
+    this.textToSpeechService = textToSpeechService;
+    this.roomService = roomService;
+    this.speakerTracker = speakerTracker;
+    this.sseService = sseService;
+    this.anonymousSpeechManager = anonymousSpeechManager;
+    this.discordBridge = discordBridge;
     this.listenerStatsService = listenerStatsService;
+    this.voiceActivityRepository = voiceActivityRepository;
+    this.statisticsService = statisticsService;
+    this.userAudioRecorder = userAudioRecorder;
+    this.userPersonaService = userPersonaService;
+    this.adminService = adminService;
+    this.consentService = consentService;
+    this.blogRepository = blogRepository;
+    this.blogService = blogService;
+    this.blogSubmissionService = blogSubmissionService;
+    this.dailyArticleService = dailyArticleService;
+    this.shopService = shopService;
+    this.hypeLeaderboardService = hypeLeaderboardService;
+    this.seoRenderer = this.createSeoRenderer();
+    this.mainStream = {
+      renditions: streamRenditions,
+      listenerStats: listenerStatsService,
+      listenersByIp: new Map(),
+      getSpeakers: () => speakerTracker.getSpeakers(),
+      roomName: null,
+    };
+    for (const room of roomService.list()) {
+      this.roomStreams.set(room.id, {
+        renditions: room.renditions,
+        listenerStats: room.listenerStats,
+        listenersByIp: new Map(),
+        getSpeakers: () => room.speakerTracker.getSpeakers(),
+        roomName: room.name,
+      });
+    }
 
     this.configureMiddleware();
     this.registerRoutes();
@@ -52,7 +313,7 @@ export default class AppServer {
       compression({
         threshold: 512,
         filter: (req, res) => {
-          if (req.path === this.getStreamPath()) {
+          if (this.isStreamPath(req.path) || req.path === '/events') {
             return false;
           }
 
@@ -65,16 +326,173 @@ export default class AppServer {
         },
       }),
     );
+
+    this.app.use(express.json({ limit: '256kb' }));
+    this.app.use(createOpenApiRequestValidator(loadOpenApiDocument(this.openApiSpecPath)));
   }
 
   private registerRoutes(): void {
     const streamPath = this.getStreamPath();
     this.app.get('/', this.handleHomeRequest);
-    this.app.get(streamPath, (req, res) => this.handleStreamRequest(req, res));
+    this.app.get(streamPath, (req, res) => this.handleStreamRequest(req, res, this.streamRenditions.getPrimary()));
+    for (const rendition of this.streamRenditions.list()) {
+      this.app.get(rendition.path, (req, res) => this.handleStreamRequest(req, res, rendition));
+    }
+    if (this.hlsSegmenter) {
+      this.app.get(HLS_PLAYLIST_PATH, this.handleHlsPlaylistRequest);
+      this.app.get('/hls/:segment', this.handleHlsSegmentRequest);
+    }
+    this.app.get('/status', this.handleStatusRequest);
+    this.app.get('/events', this.handleEventsRequest);
+    for (const room of this.roomService.list()) {
+      this.registerRoomRoutes(room);
+    }
+
+    this.app.get('/api/stream/listeners', (_req, res) => {
+      res.setHeader('Cache-Control', 'no-store');
+      res.json({
+        count: this.listenerStatsService.getCurrentCount(),
+        history: this.listenerStatsService.getHistory(),
+        renditions: this.streamRenditions.list().map((rendition) => ({
+          id: rendition.id,
+          path: rendition.path,
+          count: this.streamRenditions.getListenerCount(rendition.id),
+        })),
+      });
+    });
+
+    this.app.use('/api/rooms', createRoomsRouter({ roomService: this.roomService }));
+
+    registerChatRoute(this.app);
+
+    this.app.use(
+      createAnonymousRouter({
+        config: this.config,
+        anonymousSpeechManager: this.anonymousSpeechManager,
+        discordBridge: this.discordBridge,
+      }),
+    );
+
+    this.app.use(
+      '/api',
+      createStatsRouter({
+        voiceActivityRepository: this.voiceActivityRepository,
+        statisticsService: this.statisticsService,
+        buildHomePulsePresentation: (snapshot) => buildHomePulsePresentation(snapshot, this.config.timezone),
+      }),
+    );
+    this.app.use('/api', createDiscordRouter({ discordBridge: this.discordBridge, getClientIp: this.getClientIp }));
+    this.app.use(
+      '/api',
+      createCommunityRouter({
+        config: this.config,
+        voiceActivityRepository: this.voiceActivityRepository,
+        adminService: this.adminService,
+        hypeLeaderboardService: this.hypeLeaderboardService,
+      }),
+    );
+    this.app.use(
+      '/api/privacy',
+      createPrivacyRouter({
+        config: this.config,
+        discordBridge: this.discordBridge,
+        consentService: this.consentService,
+        getClientIp: this.getClientIp,
+      }),
+    );
+    this.app.use(
+      '/api/messages',
+      createMessagesRouter({
+        textToSpeechService: this.textToSpeechService,
+        cooldownMs: this.config.textToSpeech.messageCooldownSeconds * 1000,
+        getClientIp: this.getClientIp,
+      }),
+    );
+    this.app.use(
+      '/api/users',
+      createUsersRouter({
+        discordBridge: this.discordBridge,
+        voiceActivityRepository: this.voiceActivityRepository,
+        userAudioRecorder: this.userAudioRecorder,
+        userPersonaService: this.userPersonaService,
+        adminService: this.adminService,
+        consentService: this.consentService,
+      }),
+    );
+    this.app.use('/api/archives', createArchivesRouter({ showArchiveService: this.showArchiveService }));
+    this.app.use(
+      '/api/clips',
+      createClipsRouter({
+        clipService: this.clipService,
+        toAbsoluteUrl: (pathname) => this.toAbsoluteUrl(pathname),
+      }),
+    );
+    this.app.get('/clips/:clipId', this.handleClipPageRequest);
+    this.app.use(
+      '/api/blog',
+      createBlogRouter({
+        blogService: this.blogService,
+        blogSubmissionService: this.blogSubmissionService,
+        dailyArticleService: this.dailyArticleService,
+      }),
+    );
+    this.app.use(
+      '/api/shop',
+      createShopRouter({
+        shopService: this.shopService,
+        toAbsoluteUrl: (pathname) => this.toAbsoluteUrl(pathname),
+      }),
+    );
+    this.app.use(
+      '/admin',
+      createAdminRouter({
+        requireAdminAuth: this.requireAdminAuth,
+        renderAdminAppShell: () => this.renderAdminAppShell(),
+        buildAdminOverview: async () => ({
+          timestamp: new Date().toISOString(),
+          dailyArticle: this.dailyArticleService ? this.dailyArticleService.getStatus() : null,
+          userPersona: this.userPersonaService.getStatus(),
+          icecastRelays: this.icecastRelayService ? this.icecastRelayService.getStatus() : null,
+          broadcastDelay: this.broadcastDelay ? this.broadcastDelay.getStatus() : null,
+          profanityFilter: this.profanityFilterService ? this.profanityFilterService.getStatus() : null,
+          soundboard: this.soundboardService ? this.soundboardService.getStatus() : null,
+          autopilot: this.autopilotService ? this.autopilotService.getState() : null,
+          textToSpeech: this.textToSpeechService ? this.textToSpeechService.getStatus() : null,
+        }),
+        blogRepository: this.blogRepository,
+        adminService: this.adminService,
+        dailyArticleService: this.dailyArticleService,
+        audioMixer: this.audioMixer,
+        broadcastDelay: this.broadcastDelay,
+        clipService: this.clipService,
+        profanityFilterService: this.profanityFilterService,
+        soundboardService: this.soundboardService,
+        textToSpeechService: this.textToSpeechService,
+        defaultClipSeconds: this.config.clips.defaultSeconds,
+        toAbsoluteUrl: (pathname) => this.toAbsoluteUrl(pathname),
+      }),
+    );
+
+    this.app.use(express.static(this.publicDir, { index: false, maxAge: '1h' }));
 
     this.app.use((_req, res) => {
       res.status(404).type('text/plain; charset=utf-8').send('Not found');
     });
+
+    this.app.use((error: unknown, _req: Request, res: Response, next: NextFunction) => {
+      const type = (error as { type?: unknown })?.type;
+      if (type === 'entity.parse.failed' || type === 'entity.too.large') {
+        res.status(type === 'entity.too.large' ? 413 : 400).json({
+          error: type === 'entity.too.large' ? 'PAYLOAD_TOO_LARGE' : 'INVALID_JSON',
+          message:
+            type === 'entity.too.large'
+              ? 'Le corps de la requête est trop volumineux.'
+              : 'Le corps de la requête n’est pas un JSON valide.',
+        });
+        return;
+      }
+      next(error);
+    });
   }
 
   public start(): Server {
@@ -82,17 +500,347 @@ export default class AppServer {
       return this.httpServer;
     }
 
+    this.unsubscribeListenerUpdates = subscribeToListenerUpdates({
+      sseService: this.sseService,
+      listenerStatsService: this.listenerStatsService,
+    });
+    this.unsubscribeAudioControlUpdates = subscribeToAudioControlUpdates({
+      sseService: this.sseService,
+      audioMixer: this.audioMixer,
+    });
+    if (this.autopilotService) {
+      this.unsubscribeAutopilotUpdates = subscribeToAutopilotUpdates({
+        sseService: this.sseService,
+        autopilotService: this.autopilotService,
+      });
+    }
+    for (const room of this.roomService.list()) {
+      this.roomUnsubscribers.push(
+        subscribeToListenerUpdates({ sseService: room.sseService, listenerStatsService: room.listenerStats }),
+      );
+    }
+
     this.httpServer = this.app.listen(this.config.port);
+    this.httpServer.on('upgrade', this.handleUpgrade);
     return this.httpServer;
   }
 
   public stop(): void {
+    if (this.unsubscribeListenerUpdates) {
+      this.unsubscribeListenerUpdates();
+      this.unsubscribeListenerUpdates = null;
+    }
+
+    if (this.unsubscribeAudioControlUpdates) {
+      this.unsubscribeAudioControlUpdates();
+      this.unsubscribeAudioControlUpdates = null;
+    }
+
+    if (this.unsubscribeAutopilotUpdates) {
+      this.unsubscribeAutopilotUpdates();
+      this.unsubscribeAutopilotUpdates = null;
+    }
+
+    for (const unsubscribe of this.roomUnsubscribers.splice(0)) {
+      unsubscribe();
+    }
+
+    for (const client of this.anonymousSocketServer.clients) {
+      client.terminate();
+    }
+
+    for (const client of this.liveSocketServer.clients) {
+      client.terminate();
+    }
+
     if (this.httpServer) {
+      this.httpServer.off('upgrade', this.handleUpgrade);
       this.httpServer.close();
       this.httpServer = null;
     }
   }
 
+  private readonly handleUpgrade = (request: IncomingMessage, socket: Duplex, head: Buffer): void => {
+    const pathname = (request.url ?? '').split('?')[0];
+    const lowLatencyStream = this.lowLatencyStream;
+    if (pathname === LIVE_STREAM_SOCKET_PATH && lowLatencyStream) {
+      this.liveSocketServer.handleUpgrade(request, socket, head, (ws) => {
+        const releaseListener = this.registerStreamListener(this.getClientIp(request));
+        ws.once('close', releaseListener);
+        lowLatencyStream.handleSocketConnection(ws, request);
+      });
+      return;
+    }
+
+    if (pathname !== ANONYMOUS_STREAM_PATH) {
+      socket.destroy();
+      return;
+    }
+
+    this.anonymousSocketServer.handleUpgrade(request, socket, head, (ws) => {
+      this.anonymousSpeechManager.handleSocketConnection(ws, request);
+    });
+  };
+
+  private readonly handleStatusRequest = (_req: Request, res: Response): void => {
+    res.setHeader('Cache-Control', 'no-store');
+    const primary = this.streamRenditions.getPrimary();
+    res.json({
+      ffmpeg_pid: primary.transcoder.getCurrentProcessPid(),
+      headerBufferBytes: primary.transcoder.getHeaderBuffer().length,
+      activeSpeakers: this.speakerTracker.getSpeakerCount(),
+      renditions: this.streamRenditions.getStatus(),
+      lowLatency: this.lowLatencyStream ? this.lowLatencyStream.getStatus() : null,
+    });
+  };
+
+  private readonly handleHlsPlaylistRequest = (_req: Request, res: Response): void => {
+    const segmenter = this.hlsSegmenter;
+    if (!segmenter) {
+      res.status(404).type('text/plain; charset=utf-8').send('Not found');
+      return;
+    }
+
+    res.sendFile(
+      segmenter.playlistPath,
+      {
+        headers: {
+          'Content-Type': 'application/vnd.apple.mpegurl',
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+        },
+      },
+      (error) => {
+        if (error && !res.headersSent) {
+          res.status(503).json({
+            error: 'HLS_NOT_READY',
+            message: 'La diffusion HLS démarre, réessaie dans quelques secondes.',
+          });
+        }
+      },
+    );
+  };
+
+  private readonly handleHlsSegmentRequest = (req: Request, res: Response): void => {
+    const segmentPath = this.hlsSegmenter?.resolveSegmentPath(String(req.params.segment ?? '')) ?? null;
+    if (!segmentPath) {
+      res.status(404).type('text/plain; charset=utf-8').send('Not found');
+      return;
+    }
+
+    // Segments never change once listed, and they disappear when they leave the DVR window.
+    res.sendFile(
+      segmentPath,
+      {
+        headers: {
+          'Content-Type': 'video/mp2t',
+          'Cache-Control': 'public, max-age=3600, immutable',
+        },
+      },
+      (error) => {
+        if (error && !res.headersSent) {
+          res.status(404).type('text/plain; charset=utf-8').send('Not found');
+        }
+      },
+    );
+  };
+
+  private readonly handleEventsRequest = (req: Request, res: Response): void => {
+    this.sseService.handleRequest(req, res, {
+      initialState: buildStreamInitialState({
+        speakerTracker: this.speakerTracker,
+        anonymousSpeechManager: this.anonymousSpeechManager,
+        listenerStatsService: this.listenerStatsService,
+        audioMixer: this.audioMixer,
+        autopilotService: this.autopilotService,
+      }),
+    });
+  };
+
+  private readonly requireAdminAuth = (req: Request, res: Response): boolean => {
+    const { username, password } = this.config.admin;
+    if (!username || !password) {
+      res.status(503).json({
+        error: 'ADMIN_DISABLED',
+        message: 'L’interface d’administration n’est pas configurée.',
+      });
+      return false;
+    }
+
+    const header = req.header('authorization') ?? '';
+    const match = header.match(/^Basic\s+(.+)$/i);
+    if (match) {
+      const decoded = Buffer.from(match[1], 'base64').toString('utf8');
+      const separatorIndex = decoded.indexOf(':');
+      if (separatorIndex >= 0) {
+        const providedUser = decoded.slice(0, separatorIndex);
+        const providedPassword = decoded.slice(separatorIndex + 1);
+        if (this.safeEquals(providedUser, username) && this.safeEquals(providedPassword, password)) {
+          return true;
+        }
+      }
+    }
+
+    res.setHeader('WWW-Authenticate', 'Basic realm="Administration", charset="UTF-8"');
+    res.status(401).json({ error: 'UNAUTHORIZED', message: 'Authentification requise.' });
+    return false;
+  };
+
+  private safeEquals(provided: string, expected: string): boolean {
+    const providedDigest = crypto.createHash('sha256').update(provided).digest();
+    const expectedDigest = crypto.createHash('sha256').update(expected).digest();
+    return crypto.timingSafeEqual(providedDigest, expectedDigest);
+  }
+
+  private renderAdminAppShell(): string | null {
+    const manifestPath = path.join(this.publicDir, 'assets', 'manifest.json');
+    let entrySrc: string | null = null;
+    let styles: Array<{ href?: unknown }> = [];
+
+    try {
+      const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8')) as {
+        entries?: Record<string, { src?: unknown }>;
+        styles?: Array<{ href?: unknown }>;
+      };
+      const candidate = manifest.entries?.admin?.src;
+      entrySrc = typeof candidate === 'string' && candidate.length > 0 ? candidate : null;
+      styles = Array.isArray(manifest.styles) ? manifest.styles : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+        console.error('Failed to read client asset manifest', error);
+      }
+      return null;
+    }
+
+    if (!entrySrc) {
+      return null;
+    }
+
+    const siteName = this.escapeHtml(this.config.siteName || 'Flux audio');
+    const stylesheetTags = styles
+      .filter((style): style is { href: string } => typeof style?.href === 'string')
+      .map((style) => `<link rel="stylesheet" href="${this.escapeHtml(style.href)}" />`)
+      .join('\n    ');
+
+    return `<!doctype html>
+<html lang="${this.escapeHtml(this.config.siteLanguage || 'fr')}">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <meta name="robots" content="noindex, nofollow" />
+    <title>Administration · ${siteName}</title>
+    ${stylesheetTags}
+  </head>
+  <body>
+    <div id="admin-root"></div>
+    <script type="module" src="${this.escapeHtml(entrySrc)}"></script>
+  </body>
+</html>`;
+  }
+
+  private createSeoRenderer(): SeoRenderer | null {
+    try {
+      return new SeoRenderer({
+        templatePath: path.join(this.publicDir, 'index.html'),
+        baseUrl: this.config.publicBaseUrl || 'http://localhost',
+        siteName: this.config.siteName,
+        defaultLocale: this.config.siteLocale,
+        defaultLanguage: this.config.siteLanguage,
+        defaultTwitterSite: this.config.twitterSite ?? null,
+        defaultTwitterCreator: this.config.twitterCreator ?? null,
+        defaultImages: [
+          {
+            url: this.toAbsoluteUrl('/icons/icon-512.png'),
+            alt: `Illustration du direct communautaire ${this.config.siteName}`,
+            width: 512,
+            height: 512,
+          },
+        ],
+      });
+    } catch (error) {
+      console.error('Failed to load the HTML template for server-rendered pages', error);
+      return null;
+    }
+  }
+
+  /** Public page of a clip, with OpenGraph audio tags so the clip plays inline once shared. */
+  private readonly handleClipPageRequest = async (req: Request, res: Response): Promise<void> => {
+    const clip = this.clipService ? await this.clipService.getClip(String(req.params.clipId ?? '')) : null;
+    if (!clip || !this.seoRenderer) {
+      res.status(404).type('text/plain; charset=utf-8').send('Not found');
+      return;
+    }
+
+    const links = buildClipLinks(clip.id, (pathname) => this.toAbsoluteUrl(pathname));
+    const audioUrl = this.toAbsoluteUrl(links.audioUrl);
+    const durationSeconds = Math.max(1, Math.round(clip.durationMs / 1000));
+    const excerpt = clip.transcriptions.map((entry) => entry.content).join(' ').trim();
+    const speakers = clip.speakers.length > 0 ? ` avec ${clip.speakers.join(', ')}` : '';
+    const description =
+      excerpt.length > 0
+        ? `« ${excerpt.length > 180 ? `${excerpt.slice(0, 179)}…` : excerpt} »`
+        : `Extrait de ${durationSeconds} s du direct ${this.config.siteName}${speakers}.`;
+    const pagePath = `/clips/${encodeURIComponent(clip.id)}`;
+
+    const additionalMeta: Array<{ name?: string; property?: string; content: string }> = [
+      { property: 'og:audio', content: audioUrl },
+      { property: 'og:audio:type', content: 'audio/mpeg' },
+    ];
+    if (audioUrl.startsWith('https://')) {
+      additionalMeta.splice(1, 0, { property: 'og:audio:secure_url', content: audioUrl });
+    }
+
+    const html = this.seoRenderer.render(
+      {
+        title: `${clip.title} · ${this.config.siteName}`,
+        description,
+        path: pagePath,
+        openGraphType: 'website',
+        additionalMeta,
+        structuredData: [
+          {
+            '@context': 'https://schema.org',
+            '@type': 'AudioObject',
+            name: clip.title,
+            description,
+            contentUrl: audioUrl,
+            encodingFormat: 'audio/mpeg',
+            duration: `PT${durationSeconds}S`,
+            uploadDate: clip.createdAt,
+            ...(excerpt.length > 0 ? { transcript: excerpt } : {}),
+          },
+        ],
+        breadcrumbs: [
+          { name: 'Accueil', path: '/' },
+          { name: clip.title, path: pagePath },
+        ],
+      },
+      {
+        appHtml: this.renderClipHtml(clip, links.audioUrl),
+        preloadState: {
+          route: { name: 'clip', params: { clipId: clip.id } },
+          pages: { clip: { clip: { ...clip, ...links } } },
+        },
+      },
+    );
+
+    res.setHeader('Cache-Control', 'public, max-age=60');
+    res.type('text/html').send(html);
+  };
+
+  private renderClipHtml(clip: ClipManifest, audioPath: string): string {
+    const transcript = clip.transcriptions
+      .map((entry) => {
+        const speaker = entry.displayName ? `<strong>${this.escapeHtml(entry.displayName)}</strong> ` : '';
+        return `<li>${speaker}${this.escapeHtml(entry.content)}</li>`;
+      })
+      .join('');
+    return `<main class="prerender mx-auto max-w-3xl px-4 py-10">
+  <h1>${this.escapeHtml(clip.title)}</h1>
+  <audio controls preload="metadata" src="${this.escapeHtml(audioPath)}"></audio>
+  ${transcript ? `<ol>${transcript}</ol>` : ''}
+</main>`;
+  }
+
   private readonly handleHomeRequest = (_req: Request, res: Response): void => {
     const streamPath = this.getStreamPath();
     const audioType = this.getStreamMimeType();
@@ -198,7 +946,7 @@ export default class AppServer {
     return trimmed;
   };
 
-  private readonly getClientIp = (req: Request): string => {
+  private readonly getClientIp = (req: IncomingMessage & { ip?: string }): string => {
     const forwarded = req.headers['x-forwarded-for'];
 
     if (typeof forwarded === 'string' && forwarded.length > 0) {
@@ -220,9 +968,34 @@ export default class AppServer {
     return this.normalizeIp(req.ip ?? req.socket.remoteAddress ?? null);
   };
 
-  private readonly handleStreamRequest = (req: Request, res: Response): void => {
-    const mimeType = this.getStreamMimeType();
-    res.setHeader('Content-Type', mimeType);
+  private registerRoomRoutes(room: BridgedRoom): void {
+    const target = this.roomStreams.get(room.id) as StreamTarget;
+    this.app.get(room.streamPath, (req, res) =>
+      this.handleStreamRequest(req, res, room.renditions.getPrimary(), target),
+    );
+    for (const rendition of room.renditions.list()) {
+      this.app.get(rendition.path, (req, res) => this.handleStreamRequest(req, res, rendition, target));
+    }
+    this.app.get(room.eventsPath, (req, res) => {
+      room.sseService.handleRequest(req, res, {
+        initialState: () => ({
+          ...room.speakerTracker.getInitialState(),
+          listeners: {
+            count: room.listenerStats.getCurrentCount(),
+            history: room.listenerStats.getHistory(),
+          },
+        }),
+      });
+    });
+  }
+
+  private readonly handleStreamRequest = (
+    req: Request,
+    res: Response,
+    rendition: StreamRendition,
+    target: StreamTarget = this.mainStream,
+  ): void => {
+    res.setHeader('Content-Type', rendition.mimeType);
     res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate, proxy-revalidate');
     res.setHeader('Pragma', 'no-cache');
     res.setHeader('Expires', '0');
@@ -240,15 +1013,21 @@ export default class AppServer {
       console.error('Unable to disable Nagle algorithm for stream socket', error);
     }
 
+    const metadataStream = this.createStreamMetadataTransform(req, res, rendition, target);
+    const output: Writable = metadataStream ?? res;
+    if (metadataStream) {
+      metadataStream.pipe(res);
+    }
+
     const flushableRes = res as FlushCapableResponse;
     if (typeof flushableRes.flushHeaders === 'function') {
       flushableRes.flushHeaders();
     }
 
-    const headerBuffer = this.transcoder.getHeaderBuffer();
+    const headerBuffer = rendition.transcoder.getHeaderBuffer();
     if (headerBuffer && headerBuffer.length > 0) {
       try {
-        res.write(headerBuffer);
+        output.write(headerBuffer);
         if (typeof flushableRes.flush === 'function') {
           flushableRes.flush();
         }
@@ -257,35 +1036,24 @@ export default class AppServer {
       }
     }
 
-    const clientStream = this.transcoder.createClientStream();
-    clientStream.pipe(res);
+    const clientStream = target.renditions.openListenerStream(rendition);
+    clientStream.pipe(output);
 
     let closed = false;
 
-    const previousConnectionCount = this.streamListenersByIp.get(clientIp) ?? 0;
-    const nextConnectionCount = previousConnectionCount + 1;
-    this.streamListenersByIp.set(clientIp, nextConnectionCount);
-
-    if (previousConnectionCount === 0) {
-      this.listenerStatsService.increment();
-    }
+    const releaseListener = this.registerStreamListener(clientIp, target);
 
     const cleanup = (): void => {
       if (closed) {
         return;
       }
       closed = true;
-      this.transcoder.releaseClientStream(clientStream);
-
-      const currentConnections = this.streamListenersByIp.get(clientIp) ?? 0;
-      const remainingConnections = Math.max(0, currentConnections - 1);
-
-      if (remainingConnections <= 0) {
-        this.streamListenersByIp.delete(clientIp);
-        this.listenerStatsService.decrement();
-      } else {
-        this.streamListenersByIp.set(clientIp, remainingConnections);
+      target.renditions.closeListenerStream(rendition, clientStream);
+      if (metadataStream) {
+        metadataStream.unpipe(res);
+        metadataStream.destroy();
       }
+      releaseListener();
     };
 
     const handleClose = (): void => {
@@ -300,8 +1068,96 @@ export default class AppServer {
     clientStream.on('error', handleClose);
   };
 
+  /**
+   * Counts a listener connection (HTTP stream or live socket) towards the listener
+   * statistics, once per IP address. The returned callback releases it and is safe
+   * to call more than once.
+   */
+  private registerStreamListener(clientIp: string, target: StreamTarget = this.mainStream): () => void {
+    const { listenersByIp, listenerStats } = target;
+    const previousConnectionCount = listenersByIp.get(clientIp) ?? 0;
+    listenersByIp.set(clientIp, previousConnectionCount + 1);
+
+    if (previousConnectionCount === 0) {
+      listenerStats.increment();
+    }
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+
+      const currentConnections = listenersByIp.get(clientIp) ?? 0;
+      const remainingConnections = Math.max(0, currentConnections - 1);
+
+      if (remainingConnections <= 0) {
+        listenersByIp.delete(clientIp);
+        listenerStats.decrement();
+      } else {
+        listenersByIp.set(clientIp, remainingConnections);
+      }
+    };
+  }
+
+  /**
+   * Clients that send `Icy-MetaData: 1` (VLC, car radios, TuneIn) get the current
+   * speakers as the stream title: ICY blocks for MP3/AAC, chained OpusTags for Ogg.
+   * Browsers never send the header, so the web player keeps an unchained Ogg stream.
+   */
+  private createStreamMetadataTransform(
+    req: Request,
+    res: Response,
+    rendition: StreamRendition,
+    target: StreamTarget,
+  ): Transform | null {
+    if (req.header('icy-metadata')?.trim() !== '1') {
+      return null;
+    }
+
+    const getTitle = (): string => this.getNowPlayingTitle(target);
+    if (rendition.format === 'opus') {
+      return new OggOpusCommentUpdater({ getTitle });
+    }
+
+    res.setHeader('icy-metaint', String(DEFAULT_ICY_METAINT));
+    res.setHeader('icy-name', this.getStationName(target));
+    res.setHeader('icy-url', this.config.publicBaseUrl);
+    return new IcyMetadataInjector({ metaInt: DEFAULT_ICY_METAINT, getTitle });
+  }
+
+  private getStationName(target: StreamTarget): string {
+    const siteName = this.config.siteName || 'Libre Antenne';
+    return target.roomName ? `${siteName} · ${target.roomName}` : siteName;
+  }
+
+  private getNowPlayingTitle(target: StreamTarget): string {
+    const names = target
+      .getSpeakers()
+      .sort((a, b) => (a.joinedAt ?? 0) - (b.joinedAt ?? 0))
+      .map((participant) => participant.displayName || participant.username)
+      .filter((name) => name.length > 0);
+
+    if (names.length === 0) {
+      return this.getStationName(target);
+    }
+
+    const shown = names.slice(0, MAX_TITLE_SPEAKERS);
+    const others = names.length - shown.length;
+    const suffix = others > 0 ? ` et ${others} autre${others > 1 ? 's' : ''}` : '';
+    return `En direct : ${shown.join(', ')}${suffix}`;
+  }
+
   private getStreamMimeType(): string {
-    return this.config.mimeTypes[this.config.outputFormat] || 'application/octet-stream';
+    return this.streamRenditions.getPrimary().mimeType;
+  }
+
+  private isStreamPath(pathname: string): boolean {
+    return (
+      pathname === this.getStreamPath()
+      || this.streamRenditions.list().some((rendition) => rendition.path === pathname)
+    );
   }
 
   private getStreamPath(): string {
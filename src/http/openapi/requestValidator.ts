@@ -0,0 +1,222 @@
+import fs from 'fs';
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import {
+  SchemaValidator,
+  type JsonSchema,
+  type OpenApiDocument,
+  type OpenApiHttpMethod,
+  type OpenApiOperation,
+  type OpenApiParameter,
+  type SchemaIssue,
+} from './schemaValidator';
+
+export interface ValidatedRequestInput {
+  operationId: string | null;
+  params: Record<string, unknown>;
+  query: Record<string, unknown>;
+  body: unknown;
+}
+
+interface CompiledOperation {
+  method: OpenApiHttpMethod;
+  template: string;
+  pattern: RegExp;
+  paramNames: string[];
+  operation: OpenApiOperation;
+}
+
+const HTTP_METHODS: OpenApiHttpMethod[] = ['get', 'post', 'put', 'patch', 'delete'];
+
+/**
+ * The parameters and body the validator checked and coerced for this request.
+ * Routes the specification does not describe get the raw request instead.
+ */
+export function getValidatedInput(req: Request, res: Response): ValidatedRequestInput {
+  const input = res.locals.openapi as ValidatedRequestInput | undefined;
+  return input ?? {
+    operationId: null,
+    params: req.params,
+    query: (req.query ?? {}) as Record<string, unknown>,
+    body: req.body as unknown,
+  };
+}
+
+export function loadOpenApiDocument(filePath: string): OpenApiDocument {
+  return JSON.parse(fs.readFileSync(filePath, 'utf8')) as OpenApiDocument;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^$()|[\]\\]/g, '\\$&');
+}
+
+function compileOperations(document: OpenApiDocument): CompiledOperation[] {
+  const compiled: CompiledOperation[] = [];
+
+  for (const [template, pathItem] of Object.entries(document.paths)) {
+    const paramNames: string[] = [];
+    const source = template
+      .split(/(\{[^}]+\})/)
+      .map((part) => {
+        const match = /^\{([^}]+)\}$/.exec(part);
+        if (match) {
+          paramNames.push(match[1]);
+          return '([^/]+)';
+        }
+        return escapeRegExp(part);
+      })
+      .join('');
+    const pattern = new RegExp(`^${source}/?$`);
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (operation) {
+        compiled.push({ method, template, pattern, paramNames, operation });
+      }
+    }
+  }
+
+  // Literal segments must win over templated ones (e.g. `/posts/latest` before `/posts/{slug}`).
+  return compiled.sort((a, b) => a.paramNames.length - b.paramNames.length);
+}
+
+function coerceScalar(value: string, schema: JsonSchema): unknown {
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  const trimmed = value.trim();
+
+  if ((types.includes('integer') || types.includes('number')) && trimmed.length > 0) {
+    const numeric = Number(trimmed);
+    if (Number.isFinite(numeric)) {
+      return numeric;
+    }
+  }
+
+  if (types.includes('boolean') && (trimmed === 'true' || trimmed === 'false')) {
+    return trimmed === 'true';
+  }
+
+  return value;
+}
+
+function coerceParameter(rawValue: unknown, schema: JsonSchema): unknown {
+  if (Array.isArray(rawValue)) {
+    return rawValue.map((entry) => (typeof entry === 'string' ? coerceScalar(entry, schema) : entry));
+  }
+  return typeof rawValue === 'string' ? coerceScalar(rawValue, schema) : rawValue;
+}
+
+function sendValidationError(res: Response, issues: SchemaIssue[]): void {
+  const details: Record<string, string> = {};
+  for (const issue of issues) {
+    if (!(issue.path in details)) {
+      details[issue.path] = issue.message;
+    }
+  }
+
+  res.status(400).json({
+    error: 'INVALID_REQUEST',
+    message: 'La requête ne respecte pas le format attendu.',
+    details,
+  });
+}
+
+export function createOpenApiRequestValidator(document: OpenApiDocument): RequestHandler {
+  const validator = new SchemaValidator(document);
+  const operations = compileOperations(document);
+
+  const validateParameters = (
+    parameters: OpenApiParameter[],
+    location: 'path' | 'query',
+    source: Record<string, unknown>,
+    target: Record<string, unknown>,
+    issues: SchemaIssue[],
+  ): void => {
+    for (const parameter of parameters) {
+      if (parameter.in !== location) {
+        continue;
+      }
+
+      const issuePath = `${location}.${parameter.name}`;
+      const rawValue = source[parameter.name];
+      if (rawValue === undefined || rawValue === '') {
+        if (parameter.required) {
+          issues.push({ path: issuePath, message: 'est requis' });
+        }
+        continue;
+      }
+
+      const schema = parameter.schema ?? {};
+      const value = coerceParameter(rawValue, validator.resolve(schema));
+      // Repeated query parameters are validated entry by entry unless the schema expects an array.
+      const values = Array.isArray(value) && validator.resolve(schema).type !== 'array' ? value : [value];
+      for (const entry of values) {
+        issues.push(...validator.validate(schema, entry, issuePath));
+      }
+      target[parameter.name] = value;
+    }
+  };
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const method = req.method.toLowerCase();
+    let compiled: CompiledOperation | null = null;
+    let match: RegExpExecArray | null = null;
+    for (const candidate of operations) {
+      if (candidate.method !== method) {
+        continue;
+      }
+      match = candidate.pattern.exec(req.path);
+      if (match) {
+        compiled = candidate;
+        break;
+      }
+    }
+
+    if (!compiled || !match) {
+      next();
+      return;
+    }
+
+    const pathValues: Record<string, unknown> = {};
+    compiled.paramNames.forEach((name, index) => {
+      const raw = match[index + 1];
+      try {
+        pathValues[name] = decodeURIComponent(raw);
+      } catch (error) {
+        pathValues[name] = raw;
+      }
+    });
+
+    const issues: SchemaIssue[] = [];
+    const input: ValidatedRequestInput = {
+      operationId: compiled.operation.operationId ?? null,
+      params: {},
+      query: {},
+      body: undefined,
+    };
+
+    const parameters = compiled.operation.parameters ?? [];
+    validateParameters(parameters, 'path', pathValues, input.params, issues);
+    validateParameters(parameters, 'query', (req.query ?? {}) as Record<string, unknown>, input.query, issues);
+
+    const requestBody = compiled.operation.requestBody;
+    const bodySchema = requestBody?.content?.['application/json']?.schema;
+    if (bodySchema) {
+      const body = req.body as unknown;
+      if (body === undefined) {
+        if (requestBody?.required) {
+          issues.push({ path: 'body', message: 'est requis' });
+        }
+      } else {
+        issues.push(...validator.validate(bodySchema, body, 'body'));
+        input.body = body;
+      }
+    }
+
+    if (issues.length > 0) {
+      sendValidationError(res, issues);
+      return;
+    }
+
+    res.locals.openapi = input;
+    next();
+  };
+}
@@ -0,0 +1,231 @@
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JsonSchema {
+  $ref?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  oneOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  format?: string;
+  description?: string;
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required?: boolean;
+  schema?: JsonSchema;
+}
+
+export interface OpenApiMediaType {
+  schema?: JsonSchema;
+}
+
+export interface OpenApiResponse {
+  $ref?: string;
+  description?: string;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiOperation {
+  operationId?: string;
+  summary?: string;
+  tags?: string[];
+  parameters?: OpenApiParameter[];
+  requestBody?: {
+    required?: boolean;
+    content?: Record<string, OpenApiMediaType>;
+  };
+  responses?: Record<string, OpenApiResponse>;
+}
+
+export type OpenApiHttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+export interface OpenApiDocument {
+  openapi: string;
+  info?: { title?: string; version?: string };
+  paths: Record<string, Partial<Record<OpenApiHttpMethod, OpenApiOperation>>>;
+  components?: {
+    schemas?: Record<string, JsonSchema>;
+    responses?: Record<string, OpenApiResponse>;
+  };
+}
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+const MAX_REF_DEPTH = 32;
+
+function describeType(value: unknown): JsonSchemaType | 'undefined' {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  if (typeof value === 'string' || typeof value === 'boolean' || typeof value === 'object') {
+    return typeof value as JsonSchemaType;
+  }
+  return 'undefined';
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = describeType(value);
+  if (type === 'number') {
+    return actual === 'number' || actual === 'integer';
+  }
+  return actual === type;
+}
+
+function joinPath(base: string, segment: string | number): string {
+  if (typeof segment === 'number') {
+    return `${base}[${segment}]`;
+  }
+  return base ? `${base}.${segment}` : segment;
+}
+
+/**
+ * Validates values against the subset of JSON Schema 2020-12 used by `docs/openapi.json`.
+ * Formats are treated as annotations, as the specification allows.
+ */
+export class SchemaValidator {
+  private readonly document: OpenApiDocument;
+
+  constructor(document: OpenApiDocument) {
+    this.document = document;
+  }
+
+  public resolve(schema: JsonSchema, depth = 0): JsonSchema {
+    if (!schema.$ref) {
+      return schema;
+    }
+    if (depth > MAX_REF_DEPTH) {
+      throw new Error(`Circular $ref detected: ${schema.$ref}`);
+    }
+
+    const prefix = '#/components/schemas/';
+    if (!schema.$ref.startsWith(prefix)) {
+      throw new Error(`Unsupported $ref: ${schema.$ref}`);
+    }
+
+    const target = this.document.components?.schemas?.[schema.$ref.slice(prefix.length)];
+    if (!target) {
+      throw new Error(`Unknown $ref: ${schema.$ref}`);
+    }
+
+    return this.resolve(target, depth + 1);
+  }
+
+  public validate(schema: JsonSchema, value: unknown, path = ''): SchemaIssue[] {
+    const resolved = this.resolve(schema);
+    const issues: SchemaIssue[] = [];
+
+    if (resolved.allOf) {
+      for (const candidate of resolved.allOf) {
+        issues.push(...this.validate(candidate, value, path));
+      }
+    }
+
+    if (resolved.anyOf && !resolved.anyOf.some((candidate) => this.validate(candidate, value, path).length === 0)) {
+      issues.push({ path, message: 'ne correspond à aucun des formats attendus' });
+    }
+
+    if (resolved.oneOf) {
+      const matches = resolved.oneOf.filter((candidate) => this.validate(candidate, value, path).length === 0).length;
+      if (matches !== 1) {
+        issues.push({ path, message: 'ne correspond à aucun des formats attendus' });
+      }
+    }
+
+    if (resolved.type) {
+      const types = Array.isArray(resolved.type) ? resolved.type : [resolved.type];
+      if (!types.some((type) => matchesType(value, type))) {
+        issues.push({ path, message: `doit être de type ${types.join(' ou ')}` });
+        return issues;
+      }
+    }
+
+    if (resolved.enum && !resolved.enum.some((candidate) => candidate === value)) {
+      issues.push({ path, message: `doit valoir ${resolved.enum.map((candidate) => String(candidate)).join(', ')}` });
+    }
+
+    if (typeof value === 'number') {
+      if (typeof resolved.minimum === 'number' && value < resolved.minimum) {
+        issues.push({ path, message: `doit être supérieur ou égal à ${resolved.minimum}` });
+      }
+      if (typeof resolved.maximum === 'number' && value > resolved.maximum) {
+        issues.push({ path, message: `doit être inférieur ou égal à ${resolved.maximum}` });
+      }
+    }
+
+    if (typeof value === 'string') {
+      if (typeof resolved.minLength === 'number' && value.length < resolved.minLength) {
+        issues.push({ path, message: `doit contenir au moins ${resolved.minLength} caractère(s)` });
+      }
+      if (typeof resolved.maxLength === 'number' && value.length > resolved.maxLength) {
+        issues.push({ path, message: `ne doit pas dépasser ${resolved.maxLength} caractères` });
+      }
+      if (typeof resolved.pattern === 'string' && !new RegExp(resolved.pattern, 'u').test(value)) {
+        issues.push({ path, message: `doit respecter le format ${resolved.pattern}` });
+      }
+    }
+
+    if (Array.isArray(value) && resolved.items) {
+      value.forEach((item, index) => {
+        issues.push(...this.validate(resolved.items as JsonSchema, item, joinPath(path, index)));
+      });
+    }
+
+    if (describeType(value) === 'object') {
+      issues.push(...this.validateObject(resolved, value as Record<string, unknown>, path));
+    }
+
+    return issues;
+  }
+
+  private validateObject(schema: JsonSchema, value: Record<string, unknown>, path: string): SchemaIssue[] {
+    const issues: SchemaIssue[] = [];
+    const properties = schema.properties ?? {};
+
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) {
+        issues.push({ path: joinPath(path, key), message: 'est requis' });
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(value)) {
+      if (propertyValue === undefined) {
+        continue;
+      }
+
+      const propertySchema = properties[key];
+      if (propertySchema) {
+        issues.push(...this.validate(propertySchema, propertyValue, joinPath(path, key)));
+        continue;
+      }
+
+      if (schema.additionalProperties === false) {
+        issues.push({ path: joinPath(path, key), message: 'n’est pas autorisé' });
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        issues.push(...this.validate(schema.additionalProperties, propertyValue, joinPath(path, key)));
+      }
+    }
+
+    return issues;
+  }
+}
@@ -1,9 +1,25 @@
 import { Router, type Request, type Response } from 'express';
+import type {
+  ClipCreateRequest,
+  HideMemberRequest,
+  SoundboardSoundUpdateRequest,
+  TextToSpeechSayRequest,
+} from '../../api/client';
+import type AudioMixer from '../../audio/AudioMixer';
+import type { AudioSourceControlsUpdate } from '../../audio/AudioMixer';
+import type BroadcastDelay from '../../audio/BroadcastDelay';
 import type BlogRepository from '../../services/BlogRepository';
 import type { BlogPostRow } from '../../services/BlogRepository';
 import type AdminService from '../../services/AdminService';
 import type { HiddenMemberRecord } from '../../services/AdminService';
+import type ClipService from '../../services/ClipService';
 import type DailyArticleService from '../../services/DailyArticleService';
+import type ProfanityFilterService from '../../services/ProfanityFilterService';
+import type SoundboardService from '../../services/SoundboardService';
+import type TextToSpeechService from '../../services/TextToSpeechService';
+import type { ScheduledAnnouncementInput } from '../../services/TextToSpeechService';
+import { getValidatedInput } from '../openapi/requestValidator';
+import { buildClipLinks } from './clips';
 
 interface AdminRouterDeps {
   requireAdminAuth: (req: Request, res: Response) => boolean;
@@ -12,6 +28,14 @@ interface AdminRouterDeps {
   blogRepository: BlogRepository | null;
   adminService: AdminService;
   dailyArticleService: DailyArticleService | null;
+  audioMixer: AudioMixer;
+  broadcastDelay: BroadcastDelay | null;
+  clipService: ClipService | null;
+  profanityFilterService: ProfanityFilterService | null;
+  soundboardService: SoundboardService | null;
+  textToSpeechService: TextToSpeechService | null;
+  defaultClipSeconds: number;
+  toAbsoluteUrl: (pathname: string) => string;
 }
 
 interface AdminListRequestParams {
@@ -51,7 +75,7 @@ interface AdminHiddenMemberRecord extends HiddenMemberRecord {
   id: string;
 }
 
-function parseAdminListRequest(req: Request): AdminListRequestParams {
+function parseAdminListRequest(query: Record<string, unknown>): AdminListRequestParams {
   const extractSingle = (value: unknown): string | null => {
     if (Array.isArray(value)) {
       return value.length > 0 ? extractSingle(value[0]) : null;
@@ -66,22 +90,22 @@ function parseAdminListRequest(req: Request): AdminListRequestParams {
     return null;
   };
 
-  const rawPage = extractSingle(req.query?.page);
+  const rawPage = extractSingle(query.page);
   const parsedPage = rawPage ? Number.parseInt(rawPage, 10) : NaN;
   const page = Number.isFinite(parsedPage) && parsedPage > 0 ? parsedPage : 1;
 
-  const rawPerPage = extractSingle(req.query?.perPage);
+  const rawPerPage = extractSingle(query.perPage);
   const parsedPerPage = rawPerPage ? Number.parseInt(rawPerPage, 10) : NaN;
   const perPage = Math.min(Math.max(Number.isFinite(parsedPerPage) && parsedPerPage > 0 ? parsedPerPage : 25, 1), 100);
 
-  const rawSort = extractSingle(req.query?.sort);
+  const rawSort = extractSingle(query.sort);
   const sortField = rawSort && rawSort.length > 0 ? rawSort : null;
 
-  const rawOrder = extractSingle(req.query?.order);
+  const rawOrder = extractSingle(query.order);
   const normalizedOrder = rawOrder ? rawOrder.toLowerCase() : null;
   const sortOrder = normalizedOrder === 'asc' ? 'asc' : 'desc';
 
-  const rawFilter = extractSingle(req.query?.filter);
+  const rawFilter = extractSingle(query.filter);
   let filters: Record<string, unknown> = {};
   if (rawFilter) {
     try {
@@ -326,6 +350,14 @@ export function createAdminRouter({
   blogRepository,
   adminService,
   dailyArticleService,
+  audioMixer,
+  broadcastDelay,
+  clipService,
+  profanityFilterService,
+  soundboardService,
+  textToSpeechService,
+  defaultClipSeconds,
+  toAbsoluteUrl,
 }: AdminRouterDeps): Router {
   const router = Router();
 
@@ -378,7 +410,7 @@ export function createAdminRouter({
       return;
     }
 
-    const listRequest = parseAdminListRequest(req);
+    const listRequest = parseAdminListRequest(getValidatedInput(req, res).query);
     const sortFieldMap: Record<string, string> = {
       publishedAt: 'published_at',
       updatedAt: 'updated_at',
@@ -436,7 +468,8 @@ export function createAdminRouter({
       return;
     }
 
-    const slug = normalizeSlug(typeof req.params.slug === 'string' ? req.params.slug : null);
+    const { slug: rawSlug } = getValidatedInput(req, res).params;
+    const slug = normalizeSlug(typeof rawSlug === 'string' ? rawSlug : null);
     if (!slug) {
       res.status(400).json({ error: 'SLUG_REQUIRED', message: 'Le slug de l’article est requis.' });
       return;
@@ -467,7 +500,7 @@ export function createAdminRouter({
       return;
     }
 
-    const parsed = parseAdminBlogPostInput(req.body, { allowSlugOverride: true });
+    const parsed = parseAdminBlogPostInput(getValidatedInput(req, res).body, { allowSlugOverride: true });
     if (!parsed.ok) {
       res.status(parsed.status).json({ error: parsed.error, message: parsed.message });
       return;
@@ -504,13 +537,14 @@ export function createAdminRouter({
       return;
     }
 
-    const slugParam = normalizeSlug(typeof req.params.slug === 'string' ? req.params.slug : null);
+    const input = getValidatedInput(req, res);
+    const slugParam = normalizeSlug(typeof input.params.slug === 'string' ? input.params.slug : null);
     if (!slugParam) {
       res.status(400).json({ error: 'SLUG_REQUIRED', message: 'Le slug de l’article est requis.' });
       return;
     }
 
-    const parsed = parseAdminBlogPostInput(req.body, { slugFallback: slugParam });
+    const parsed = parseAdminBlogPostInput(input.body, { slugFallback: slugParam });
     if (!parsed.ok) {
       res.status(parsed.status).json({ error: parsed.error, message: parsed.message });
       return;
@@ -555,7 +589,8 @@ export function createAdminRouter({
       return;
     }
 
-    const slug = normalizeSlug(typeof req.params.slug === 'string' ? req.params.slug : null);
+    const { slug: rawSlug } = getValidatedInput(req, res).params;
+    const slug = normalizeSlug(typeof rawSlug === 'string' ? rawSlug : null);
     if (!slug) {
       res.status(400).json({ error: 'SLUG_REQUIRED', message: 'Le slug de l’article est requis.' });
       return;
@@ -598,7 +633,8 @@ export function createAdminRouter({
   });
 
   router.get('/members/hidden/:userId', async (req, res) => {
-    const userId = typeof req.params.userId === 'string' ? req.params.userId.trim() : '';
+    const { userId: rawUserId } = getValidatedInput(req, res).params;
+    const userId = typeof rawUserId === 'string' ? rawUserId.trim() : '';
     if (!userId) {
       res.status(400).json({ error: 'USER_ID_REQUIRED', message: "L'identifiant utilisateur est requis." });
       return;
@@ -622,16 +658,17 @@ export function createAdminRouter({
   });
 
   router.post('/members/:userId/hide', async (req, res) => {
-    const rawUserId = typeof req.params.userId === 'string' ? req.params.userId.trim() : '';
-    if (!rawUserId) {
+    const { params, body } = getValidatedInput(req, res);
+    const userId = typeof params.userId === 'string' ? params.userId.trim() : '';
+    if (!userId) {
       res.status(400).json({ error: 'USER_ID_REQUIRED', message: "L'identifiant utilisateur est requis." });
       return;
     }
 
-    const idea = typeof req.body?.idea === 'string' ? req.body.idea : null;
+    const { idea = null } = (body ?? {}) as HideMemberRequest;
 
     try {
-      const record = await adminService.hideMember(rawUserId, idea);
+      const record = await adminService.hideMember(userId, idea);
       res.status(201).json({ data: mapHiddenMemberRecord(record) });
     } catch (error) {
       if ((error as Error)?.message === 'USER_ID_REQUIRED') {
@@ -647,7 +684,8 @@ export function createAdminRouter({
   });
 
   router.delete('/members/:userId/hide', async (req, res) => {
-    const rawUserId = typeof req.params.userId === 'string' ? req.params.userId.trim() : '';
+    const { userId } = getValidatedInput(req, res).params;
+    const rawUserId = typeof userId === 'string' ? userId.trim() : '';
     if (!rawUserId) {
       res.status(400).json({ error: 'USER_ID_REQUIRED', message: "L'identifiant utilisateur est requis." });
       return;
@@ -673,6 +711,408 @@ export function createAdminRouter({
     }
   });
 
+  router.get('/audio/sources', (_req, res) => {
+    res.setHeader('Cache-Control', 'no-store');
+    res.json({ data: audioMixer.listSourceControls() });
+  });
+
+  router.get('/audio/stats', (_req, res) => {
+    res.setHeader('Cache-Control', 'no-store');
+    res.json({ data: audioMixer.getStats() });
+  });
+
+  router.patch('/audio/sources/:userId', (req, res) => {
+    const input = getValidatedInput(req, res);
+    const userId = typeof input.params.userId === 'string' ? input.params.userId.trim() : '';
+    if (!userId) {
+      res.status(400).json({ error: 'USER_ID_REQUIRED', message: "L'identifiant utilisateur est requis." });
+      return;
+    }
+
+    const update = input.body as AudioSourceControlsUpdate;
+    if (Object.keys(update).length === 0) {
+      res.status(400).json({
+        error: 'CONTROL_REQUIRED',
+        message: 'Indique au moins un réglage (gainDb, muted ou solo).',
+      });
+      return;
+    }
+
+    res.json({ data: audioMixer.setSourceControls(userId, update) });
+  });
+
+  router.delete('/audio/sources/:userId', (req, res) => {
+    const { userId: rawUserId } = getValidatedInput(req, res).params;
+    const userId = typeof rawUserId === 'string' ? rawUserId.trim() : '';
+    if (!userId) {
+      res.status(400).json({ error: 'USER_ID_REQUIRED', message: "L'identifiant utilisateur est requis." });
+      return;
+    }
+
+    res.json({ data: audioMixer.resetSourceControls(userId) });
+  });
+
+  const ensureBroadcastDelay = (res: Response): BroadcastDelay | null => {
+    if (!broadcastDelay) {
+      res.status(503).json({
+        error: 'BROADCAST_DELAY_DISABLED',
+        message: 'Aucun délai de diffusion n’est configuré sur ce serveur.',
+      });
+    }
+    return broadcastDelay;
+  };
+
+  router.get('/audio/delay', (_req, res) => {
+    const delay = ensureBroadcastDelay(res);
+    if (!delay) {
+      return;
+    }
+    res.setHeader('Cache-Control', 'no-store');
+    res.json({ data: delay.getStatus() });
+  });
+
+  router.post('/audio/delay/dump', (_req, res) => {
+    const delay = ensureBroadcastDelay(res);
+    if (!delay) {
+      return;
+    }
+    const result = delay.dump();
+    console.warn(`Broadcast delay dumped from the admin API (${result.droppedMs} ms dropped)`);
+    res.json({ data: { ...result, status: delay.getStatus() } });
+  });
+
+  router.get('/audio/bleeps', (req, res) => {
+    if (!profanityFilterService) {
+      res.status(503).json({
+        error: 'PROFANITY_FILTER_DISABLED',
+        message: 'Le filtre de grossièretés n’est pas activé sur ce serveur.',
+      });
+      return;
+    }
+    const { limit = 50 } = getValidatedInput(req, res).query as { limit?: number };
+    res.setHeader('Cache-Control', 'no-store');
+    res.json({ data: profanityFilterService.getRecentBleeps(limit), status: profanityFilterService.getStatus() });
+  });
+
+  const ensureSoundboard = (res: Response): SoundboardService | null => {
+    if (!soundboardService) {
+      res.status(503).json({
+        error: 'SOUNDBOARD_DISABLED',
+        message: 'La boîte à sons n’est pas activée sur ce serveur.',
+      });
+    }
+    return soundboardService;
+  };
+
+  const sendSoundboardError = (res: Response, error: unknown): void => {
+    const code = (error as Error)?.message;
+    if (code === 'SOUND_NOT_FOUND') {
+      res.status(404).json({ error: code, message: 'Ce son est introuvable.' });
+      return;
+    }
+    if (code === 'SOUND_DECODE_FAILED') {
+      res.status(422).json({ error: code, message: 'Impossible de décoder ce fichier audio.' });
+      return;
+    }
+    console.error('Soundboard request failed', error);
+    res.status(500).json({ error: 'SOUNDBOARD_FAILED', message: 'La boîte à sons a rencontré une erreur.' });
+  };
+
+  router.get('/audio/soundboard', async (_req, res) => {
+    const service = ensureSoundboard(res);
+    if (!service) {
+      return;
+    }
+    res.setHeader('Cache-Control', 'no-store');
+    res.json({ data: await service.refresh(), status: service.getStatus() });
+  });
+
+  router.post('/audio/soundboard/stop', (_req, res) => {
+    const service = ensureSoundboard(res);
+    if (!service) {
+      return;
+    }
+    service.stopPlayback();
+    res.json({ data: service.getStatus() });
+  });
+
+  router.post('/audio/soundboard/:soundId/play', async (req, res) => {
+    const service = ensureSoundboard(res);
+    if (!service) {
+      return;
+    }
+    try {
+      res.json({ data: await service.play(String(getValidatedInput(req, res).params.soundId)) });
+    } catch (error) {
+      sendSoundboardError(res, error);
+    }
+  });
+
+  router.patch('/audio/soundboard/:soundId', async (req, res) => {
+    const service = ensureSoundboard(res);
+    if (!service) {
+      return;
+    }
+
+    const { params, body } = getValidatedInput(req, res);
+    const update = body as SoundboardSoundUpdateRequest;
+    if (Object.keys(update).length === 0) {
+      res.status(400).json({ error: 'SETTING_REQUIRED', message: 'Indique au moins un réglage (volumeDb ou label).' });
+      return;
+    }
+
+    try {
+      res.json({ data: await service.updateSound(String(params.soundId), update) });
+    } catch (error) {
+      sendSoundboardError(res, error);
+    }
+  });
+
+  const ensureTextToSpeech = (res: Response): TextToSpeechService | null => {
+    if (!textToSpeechService) {
+      res.status(503).json({
+        error: 'TTS_DISABLED',
+        message: 'La voix de synthèse n’est pas activée sur ce serveur.',
+      });
+    }
+    return textToSpeechService;
+  };
+
+  const sendTextToSpeechError = (res: Response, error: unknown): void => {
+    const code = (error as Error)?.message;
+    switch (code) {
+      case 'TEXT_REQUIRED':
+        res.status(400).json({ error: code, message: 'Le texte à lire est requis.' });
+        return;
+      case 'TEXT_TOO_LONG':
+        res.status(400).json({ error: code, message: 'Ce texte est trop long pour être lu.' });
+        return;
+      case 'SCHEDULE_REQUIRED':
+        res.status(400).json({ error: code, message: 'Indique une fréquence (everyMinutes) ou des horaires (at).' });
+        return;
+      case 'INVALID_SCHEDULE':
+        res.status(400).json({
+          error: code,
+          message: 'La fréquence doit être comprise entre 1 et 1440 minutes et les horaires au format HH:MM.',
+        });
+        return;
+      case 'QUEUE_FULL':
+        res.status(409).json({ error: code, message: 'Trop d’annonces sont déjà en attente.' });
+        return;
+      case 'ANNOUNCEMENT_NOT_FOUND':
+        res.status(404).json({ error: code, message: 'Cette annonce est introuvable.' });
+        return;
+      case 'MESSAGE_NOT_FOUND':
+        res.status(404).json({ error: code, message: 'Ce message est introuvable.' });
+        return;
+      default:
+        console.error('Text-to-speech request failed', error);
+        res.status(500).json({ error: 'TTS_FAILED', message: 'La voix de synthèse a rencontré une erreur.' });
+    }
+  };
+
+  router.get('/tts', (_req, res) => {
+    const service = ensureTextToSpeech(res);
+    if (!service) {
+      return;
+    }
+    res.setHeader('Cache-Control', 'no-store');
+    res.json({ data: service.getStatus() });
+  });
+
+  router.post('/tts/say', (req, res) => {
+    const service = ensureTextToSpeech(res);
+    if (!service) {
+      return;
+    }
+    const { text } = getValidatedInput(req, res).body as TextToSpeechSayRequest;
+    try {
+      const announcement = service.say(text, { kind: 'manual', requestedBy: 'admin' });
+      res.status(202).json({ data: announcement });
+    } catch (error) {
+      sendTextToSpeechError(res, error);
+    }
+  });
+
+  router.delete('/tts/queue', (_req, res) => {
+    const service = ensureTextToSpeech(res);
+    if (!service) {
+      return;
+    }
+    service.silence();
+    res.json({ data: service.getStatus() });
+  });
+
+  router.get('/tts/announcements', (_req, res) => {
+    const service = ensureTextToSpeech(res);
+    if (!service) {
+      return;
+    }
+    res.setHeader('Cache-Control', 'no-store');
+    res.json({ data: service.listAnnouncements() });
+  });
+
+  router.post('/tts/announcements', async (req, res) => {
+    const service = ensureTextToSpeech(res);
+    if (!service) {
+      return;
+    }
+    try {
+      const input = getValidatedInput(req, res).body as ScheduledAnnouncementInput;
+      res.status(201).json({ data: await service.createAnnouncement(input) });
+    } catch (error) {
+      sendTextToSpeechError(res, error);
+    }
+  });
+
+  router.patch('/tts/announcements/:announcementId', async (req, res) => {
+    const service = ensureTextToSpeech(res);
+    if (!service) {
+      return;
+    }
+    const { params, body } = getValidatedInput(req, res);
+    const input = body as ScheduledAnnouncementInput;
+    if (Object.keys(input).length === 0) {
+      res.status(400).json({
+        error: 'SETTING_REQUIRED',
+        message: 'Indique au moins un réglage (text, everyMinutes, at ou enabled).',
+      });
+      return;
+    }
+    try {
+      res.json({ data: await service.updateAnnouncement(String(params.announcementId), input) });
+    } catch (error) {
+      sendTextToSpeechError(res, error);
+    }
+  });
+
+  router.delete('/tts/announcements/:announcementId', async (req, res) => {
+    const service = ensureTextToSpeech(res);
+    if (!service) {
+      return;
+    }
+    try {
+      await service.deleteAnnouncement(String(getValidatedInput(req, res).params.announcementId));
+      res.status(204).send();
+    } catch (error) {
+      sendTextToSpeechError(res, error);
+    }
+  });
+
+  router.get('/tts/messages', (_req, res) => {
+    const service = ensureTextToSpeech(res);
+    if (!service) {
+      return;
+    }
+    res.setHeader('Cache-Control', 'no-store');
+    res.json({ data: service.listMessages() });
+  });
+
+  router.post('/tts/messages/:messageId/approve', async (req, res) => {
+    const service = ensureTextToSpeech(res);
+    if (!service) {
+      return;
+    }
+    try {
+      const { messageId } = getValidatedInput(req, res).params;
+      res.status(202).json({ data: await service.approveMessage(String(messageId), 'admin') });
+    } catch (error) {
+      sendTextToSpeechError(res, error);
+    }
+  });
+
+  router.delete('/tts/messages/:messageId', async (req, res) => {
+    const service = ensureTextToSpeech(res);
+    if (!service) {
+      return;
+    }
+    try {
+      await service.rejectMessage(String(getValidatedInput(req, res).params.messageId));
+      res.status(204).send();
+    } catch (error) {
+      sendTextToSpeechError(res, error);
+    }
+  });
+
+  const ensureClipService = (res: Response): ClipService | null => {
+    if (!clipService) {
+      res.status(503).json({ error: 'CLIPS_DISABLED', message: 'Les extraits sont désactivés sur ce serveur.' });
+    }
+    return clipService;
+  };
+
+  router.get('/clips', async (_req, res) => {
+    const service = ensureClipService(res);
+    if (!service) {
+      return;
+    }
+
+    try {
+      const clips = await service.listClips();
+      res.setHeader('Cache-Control', 'no-store');
+      res.json({
+        data: clips.map((clip) => ({ ...clip, ...buildClipLinks(clip.id, toAbsoluteUrl) })),
+        total: clips.length,
+        bufferedSeconds: service.getBufferedSeconds(),
+        maxSeconds: service.maxSeconds,
+      });
+    } catch (error) {
+      console.error('Failed to list clips', error);
+      res.status(500).json({ error: 'ADMIN_CLIPS_LIST_FAILED', message: 'Impossible de récupérer les extraits.' });
+    }
+  });
+
+  router.post('/clips', async (req, res) => {
+    const service = ensureClipService(res);
+    if (!service) {
+      return;
+    }
+
+    const { seconds = defaultClipSeconds, title = null } = (getValidatedInput(req, res).body ?? {}) as ClipCreateRequest;
+    if (seconds > service.maxSeconds) {
+      res.status(400).json({
+        error: 'INVALID_CLIP_DURATION',
+        message: `La durée d’un extrait doit être comprise entre 1 et ${service.maxSeconds} secondes.`,
+      });
+      return;
+    }
+
+    try {
+      const clip = await service.createClip({ seconds, title, requestedBy: 'admin' });
+      res.status(201).json({ data: { ...clip, ...buildClipLinks(clip.id, toAbsoluteUrl) } });
+    } catch (error) {
+      if ((error as Error)?.message === 'CLIP_BUFFER_EMPTY') {
+        res.status(409).json({
+          error: 'CLIP_BUFFER_EMPTY',
+          message: 'Aucun son n’a encore été mis en mémoire pour créer un extrait.',
+        });
+        return;
+      }
+      console.error('Failed to create clip', error);
+      res.status(500).json({ error: 'CLIP_CREATE_FAILED', message: 'Impossible de créer l’extrait.' });
+    }
+  });
+
+  router.delete('/clips/:clipId', async (req, res) => {
+    const service = ensureClipService(res);
+    if (!service) {
+      return;
+    }
+
+    const clipId = String(getValidatedInput(req, res).params.clipId);
+    try {
+      const removed = await service.deleteClip(clipId);
+      if (!removed) {
+        res.status(404).json({ error: 'CLIP_NOT_FOUND', message: 'Cet extrait est introuvable.' });
+        return;
+      }
+      res.json({ data: { id: clipId } });
+    } catch (error) {
+      console.error('Failed to delete clip', error);
+      res.status(500).json({ error: 'CLIP_DELETE_FAILED', message: 'Impossible de supprimer l’extrait.' });
+    }
+  });
+
   router.post('/articles/daily', async (_req, res) => {
     if (!dailyArticleService) {
       res.status(503).json({
@@ -0,0 +1,121 @@
+import { Router, type Request, type Response } from 'express';
+import type { Config } from '../../config';
+import type DiscordAudioBridge from '../../discord/DiscordAudioBridge';
+import type AnonymousSpeechManager from '../../services/AnonymousSpeechManager';
+import { AnonymousSlotError } from '../../services/AnonymousSpeechManager';
+
+interface AnonymousRouterDeps {
+  config: Config;
+  anonymousSpeechManager: AnonymousSpeechManager;
+  discordBridge: DiscordAudioBridge;
+}
+
+function extractReleaseToken(req: Request): string | null {
+  const header = req.header('authorization');
+  if (typeof header === 'string') {
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    if (match && match[1].trim().length > 0) {
+      return match[1].trim();
+    }
+  }
+
+  const queryToken = req.query?.token;
+  if (typeof queryToken === 'string' && queryToken.trim().length > 0) {
+    return queryToken.trim();
+  }
+
+  const bodyToken = (req.body as Record<string, unknown> | undefined)?.token;
+  if (typeof bodyToken === 'string' && bodyToken.trim().length > 0) {
+    return bodyToken.trim();
+  }
+
+  return null;
+}
+
+function handleSlotError(res: Response, error: unknown, fallbackMessage: string): void {
+  if (error instanceof AnonymousSlotError) {
+    res.status(error.status).json({ error: error.code, message: error.message });
+    return;
+  }
+
+  console.error(fallbackMessage, error);
+  res.status(500).json({ error: 'ANONYMOUS_SLOT_FAILED', message: 'Le micro anonyme est momentanément indisponible.' });
+}
+
+function buildBeepFrame(config: Config, durationMs = 600, frequency = 880): Buffer {
+  const { sampleRate, channels, bytesPerSample } = config.audio;
+  const totalSamples = Math.floor((sampleRate * durationMs) / 1000);
+  const buffer = Buffer.alloc(totalSamples * channels * bytesPerSample);
+  const fadeSamples = Math.min(Math.floor(sampleRate * 0.01), Math.floor(totalSamples / 2));
+
+  for (let i = 0; i < totalSamples; i += 1) {
+    let amplitude = 0.3;
+    if (i < fadeSamples) {
+      amplitude *= i / fadeSamples;
+    } else if (i > totalSamples - fadeSamples) {
+      amplitude *= (totalSamples - i) / fadeSamples;
+    }
+    const value = Math.round(Math.sin((2 * Math.PI * frequency * i) / sampleRate) * amplitude * 32767);
+    for (let channel = 0; channel < channels; channel += 1) {
+      buffer.writeInt16LE(value, (i * channels + channel) * bytesPerSample);
+    }
+  }
+
+  return buffer;
+}
+
+export function createAnonymousRouter({ config, anonymousSpeechManager, discordBridge }: AnonymousRouterDeps): Router {
+  const router = Router();
+
+  router.get('/anonymous-slot', (_req: Request, res: Response) => {
+    res.setHeader('Cache-Control', 'no-store');
+    res.json(anonymousSpeechManager.getPublicState());
+  });
+
+  router.post('/anonymous-slot', (req: Request, res: Response) => {
+    const displayName = typeof req.body?.displayName === 'string' ? req.body.displayName : undefined;
+
+    try {
+      const claim = anonymousSpeechManager.claimSlot({ displayName });
+      res.status(201).json(claim);
+    } catch (error) {
+      handleSlotError(res, error, 'Failed to claim anonymous slot');
+    }
+  });
+
+  router.delete('/anonymous-slot', (req: Request, res: Response) => {
+    const token = extractReleaseToken(req);
+    if (!token) {
+      res.status(400).json({ error: 'TOKEN_REQUIRED', message: 'Le jeton de réservation est requis.' });
+      return;
+    }
+
+    try {
+      const state = anonymousSpeechManager.releaseSlot(token);
+      res.json({ state });
+    } catch (error) {
+      handleSlotError(res, error, 'Failed to release anonymous slot');
+    }
+  });
+
+  router.post('/test-beep', (_req: Request, res: Response) => {
+    if (!discordBridge.hasActiveVoiceConnection()) {
+      res.status(503).json({
+        error: 'VOICE_CONNECTION_UNAVAILABLE',
+        message: "Le bot n'est pas connecté au salon vocal.",
+      });
+      return;
+    }
+
+    try {
+      const beep = buildBeepFrame(config);
+      const ok = discordBridge.pushAnonymousAudio(beep);
+      res.status(202).json({ ok, written: ok ? beep.length : 0 });
+    } catch (error) {
+      console.error('Failed to push test beep', error);
+      res.status(500).json({ error: 'TEST_BEEP_FAILED', message: 'Impossible de diffuser le bip de test.' });
+    }
+  });
+
+  return router;
+}
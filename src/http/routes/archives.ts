@@ -0,0 +1,158 @@
+import { Router, type Request, type Response } from 'express';
+import type ShowArchiveService from '../../services/ShowArchiveService';
+import type { ShowArchiveManifest } from '../../services/ShowArchiveService';
+
+interface ArchivesRouterDeps {
+  showArchiveService: ShowArchiveService | null;
+}
+
+function formatVttTimestamp(ms: number): string {
+  const totalMs = Math.max(0, Math.round(ms));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const seconds = Math.floor((totalMs % 60_000) / 1000);
+  const millis = totalMs % 1000;
+  const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(millis, 3)}`;
+}
+
+/** WebVTT chapter track, usable as `<track kind="chapters">` next to the replay. */
+function buildChaptersVtt(manifest: ShowArchiveManifest): string {
+  const lines = ['WEBVTT', ''];
+  manifest.chapters.forEach((chapter, index) => {
+    const endMs = Math.max(chapter.endMs, chapter.startMs + 1);
+    lines.push(String(index + 1), `${formatVttTimestamp(chapter.startMs)} --> ${formatVttTimestamp(endMs)}`);
+    lines.push(chapter.title.replace(/-->/g, '→'), '');
+  });
+  return lines.join('\n');
+}
+
+function buildArchiveLinks(id: string): { audioUrl: string; downloadUrl: string; chaptersUrl: string } {
+  const basePath = `/api/archives/${encodeURIComponent(id)}`;
+  return {
+    audioUrl: `${basePath}/audio`,
+    downloadUrl: `${basePath}/download`,
+    chaptersUrl: `${basePath}/chapters.vtt`,
+  };
+}
+
+export function createArchivesRouter({ showArchiveService }: ArchivesRouterDeps): Router {
+  const router = Router();
+
+  const ensureService = (res: Response): ShowArchiveService | null => {
+    if (!showArchiveService) {
+      res.status(503).json({
+        error: 'ARCHIVE_DISABLED',
+        message: 'L’archivage des émissions est désactivé sur ce serveur.',
+      });
+      return null;
+    }
+    return showArchiveService;
+  };
+
+  const resolveManifestOrFail = async (req: Request, res: Response): Promise<ShowArchiveManifest | null> => {
+    const service = ensureService(res);
+    if (!service) {
+      return null;
+    }
+    const manifest = await service.getManifest(String(req.params.archiveId ?? ''));
+    if (!manifest) {
+      res.status(404).json({ error: 'ARCHIVE_NOT_FOUND', message: 'Cette archive est introuvable.' });
+      return null;
+    }
+    return manifest;
+  };
+
+  const sendAudio = async (req: Request, res: Response, asAttachment: boolean): Promise<void> => {
+    try {
+      const manifest = await resolveManifestOrFail(req, res);
+      if (!manifest || !showArchiveService) {
+        return;
+      }
+      if (manifest.endedAt === null) {
+        res.status(409).json({
+          error: 'ARCHIVE_IN_PROGRESS',
+          message: 'Cette émission est encore en cours d’enregistrement.',
+        });
+        return;
+      }
+      const audioPath = showArchiveService.resolveAudioPath(manifest.id);
+      if (!audioPath) {
+        res.status(404).json({ error: 'ARCHIVE_NOT_FOUND', message: 'Cette archive est introuvable.' });
+        return;
+      }
+
+      const headers: Record<string, string> = {
+        'Content-Type': 'audio/ogg',
+        'Cache-Control': 'public, max-age=86400',
+      };
+      if (asAttachment) {
+        headers['Content-Disposition'] = `attachment; filename="libre-antenne-${manifest.id}.opus"`;
+      }
+      res.sendFile(audioPath, { headers }, (error) => {
+        if (error && !res.headersSent) {
+          console.error('Failed to send archive audio', error);
+          res.status(500).json({ error: 'ARCHIVE_DOWNLOAD_FAILED', message: 'Téléchargement impossible.' });
+        }
+      });
+    } catch (error) {
+      console.error('Failed to send archive audio', error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: 'ARCHIVE_DOWNLOAD_FAILED', message: 'Téléchargement impossible.' });
+      }
+    }
+  };
+
+  router.get('/', async (_req: Request, res: Response) => {
+    const service = ensureService(res);
+    if (!service) {
+      return;
+    }
+
+    try {
+      const archives = await service.listArchives();
+      res.setHeader('Cache-Control', 'no-store');
+      res.json({
+        archives: archives.map((archive) => ({ ...archive, ...buildArchiveLinks(archive.id) })),
+      });
+    } catch (error) {
+      console.error('Failed to list archives', error);
+      res.status(500).json({ error: 'ARCHIVES_FAILED', message: 'Impossible de récupérer les archives.' });
+    }
+  });
+
+  router.get('/:archiveId', async (req: Request, res: Response) => {
+    try {
+      const manifest = await resolveManifestOrFail(req, res);
+      if (!manifest) {
+        return;
+      }
+      res.setHeader('Cache-Control', manifest.endedAt === null ? 'no-store' : 'public, max-age=300');
+      res.json({ archive: { ...manifest, ...buildArchiveLinks(manifest.id) } });
+    } catch (error) {
+      console.error('Failed to load archive', error);
+      res.status(500).json({ error: 'ARCHIVE_FAILED', message: 'Impossible de charger cette archive.' });
+    }
+  });
+
+  router.get('/:archiveId/chapters.vtt', async (req: Request, res: Response) => {
+    try {
+      const manifest = await resolveManifestOrFail(req, res);
+      if (!manifest) {
+        return;
+      }
+      res.setHeader('Content-Type', 'text/vtt; charset=utf-8');
+      res.setHeader('Cache-Control', manifest.endedAt === null ? 'no-store' : 'public, max-age=300');
+      res.send(buildChaptersVtt(manifest));
+    } catch (error) {
+      console.error('Failed to build archive chapters', error);
+      res.status(500).json({ error: 'ARCHIVE_FAILED', message: 'Impossible de charger cette archive.' });
+    }
+  });
+
+  router.get('/:archiveId/audio', (req: Request, res: Response) => sendAudio(req, res, false));
+
+  router.get('/:archiveId/download', (req: Request, res: Response) => sendAudio(req, res, true));
+
+  return router;
+}
@@ -1,8 +1,10 @@
 import { Router, type Request, type Response } from 'express';
+import type { BlogSubmissionRequest } from '../../api/client';
 import type BlogService from '../../services/BlogService';
 import type { BlogListOptions } from '../../services/BlogService';
 import BlogSubmissionService, { BlogSubmissionError } from '../../services/BlogSubmissionService';
 import type DailyArticleService from '../../services/DailyArticleService';
+import { getValidatedInput } from '../openapi/requestValidator';
 
 interface BlogRouterDeps {
   blogService: BlogService;
@@ -56,59 +58,37 @@ function extractStringArray(value: unknown): string[] {
   return result;
 }
 
-function parseBlogListOptions(query: Request['query']): BlogListOptions {
+function parseBlogListOptions(query: Record<string, unknown>): BlogListOptions {
   const options: BlogListOptions = {};
 
-  const rawSearch = extractString(query?.search);
-  if (rawSearch) {
-    options.search = rawSearch;
+  const search = extractString(query.search);
+  if (search) {
+    options.search = search;
   }
 
-  const tags = extractStringArray(query?.tag ?? query?.tags);
+  const tags = extractStringArray(query.tag);
   if (tags.length > 0) {
     options.tags = tags;
   }
 
-  const rawSort = extractString(query?.sort ?? query?.sortBy);
-  if (rawSort) {
-    if (rawSort === 'title') {
-      options.sortBy = 'title';
-    } else if (rawSort === 'date' || rawSort === 'recent' || rawSort === 'published_at') {
-      options.sortBy = 'date';
-    }
+  const sort = extractString(query.sort);
+  if (sort === 'title' || sort === 'date') {
+    options.sortBy = sort;
   }
 
-  const rawOrder = extractString(query?.order ?? query?.sortOrder);
-  if (rawOrder === 'asc' || rawOrder === 'desc') {
-    options.sortOrder = rawOrder;
+  const order = extractString(query.order);
+  if (order === 'asc' || order === 'desc') {
+    options.sortOrder = order;
   }
 
-  const rawLimit = extractString(query?.limit ?? query?.pageSize ?? query?.perPage);
-  if (rawLimit) {
-    const numericLimit = Number(rawLimit);
-    if (Number.isFinite(numericLimit) && numericLimit > 0) {
-      options.limit = Math.floor(numericLimit);
-    }
+  const limit = extractString(query.limit);
+  if (limit) {
+    options.limit = Number(limit);
   }
 
   return options;
 }
 
-function extractSubmissionTags(value: unknown): string[] {
-  if (Array.isArray(value)) {
-    return value.filter((entry): entry is string => typeof entry === 'string');
-  }
-
-  if (typeof value === 'string') {
-    return value
-      .split(',')
-      .map((entry) => entry.trim())
-      .filter((entry) => entry.length > 0);
-  }
-
-  return [];
-}
-
 function handleSubmissionError(res: Response, error: unknown): void {
   if (error instanceof BlogSubmissionError) {
     const status =
@@ -139,7 +119,7 @@ export function createBlogRouter({ blogService, blogSubmissionService, dailyArti
 
   router.get('/posts', async (req: Request, res: Response) => {
     try {
-      const options = parseBlogListOptions(req.query);
+      const options = parseBlogListOptions(getValidatedInput(req, res).query);
       const { posts, availableTags } = await blogService.listPosts(options);
       res.setHeader('Cache-Control', 'public, max-age=60, stale-while-revalidate=60');
       res.json({ posts, tags: availableTags });
@@ -153,7 +133,8 @@ export function createBlogRouter({ blogService, blogSubmissionService, dailyArti
   });
 
   router.get('/posts/:slug', async (req: Request, res: Response) => {
-    const rawSlug = typeof req.params.slug === 'string' ? req.params.slug.trim() : '';
+    const { slug } = getValidatedInput(req, res).params;
+    const rawSlug = typeof slug === 'string' ? slug.trim() : '';
     if (!rawSlug) {
       res.status(400).json({
         error: 'SLUG_REQUIRED',
@@ -183,18 +164,17 @@ export function createBlogRouter({ blogService, blogSubmissionService, dailyArti
   });
 
   router.post('/submissions', async (req: Request, res: Response) => {
-    const payload = (req.body && typeof req.body === 'object' ? req.body : {}) as Record<string, unknown>;
-    const tags = extractSubmissionTags(payload.tags);
+    const payload = getValidatedInput(req, res).body as BlogSubmissionRequest;
 
     try {
       const result = await blogSubmissionService.publish({
-        title: typeof payload.title === 'string' ? payload.title : '',
-        slug: typeof payload.slug === 'string' ? payload.slug : null,
-        excerpt: typeof payload.excerpt === 'string' ? payload.excerpt : null,
-        contentMarkdown: typeof payload.contentMarkdown === 'string' ? payload.contentMarkdown : '',
-        coverImageUrl: typeof payload.coverImageUrl === 'string' ? payload.coverImageUrl : null,
-        tags,
-        seoDescription: typeof payload.seoDescription === 'string' ? payload.seoDescription : null,
+        title: payload.title,
+        slug: payload.slug ?? null,
+        excerpt: payload.excerpt ?? null,
+        contentMarkdown: payload.contentMarkdown,
+        coverImageUrl: payload.coverImageUrl ?? null,
+        tags: payload.tags ?? [],
+        seoDescription: payload.seoDescription ?? null,
       });
 
       res.status(201).json({
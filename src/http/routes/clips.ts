@@ -0,0 +1,77 @@
+import { Router, type Request, type Response } from 'express';
+import type ClipService from '../../services/ClipService';
+import type { ClipManifest } from '../../services/ClipService';
+
+interface ClipsRouterDeps {
+  clipService: ClipService | null;
+  toAbsoluteUrl: (pathname: string) => string;
+}
+
+export function buildClipLinks(
+  id: string,
+  toAbsoluteUrl: (pathname: string) => string,
+): { audioUrl: string; pageUrl: string } {
+  return {
+    audioUrl: `/api/clips/${encodeURIComponent(id)}/audio`,
+    pageUrl: toAbsoluteUrl(`/clips/${encodeURIComponent(id)}`),
+  };
+}
+
+export function createClipsRouter({ clipService, toAbsoluteUrl }: ClipsRouterDeps): Router {
+  const router = Router();
+
+  const resolveClipOrFail = async (req: Request, res: Response): Promise<ClipManifest | null> => {
+    if (!clipService) {
+      res.status(503).json({ error: 'CLIPS_DISABLED', message: 'Les extraits sont désactivés sur ce serveur.' });
+      return null;
+    }
+    const clip = await clipService.getClip(String(req.params.clipId ?? ''));
+    if (!clip) {
+      res.status(404).json({ error: 'CLIP_NOT_FOUND', message: 'Cet extrait est introuvable.' });
+      return null;
+    }
+    return clip;
+  };
+
+  router.get('/:clipId', async (req: Request, res: Response) => {
+    try {
+      const clip = await resolveClipOrFail(req, res);
+      if (!clip) {
+        return;
+      }
+      res.setHeader('Cache-Control', 'public, max-age=60');
+      res.json({ clip: { ...clip, ...buildClipLinks(clip.id, toAbsoluteUrl) } });
+    } catch (error) {
+      console.error('Failed to load clip', error);
+      res.status(500).json({ error: 'CLIP_FAILED', message: 'Impossible de charger cet extrait.' });
+    }
+  });
+
+  router.get('/:clipId/audio', async (req: Request, res: Response) => {
+    try {
+      const clip = await resolveClipOrFail(req, res);
+      const audioPath = clip && clipService ? clipService.resolveAudioPath(clip.id) : null;
+      if (!clip || !audioPath) {
+        return;
+      }
+      const headers = {
+        'Content-Type': 'audio/mpeg',
+        'Cache-Control': 'public, max-age=86400',
+        'Content-Disposition': `inline; filename="libre-antenne-${clip.id}.mp3"`,
+      };
+      res.sendFile(audioPath, { headers }, (error) => {
+        if (error && !res.headersSent) {
+          console.error('Failed to send clip audio', error);
+          res.status(500).json({ error: 'CLIP_DOWNLOAD_FAILED', message: 'Téléchargement impossible.' });
+        }
+      });
+    } catch (error) {
+      console.error('Failed to send clip audio', error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: 'CLIP_DOWNLOAD_FAILED', message: 'Téléchargement impossible.' });
+      }
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,214 @@
+import { Router, type Request, type Response } from 'express';
+import type { Config } from '../../config';
+import aboutPageContent from '../../content/about';
+import type AdminService from '../../services/AdminService';
+import type HypeLeaderboardService from '../../services/HypeLeaderboardService';
+import type VoiceActivityRepository from '../../services/VoiceActivityRepository';
+import type {
+  HypeLeaderboardQueryOptions,
+  HypeLeaderboardSortBy,
+  MemberEngagementCursor,
+  MemberEngagementSort,
+} from '../../services/VoiceActivityRepository';
+import { parseTimestamp } from '../utils/time';
+
+interface CommunityRouterDeps {
+  config: Config;
+  voiceActivityRepository: VoiceActivityRepository;
+  adminService: AdminService;
+  hypeLeaderboardService: HypeLeaderboardService | null;
+}
+
+const DEFAULT_MEMBERS_LIMIT = 24;
+const MAX_MEMBERS_LIMIT = 100;
+const RECENT_MESSAGES_PER_MEMBER = 3;
+
+function encodeMembersCursor(cursor: MemberEngagementCursor | null): string | null {
+  if (!cursor) {
+    return null;
+  }
+  return Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+}
+
+function decodeMembersCursor(value: unknown): MemberEngagementCursor | null {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(Buffer.from(value.trim(), 'base64url').toString('utf8')) as Record<string, unknown>;
+    const primaryMetric = Number(parsed?.primaryMetric);
+    const secondaryMetric = Number(parsed?.secondaryMetric);
+    const userId = typeof parsed?.userId === 'string' ? parsed.userId : '';
+    if (!Number.isFinite(primaryMetric) || !Number.isFinite(secondaryMetric) || !userId) {
+      return null;
+    }
+    return { primaryMetric, secondaryMetric, userId };
+  } catch (error) {
+    return null;
+  }
+}
+
+function parsePositiveInteger(value: unknown): number | null {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    return null;
+  }
+  const numeric = Number(value);
+  return Number.isFinite(numeric) && numeric >= 1 ? Math.floor(numeric) : null;
+}
+
+export function createCommunityRouter({
+  config,
+  voiceActivityRepository,
+  adminService,
+  hypeLeaderboardService,
+}: CommunityRouterDeps): Router {
+  const router = Router();
+
+  router.get('/members', async (req: Request, res: Response) => {
+    const limit = Math.min(MAX_MEMBERS_LIMIT, parsePositiveInteger(req.query?.limit) ?? DEFAULT_MEMBERS_LIMIT);
+    const rawCursor = req.query?.after;
+    const cursor = rawCursor === undefined ? null : decodeMembersCursor(rawCursor);
+    if (rawCursor !== undefined && !cursor) {
+      res.status(400).json({ error: 'INVALID_CURSOR', message: 'Le curseur de pagination est invalide.' });
+      return;
+    }
+
+    const sortBy: MemberEngagementSort = req.query?.sort === 'messages' ? 'messages' : 'voice';
+    const search = typeof req.query?.search === 'string' ? req.query.search.trim() || null : null;
+
+    if (!config.guildId) {
+      res.status(503).json({ error: 'GUILD_NOT_CONFIGURED', message: 'Le serveur Discord n’est pas configuré.' });
+      return;
+    }
+
+    try {
+      const hiddenUserIds = await adminService.getHiddenMemberIds();
+      const result = await voiceActivityRepository.listMembersByEngagement({
+        guildId: config.guildId,
+        limit,
+        cursor,
+        sortBy,
+        search,
+        hiddenUserIds,
+      });
+
+      const recentMessages = await voiceActivityRepository.listRecentUserMessages({
+        userIds: result.members.map((member) => member.userId),
+        limitPerUser: RECENT_MESSAGES_PER_MEMBER,
+      });
+
+      res.setHeader('Cache-Control', 'public, max-age=30, stale-while-revalidate=60');
+      res.json({
+        members: result.members.map((member) => ({
+          id: member.userId,
+          displayName: member.displayName ?? member.nickname ?? member.username ?? member.userId,
+          username: member.username,
+          nickname: member.nickname,
+          avatarUrl: member.avatarUrl,
+          joinedAt: member.firstSeenAt ? member.firstSeenAt.toISOString() : null,
+          lastSeenAt: member.lastSeenAt ? member.lastSeenAt.toISOString() : null,
+          lastActivityAt: member.lastActivityAt ? member.lastActivityAt.toISOString() : null,
+          roles: member.roles,
+          isBot: member.isBot,
+          voiceMinutes: member.voiceMinutes,
+          messageCount: member.messageCount,
+          recentMessages: (recentMessages[member.userId] ?? []).map((entry) => ({
+            messageId: entry.messageId,
+            channelId: entry.channelId,
+            guildId: entry.guildId,
+            content: entry.content,
+            timestamp: entry.timestamp.toISOString(),
+            timestampMs: entry.timestamp.getTime(),
+          })),
+        })),
+        nextCursor: encodeMembersCursor(result.nextCursor),
+        hasMore: result.nextCursor !== null,
+      });
+    } catch (error) {
+      console.error('Failed to list members', error);
+      res.status(500).json({ error: 'MEMBERS_FAILED', message: 'Impossible de récupérer les membres.' });
+    }
+  });
+
+  router.get('/voice-activity/history', async (req: Request, res: Response) => {
+    const since = req.query?.since === undefined ? null : parseTimestamp(req.query.since);
+    const until = req.query?.until === undefined ? null : parseTimestamp(req.query.until);
+    const limit = parsePositiveInteger(req.query?.limit);
+
+    try {
+      const [entries, hiddenUserIds] = await Promise.all([
+        voiceActivityRepository.listVoiceActivityHistory({ since, until, limit }),
+        adminService.getHiddenMemberIds(),
+      ]);
+
+      res.setHeader('Cache-Control', 'public, max-age=15, stale-while-revalidate=30');
+      res.json({
+        segments: entries
+          .filter((entry) => !hiddenUserIds.has(entry.userId))
+          .map((entry) => ({
+            id: `${entry.userId}-${entry.startedAt.getTime()}`,
+            userId: entry.userId,
+            channelId: entry.channelId,
+            guildId: entry.guildId,
+            durationMs: entry.durationMs,
+            startedAt: entry.startedAt.toISOString(),
+            endedAt: entry.endedAt.toISOString(),
+            startedAtMs: entry.startedAt.getTime(),
+            endedAtMs: entry.endedAt.getTime(),
+            profile: entry.profile,
+          })),
+      });
+    } catch (error) {
+      console.error('Failed to load voice activity history', error);
+      res.status(500).json({
+        error: 'VOICE_HISTORY_FAILED',
+        message: 'Impossible de récupérer l’historique vocal.',
+      });
+    }
+  });
+
+  router.get('/voice-activity/hype-leaders', async (req: Request, res: Response) => {
+    if (!hypeLeaderboardService) {
+      res.json({ leaders: [], snapshot: { bucketStart: new Date().toISOString(), comparedTo: null } });
+      return;
+    }
+
+    const query: HypeLeaderboardQueryOptions = {
+      limit: parsePositiveInteger(req.query?.limit),
+      search: typeof req.query?.search === 'string' ? req.query.search : null,
+      sortBy: typeof req.query?.sortBy === 'string' ? (req.query.sortBy as HypeLeaderboardSortBy) : null,
+      sortOrder: req.query?.sortOrder === 'asc' ? 'asc' : 'desc',
+    };
+    if (req.query?.period !== undefined) {
+      query.periodDays = parsePositiveInteger(req.query.period);
+    }
+
+    try {
+      const options = hypeLeaderboardService.normalizeOptions(query);
+      const [result, hiddenUserIds] = await Promise.all([
+        hypeLeaderboardService.getLeaderboardWithTrends(options),
+        adminService.getHiddenMemberIds(),
+      ]);
+
+      res.setHeader('Cache-Control', 'public, max-age=60, stale-while-revalidate=120');
+      res.json({
+        leaders: result.leaders.filter((leader) => !hiddenUserIds.has(leader.userId)),
+        snapshot: {
+          bucketStart: result.snapshot.bucketStart.toISOString(),
+          comparedTo: result.snapshot.comparedTo ? result.snapshot.comparedTo.toISOString() : null,
+        },
+      });
+    } catch (error) {
+      console.error('Failed to load hype leaderboard', error);
+      res.status(500).json({ error: 'HYPE_LEADERBOARD_FAILED', message: 'Impossible de charger le classement.' });
+    }
+  });
+
+  router.get('/pages/about', (_req: Request, res: Response) => {
+    res.setHeader('Cache-Control', 'public, max-age=3600');
+    res.json(aboutPageContent);
+  });
+
+  return router;
+}
@@ -0,0 +1,154 @@
+import { Router, type Request, type Response } from 'express';
+import type DiscordAudioBridge from '../../discord/DiscordAudioBridge';
+import { CaptchaStore, describeCaptchaFailure } from '../utils/captcha';
+import { CooldownTracker } from '../utils/cooldown';
+
+interface DiscordRouterDeps {
+  discordBridge: DiscordAudioBridge;
+  getClientIp: (req: Request) => string;
+}
+
+const MAX_MESSAGE_LENGTH = 500;
+const MESSAGE_COOLDOWN_MS = 60_000;
+const SNOWFLAKE_PATTERN = /^\d{5,25}$/;
+
+function normalizeSnowflake(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const trimmed = value.trim();
+  return SNOWFLAKE_PATTERN.test(trimmed) ? trimmed : null;
+}
+
+function handleDiscordError(res: Response, error: unknown, fallbackCode: string, fallbackMessage: string): void {
+  const name = (error as Error)?.name ?? (error as Error)?.message;
+  switch (name) {
+    case 'GUILD_NOT_CONFIGURED':
+    case 'GUILD_UNAVAILABLE':
+      res.status(503).json({
+        error: name,
+        message: 'Le serveur Discord est indisponible pour le moment.',
+      });
+      return;
+    case 'CHANNEL_NOT_FOUND':
+      res.status(404).json({ error: name, message: 'Ce salon est introuvable.' });
+      return;
+    case 'CHANNEL_NOT_ACCESSIBLE':
+      res.status(403).json({ error: name, message: 'Ce salon n’est pas accessible depuis le site.' });
+      return;
+    default:
+      console.error(fallbackMessage, error);
+      res.status(500).json({ error: fallbackCode, message: fallbackMessage });
+  }
+}
+
+export function createDiscordRouter({ discordBridge, getClientIp }: DiscordRouterDeps): Router {
+  const router = Router();
+  const captchaStore = new CaptchaStore();
+  const cooldowns = new CooldownTracker(MESSAGE_COOLDOWN_MS);
+
+  router.get('/guild/summary', async (_req: Request, res: Response) => {
+    try {
+      const guild = await discordBridge.getGuildSummary();
+      res.setHeader('Cache-Control', 'public, max-age=60, stale-while-revalidate=120');
+      res.json({ guild });
+    } catch (error) {
+      handleDiscordError(res, error, 'GUILD_SUMMARY_FAILED', 'Impossible de récupérer le résumé du serveur.');
+    }
+  });
+
+  router.get('/text-channels', async (_req: Request, res: Response) => {
+    try {
+      const channels = await discordBridge.listTextChannels();
+      res.setHeader('Cache-Control', 'public, max-age=15, stale-while-revalidate=30');
+      res.json({ channels, refreshedAt: new Date().toISOString() });
+    } catch (error) {
+      handleDiscordError(res, error, 'TEXT_CHANNELS_FAILED', 'Impossible de récupérer les salons textuels.');
+    }
+  });
+
+  router.get('/text-channels/:channelId/messages', async (req: Request, res: Response) => {
+    const channelId = normalizeSnowflake(req.params.channelId);
+    if (!channelId) {
+      res.status(400).json({ error: 'CHANNEL_ID_REQUIRED', message: 'Identifiant de salon invalide.' });
+      return;
+    }
+
+    const rawBefore = req.query?.before;
+    const before = rawBefore === undefined ? null : normalizeSnowflake(rawBefore);
+    if (rawBefore !== undefined && !before) {
+      res.status(400).json({ error: 'INVALID_CURSOR', message: 'Le curseur de pagination est invalide.' });
+      return;
+    }
+
+    const limit = typeof req.query?.limit === 'string' ? Number(req.query.limit) : null;
+
+    try {
+      const result = await discordBridge.fetchTextChannelMessages(channelId, { limit, before });
+      res.setHeader('Cache-Control', 'no-store');
+      res.json(result);
+    } catch (error) {
+      handleDiscordError(res, error, 'TEXT_CHANNEL_MESSAGES_FAILED', 'Impossible de récupérer les messages du salon.');
+    }
+  });
+
+  router.post('/text-channels/:channelId/captcha', (req: Request, res: Response) => {
+    const channelId = normalizeSnowflake(req.params.channelId);
+    if (!channelId) {
+      res.status(400).json({ error: 'CHANNEL_ID_REQUIRED', message: 'Identifiant de salon invalide.' });
+      return;
+    }
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.json({ challenge: captchaStore.issue(channelId) });
+  });
+
+  router.post('/text-channels/:channelId/messages', async (req: Request, res: Response) => {
+    const channelId = normalizeSnowflake(req.params.channelId);
+    if (!channelId) {
+      res.status(400).json({ error: 'CHANNEL_ID_REQUIRED', message: 'Identifiant de salon invalide.' });
+      return;
+    }
+
+    const payload = (req.body && typeof req.body === 'object' ? req.body : {}) as Record<string, unknown>;
+    const message = typeof payload.message === 'string' ? payload.message.trim() : '';
+    if (!message) {
+      res.status(400).json({ error: 'MESSAGE_REQUIRED', message: 'Le message ne peut pas être vide.' });
+      return;
+    }
+    if (message.length > MAX_MESSAGE_LENGTH) {
+      res.status(400).json({
+        error: 'MESSAGE_TOO_LONG',
+        message: `Le message ne doit pas dépasser ${MAX_MESSAGE_LENGTH} caractères.`,
+      });
+      return;
+    }
+
+    const clientKey = getClientIp(req);
+    const retryAt = cooldowns.getRetryAt(clientKey);
+    if (retryAt) {
+      res.status(429).json({
+        error: 'RATE_LIMITED',
+        message: 'Merci de patienter avant d’envoyer un nouveau message.',
+        retryAt: retryAt.toISOString(),
+      });
+      return;
+    }
+
+    const captchaResult = captchaStore.verify(payload.captchaId, payload.captchaAnswer, channelId);
+    if (captchaResult !== 'OK') {
+      res.status(400).json({ error: captchaResult, message: describeCaptchaFailure(captchaResult) });
+      return;
+    }
+
+    try {
+      const data = await discordBridge.sendTextChannelMessage(channelId, message);
+      const nextAllowedAt = cooldowns.register(clientKey);
+      res.status(201).json({ data, nextAllowedAt: nextAllowedAt.toISOString() });
+    } catch (error) {
+      handleDiscordError(res, error, 'TEXT_CHANNEL_MESSAGE_FAILED', 'Impossible d’envoyer le message.');
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,99 @@
+import { Router, type Request, type Response } from 'express';
+import type TextToSpeechService from '../../services/TextToSpeechService';
+import { CaptchaStore, describeCaptchaFailure } from '../utils/captcha';
+import { CooldownTracker } from '../utils/cooldown';
+
+interface MessagesRouterDeps {
+  textToSpeechService: TextToSpeechService | null;
+  cooldownMs: number;
+  getClientIp: (req: Request) => string;
+}
+
+const CAPTCHA_SCOPE = 'listener-message';
+
+/** Listener messages for the station's voice; a moderator approves each one before it is read. */
+export function createMessagesRouter({ textToSpeechService, cooldownMs, getClientIp }: MessagesRouterDeps): Router {
+  const router = Router();
+  const captchaStore = new CaptchaStore();
+  const cooldowns = new CooldownTracker(cooldownMs);
+
+  const ensureEnabled = (res: Response): TextToSpeechService | null => {
+    if (!textToSpeechService) {
+      res.status(503).json({
+        error: 'TTS_DISABLED',
+        message: 'Les messages lus à l’antenne ne sont pas disponibles sur ce serveur.',
+      });
+      return null;
+    }
+    return textToSpeechService;
+  };
+
+  router.post('/captcha', (_req: Request, res: Response) => {
+    if (!ensureEnabled(res)) {
+      return;
+    }
+    res.setHeader('Cache-Control', 'no-store');
+    res.json({ challenge: captchaStore.issue(CAPTCHA_SCOPE) });
+  });
+
+  router.post('/', async (req: Request, res: Response) => {
+    const service = ensureEnabled(res);
+    if (!service) {
+      return;
+    }
+
+    const payload = (req.body && typeof req.body === 'object' ? req.body : {}) as Record<string, unknown>;
+    const text = typeof payload.text === 'string' ? payload.text.trim() : '';
+    if (!text) {
+      res.status(400).json({ error: 'TEXT_REQUIRED', message: 'Merci d’écrire ton message.' });
+      return;
+    }
+
+    const clientKey = getClientIp(req);
+    const retryAt = cooldowns.getRetryAt(clientKey);
+    if (retryAt) {
+      res.status(429).json({
+        error: 'RATE_LIMITED',
+        message: 'Un message a déjà été envoyé récemment. Merci de patienter.',
+        retryAt: retryAt.toISOString(),
+      });
+      return;
+    }
+
+    const captchaResult = captchaStore.verify(payload.captchaId, payload.captchaAnswer, CAPTCHA_SCOPE);
+    if (captchaResult !== 'OK') {
+      res.status(400).json({ error: captchaResult, message: describeCaptchaFailure(captchaResult) });
+      return;
+    }
+
+    try {
+      await service.submitMessage({
+        author: typeof payload.author === 'string' ? payload.author : null,
+        text,
+      });
+      const nextAllowedAt = cooldowns.register(clientKey);
+      res.status(201).json({
+        status: 'PENDING',
+        message: 'Merci ! Ton message sera lu à l’antenne une fois validé par l’équipe.',
+        nextAllowedAt: nextAllowedAt.toISOString(),
+      });
+    } catch (error) {
+      const code = (error as Error)?.message;
+      if (code === 'TEXT_TOO_LONG') {
+        res.status(400).json({ error: code, message: 'Ce message est trop long pour être lu à l’antenne.' });
+        return;
+      }
+      if (code === 'MESSAGES_FULL') {
+        res.status(503).json({
+          error: code,
+          message: 'Trop de messages attendent déjà d’être lus. Merci de réessayer plus tard.',
+        });
+        return;
+      }
+      console.error('Failed to store listener message', error);
+      res.status(500).json({ error: 'MESSAGE_FAILED', message: 'Impossible d’enregistrer ton message.' });
+    }
+  });
+
+  return router;
+}
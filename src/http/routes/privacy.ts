@@ -0,0 +1,314 @@
+import { Router, type Request, type Response } from 'express';
+import type { Config } from '../../config';
+import type DiscordAudioBridge from '../../discord/DiscordAudioBridge';
+import type ConsentService from '../../services/ConsentService';
+import { CONSENT_SCOPES, type ConsentUpdate, type MemberConsent } from '../../services/ConsentService';
+import { CaptchaStore, describeCaptchaFailure } from '../utils/captcha';
+import { CooldownTracker } from '../utils/cooldown';
+import { VerificationCodeStore, describeVerificationFailure } from '../utils/verificationCodes';
+
+interface PrivacyRouterDeps {
+  config: Config;
+  discordBridge: DiscordAudioBridge;
+  consentService: ConsentService;
+  getClientIp: (req: Request) => string;
+}
+
+type ContactMethod = 'private' | 'radio';
+
+interface DeletionOption {
+  id: ContactMethod;
+  label: string;
+  description: string;
+  channelId: string;
+}
+
+const CAPTCHA_SCOPE = 'privacy-deletion';
+const SUBMISSION_COOLDOWN_MS = 10 * 60 * 1000;
+const MAX_MESSAGE_LENGTH = 1000;
+const MAX_FIELD_LENGTH = 120;
+const CONSENT_CODE_COOLDOWN_MS = 60 * 1000;
+const USER_ID_PATTERN = /^\d{5,25}$/;
+
+function normalizeUserId(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const trimmed = value.trim();
+  return USER_ID_PATTERN.test(trimmed) ? trimmed : null;
+}
+
+function serializeConsent(consent: MemberConsent) {
+  return {
+    userId: consent.userId,
+    mix: consent.mix,
+    transcription: consent.transcription,
+    recording: consent.recording,
+    persona: consent.persona,
+    updatedAt: consent.updatedAt,
+  };
+}
+
+function normalizeOptionalField(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed.slice(0, MAX_FIELD_LENGTH) : null;
+}
+
+function resolveDeletionOptions(config: Config): DeletionOption[] {
+  const { privateChannelId, radioChannelId } = config.privacy.deletionRequest;
+  const options: DeletionOption[] = [];
+
+  if (privateChannelId) {
+    options.push({
+      id: 'private',
+      label: 'Message privé à l’équipe',
+      description: 'Ta demande est transmise dans un salon réservé aux modérateurs.',
+      channelId: privateChannelId,
+    });
+  }
+
+  if (radioChannelId) {
+    options.push({
+      id: 'radio',
+      label: 'Signalement à la radio',
+      description: 'Ta demande est relayée dans le salon de la radio pour un traitement rapide.',
+      channelId: radioChannelId,
+    });
+  }
+
+  return options;
+}
+
+function buildDeletionMessage(
+  message: string,
+  details: { contactHandle: string | null; profileId: string | null; profileName: string | null },
+): string {
+  const lines = ['**Demande de suppression de données**'];
+  if (details.profileName || details.profileId) {
+    const label = [details.profileName, details.profileId ? `(${details.profileId})` : null].filter(Boolean).join(' ');
+    lines.push(`Profil : ${label}`);
+  }
+  if (details.contactHandle) {
+    lines.push(`Contact : ${details.contactHandle}`);
+  }
+  lines.push('', message);
+  return lines.join('\n');
+}
+
+export function createPrivacyRouter({ config, discordBridge, consentService, getClientIp }: PrivacyRouterDeps): Router {
+  const router = Router();
+  const captchaStore = new CaptchaStore();
+  const cooldowns = new CooldownTracker(SUBMISSION_COOLDOWN_MS);
+  const consentCodes = new VerificationCodeStore();
+  const consentCodeCooldowns = new CooldownTracker(CONSENT_CODE_COOLDOWN_MS);
+
+  /** Resolves the member a request speaks for, or answers with the reason it cannot. */
+  const authenticateConsentRequest = (userIdInput: unknown, code: unknown, res: Response): string | null => {
+    const userId = normalizeUserId(userIdInput);
+    if (!userId) {
+      res.status(400).json({ error: 'USER_ID_INVALID', message: 'L’identifiant Discord est invalide.' });
+      return null;
+    }
+    const result = consentCodes.verify(userId, code);
+    if (result !== 'OK') {
+      res.status(401).json({ error: result, message: describeVerificationFailure(result) });
+      return null;
+    }
+    return userId;
+  };
+
+  router.get('/data-deletion/options', (_req: Request, res: Response) => {
+    const options = resolveDeletionOptions(config).map(({ id, label, description }) => ({ id, label, description }));
+    res.setHeader('Cache-Control', 'public, max-age=300');
+    res.json({ options });
+  });
+
+  router.post('/data-deletion/captcha', (_req: Request, res: Response) => {
+    if (resolveDeletionOptions(config).length === 0) {
+      res.status(503).json({
+        error: 'PRIVACY_CHANNEL_UNAVAILABLE',
+        message: 'Les demandes de suppression ne sont pas disponibles pour le moment.',
+      });
+      return;
+    }
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.json({ challenge: captchaStore.issue(CAPTCHA_SCOPE) });
+  });
+
+  router.post('/data-deletion', async (req: Request, res: Response) => {
+    const payload = (req.body && typeof req.body === 'object' ? req.body : {}) as Record<string, unknown>;
+    const contactMethod = payload.contactMethod;
+    const option = resolveDeletionOptions(config).find((candidate) => candidate.id === contactMethod);
+    if (!option) {
+      res.status(400).json({ error: 'CONTACT_METHOD_INVALID', message: 'Le canal de contact choisi est invalide.' });
+      return;
+    }
+
+    const message = typeof payload.message === 'string' ? payload.message.trim() : '';
+    if (!message) {
+      res.status(400).json({ error: 'MESSAGE_REQUIRED', message: 'Merci de préciser ta demande.' });
+      return;
+    }
+    if (message.length > MAX_MESSAGE_LENGTH) {
+      res.status(400).json({
+        error: 'MESSAGE_TOO_LONG',
+        message: `La demande ne doit pas dépasser ${MAX_MESSAGE_LENGTH} caractères.`,
+      });
+      return;
+    }
+
+    const clientKey = getClientIp(req);
+    const retryAt = cooldowns.getRetryAt(clientKey);
+    if (retryAt) {
+      res.status(429).json({
+        error: 'RATE_LIMITED',
+        message: 'Une demande a déjà été envoyée récemment. Merci de patienter.',
+        retryAt: retryAt.toISOString(),
+      });
+      return;
+    }
+
+    const captchaResult = captchaStore.verify(payload.captchaId, payload.captchaAnswer, CAPTCHA_SCOPE);
+    if (captchaResult !== 'OK') {
+      res.status(400).json({ error: captchaResult, message: describeCaptchaFailure(captchaResult) });
+      return;
+    }
+
+    const content = buildDeletionMessage(message, {
+      contactHandle: normalizeOptionalField(payload.contactHandle),
+      profileId: normalizeOptionalField(payload.profileId),
+      profileName: normalizeOptionalField(payload.profileName),
+    });
+
+    try {
+      await discordBridge.sendTextChannelMessage(option.channelId, content);
+      const nextAllowedAt = cooldowns.register(clientKey);
+      res.status(201).json({
+        status: 'SUBMITTED',
+        message: 'Ta demande a bien été transmise à l’équipe.',
+        nextAllowedAt: nextAllowedAt.toISOString(),
+      });
+    } catch (error) {
+      const name = (error as Error)?.name;
+      if (name === 'GUILD_NOT_CONFIGURED' || name === 'GUILD_UNAVAILABLE') {
+        res.status(503).json({ error: name, message: 'Le serveur Discord est indisponible pour le moment.' });
+        return;
+      }
+      if (name === 'CHANNEL_NOT_FOUND') {
+        res.status(404).json({ error: name, message: 'Le salon de réception est introuvable.' });
+        return;
+      }
+      if (name === 'CHANNEL_NOT_ACCESSIBLE') {
+        res.status(403).json({ error: name, message: 'Le salon de réception n’est pas accessible.' });
+        return;
+      }
+      console.error('Failed to relay privacy deletion request', error);
+      res.status(500).json({ error: 'PRIVACY_REQUEST_FAILED', message: 'Impossible de transmettre la demande.' });
+    }
+  });
+
+  router.post('/consent/code', async (req: Request, res: Response) => {
+    const payload = (req.body && typeof req.body === 'object' ? req.body : {}) as Record<string, unknown>;
+    const userId = normalizeUserId(payload.userId);
+    if (!userId) {
+      res.status(400).json({ error: 'USER_ID_INVALID', message: 'L’identifiant Discord est invalide.' });
+      return;
+    }
+
+    const clientKey = getClientIp(req);
+    const retryAt = consentCodeCooldowns.getRetryAt(userId) ?? consentCodeCooldowns.getRetryAt(clientKey);
+    if (retryAt) {
+      res.status(429).json({
+        error: 'RATE_LIMITED',
+        message: 'Un code a déjà été envoyé récemment. Merci de patienter.',
+        retryAt: retryAt.toISOString(),
+      });
+      return;
+    }
+    consentCodeCooldowns.register(userId);
+    consentCodeCooldowns.register(clientKey);
+
+    const { code, expiresAt } = consentCodes.issue(userId);
+    try {
+      await discordBridge.sendDirectMessage(
+        userId,
+        `Ton code pour gérer ton consentement sur ${config.siteName} : **${code}**\n`
+          + 'Il expire dans 15 minutes. Si tu n’as rien demandé, ignore ce message.',
+      );
+      res.status(201).json({
+        status: 'SENT',
+        message: 'Un code t’a été envoyé en message privé sur Discord.',
+        expiresAt,
+      });
+    } catch (error) {
+      const name = (error as Error)?.name;
+      if (name === 'GUILD_NOT_CONFIGURED' || name === 'GUILD_UNAVAILABLE') {
+        res.status(503).json({ error: name, message: 'Le serveur Discord est indisponible pour le moment.' });
+        return;
+      }
+      if (name === 'MEMBER_NOT_FOUND') {
+        res.status(404).json({ error: name, message: 'Aucun membre du serveur ne porte cet identifiant.' });
+        return;
+      }
+      if (name === 'DIRECT_MESSAGE_BLOCKED') {
+        res.status(409).json({
+          error: name,
+          message: 'Impossible de t’envoyer un message privé : autorise les messages du serveur ou utilise /confidentialite.',
+        });
+        return;
+      }
+      console.error('Failed to send consent verification code', error);
+      res.status(500).json({ error: 'CONSENT_CODE_FAILED', message: 'Impossible d’envoyer le code.' });
+    }
+  });
+
+  // A POST so the code stays out of access logs, proxies and browser history.
+  router.post('/consent/lookup', (req: Request, res: Response) => {
+    const payload = (req.body && typeof req.body === 'object' ? req.body : {}) as Record<string, unknown>;
+    const userId = authenticateConsentRequest(payload.userId, payload.code, res);
+    if (!userId) {
+      return;
+    }
+    res.setHeader('Cache-Control', 'no-store');
+    res.json({ consent: serializeConsent(consentService.getConsent(userId)) });
+  });
+
+  router.put('/consent', async (req: Request, res: Response) => {
+    const payload = (req.body && typeof req.body === 'object' ? req.body : {}) as Record<string, unknown>;
+    const userId = authenticateConsentRequest(payload.userId, payload.code, res);
+    if (!userId) {
+      return;
+    }
+
+    const update: ConsentUpdate = {};
+    for (const scope of CONSENT_SCOPES) {
+      const value = payload[scope];
+      if (value === undefined) {
+        continue;
+      }
+      if (typeof value !== 'boolean') {
+        res.status(400).json({
+          error: 'CONSENT_INVALID',
+          message: `La valeur de « ${scope} » doit être true ou false.`,
+        });
+        return;
+      }
+      update[scope] = value;
+    }
+
+    try {
+      const consent = await consentService.update(userId, update);
+      res.setHeader('Cache-Control', 'no-store');
+      res.json({ consent: serializeConsent(consent), message: 'Tes choix ont été enregistrés.' });
+    } catch (error) {
+      console.error('Failed to update consent', error);
+      res.status(500).json({ error: 'CONSENT_UPDATE_FAILED', message: 'Impossible d’enregistrer tes choix.' });
+    }
+  });
+
+  return router;
+}
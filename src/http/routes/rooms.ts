@@ -0,0 +1,35 @@
+import { Router, type Request, type Response } from 'express';
+import type RoomService from '../../services/RoomService';
+
+interface RoomsRouterDeps {
+  roomService: RoomService;
+}
+
+export function createRoomsRouter({ roomService }: RoomsRouterDeps): Router {
+  const router = Router();
+
+  router.get('/', (_req: Request, res: Response) => {
+    res.setHeader('Cache-Control', 'no-store');
+    res.json({ rooms: roomService.list().map((room) => roomService.getSummary(room)) });
+  });
+
+  router.get('/:roomId/listeners', (req: Request, res: Response) => {
+    const room = roomService.get(String(req.params.roomId ?? ''));
+    if (!room) {
+      res.status(404).json({ error: 'ROOM_NOT_FOUND', message: 'Ce salon n’est pas diffusé.' });
+      return;
+    }
+    res.setHeader('Cache-Control', 'no-store');
+    res.json({
+      count: room.listenerStats.getCurrentCount(),
+      history: room.listenerStats.getHistory(),
+      renditions: room.renditions.list().map((rendition) => ({
+        id: rendition.id,
+        path: rendition.path,
+        count: room.renditions.getListenerCount(rendition.id),
+      })),
+    });
+  });
+
+  return router;
+}
@@ -3,6 +3,7 @@ import type VoiceActivityRepository from '../../services/VoiceActivityRepository
 import type StatisticsService from '../../services/StatisticsService';
 import type { CommunityPulseSnapshot } from '../../services/VoiceActivityRepository';
 import type { CommunityStatisticsSnapshot } from '../../services/StatisticsService';
+import { getValidatedInput } from '../openapi/requestValidator';
 import { parseStatisticsQuery } from '../utils/statistics';
 
 interface StatsRouterDeps {
@@ -43,7 +44,7 @@ export function createStatsRouter({
 
   router.get('/statistiques', async (req: Request, res: Response) => {
     try {
-      const options = parseStatisticsQuery(req.query);
+      const options = parseStatisticsQuery(getValidatedInput(req, res).query);
       const snapshot: CommunityStatisticsSnapshot = await statisticsService.getStatistics(options);
       res.setHeader('Cache-Control', 'public, max-age=30, stale-while-revalidate=90');
       res.json({ statistics: snapshot });
@@ -0,0 +1,513 @@
+import fs from 'fs';
+import { Router, type Request, type Response } from 'express';
+import type DiscordAudioBridge from '../../discord/DiscordAudioBridge';
+import type AdminService from '../../services/AdminService';
+import type ConsentService from '../../services/ConsentService';
+import type UserAudioRecorder from '../../services/UserAudioRecorder';
+import type UserPersonaService from '../../services/UserPersonaService';
+import type VoiceActivityRepository from '../../services/VoiceActivityRepository';
+import type {
+  UserMessageActivityEntry,
+  UserPersonaProfileRecord,
+  UserVoiceActivitySegment,
+  UserVoicePresenceSegment,
+} from '../../services/VoiceActivityRepository';
+import { getRecordingContentType, normalizeRecordingFileName } from '../utils/recordings';
+import { parseTimestamp, parseVoiceTranscriptionCursor, serializeVoiceTranscriptionCursor } from '../utils/time';
+
+interface UsersRouterDeps {
+  discordBridge: DiscordAudioBridge;
+  voiceActivityRepository: VoiceActivityRepository;
+  userAudioRecorder: UserAudioRecorder | null;
+  userPersonaService: UserPersonaService;
+  adminService: AdminService;
+  consentService: ConsentService;
+}
+
+interface TemporalMarker {
+  ms: number;
+  iso: string;
+}
+
+interface ProfileRange {
+  since: Date;
+  until: Date;
+}
+
+const DEFAULT_PROFILE_RANGE_MS = 30 * 24 * 60 * 60 * 1000;
+const USER_ID_PATTERN = /^\d{5,25}$/;
+
+function normalizeUserId(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const trimmed = value.trim();
+  return USER_ID_PATTERN.test(trimmed) ? trimmed : null;
+}
+
+function parseBoundedInteger(value: unknown, min: number, max: number): number | null {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    return null;
+  }
+  const numeric = Number(value);
+  if (!Number.isFinite(numeric)) {
+    return null;
+  }
+  return Math.min(max, Math.max(min, Math.floor(numeric)));
+}
+
+function toMarker(ms: number | null): TemporalMarker | null {
+  if (ms === null || !Number.isFinite(ms)) {
+    return null;
+  }
+  return { ms, iso: new Date(ms).toISOString() };
+}
+
+function resolveRange(req: Request): ProfileRange | null {
+  const rawSince = req.query?.since;
+  const rawUntil = req.query?.until;
+  const until = rawUntil === undefined ? new Date() : parseTimestamp(rawUntil);
+  const since = rawSince === undefined
+    ? new Date((until ?? new Date()).getTime() - DEFAULT_PROFILE_RANGE_MS)
+    : parseTimestamp(rawSince);
+
+  if (!since || !until || since.getTime() > until.getTime()) {
+    return null;
+  }
+
+  return { since, until };
+}
+
+function serializeRange(range: ProfileRange) {
+  return {
+    since: range.since.toISOString(),
+    until: range.until.toISOString(),
+    sinceMs: range.since.getTime(),
+    untilMs: range.until.getTime(),
+  };
+}
+
+function sendInvalidRange(res: Response): void {
+  res.status(400).json({ error: 'INVALID_RANGE', message: 'La période demandée est invalide.' });
+}
+
+function sendInvalidUser(res: Response): void {
+  res.status(400).json({ error: 'USER_ID_REQUIRED', message: 'Identifiant de membre invalide.' });
+}
+
+function sendHiddenUser(res: Response): void {
+  res.status(404).json({ error: 'PROFILE_HIDDEN', message: 'Ce profil n’est pas disponible.' });
+}
+
+function buildProfileSummary(
+  range: ProfileRange,
+  presence: UserVoicePresenceSegment[],
+  speaking: UserVoiceActivitySegment[],
+  messages: UserMessageActivityEntry[],
+) {
+  const sinceMs = range.since.getTime();
+  const untilMs = range.until.getTime();
+  const activeDays = new Set<string>();
+  const clamp = (value: number) => Math.min(untilMs, Math.max(sinceMs, value));
+  const dayKey = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+  let totalPresenceMs = 0;
+  let firstPresence: number | null = null;
+  let lastPresence: number | null = null;
+  for (const segment of presence) {
+    const start = segment.joinedAt.getTime();
+    const end = segment.leftAt ? segment.leftAt.getTime() : untilMs;
+    totalPresenceMs += Math.max(0, clamp(end) - clamp(start));
+    firstPresence = firstPresence === null ? start : Math.min(firstPresence, start);
+    lastPresence = lastPresence === null ? end : Math.max(lastPresence, end);
+    activeDays.add(dayKey(clamp(start)));
+  }
+
+  let totalSpeakingMs = 0;
+  let firstSpeaking: number | null = null;
+  let lastSpeaking: number | null = null;
+  for (const segment of speaking) {
+    const start = segment.startedAt.getTime();
+    const end = start + Math.max(0, segment.durationMs);
+    totalSpeakingMs += Math.max(0, segment.durationMs);
+    firstSpeaking = firstSpeaking === null ? start : Math.min(firstSpeaking, start);
+    lastSpeaking = lastSpeaking === null ? end : Math.max(lastSpeaking, end);
+    activeDays.add(dayKey(start));
+  }
+
+  let firstMessage: number | null = null;
+  let lastMessage: number | null = null;
+  for (const entry of messages) {
+    const ms = entry.timestamp.getTime();
+    firstMessage = firstMessage === null ? ms : Math.min(firstMessage, ms);
+    lastMessage = lastMessage === null ? ms : Math.max(lastMessage, ms);
+    activeDays.add(dayKey(ms));
+  }
+
+  const firsts = [firstPresence, firstSpeaking, firstMessage].filter((value): value is number => value !== null);
+  const lasts = [lastPresence, lastSpeaking, lastMessage].filter((value): value is number => value !== null);
+  const uniqueActiveDays = Array.from(activeDays).sort();
+
+  return {
+    rangeDurationMs: untilMs - sinceMs,
+    totalPresenceMs: Math.round(totalPresenceMs),
+    totalSpeakingMs: Math.round(totalSpeakingMs),
+    messageCount: messages.length,
+    presenceSessions: presence.length,
+    speakingSessions: speaking.length,
+    uniqueActiveDays,
+    activeDayCount: uniqueActiveDays.length,
+    firstPresenceAt: toMarker(firstPresence),
+    lastPresenceAt: toMarker(lastPresence),
+    firstSpeakingAt: toMarker(firstSpeaking),
+    lastSpeakingAt: toMarker(lastSpeaking),
+    firstMessageAt: toMarker(firstMessage),
+    lastMessageAt: toMarker(lastMessage),
+    firstActivityAt: toMarker(firsts.length > 0 ? Math.min(...firsts) : null),
+    lastActivityAt: toMarker(lasts.length > 0 ? Math.max(...lasts) : null),
+  };
+}
+
+function serializePersona(record: UserPersonaProfileRecord | null) {
+  if (!record) {
+    return null;
+  }
+  return {
+    summary: record.summary,
+    data: record.persona,
+    model: record.model,
+    version: record.version,
+    generatedAt: record.generatedAt ? record.generatedAt.toISOString() : null,
+    updatedAt: record.updatedAt ? record.updatedAt.toISOString() : null,
+    lastActivityAt: record.lastActivityAt ? record.lastActivityAt.toISOString() : null,
+    voiceSampleCount: record.voiceSampleCount,
+    messageSampleCount: record.messageSampleCount,
+    inputCharacterCount: record.inputCharacterCount,
+  };
+}
+
+function parseByteRange(header: string, size: number): { start: number; end: number } | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return null;
+  }
+
+  let start: number;
+  let end: number;
+  if (match[1] === '') {
+    const suffixLength = Number(match[2]);
+    start = Math.max(0, size - suffixLength);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+  }
+
+  if (!Number.isFinite(start) || !Number.isFinite(end) || start > end || start >= size) {
+    return null;
+  }
+
+  return { start, end };
+}
+
+export function createUsersRouter({
+  discordBridge,
+  voiceActivityRepository,
+  userAudioRecorder,
+  userPersonaService,
+  adminService,
+  consentService,
+}: UsersRouterDeps): Router {
+  const router = Router();
+
+  const resolveRecordingOrFail = async (req: Request, res: Response) => {
+    const userId = normalizeUserId(req.params.userId);
+    const recordingId = typeof req.params.recordingId === 'string' ? req.params.recordingId.trim() : '';
+    if (!userId || !recordingId) {
+      res.status(400).json({ error: 'RECORDING_ID_REQUIRED', message: 'Identifiant d’enregistrement invalide.' });
+      return null;
+    }
+
+    if (await adminService.isMemberHidden(userId)) {
+      sendHiddenUser(res);
+      return null;
+    }
+
+    const recording = userAudioRecorder ? await userAudioRecorder.resolveRecording(userId, recordingId) : null;
+    if (!recording) {
+      res.status(404).json({ error: 'RECORDING_NOT_FOUND', message: 'Cet enregistrement est introuvable.' });
+      return null;
+    }
+
+    return { userId, recording };
+  };
+
+  router.get('/:userId/profile', async (req: Request, res: Response) => {
+    const userId = normalizeUserId(req.params.userId);
+    if (!userId) {
+      sendInvalidUser(res);
+      return;
+    }
+
+    const range = resolveRange(req);
+    if (!range) {
+      sendInvalidRange(res);
+      return;
+    }
+
+    try {
+      if (await adminService.isMemberHidden(userId)) {
+        sendHiddenUser(res);
+        return;
+      }
+
+      const [profile, presence, speaking, messages, persona] = await Promise.all([
+        discordBridge.fetchUserIdentity(userId),
+        voiceActivityRepository.listUserVoicePresence({ userId, since: range.since, until: range.until }),
+        voiceActivityRepository.listUserVoiceActivity({ userId, since: range.since, until: range.until }),
+        voiceActivityRepository.listUserMessageActivity({ userId, since: range.since, until: range.until }),
+        voiceActivityRepository.getUserPersonaProfile({ userId }),
+      ]);
+
+      if (!profile && presence.length === 0 && speaking.length === 0 && messages.length === 0) {
+        res.status(404).json({ error: 'PROFILE_NOT_FOUND', message: 'Aucun profil ne correspond à ce membre.' });
+        return;
+      }
+
+      res.setHeader('Cache-Control', 'no-store');
+      res.json({
+        profile,
+        range: serializeRange(range),
+        stats: buildProfileSummary(range, presence, speaking, messages),
+        presenceSegments: presence.map((segment) => ({
+          channelId: segment.channelId,
+          guildId: segment.guildId,
+          joinedAt: segment.joinedAt.toISOString(),
+          joinedAtMs: segment.joinedAt.getTime(),
+          leftAt: segment.leftAt ? segment.leftAt.toISOString() : null,
+          leftAtMs: segment.leftAt ? segment.leftAt.getTime() : null,
+        })),
+        speakingSegments: speaking.map((segment) => {
+          const endedAtMs = segment.startedAt.getTime() + segment.durationMs;
+          return {
+            channelId: segment.channelId,
+            guildId: segment.guildId,
+            startedAt: segment.startedAt.toISOString(),
+            startedAtMs: segment.startedAt.getTime(),
+            durationMs: segment.durationMs,
+            endedAt: new Date(endedAtMs).toISOString(),
+            endedAtMs,
+          };
+        }),
+        messageEvents: messages.map((entry) => ({
+          messageId: entry.messageId,
+          channelId: entry.channelId,
+          guildId: entry.guildId,
+          content: entry.content,
+          timestamp: entry.timestamp.toISOString(),
+          timestampMs: entry.timestamp.getTime(),
+        })),
+        persona: consentService.hasConsented(userId, 'persona') ? serializePersona(persona) : null,
+      });
+    } catch (error) {
+      console.error('Failed to build user profile', error);
+      res.status(500).json({ error: 'PROFILE_FAILED', message: 'Impossible de charger ce profil.' });
+    }
+  });
+
+  router.post('/:userId/persona/generate', async (req: Request, res: Response) => {
+    const userId = normalizeUserId(req.params.userId);
+    if (!userId) {
+      sendInvalidUser(res);
+      return;
+    }
+
+    try {
+      if (await adminService.isMemberHidden(userId)) {
+        sendHiddenUser(res);
+        return;
+      }
+
+      const result = await userPersonaService.generatePersonaForUser(userId);
+      if (result.status === 'failed') {
+        const status = result.reason === 'SERVICE_UNAVAILABLE' ? 503 : 500;
+        res.status(status).json({
+          error: result.reason ?? 'PERSONA_GENERATION_FAILED',
+          message: result.message ?? 'La génération de la fiche a échoué.',
+        });
+        return;
+      }
+
+      res.json({
+        status: result.status,
+        message:
+          result.message
+          ?? (result.status === 'generated'
+            ? 'La fiche persona a été régénérée.'
+            : 'Pas assez de données pour régénérer la fiche.'),
+      });
+    } catch (error) {
+      console.error('Failed to generate user persona', error);
+      res.status(500).json({ error: 'PERSONA_GENERATION_FAILED', message: 'La génération de la fiche a échoué.' });
+    }
+  });
+
+  router.get('/:userId/recordings', async (req: Request, res: Response) => {
+    const userId = normalizeUserId(req.params.userId);
+    if (!userId) {
+      sendInvalidUser(res);
+      return;
+    }
+
+    const range = resolveRange(req);
+    if (!range) {
+      sendInvalidRange(res);
+      return;
+    }
+
+    const limit = parseBoundedInteger(req.query?.limit, 1, 100) ?? 50;
+
+    try {
+      if (await adminService.isMemberHidden(userId)) {
+        sendHiddenUser(res);
+        return;
+      }
+
+      const recordings = userAudioRecorder
+        ? await userAudioRecorder.listRecordings(userId, { since: range.since, until: range.until, limit })
+        : [];
+      const basePath = `/api/users/${encodeURIComponent(userId)}/recordings`;
+
+      res.setHeader('Cache-Control', 'no-store');
+      res.json({
+        range: serializeRange(range),
+        entries: recordings.map((recording) => ({
+          id: recording.id,
+          fileName: recording.fileName,
+          createdAt: recording.createdAt.toISOString(),
+          createdAtMs: recording.createdAt.getTime(),
+          sizeBytes: recording.sizeBytes,
+          durationMs: recording.durationMs,
+          downloadUrl: `${basePath}/${encodeURIComponent(recording.id)}/download`,
+          streamUrl: `${basePath}/${encodeURIComponent(recording.id)}/stream`,
+        })),
+      });
+    } catch (error) {
+      console.error('Failed to list user recordings', error);
+      res.status(500).json({ error: 'RECORDINGS_FAILED', message: 'Impossible de récupérer les enregistrements.' });
+    }
+  });
+
+  router.get('/:userId/recordings/:recordingId/download', async (req: Request, res: Response) => {
+    try {
+      const resolved = await resolveRecordingOrFail(req, res);
+      if (!resolved) {
+        return;
+      }
+
+      const { userId, recording } = resolved;
+      const downloadName = normalizeRecordingFileName(userId, recording.fileName);
+      res.setHeader('Content-Type', getRecordingContentType(recording.fileName));
+      res.setHeader('Content-Disposition', `attachment; filename="${downloadName}"`);
+      res.setHeader('Cache-Control', 'private, no-store');
+      res.sendFile(recording.filePath, (error) => {
+        if (error && !res.headersSent) {
+          console.error('Failed to send recording', error);
+          res.status(500).json({ error: 'RECORDING_DOWNLOAD_FAILED', message: 'Téléchargement impossible.' });
+        }
+      });
+    } catch (error) {
+      console.error('Failed to download recording', error);
+      res.status(500).json({ error: 'RECORDING_DOWNLOAD_FAILED', message: 'Téléchargement impossible.' });
+    }
+  });
+
+  router.get('/:userId/recordings/:recordingId/stream', async (req: Request, res: Response) => {
+    try {
+      const resolved = await resolveRecordingOrFail(req, res);
+      if (!resolved) {
+        return;
+      }
+
+      const { recording } = resolved;
+      const stat = await fs.promises.stat(recording.filePath);
+      const size = stat.size;
+      res.setHeader('Content-Type', getRecordingContentType(recording.fileName));
+      res.setHeader('Accept-Ranges', 'bytes');
+      res.setHeader('Cache-Control', 'private, no-store');
+
+      const rangeHeader = req.header('range');
+      if (rangeHeader) {
+        const range = parseByteRange(rangeHeader, size);
+        if (!range) {
+          res.status(416).setHeader('Content-Range', `bytes */${size}`);
+          res.end();
+          return;
+        }
+
+        res.status(206);
+        res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+        res.setHeader('Content-Length', String(range.end - range.start + 1));
+        fs.createReadStream(recording.filePath, range).pipe(res);
+        return;
+      }
+
+      res.setHeader('Content-Length', String(size));
+      fs.createReadStream(recording.filePath).pipe(res);
+    } catch (error) {
+      console.error('Failed to stream recording', error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: 'RECORDING_STREAM_FAILED', message: 'Lecture impossible.' });
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  router.get('/:userId/voice-transcriptions', async (req: Request, res: Response) => {
+    const userId = normalizeUserId(req.params.userId);
+    if (!userId) {
+      sendInvalidUser(res);
+      return;
+    }
+
+    const rawCursor = req.query?.cursor;
+    const before = rawCursor === undefined ? null : parseVoiceTranscriptionCursor(rawCursor);
+    if (rawCursor !== undefined && !before) {
+      res.status(400).json({ error: 'INVALID_CURSOR', message: 'Le curseur de pagination est invalide.' });
+      return;
+    }
+
+    const limit = parseBoundedInteger(req.query?.limit, 1, 50) ?? 10;
+
+    try {
+      if (await adminService.isMemberHidden(userId)) {
+        sendHiddenUser(res);
+        return;
+      }
+
+      const result = await voiceActivityRepository.listUserVoiceTranscriptions({ userId, limit, before });
+      res.setHeader('Cache-Control', 'no-store');
+      res.json({
+        entries: result.entries.map((entry) => ({
+          transcriptionId: entry.transcriptionId,
+          channelId: entry.channelId,
+          guildId: entry.guildId,
+          content: entry.content,
+          timestamp: entry.timestamp.toISOString(),
+          timestampMs: entry.timestamp.getTime(),
+        })),
+        hasMore: result.hasMore,
+        nextCursor: serializeVoiceTranscriptionCursor(result.nextCursor),
+      });
+    } catch (error) {
+      console.error('Failed to list voice transcriptions', error);
+      res.status(500).json({
+        error: 'TRANSCRIPTIONS_FAILED',
+        message: 'Impossible de récupérer les retranscriptions.',
+      });
+    }
+  });
+
+  return router;
+}
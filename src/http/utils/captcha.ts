@@ -0,0 +1,105 @@
+import { randomUUID } from 'crypto';
+
+export interface CaptchaChallenge {
+  id: string;
+  question: string;
+  expiresAt: string;
+}
+
+interface StoredCaptcha {
+  answer: number;
+  expiresAt: number;
+  scope: string | null;
+}
+
+export interface CaptchaStoreOptions {
+  ttlMs?: number;
+  maxEntries?: number;
+}
+
+export type CaptchaVerificationResult = 'OK' | 'CAPTCHA_REQUIRED' | 'CAPTCHA_EXPIRED' | 'CAPTCHA_INVALID';
+
+export class CaptchaStore {
+  private readonly ttlMs: number;
+
+  private readonly maxEntries: number;
+
+  private readonly challenges = new Map<string, StoredCaptcha>();
+
+  constructor({ ttlMs = 5 * 60 * 1000, maxEntries = 5000 }: CaptchaStoreOptions = {}) {
+    this.ttlMs = Math.max(10_000, ttlMs);
+    this.maxEntries = Math.max(10, maxEntries);
+  }
+
+  public issue(scope: string | null = null): CaptchaChallenge {
+    this.purgeExpired();
+
+    const left = 1 + Math.floor(Math.random() * 9);
+    const right = 1 + Math.floor(Math.random() * 9);
+    const id = randomUUID();
+    const expiresAt = Date.now() + this.ttlMs;
+
+    if (this.challenges.size >= this.maxEntries) {
+      const oldestKey = this.challenges.keys().next().value;
+      if (oldestKey) {
+        this.challenges.delete(oldestKey);
+      }
+    }
+
+    this.challenges.set(id, { answer: left + right, expiresAt, scope });
+
+    return {
+      id,
+      question: `Combien font ${left} + ${right} ?`,
+      expiresAt: new Date(expiresAt).toISOString(),
+    };
+  }
+
+  public verify(id: unknown, answer: unknown, scope: string | null = null): CaptchaVerificationResult {
+    if (typeof id !== 'string' || id.trim().length === 0) {
+      return 'CAPTCHA_REQUIRED';
+    }
+
+    const stored = this.challenges.get(id.trim());
+    if (!stored) {
+      return 'CAPTCHA_EXPIRED';
+    }
+
+    this.challenges.delete(id.trim());
+
+    if (stored.expiresAt < Date.now()) {
+      return 'CAPTCHA_EXPIRED';
+    }
+
+    if (stored.scope !== scope) {
+      return 'CAPTCHA_INVALID';
+    }
+
+    const numericAnswer = typeof answer === 'number' ? answer : Number(String(answer ?? '').trim());
+    if (!Number.isFinite(numericAnswer) || numericAnswer !== stored.answer) {
+      return 'CAPTCHA_INVALID';
+    }
+
+    return 'OK';
+  }
+
+  private purgeExpired(): void {
+    const now = Date.now();
+    for (const [id, entry] of this.challenges) {
+      if (entry.expiresAt < now) {
+        this.challenges.delete(id);
+      }
+    }
+  }
+}
+
+export function describeCaptchaFailure(result: Exclude<CaptchaVerificationResult, 'OK'>): string {
+  switch (result) {
+    case 'CAPTCHA_REQUIRED':
+      return 'Merci de résoudre le captcha avant d’envoyer ta demande.';
+    case 'CAPTCHA_EXPIRED':
+      return 'Le captcha a expiré. Génère un nouveau défi.';
+    default:
+      return 'La réponse au captcha est incorrecte.';
+  }
+}
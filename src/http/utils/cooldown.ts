@@ -0,0 +1,36 @@
+export class CooldownTracker {
+  private readonly cooldownMs: number;
+
+  private readonly nextAllowedByKey = new Map<string, number>();
+
+  constructor(cooldownMs: number) {
+    this.cooldownMs = Math.max(0, cooldownMs);
+  }
+
+  public getRetryAt(key: string): Date | null {
+    const nextAllowed = this.nextAllowedByKey.get(key);
+    if (!nextAllowed) {
+      return null;
+    }
+
+    if (nextAllowed <= Date.now()) {
+      this.nextAllowedByKey.delete(key);
+      return null;
+    }
+
+    return new Date(nextAllowed);
+  }
+
+  public register(key: string): Date {
+    const now = Date.now();
+    for (const [existingKey, nextAllowed] of this.nextAllowedByKey) {
+      if (nextAllowed <= now) {
+        this.nextAllowedByKey.delete(existingKey);
+      }
+    }
+
+    const nextAllowedAt = now + this.cooldownMs;
+    this.nextAllowedByKey.set(key, nextAllowedAt);
+    return new Date(nextAllowedAt);
+  }
+}
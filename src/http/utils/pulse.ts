@@ -0,0 +1,157 @@
+import type {
+  CommunityPulseMetricSnapshot,
+  CommunityPulseSnapshot,
+  CommunityPulseTrend,
+} from '../../services/VoiceActivityRepository';
+
+export interface HomePulseMetric {
+  id: 'voice' | 'members' | 'messages';
+  label: string;
+  icon: string;
+  iconClass: string;
+  valueLabel: string;
+  valueAccessibleLabel: string;
+  previousLabel: string;
+  changeLabel: string;
+  changeAccessibleLabel: string;
+  percentLabel: string | null;
+  trend: CommunityPulseTrend;
+  trendLabel: string;
+  trendIcon: string;
+  trendAccentClass: string;
+  description: string;
+}
+
+export interface HomePulseData {
+  generatedAt: string | null;
+  generatedAtLabel: string | null;
+  windowMinutes: number;
+  windowLabel: string;
+  comparisonLabel: string;
+  metrics: HomePulseMetric[];
+}
+
+interface MetricDefinition {
+  id: HomePulseMetric['id'];
+  label: string;
+  icon: string;
+  iconClass: string;
+  unit: (value: number) => string;
+  description: string;
+  pick: (snapshot: CommunityPulseSnapshot) => CommunityPulseMetricSnapshot;
+}
+
+const METRICS: MetricDefinition[] = [
+  {
+    id: 'voice',
+    label: 'Minutes en vocal',
+    icon: 'Activity',
+    iconClass: 'h-4 w-4 text-fuchsia-300',
+    unit: (value) => (value > 1 ? 'minutes' : 'minute'),
+    description: 'Temps de parole cumulé sur le salon vocal.',
+    pick: (snapshot) => snapshot.voiceMinutes,
+  },
+  {
+    id: 'members',
+    label: 'Membres actifs',
+    icon: 'Users',
+    iconClass: 'h-4 w-4 text-sky-300',
+    unit: (value) => (value > 1 ? 'membres' : 'membre'),
+    description: 'Personnes ayant parlé ou écrit récemment.',
+    pick: (snapshot) => snapshot.activeMembers,
+  },
+  {
+    id: 'messages',
+    label: 'Messages',
+    icon: 'MessageSquare',
+    iconClass: 'h-4 w-4 text-amber-300',
+    unit: (value) => (value > 1 ? 'messages' : 'message'),
+    description: 'Messages envoyés dans les salons textuels.',
+    pick: (snapshot) => snapshot.messageCount,
+  },
+];
+
+const TREND_PRESENTATION: Record<CommunityPulseTrend, { label: string; icon: string; accentClass: string }> = {
+  up: {
+    label: 'En hausse',
+    icon: 'ArrowUpRight',
+    accentClass: 'border-emerald-400/40 bg-emerald-500/10 text-emerald-200',
+  },
+  down: {
+    label: 'En baisse',
+    icon: 'ArrowDownRight',
+    accentClass: 'border-rose-400/40 bg-rose-500/10 text-rose-200',
+  },
+  steady: {
+    label: 'Stable',
+    icon: 'Minus',
+    accentClass: 'border-slate-400/40 bg-slate-500/10 text-slate-200',
+  },
+};
+
+const numberFormatter = new Intl.NumberFormat('fr-FR', { maximumFractionDigits: 1 });
+
+function formatSigned(value: number): string {
+  if (value === 0) {
+    return '0';
+  }
+  return `${value > 0 ? '+' : '−'}${numberFormatter.format(Math.abs(value))}`;
+}
+
+function buildMetric(definition: MetricDefinition, metric: CommunityPulseMetricSnapshot): HomePulseMetric {
+  const trend = TREND_PRESENTATION[metric.trend] ? metric.trend : 'steady';
+  const presentation = TREND_PRESENTATION[trend];
+  const valueLabel = numberFormatter.format(metric.current);
+  const changeLabel = formatSigned(metric.change);
+  const percentLabel = metric.previous > 0
+    ? `${formatSigned(Math.round((metric.change / metric.previous) * 100))} %`
+    : null;
+  const changeAccessibleLabel = metric.change === 0
+    ? 'Stable par rapport à la période précédente.'
+    : `${metric.change > 0 ? 'Hausse' : 'Baisse'} de ${numberFormatter.format(Math.abs(metric.change))} ${definition.unit(
+      Math.abs(metric.change),
+    )} par rapport à la période précédente.`;
+
+  return {
+    id: definition.id,
+    label: definition.label,
+    icon: definition.icon,
+    iconClass: definition.iconClass,
+    valueLabel,
+    valueAccessibleLabel: `${valueLabel} ${definition.unit(metric.current)}`,
+    previousLabel: numberFormatter.format(metric.previous),
+    changeLabel,
+    changeAccessibleLabel,
+    percentLabel,
+    trend,
+    trendLabel: presentation.label,
+    trendIcon: presentation.icon,
+    trendAccentClass: presentation.accentClass,
+    description: definition.description,
+  };
+}
+
+export function buildHomePulsePresentation(
+  snapshot: CommunityPulseSnapshot | null,
+  timeZone?: string,
+): HomePulseData | null {
+  if (!snapshot) {
+    return null;
+  }
+
+  const generatedAt = new Date(snapshot.generatedAt);
+  const hasGeneratedAt = !Number.isNaN(generatedAt.getTime());
+  const windowMinutes = Math.max(1, Math.round(snapshot.windowMinutes));
+  const windowLabel = windowMinutes === 1 ? 'Sur la dernière minute' : `Sur les ${windowMinutes} dernières minutes`;
+
+  return {
+    generatedAt: hasGeneratedAt ? generatedAt.toISOString() : null,
+    generatedAtLabel: hasGeneratedAt
+      ? new Intl.DateTimeFormat('fr-FR', { hour: '2-digit', minute: '2-digit', timeZone }).format(generatedAt)
+      : null,
+    windowMinutes,
+    windowLabel,
+    comparisonLabel: `Comparé aux ${windowMinutes} minutes précédentes`,
+    metrics: METRICS.map((definition) => buildMetric(definition, definition.pick(snapshot))),
+  };
+}
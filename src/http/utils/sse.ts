@@ -1,19 +1,25 @@
+import type AudioMixer from '../../audio/AudioMixer';
 import type SpeakerTracker from '../../services/SpeakerTracker';
 import type SseService from '../../services/SseService';
 import type ListenerStatsService from '../../services/ListenerStatsService';
 import type AnonymousSpeechManager from '../../services/AnonymousSpeechManager';
+import type AutopilotService from '../../services/AutopilotService';
 
 export interface StreamSseDependencies {
   speakerTracker: SpeakerTracker;
   anonymousSpeechManager: AnonymousSpeechManager;
   listenerStatsService: ListenerStatsService;
   sseService: SseService;
+  audioMixer: AudioMixer;
+  autopilotService: AutopilotService | null;
 }
 
 export function buildStreamInitialState({
   speakerTracker,
   anonymousSpeechManager,
   listenerStatsService,
+  audioMixer,
+  autopilotService,
 }: Omit<StreamSseDependencies, 'sseService'>): Record<string, unknown> {
   return {
     ...speakerTracker.getInitialState(),
@@ -22,13 +28,15 @@ export function buildStreamInitialState({
       count: listenerStatsService.getCurrentCount(),
       history: listenerStatsService.getHistory(),
     },
+    audioControls: audioMixer.listSourceControls(),
+    autopilot: autopilotService ? autopilotService.getState() : null,
   };
 }
 
 export function subscribeToListenerUpdates({
   sseService,
   listenerStatsService,
-}: StreamSseDependencies): () => void {
+}: Pick<StreamSseDependencies, 'sseService' | 'listenerStatsService'>): () => void {
   return listenerStatsService.onUpdate((update) => {
     if (!update) {
       return;
@@ -44,3 +52,21 @@ export function subscribeToListenerUpdates({
     });
   });
 }
+
+export function subscribeToAudioControlUpdates({
+  sseService,
+  audioMixer,
+}: Pick<StreamSseDependencies, 'sseService' | 'audioMixer'>): () => void {
+  return audioMixer.onControlsChange((sources) => {
+    sseService.broadcast('audio-controls', { sources, timestamp: Date.now() });
+  });
+}
+
+export function subscribeToAutopilotUpdates({
+  sseService,
+  autopilotService,
+}: Pick<StreamSseDependencies, 'sseService'> & { autopilotService: AutopilotService }): () => void {
+  return autopilotService.onStateChange((state) => {
+    sseService.broadcast('autopilot', state);
+  });
+}
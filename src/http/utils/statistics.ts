@@ -1,9 +1,7 @@
-import type { Request } from 'express';
 import type { StatisticsQueryOptions } from '../../services/StatisticsService';
 
-export function parseStatisticsQuery(query: Request['query']): StatisticsQueryOptions {
-  const source = (query && typeof query === 'object' ? query : {}) as Record<string, unknown>;
-
+/** Maps the `/api/statistiques` query, already validated and coerced against the spec, to service options. */
+export function parseStatisticsQuery(query: Record<string, unknown>): StatisticsQueryOptions {
   const extractString = (value: unknown): string | null => {
     if (Array.isArray(value)) {
       for (const entry of value) {
@@ -57,56 +55,35 @@ export function parseStatisticsQuery(query: Request['query']): StatisticsQueryOp
     return Number.isNaN(parsed.getTime()) ? null : parsed;
   };
 
-  const parseNumber = (value: string | null): number | null => {
-    if (!value) {
-      return null;
-    }
-    const numeric = Number(value);
-    return Number.isFinite(numeric) ? numeric : null;
+  // Repeated parameters arrive as arrays of coerced values; the first one wins.
+  const first = (value: unknown): unknown => (Array.isArray(value) ? value[0] : value);
+  const extractNumber = (value: unknown): number | null => {
+    const candidate = first(value);
+    return typeof candidate === 'number' ? candidate : null;
   };
-
-  const parseBoolean = (value: string | null): boolean | null => {
-    if (!value) {
-      return null;
-    }
-    const normalized = value.trim().toLowerCase();
-    if (['true', '1', 'yes', 'on', 'vrai'].includes(normalized)) {
-      return true;
-    }
-    if (['false', '0', 'no', 'off', 'faux'].includes(normalized)) {
-      return false;
-    }
-    return null;
+  const extractBoolean = (value: unknown): boolean | null => {
+    const candidate = first(value);
+    return typeof candidate === 'boolean' ? candidate : null;
   };
 
-  const sinceRaw = extractString(source.since ?? source.from ?? source.start);
-  const untilRaw = extractString(source.until ?? source.to ?? source.end);
-  const granularity = extractString(source.granularity ?? source.range ?? source.interval ?? source.bucket);
-
-  const activityTypes = extractStringArray(source.activity ?? source.activities ?? source.type ?? source.types);
-  const channelIds = extractStringArray(source.channel ?? source.channelId ?? source.channels);
-  const retentionValues = extractStringArray(source.retention ?? source.retentionDays ?? source.retention_window);
-  const retentionWindows = retentionValues
+  const activityTypes = extractStringArray(query.activity);
+  const channelIds = extractStringArray(query.channels);
+  const retentionWindows = extractStringArray(query.retention)
     .map((value) => Number(value))
     .filter((value) => Number.isFinite(value) && value > 0);
 
-  const limitTopMembers = parseNumber(extractString(source.limitTop ?? source.top ?? source.limit));
-  const limitChannels = parseNumber(
-    extractString(source.limitChannels ?? source.channelsLimit ?? source.limitChannelsTop),
-  );
-
-  const includeHeatmap = parseBoolean(extractString(source.heatmap ?? source.includeHeatmap));
-  const includeHypeHistory = parseBoolean(
-    extractString(source.hype ?? source.includeHype ?? source.hypeHistory),
-  );
+  const limitTopMembers = extractNumber(query.limitTop);
+  const limitChannels = extractNumber(query.limitChannels);
+  const includeHeatmap = extractBoolean(query.heatmap);
+  const includeHypeHistory = extractBoolean(query.hype);
 
-  const userSearch = extractString(source.userSearch ?? source.searchUser ?? source.search);
-  const userId = extractString(source.userId ?? source.member ?? source.user);
+  const userSearch = extractString(query.userSearch);
+  const userId = extractString(query.userId);
 
   const options: StatisticsQueryOptions = {
-    since: parseDate(sinceRaw),
-    until: parseDate(untilRaw),
-    granularity: granularity ?? undefined,
+    since: parseDate(extractString(query.since)),
+    until: parseDate(extractString(query.until)),
+    granularity: extractString(query.granularity) ?? undefined,
     activityTypes: activityTypes.length > 0 ? activityTypes : undefined,
     channelIds: channelIds.length > 0 ? channelIds : undefined,
     userId: userId ?? undefined,
@@ -114,11 +91,11 @@ export function parseStatisticsQuery(query: Request['query']): StatisticsQueryOp
     userSearch: userSearch ?? undefined,
   };
 
-  if (Number.isFinite(limitTopMembers)) {
-    options.limitTopMembers = limitTopMembers ?? undefined;
+  if (limitTopMembers !== null) {
+    options.limitTopMembers = limitTopMembers;
   }
-  if (Number.isFinite(limitChannels)) {
-    options.limitChannels = limitChannels ?? undefined;
+  if (limitChannels !== null) {
+    options.limitChannels = limitChannels;
   }
   if (includeHeatmap !== null) {
     options.includeHeatmap = includeHeatmap;
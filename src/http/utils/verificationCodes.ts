@@ -0,0 +1,96 @@
+import { randomInt } from 'crypto';
+
+interface StoredCode {
+  code: string;
+  expiresAt: number;
+  attemptsLeft: number;
+}
+
+export interface VerificationCodeStoreOptions {
+  ttlMs?: number;
+  maxAttempts?: number;
+  maxEntries?: number;
+}
+
+export type VerificationCodeResult = 'OK' | 'CODE_REQUIRED' | 'CODE_EXPIRED' | 'CODE_INVALID';
+
+/**
+ * Short numeric codes proving that a web visitor can read a member's Discord
+ * messages. A code stays valid until it expires so the visitor can read and
+ * then change their settings, but a few wrong guesses revoke it.
+ */
+export class VerificationCodeStore {
+  private readonly ttlMs: number;
+
+  private readonly maxAttempts: number;
+
+  private readonly maxEntries: number;
+
+  private readonly codes = new Map<string, StoredCode>();
+
+  constructor({ ttlMs = 15 * 60 * 1000, maxAttempts = 5, maxEntries = 5000 }: VerificationCodeStoreOptions = {}) {
+    this.ttlMs = Math.max(60_000, ttlMs);
+    this.maxAttempts = Math.max(1, maxAttempts);
+    this.maxEntries = Math.max(10, maxEntries);
+  }
+
+  public issue(key: string): { code: string; expiresAt: string } {
+    this.purgeExpired();
+
+    if (!this.codes.has(key) && this.codes.size >= this.maxEntries) {
+      const oldestKey = this.codes.keys().next().value;
+      if (oldestKey) {
+        this.codes.delete(oldestKey);
+      }
+    }
+
+    const code = String(randomInt(0, 1_000_000)).padStart(6, '0');
+    const expiresAt = Date.now() + this.ttlMs;
+    this.codes.delete(key);
+    this.codes.set(key, { code, expiresAt, attemptsLeft: this.maxAttempts });
+    return { code, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  public verify(key: string, code: unknown): VerificationCodeResult {
+    const normalized = typeof code === 'string' ? code.replace(/\s+/g, '') : '';
+    if (!normalized) {
+      return 'CODE_REQUIRED';
+    }
+
+    const stored = this.codes.get(key);
+    if (!stored || stored.expiresAt < Date.now()) {
+      this.codes.delete(key);
+      return 'CODE_EXPIRED';
+    }
+
+    if (stored.code !== normalized) {
+      stored.attemptsLeft -= 1;
+      if (stored.attemptsLeft <= 0) {
+        this.codes.delete(key);
+      }
+      return 'CODE_INVALID';
+    }
+
+    return 'OK';
+  }
+
+  private purgeExpired(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.codes) {
+      if (entry.expiresAt < now) {
+        this.codes.delete(key);
+      }
+    }
+  }
+}
+
+export function describeVerificationFailure(result: Exclude<VerificationCodeResult, 'OK'>): string {
+  switch (result) {
+    case 'CODE_REQUIRED':
+      return 'Merci de saisir le code reçu en message privé sur Discord.';
+    case 'CODE_EXPIRED':
+      return 'Le code a expiré. Demande un nouveau code.';
+    default:
+      return 'Le code est incorrect.';
+  }
+}
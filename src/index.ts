@@ -2,8 +2,13 @@ import path from 'path';
 import type { Pool } from 'pg';
 import config, { type Config } from './config';
 import AudioMixer from './audio/AudioMixer';
-import FfmpegTranscoder from './audio/FfmpegTranscoder';
-import AppServer from './http/AppServer';
+import HlsSegmenter from './audio/HlsSegmenter';
+import StreamRenditions from './audio/StreamRenditions';
+import BroadcastDelay from './audio/BroadcastDelay';
+import ProfanityBleeper from './audio/ProfanityBleeper';
+import { decodeAudioFile } from './audio/decodeAudioFile';
+import { createTextToSpeechEngine } from './audio/TextToSpeech';
+import AppServer, { HLS_PLAYLIST_PATH, LIVE_STREAM_SOCKET_PATH } from './http/AppServer';
 import SseService from './services/SseService';
 import SpeakerTracker from './services/SpeakerTracker';
 import DiscordAudioBridge from './discord/DiscordAudioBridge';
@@ -19,11 +24,22 @@ import BlogModerationService from './services/BlogModerationService';
 import KaldiTranscriptionService from './services/KaldiTranscriptionService';
 import UserPersonaService from './services/UserPersonaService';
 import AdminService from './services/AdminService';
+import ConsentService from './services/ConsentService';
 import StatisticsService from './services/StatisticsService';
 import UserAudioRecorder from './services/UserAudioRecorder';
 import AudioStreamHealthService from './services/AudioStreamHealthService';
+import IcecastRelayService from './services/IcecastRelayService';
+import LowLatencyStreamService from './services/LowLatencyStreamService';
+import ShowArchiveService from './services/ShowArchiveService';
+import ClipService from './services/ClipService';
+import ProfanityFilterService from './services/ProfanityFilterService';
+import SoundboardService from './services/SoundboardService';
+import AutopilotService from './services/AutopilotService';
+import TextToSpeechService from './services/TextToSpeechService';
+import RoomService from './services/RoomService';
 import DiscordVectorIngestionService from './services/DiscordVectorIngestionService';
 import UserDataRetentionService from './services/UserDataRetentionService';
+import HypeLeaderboardService from './services/HypeLeaderboardService';
 import { getDatabasePool } from './lib/db';
 import LoggerService from './lib/logger';
 
@@ -208,6 +224,13 @@ function registerServices(container: ServiceContainer): void {
         frameBytes: cfg.audio.frameBytes,
         mixFrameMs: cfg.mixFrameMs,
         bytesPerSample: cfg.audio.bytesPerSample,
+        sampleRate: cfg.audio.sampleRate,
+        channels: cfg.audio.channels,
+        limiter: cfg.masterBus.limiter,
+        compressor: cfg.masterBus.compressor,
+        loudness: cfg.sourceLoudness,
+        sourceProcessors: cfg.audioProcessing.source,
+        masterProcessors: cfg.audioProcessing.master,
       });
     },
     start: (mixer) => {
@@ -219,26 +242,364 @@ function registerServices(container: ServiceContainer): void {
     eager: true,
   });
 
-  container.register<FfmpegTranscoder>('transcoder', {
+  container.register<BroadcastDelay | null>('broadcastDelay', {
+    factory: (ctx) => {
+      const cfg = ctx.resolve<Config>('config');
+      if (!cfg.broadcastDelay.enabled) {
+        return null;
+      }
+      return new BroadcastDelay({
+        frameBytes: cfg.audio.frameBytes,
+        frameMs: cfg.mixFrameMs,
+        delayMs: cfg.broadcastDelay.delaySeconds * 1000,
+        rebuildPercent: cfg.broadcastDelay.rebuildPercent,
+        dumpSilenceMs: cfg.broadcastDelay.dumpSilenceMs,
+      });
+    },
+    start: (delay, ctx) => {
+      const cfg = ctx.resolve<Config>('config');
+      const jinglePath = cfg.broadcastDelay.dumpJinglePath;
+      if (!delay || !jinglePath) {
+        return;
+      }
+      // Decoded in the background so the stream does not wait for it; until then a dump airs silence.
+      void decodeAudioFile({
+        ffmpegPath: cfg.ffmpegPath,
+        filePath: jinglePath,
+        sampleRate: cfg.audio.sampleRate,
+        channels: cfg.audio.channels,
+        maxSeconds: cfg.broadcastDelay.delaySeconds,
+      })
+        .then((pcm) => delay.setJingle(pcm))
+        .catch((error) => {
+          console.error('Failed to load the broadcast delay dump jingle; dumps will air silence', error);
+        });
+    },
+    eager: true,
+  });
+
+  container.register<ProfanityBleeper | null>('profanityBleeper', {
+    factory: (ctx) => {
+      const cfg = ctx.resolve<Config>('config');
+      if (!cfg.profanityFilter.enabled) {
+        return null;
+      }
+      if (!ctx.resolve<KaldiTranscriptionService | null>('kaldiTranscriptionService')) {
+        console.error('The profanity filter needs live transcription (Kaldi); disabling bleeping.');
+        return null;
+      }
+      return new ProfanityBleeper({
+        frameBytes: cfg.audio.frameBytes,
+        frameMs: cfg.mixFrameMs,
+        sampleRate: cfg.audio.sampleRate,
+        channels: cfg.audio.channels,
+        holdMs: cfg.profanityFilter.holdMs,
+        toneHz: cfg.profanityFilter.toneHz,
+      });
+    },
+  });
+
+  container.register<StreamRenditions>('streamRenditions', {
     factory: (ctx) => {
       const cfg = ctx.resolve<Config>('config');
-      return new FfmpegTranscoder({
+      return new StreamRenditions({
+        renditions: cfg.streamRenditions,
+        basePath: cfg.streamEndpoint,
+        frameBytes: cfg.audio.frameBytes,
+        mimeTypes: cfg.mimeTypes,
         ffmpegPath: cfg.ffmpegPath,
-        outputFormat: cfg.outputFormat,
-        opusBitrate: cfg.opusBitrate,
-        mp3Bitrate: cfg.mp3Bitrate,
         sampleRate: cfg.audio.sampleRate,
         channels: cfg.audio.channels,
         headerBufferMaxBytes: cfg.headerBufferMaxBytes,
         mixFrameMs: cfg.mixFrameMs,
       });
     },
-    start: (transcoder, ctx) => {
+    start: (renditions, ctx) => {
       const mixer = ctx.resolve<AudioMixer>('audioMixer');
-      transcoder.start(mixer);
+      // The bleeper stamps frames as the mixer writes them, so it must come before the broadcast delay.
+      const stages = [
+        ctx.resolve<ProfanityBleeper | null>('profanityBleeper'),
+        ctx.resolve<BroadcastDelay | null>('broadcastDelay'),
+      ].filter((stage): stage is ProfanityBleeper | BroadcastDelay => stage !== null);
+      renditions.start(mixer, stages);
+    },
+    stop: (renditions) => {
+      renditions.stop();
+    },
+    eager: true,
+  });
+
+  container.register<HlsSegmenter | null>('hlsSegmenter', {
+    factory: (ctx) => {
+      const cfg = ctx.resolve<Config>('config');
+      if (!cfg.hls.enabled) {
+        return null;
+      }
+      return new HlsSegmenter({
+        ffmpegPath: cfg.ffmpegPath,
+        sampleRate: cfg.audio.sampleRate,
+        channels: cfg.audio.channels,
+        directory: cfg.hls.directory,
+        bitrate: cfg.hls.bitrate,
+        segmentSeconds: cfg.hls.segmentSeconds,
+        windowSeconds: cfg.hls.dvrWindowMinutes * 60,
+      });
+    },
+    start: (segmenter, ctx) => {
+      segmenter?.start(ctx.resolve<StreamRenditions>('streamRenditions').getPcmOutput());
+    },
+    stop: (segmenter) => {
+      segmenter?.stop();
     },
-    stop: (transcoder) => {
-      transcoder.stop();
+    eager: true,
+  });
+
+  container.register<LowLatencyStreamService | null>('lowLatencyStream', {
+    factory: (ctx) => {
+      const cfg = ctx.resolve<Config>('config');
+      if (!cfg.lowLatencyStream.enabled) {
+        return null;
+      }
+      return new LowLatencyStreamService({
+        sampleRate: cfg.audio.sampleRate,
+        channels: cfg.audio.channels,
+        bytesPerSample: cfg.audio.bytesPerSample,
+        maxClients: cfg.lowLatencyStream.maxClients,
+        maxQueueMs: cfg.lowLatencyStream.maxQueueMs,
+        disconnectQueueMs: cfg.lowLatencyStream.disconnectQueueMs,
+      });
+    },
+    start: (service, ctx) => {
+      service?.start(ctx.resolve<StreamRenditions>('streamRenditions').getPcmOutput());
+    },
+    stop: (service) => {
+      service?.stop();
+    },
+    eager: true,
+  });
+
+  container.register<IcecastRelayService | null>('icecastRelayService', {
+    factory: (ctx) => {
+      const cfg = ctx.resolve<Config>('config');
+      if (cfg.icecast.targets.length === 0) {
+        return null;
+      }
+      const renditions = ctx.resolve<StreamRenditions>('streamRenditions');
+      return new IcecastRelayService({
+        targets: cfg.icecast.targets.map((target) => {
+          const rendition = renditions.get(target.format) ?? renditions.getPrimary();
+          return {
+            ...target,
+            mimeType: rendition.mimeType,
+            bitrate: rendition.bitrate,
+            source: rendition.transcoder,
+          };
+        }),
+        metadata: {
+          name: cfg.icecast.name,
+          description: cfg.icecast.description,
+          genre: cfg.icecast.genre,
+          url: cfg.icecast.url,
+          public: cfg.icecast.public,
+        },
+        reconnectMinDelayMs: cfg.icecast.reconnectMinDelayMs,
+        reconnectMaxDelayMs: cfg.icecast.reconnectMaxDelayMs,
+      });
+    },
+    start: (service) => {
+      service?.start();
+    },
+    stop: (service) => {
+      service?.stop();
+    },
+    eager: true,
+  });
+
+  container.register<ShowArchiveService | null>('showArchiveService', {
+    factory: (ctx) => {
+      const cfg = ctx.resolve<Config>('config');
+      if (!cfg.archive.enabled) {
+        return null;
+      }
+      return new ShowArchiveService({
+        ffmpegPath: cfg.ffmpegPath,
+        sampleRate: cfg.audio.sampleRate,
+        channels: cfg.audio.channels,
+        directory: cfg.archive.directory,
+        bitrate: cfg.archive.bitrate,
+        mode: cfg.archive.mode,
+        showGapMinutes: cfg.archive.showGapMinutes,
+        minChapterSeconds: cfg.archive.minChapterSeconds,
+        retentionDays: cfg.archive.retentionDays,
+        speakerTracker: ctx.resolve<SpeakerTracker>('speakerTracker'),
+        transcriptionService: ctx.resolve<KaldiTranscriptionService | null>('kaldiTranscriptionService'),
+      });
+    },
+    start: (service, ctx) => {
+      service?.start(ctx.resolve<StreamRenditions>('streamRenditions').getPcmOutput());
+    },
+    stop: (service) => {
+      service?.stop();
+    },
+    eager: true,
+  });
+
+  container.register<ClipService | null>('clipService', {
+    factory: (ctx) => {
+      const cfg = ctx.resolve<Config>('config');
+      if (!cfg.clips.enabled) {
+        return null;
+      }
+      return new ClipService({
+        ffmpegPath: cfg.ffmpegPath,
+        sampleRate: cfg.audio.sampleRate,
+        channels: cfg.audio.channels,
+        directory: cfg.clips.directory,
+        bitrate: cfg.clips.bitrate,
+        bufferSeconds: cfg.clips.bufferSeconds,
+        maxClipSeconds: cfg.clips.maxSeconds,
+        speakerTracker: ctx.resolve<SpeakerTracker>('speakerTracker'),
+        transcriptionService: ctx.resolve<KaldiTranscriptionService | null>('kaldiTranscriptionService'),
+        broadcastDelay: ctx.resolve<BroadcastDelay | null>('broadcastDelay'),
+      });
+    },
+    start: (service, ctx) => {
+      service?.start(ctx.resolve<StreamRenditions>('streamRenditions').getPcmOutput());
+    },
+    stop: (service) => {
+      service?.stop();
+    },
+    eager: true,
+  });
+
+  container.register<ProfanityFilterService | null>('profanityFilterService', {
+    factory: (ctx) => {
+      const cfg = ctx.resolve<Config>('config');
+      const bleeper = ctx.resolve<ProfanityBleeper | null>('profanityBleeper');
+      const transcriptionService = ctx.resolve<KaldiTranscriptionService | null>('kaldiTranscriptionService');
+      if (!bleeper || !transcriptionService) {
+        return null;
+      }
+      return new ProfanityFilterService({
+        transcriptionService,
+        bleeper,
+        speakerTracker: ctx.resolve<SpeakerTracker>('speakerTracker'),
+        words: cfg.profanityFilter.words,
+        wordsFile: cfg.profanityFilter.wordsFile,
+        lookbackMs: cfg.profanityFilter.lookbackMs,
+        paddingMs: cfg.profanityFilter.paddingMs,
+        logFile: cfg.profanityFilter.logFile,
+      });
+    },
+    start: async (service) => {
+      await service?.start();
+    },
+    stop: (service) => {
+      service?.stop();
+    },
+    eager: true,
+  });
+
+  container.register<SoundboardService | null>('soundboardService', {
+    factory: (ctx) => {
+      const cfg = ctx.resolve<Config>('config');
+      if (!cfg.soundboard.enabled) {
+        return null;
+      }
+      return new SoundboardService({
+        directory: cfg.soundboard.directory,
+        ffmpegPath: cfg.ffmpegPath,
+        mixer: ctx.resolve<AudioMixer>('audioMixer'),
+        sampleRate: cfg.audio.sampleRate,
+        channels: cfg.audio.channels,
+        frameBytes: cfg.audio.frameBytes,
+        frameMs: cfg.mixFrameMs,
+        maxSeconds: cfg.soundboard.maxSeconds,
+      });
+    },
+    start: async (service, ctx) => {
+      if (!service) {
+        return;
+      }
+      await service.start();
+      service.setVoiceOutput(ctx.resolve<DiscordAudioBridge>('discordBridge'));
+    },
+    stop: (service) => {
+      service?.stop();
+    },
+    eager: true,
+  });
+
+  container.register<AutopilotService | null>('autopilotService', {
+    factory: (ctx) => {
+      const cfg = ctx.resolve<Config>('config');
+      if (!cfg.autopilot.enabled) {
+        return null;
+      }
+      return new AutopilotService({
+        directory: cfg.autopilot.directory,
+        ffmpegPath: cfg.ffmpegPath,
+        mixer: ctx.resolve<AudioMixer>('audioMixer'),
+        showArchiveService: cfg.autopilot.rebroadcasts
+          ? ctx.resolve<ShowArchiveService | null>('showArchiveService')
+          : null,
+        sampleRate: cfg.audio.sampleRate,
+        channels: cfg.audio.channels,
+        frameBytes: cfg.audio.frameBytes,
+        frameMs: cfg.mixFrameMs,
+        deadAirMs: cfg.autopilot.deadAirSeconds * 1000,
+        crossfadeMs: cfg.autopilot.crossfadeMs,
+        fadeOutMs: cfg.autopilot.fadeOutMs,
+        shuffle: cfg.autopilot.shuffle,
+      });
+    },
+    start: async (service) => {
+      await service?.start();
+    },
+    stop: (service) => {
+      service?.stop();
+    },
+    eager: true,
+  });
+
+  container.register<TextToSpeechService | null>('textToSpeechService', {
+    factory: (ctx) => {
+      const cfg = ctx.resolve<Config>('config');
+      if (!cfg.textToSpeech.enabled) {
+        return null;
+      }
+      return new TextToSpeechService({
+        engine: createTextToSpeechEngine({
+          type: cfg.textToSpeech.engine,
+          command: cfg.textToSpeech.command,
+          voice: cfg.textToSpeech.voice,
+          rate: cfg.textToSpeech.rate,
+          timeoutMs: 30 * 1000,
+        }),
+        ffmpegPath: cfg.ffmpegPath,
+        mixer: ctx.resolve<AudioMixer>('audioMixer'),
+        speakerTracker: ctx.resolve<SpeakerTracker>('speakerTracker'),
+        directory: cfg.textToSpeech.directory,
+        sampleRate: cfg.audio.sampleRate,
+        channels: cfg.audio.channels,
+        frameBytes: cfg.audio.frameBytes,
+        frameMs: cfg.mixFrameMs,
+        duckingDb: cfg.textToSpeech.duckingDb,
+        maxCharacters: cfg.textToSpeech.maxCharacters,
+        maxWaitMs: cfg.textToSpeech.maxWaitSeconds * 1000,
+        welcomeTemplate: cfg.textToSpeech.welcomeTemplate,
+        welcomeCooldownMs: cfg.textToSpeech.welcomeCooldownHours * 60 * 60 * 1000,
+      });
+    },
+    start: async (service, ctx) => {
+      if (!service) {
+        return;
+      }
+      await service.start();
+      service.setVoiceOutput(ctx.resolve<DiscordAudioBridge>('discordBridge'));
+    },
+    stop: (service) => {
+      service?.stop();
     },
     eager: true,
   });
@@ -246,11 +607,17 @@ function registerServices(container: ServiceContainer): void {
   container.register<SseService>('sseService', {
     factory: (ctx) => {
       const cfg = ctx.resolve<Config>('config');
+      const renditions = ctx.resolve<StreamRenditions>('streamRenditions');
+      const hlsSegmenter = ctx.resolve<HlsSegmenter | null>('hlsSegmenter');
+      const lowLatencyStream = ctx.resolve<LowLatencyStreamService | null>('lowLatencyStream');
       return new SseService({
         streamInfoProvider: () => ({
-          format: cfg.outputFormat,
+          format: renditions.getPrimary().format,
           path: cfg.streamEndpoint,
-          mimeType: cfg.mimeTypes[cfg.outputFormat] || 'application/octet-stream',
+          mimeType: renditions.getPrimary().mimeType,
+          renditions: renditions.list().map(({ id, path, mimeType, bitrate }) => ({ id, path, mimeType, bitrate })),
+          hlsPath: hlsSegmenter ? HLS_PLAYLIST_PATH : null,
+          liveSocketPath: lowLatencyStream ? LIVE_STREAM_SOCKET_PATH : null,
         }),
         keepAliveInterval: cfg.keepAliveInterval,
       });
@@ -446,6 +813,22 @@ function registerServices(container: ServiceContainer): void {
     },
   });
 
+  container.register<ConsentService>('consentService', {
+    factory: () =>
+      new ConsentService({
+        storageDirectory: path.resolve(__dirname, '..', 'content', 'privacy'),
+      }),
+    start: async (service, ctx) => {
+      try {
+        await service.initialize();
+      } catch (error) {
+        const logger = ctx.resolve<LoggerService>('logger').forContext('ConsentService');
+        logger.error('ConsentService initialization failed', error);
+      }
+    },
+    eager: true,
+  });
+
   container.register<UserPersonaService>('userPersonaService', {
     factory: (ctx) => {
       const cfg = ctx.resolve<Config>('config');
@@ -453,6 +836,7 @@ function registerServices(container: ServiceContainer): void {
       return new UserPersonaService({
         config: cfg,
         voiceActivityRepository: cfg.database.url ? repository : null,
+        consentService: ctx.resolve<ConsentService>('consentService'),
       });
     },
     stop: (service) => {
@@ -487,6 +871,12 @@ function registerServices(container: ServiceContainer): void {
         voiceActivityRepository: cfg.database.url ? repository : null,
         transcriptionService: ctx.resolve<KaldiTranscriptionService | null>('kaldiTranscriptionService'),
         audioRecorder: ctx.resolve<UserAudioRecorder | null>('userAudioRecorder'),
+        clipService: ctx.resolve<ClipService | null>('clipService'),
+        broadcastDelay: ctx.resolve<BroadcastDelay | null>('broadcastDelay'),
+        listenerStatsService: ctx.resolve<ListenerStatsService>('listenerStatsService'),
+        consentService: ctx.resolve<ConsentService>('consentService'),
+        soundboardService: ctx.resolve<SoundboardService | null>('soundboardService'),
+        textToSpeechService: ctx.resolve<TextToSpeechService | null>('textToSpeechService'),
       });
     },
     start: async (bridge) => {
@@ -498,6 +888,21 @@ function registerServices(container: ServiceContainer): void {
     eager: true,
   });
 
+  container.register<RoomService>('roomService', {
+    factory: (ctx) =>
+      new RoomService({
+        config: ctx.resolve<Config>('config'),
+        consentService: ctx.resolve<ConsentService>('consentService'),
+      }),
+    start: async (service) => {
+      await service.start();
+    },
+    stop: async (service) => {
+      await service.stop();
+    },
+    eager: true,
+  });
+
   container.register<AnonymousSpeechManager>('anonymousSpeechManager', {
     factory: (ctx) =>
       new AnonymousSpeechManager({
@@ -555,7 +960,7 @@ function registerServices(container: ServiceContainer): void {
         return null;
       }
       return new AudioStreamHealthService({
-        transcoder: ctx.resolve<FfmpegTranscoder>('transcoder'),
+        streamRenditions: ctx.resolve<StreamRenditions>('streamRenditions'),
         discordBridge: ctx.resolve<DiscordAudioBridge>('discordBridge'),
         guildId: cfg.guildId,
         voiceChannelId: cfg.voiceChannelId,
@@ -574,13 +979,68 @@ function registerServices(container: ServiceContainer): void {
     eager: true,
   });
 
+  container.register<HypeLeaderboardService | null>('hypeLeaderboardService', {
+    factory: (ctx) => {
+      const cfg = ctx.resolve<Config>('config');
+      if (!cfg.database.url) {
+        return null;
+      }
+      const discordBridge = ctx.resolve<DiscordAudioBridge>('discordBridge');
+      return new HypeLeaderboardService({
+        repository: ctx.resolve<VoiceActivityRepository>('voiceActivityRepository'),
+        identityProvider: (userId) => discordBridge.fetchUserIdentity(userId),
+      });
+    },
+    start: (service, ctx) => {
+      if (!service) {
+        return;
+      }
+      void service.start().catch((error: unknown) => {
+        const logger = ctx.resolve<LoggerService>('logger').forContext('HypeLeaderboardService');
+        logger.error('Hype leaderboard precomputation failed', error);
+      });
+    },
+    stop: (service) => {
+      service?.stop();
+    },
+    eager: true,
+  });
+
   container.register<AppServer>('appServer', {
     factory: (ctx) => {
       const cfg = ctx.resolve<Config>('config');
       return new AppServer({
         config: cfg,
-        transcoder: ctx.resolve<FfmpegTranscoder>('transcoder'),
+        audioMixer: ctx.resolve<AudioMixer>('audioMixer'),
+        broadcastDelay: ctx.resolve<BroadcastDelay | null>('broadcastDelay'),
+        streamRenditions: ctx.resolve<StreamRenditions>('streamRenditions'),
+        hlsSegmenter: ctx.resolve<HlsSegmenter | null>('hlsSegmenter'),
+        icecastRelayService: ctx.resolve<IcecastRelayService | null>('icecastRelayService'),
+        lowLatencyStream: ctx.resolve<LowLatencyStreamService | null>('lowLatencyStream'),
+        showArchiveService: ctx.resolve<ShowArchiveService | null>('showArchiveService'),
+        clipService: ctx.resolve<ClipService | null>('clipService'),
+        profanityFilterService: ctx.resolve<ProfanityFilterService | null>('profanityFilterService'),
+        soundboardService: ctx.resolve<SoundboardService | null>('soundboardService'),
+        autopilotService: ctx.resolve<AutopilotService | null>('autopilotService'),
+        textToSpeechService: ctx.resolve<TextToSpeechService | null>('textToSpeechService'),
+        roomService: ctx.resolve<RoomService>('roomService'),
+        speakerTracker: ctx.resolve<SpeakerTracker>('speakerTracker'),
+        sseService: ctx.resolve<SseService>('sseService'),
+        anonymousSpeechManager: ctx.resolve<AnonymousSpeechManager>('anonymousSpeechManager'),
+        discordBridge: ctx.resolve<DiscordAudioBridge>('discordBridge'),
         listenerStatsService: ctx.resolve<ListenerStatsService>('listenerStatsService'),
+        voiceActivityRepository: ctx.resolve<VoiceActivityRepository>('voiceActivityRepository'),
+        statisticsService: ctx.resolve<StatisticsService>('statisticsService'),
+        userAudioRecorder: ctx.resolve<UserAudioRecorder | null>('userAudioRecorder'),
+        userPersonaService: ctx.resolve<UserPersonaService>('userPersonaService'),
+        adminService: ctx.resolve<AdminService>('adminService'),
+        consentService: ctx.resolve<ConsentService>('consentService'),
+        blogRepository: ctx.resolve<BlogRepository | null>('blogRepository'),
+        blogService: ctx.resolve<BlogService>('blogService'),
+        blogSubmissionService: ctx.resolve<BlogSubmissionService>('blogSubmissionService'),
+        dailyArticleService: ctx.resolve<DailyArticleService>('dailyArticleService'),
+        shopService: ctx.resolve<ShopService>('shopService'),
+        hypeLeaderboardService: ctx.resolve<HypeLeaderboardService | null>('hypeLeaderboardService'),
       });
     },
     start: (server) => {
@@ -1,9 +1,9 @@
 import type { PassThrough } from 'stream';
-import type FfmpegTranscoder from '../audio/FfmpegTranscoder';
+import type StreamRenditions from '../audio/StreamRenditions';
 import type DiscordAudioBridge from '../discord/DiscordAudioBridge';
 
 export interface AudioStreamHealthServiceOptions {
-  transcoder: FfmpegTranscoder;
+  streamRenditions: StreamRenditions;
   discordBridge: DiscordAudioBridge;
   guildId?: string;
   voiceChannelId?: string;
@@ -14,7 +14,7 @@ export interface AudioStreamHealthServiceOptions {
 }
 
 export default class AudioStreamHealthService {
-  private readonly transcoder: FfmpegTranscoder;
+  private readonly streamRenditions: StreamRenditions;
 
   private readonly discordBridge: DiscordAudioBridge;
 
@@ -45,7 +45,7 @@ export default class AudioStreamHealthService {
   private restarting = false;
 
   constructor({
-    transcoder,
+    streamRenditions,
     discordBridge,
     guildId,
     voiceChannelId,
@@ -54,7 +54,7 @@ export default class AudioStreamHealthService {
     restartCooldownMs,
     streamRetryDelayMs,
   }: AudioStreamHealthServiceOptions) {
-    this.transcoder = transcoder;
+    this.streamRenditions = streamRenditions;
     this.discordBridge = discordBridge;
     this.guildId = guildId;
     this.voiceChannelId = voiceChannelId;
@@ -116,7 +116,8 @@ export default class AudioStreamHealthService {
     }
 
     try {
-      const stream = this.transcoder.createClientStream();
+      // All renditions share the mixer, so watching one of them is enough to detect silence.
+      const stream = this.streamRenditions.getPrimary().transcoder.createClientStream();
       stream.on('data', this.onStreamData);
       stream.on('error', this.onStreamError);
       stream.on('end', this.onStreamEnd);
@@ -143,7 +144,7 @@ export default class AudioStreamHealthService {
     stream.removeListener('close', this.onStreamClose);
     this.clientStream = null;
     try {
-      this.transcoder.releaseClientStream(stream);
+      this.streamRenditions.getPrimary().transcoder.releaseClientStream(stream);
     } catch (error) {
       console.error('[AudioStreamHealth] Failed to release monitoring stream', error);
     }
@@ -233,7 +234,7 @@ export default class AudioStreamHealthService {
     this.detachStream();
 
     try {
-      this.transcoder.requestRestart('audio stream health check');
+      this.streamRenditions.requestRestart('audio stream health check');
     } catch (error) {
       console.error('[AudioStreamHealth] Failed to request transcoder restart', error);
     }
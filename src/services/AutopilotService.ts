@@ -0,0 +1,558 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ChildProcessByStdio } from 'child_process';
+import type { Readable } from 'stream';
+import type AudioMixer from '../audio/AudioMixer';
+import PcmPlayout from '../audio/PcmPlayout';
+import { AUDIO_FILE_EXTENSIONS, spawnAudioDecoder } from '../audio/decodeAudioFile';
+import type ShowArchiveService from './ShowArchiveService';
+
+export interface AutopilotServiceOptions {
+  directory: string;
+  ffmpegPath: string;
+  mixer: Pick<AudioMixer, 'addSource' | 'removeSource' | 'pushToSource' | 'onVoiceActivity'>;
+  /** Finished shows are rebroadcast along with the playlist when set. */
+  showArchiveService: Pick<ShowArchiveService, 'listArchives' | 'resolveAudioPath'> | null;
+  sampleRate: number;
+  channels: number;
+  frameBytes: number;
+  frameMs: number;
+  deadAirMs: number;
+  crossfadeMs: number;
+  fadeOutMs: number;
+  shuffle: boolean;
+}
+
+export type AutopilotPhase = 'off' | 'fading-in' | 'on-air' | 'fading-out';
+
+export type AutopilotTrackKind = 'track' | 'rebroadcast';
+
+export interface AutopilotState {
+  active: boolean;
+  phase: AutopilotPhase;
+  track: { kind: AutopilotTrackKind; title: string; startedAt: string } | null;
+  updatedAt: string;
+}
+
+interface AutopilotTrack {
+  kind: AutopilotTrackKind;
+  title: string;
+  filePath: string;
+}
+
+interface Session {
+  playout: PcmPlayout;
+  current: TrackDecoder | null;
+  next: TrackDecoder | null;
+  trackStartedAt: number;
+  /** Tracks in a row that ended without producing any audio. */
+  failures: number;
+  level: number;
+  target: number;
+}
+
+export const AUTOPILOT_SOURCE_ID = 'autopilot';
+
+const DEAD_AIR_CHECK_INTERVAL_MS = 1000;
+/** Decoded audio kept ahead of playback on top of the crossfade, so ffmpeg is paused rather than drained. */
+const DECODER_HEADROOM_MS = 2000;
+/** Shorter archives are mostly silence around a few words. */
+const MIN_REBROADCAST_MS = 5 * 60 * 1000;
+
+const rebroadcastDateFormat = new Intl.DateTimeFormat('fr-FR', { dateStyle: 'long', timeStyle: 'short' });
+
+function shuffled<T>(items: T[]): T[] {
+  const result = items.slice();
+  for (let i = result.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Streams one playlist entry through ffmpeg, keeping a few seconds of PCM
+ * buffered. ffmpeg is paused through its pipe once enough is buffered, so
+ * hour-long rebroadcasts never sit in memory.
+ */
+class TrackDecoder {
+  public readonly track: AutopilotTrack;
+
+  private readonly process: ChildProcessByStdio<null, Readable, Readable>;
+
+  private readonly highWaterBytes: number;
+
+  private readonly chunks: Buffer[] = [];
+
+  private headOffset = 0;
+
+  private bufferedBytes = 0;
+
+  private ended = false;
+
+  private produced = false;
+
+  private stderr = '';
+
+  constructor(
+    track: AutopilotTrack,
+    { ffmpegPath, sampleRate, channels }: { ffmpegPath: string; sampleRate: number; channels: number },
+    highWaterBytes: number,
+  ) {
+    this.track = track;
+    this.highWaterBytes = highWaterBytes;
+    this.process = spawnAudioDecoder({ ffmpegPath, filePath: track.filePath, sampleRate, channels });
+
+    const { stdout, stderr } = this.process;
+    stdout.on('data', (chunk: Buffer) => {
+      this.chunks.push(chunk);
+      this.bufferedBytes += chunk.length;
+      this.produced = true;
+      if (this.bufferedBytes >= this.highWaterBytes) {
+        stdout.pause();
+      }
+    });
+    stdout.on('end', () => {
+      this.ended = true;
+    });
+    stderr.on('data', (data: Buffer) => {
+      this.stderr = `${this.stderr}${data.toString()}`.slice(-2000);
+    });
+    this.process.on('error', (error) => {
+      console.error('Autopilot could not start ffmpeg', { file: track.filePath, error });
+      this.ended = true;
+    });
+    this.process.on('exit', (code) => {
+      if (code !== null && code !== 0) {
+        console.warn('Autopilot could not decode a track', { file: track.filePath, code, stderr: this.stderr.trim() });
+      }
+    });
+  }
+
+  /** Bytes left once ffmpeg is done, or null while it is still decoding. */
+  public get remainingBytes(): number | null {
+    return this.ended ? this.bufferedBytes : null;
+  }
+
+  public get exhausted(): boolean {
+    return this.ended && this.bufferedBytes === 0;
+  }
+
+  public get producedAudio(): boolean {
+    return this.produced;
+  }
+
+  /** Returns the next frame, zero-padded at the end of the track, or null while decoding lags behind. */
+  public read(frameBytes: number): Buffer | null {
+    if (this.bufferedBytes === 0 || (this.bufferedBytes < frameBytes && !this.ended)) {
+      return null;
+    }
+
+    const frame = Buffer.alloc(frameBytes);
+    let written = 0;
+    while (written < frameBytes && this.chunks.length > 0) {
+      const chunk = this.chunks[0];
+      const end = Math.min(chunk.length, this.headOffset + frameBytes - written);
+      written += chunk.copy(frame, written, this.headOffset, end);
+      this.headOffset = end;
+      if (this.headOffset >= chunk.length) {
+        this.chunks.shift();
+        this.headOffset = 0;
+      }
+    }
+    this.bufferedBytes -= written;
+
+    const { stdout } = this.process;
+    if (!this.ended && this.bufferedBytes < this.highWaterBytes && stdout.isPaused()) {
+      stdout.resume();
+    }
+    return frame;
+  }
+
+  public close(): void {
+    this.chunks.length = 0;
+    this.bufferedBytes = 0;
+    this.process.stdout.destroy();
+    if (this.process.exitCode === null && !this.process.killed) {
+      this.process.kill();
+    }
+  }
+}
+
+/**
+ * Fills dead air. Once no source of the mixer has carried speech for
+ * `deadAirMs`, a playlist made of the files of `directory` and of the finished
+ * show archives fades in through a mixer source of its own, with crossfades
+ * between tracks. It fades back out as soon as the voice activity detector
+ * hears someone, and the next dead air starts a new pass.
+ *
+ * Only the program is fed: the Discord voice channel does not hear the autopilot.
+ */
+export default class AutopilotService {
+  private readonly directory: string;
+
+  private readonly ffmpegPath: string;
+
+  private readonly mixer: Pick<AudioMixer, 'addSource' | 'removeSource' | 'pushToSource' | 'onVoiceActivity'>;
+
+  private readonly showArchiveService: Pick<ShowArchiveService, 'listArchives' | 'resolveAudioPath'> | null;
+
+  private readonly sampleRate: number;
+
+  private readonly channels: number;
+
+  private readonly frameBytes: number;
+
+  private readonly frameMs: number;
+
+  private readonly deadAirMs: number;
+
+  private readonly crossfadeBytes: number;
+
+  private readonly fadeInStep: number;
+
+  private readonly fadeOutStep: number;
+
+  private readonly shuffle: boolean;
+
+  private readonly speakingSources = new Set<string>();
+
+  private readonly listeners = new Set<(state: AutopilotState) => void>();
+
+  private unsubscribeVoiceActivity: (() => void) | null = null;
+
+  private checkTimer: NodeJS.Timeout | null = null;
+
+  private lastSpeechAt = Date.now();
+
+  private playlist: AutopilotTrack[] = [];
+
+  private position = 0;
+
+  private session: Session | null = null;
+
+  private engaging = false;
+
+  private phase: AutopilotPhase = 'off';
+
+  private updatedAt = Date.now();
+
+  constructor({
+    directory,
+    ffmpegPath,
+    mixer,
+    showArchiveService,
+    sampleRate,
+    channels,
+    frameBytes,
+    frameMs,
+    deadAirMs,
+    crossfadeMs,
+    fadeOutMs,
+    shuffle,
+  }: AutopilotServiceOptions) {
+    this.directory = directory;
+    this.ffmpegPath = ffmpegPath;
+    this.mixer = mixer;
+    this.showArchiveService = showArchiveService;
+    this.sampleRate = sampleRate;
+    this.channels = channels;
+    this.frameBytes = frameBytes;
+    this.frameMs = frameMs;
+    this.deadAirMs = deadAirMs;
+    this.crossfadeBytes = Math.max(frameBytes, Math.round(crossfadeMs / frameMs) * frameBytes);
+    this.fadeInStep = Math.min(1, frameMs / Math.max(frameMs, crossfadeMs));
+    this.fadeOutStep = Math.min(1, frameMs / Math.max(frameMs, fadeOutMs));
+    this.shuffle = shuffle;
+  }
+
+  public async start(): Promise<void> {
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+    } catch (error) {
+      console.error('Failed to prepare the autopilot directory', { directory: this.directory, error });
+    }
+
+    this.lastSpeechAt = Date.now();
+    this.unsubscribeVoiceActivity = this.mixer.onVoiceActivity((id, speaking) => this.handleVoiceActivity(id, speaking));
+    this.checkTimer = setInterval(() => this.checkDeadAir(), DEAD_AIR_CHECK_INTERVAL_MS);
+    if (typeof this.checkTimer.unref === 'function') {
+      this.checkTimer.unref();
+    }
+  }
+
+  public stop(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+    this.unsubscribeVoiceActivity?.();
+    this.unsubscribeVoiceActivity = null;
+    this.speakingSources.clear();
+    this.endSession();
+  }
+
+  public getState(): AutopilotState {
+    const { session } = this;
+    const track = session?.current?.track ?? null;
+    return {
+      active: this.phase !== 'off',
+      phase: this.phase,
+      track:
+        track && session
+          ? { kind: track.kind, title: track.title, startedAt: new Date(session.trackStartedAt).toISOString() }
+          : null,
+      updatedAt: new Date(this.updatedAt).toISOString(),
+    };
+  }
+
+  public onStateChange(listener: (state: AutopilotState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.updatedAt = Date.now();
+    const state = this.getState();
+    for (const listener of this.listeners) {
+      try {
+        listener(state);
+      } catch (error) {
+        console.error('Autopilot state listener failed', error);
+      }
+    }
+  }
+
+  private setPhase(phase: AutopilotPhase): void {
+    if (this.phase === phase) {
+      return;
+    }
+    this.phase = phase;
+    this.notify();
+  }
+
+  private handleVoiceActivity(id: string, speaking: boolean): void {
+    if (id === AUTOPILOT_SOURCE_ID) {
+      return;
+    }
+    this.lastSpeechAt = Date.now();
+    if (!speaking) {
+      this.speakingSources.delete(id);
+      return;
+    }
+
+    this.speakingSources.add(id);
+    const { session } = this;
+    if (session && session.target > 0) {
+      session.target = 0;
+      console.info('Autopilot fading out: someone is speaking');
+      this.setPhase('fading-out');
+    }
+  }
+
+  private checkDeadAir(): void {
+    if (this.session || this.engaging || this.speakingSources.size > 0) {
+      return;
+    }
+    if (Date.now() - this.lastSpeechAt < this.deadAirMs) {
+      return;
+    }
+    void this.engage();
+  }
+
+  private async engage(): Promise<void> {
+    this.engaging = true;
+    let playlist: AutopilotTrack[];
+    try {
+      playlist = await this.buildPlaylist();
+    } finally {
+      this.engaging = false;
+    }
+
+    if (!this.checkTimer || this.session || this.speakingSources.size > 0) {
+      return;
+    }
+    if (playlist.length === 0) {
+      // Checked again after the next stretch of dead air, so files added meanwhile are picked up.
+      this.lastSpeechAt = Date.now();
+      return;
+    }
+
+    this.playlist = playlist;
+    this.position = this.shuffle ? 0 : this.position % playlist.length;
+    this.mixer.addSource(AUTOPILOT_SOURCE_ID, { processed: false });
+    const startedAt = Date.now();
+    const session: Session = {
+      playout: new PcmPlayout(() => this.renderFrame(session), {
+        frameBytes: this.frameBytes,
+        frameMs: this.frameMs,
+        onFrame: (frame) => {
+          if (this.session === session) {
+            this.mixer.pushToSource(AUTOPILOT_SOURCE_ID, frame);
+          }
+        },
+      }),
+      current: null,
+      next: null,
+      trackStartedAt: startedAt,
+      failures: 0,
+      level: 0,
+      target: 1,
+    };
+    this.session = session;
+    session.current = this.openNextTrack();
+    console.info(`Autopilot taking over after ${Math.round((startedAt - this.lastSpeechAt) / 1000)}s of dead air`);
+    this.phase = 'fading-in';
+    this.notify();
+    session.playout.start();
+  }
+
+  private async buildPlaylist(): Promise<AutopilotTrack[]> {
+    const tracks: AutopilotTrack[] = [];
+
+    let fileNames: string[] = [];
+    try {
+      fileNames = (await fs.readdir(this.directory)).sort((a, b) => a.localeCompare(b));
+    } catch (error) {
+      console.error('Failed to list the autopilot directory', { directory: this.directory, error });
+    }
+    for (const fileName of fileNames) {
+      if (AUDIO_FILE_EXTENSIONS.has(path.extname(fileName).toLowerCase())) {
+        tracks.push({ kind: 'track', title: path.parse(fileName).name, filePath: path.join(this.directory, fileName) });
+      }
+    }
+
+    if (this.showArchiveService) {
+      try {
+        for (const archive of await this.showArchiveService.listArchives()) {
+          const filePath = this.showArchiveService.resolveAudioPath(archive.id);
+          if (!filePath || archive.inProgress || archive.speakers.length === 0 || archive.durationMs < MIN_REBROADCAST_MS) {
+            continue;
+          }
+          tracks.push({
+            kind: 'rebroadcast',
+            title: `Émission du ${rebroadcastDateFormat.format(new Date(archive.startedAt))}`,
+            filePath,
+          });
+        }
+      } catch (error) {
+        console.error('Failed to list the archives to rebroadcast', error);
+      }
+    }
+
+    return this.shuffle ? shuffled(tracks) : tracks;
+  }
+
+  private openNextTrack(): TrackDecoder {
+    const track = this.playlist[this.position];
+    this.position += 1;
+    if (this.position >= this.playlist.length) {
+      this.position = 0;
+      if (this.shuffle) {
+        this.playlist = shuffled(this.playlist);
+      }
+    }
+    return new TrackDecoder(
+      track,
+      { ffmpegPath: this.ffmpegPath, sampleRate: this.sampleRate, channels: this.channels },
+      this.crossfadeBytes + Math.round(DECODER_HEADROOM_MS / this.frameMs) * this.frameBytes,
+    );
+  }
+
+  private renderFrame(session: Session): Buffer | null {
+    const current = this.advanceTrack(session);
+    if (!current) {
+      return null;
+    }
+
+    const samples = new Float32Array(this.frameBytes / 2);
+    const remainingBefore = current.remainingBytes;
+    this.accumulate(samples, current.read(this.frameBytes), 1, 1);
+
+    // Once the current track is down to its last crossfade, the next one starts underneath it.
+    if (remainingBefore !== null && remainingBefore <= this.crossfadeBytes) {
+      session.next ??= this.openNextTrack();
+      const outStart = remainingBefore / this.crossfadeBytes;
+      const outEnd = (current.remainingBytes ?? 0) / this.crossfadeBytes;
+      this.scale(samples, outStart, outEnd);
+      this.accumulate(samples, session.next.read(this.frameBytes), 1 - outStart, 1 - outEnd);
+    }
+
+    const levelStart = session.level;
+    const step = session.target > session.level ? this.fadeInStep : this.fadeOutStep;
+    session.level =
+      session.target > session.level
+        ? Math.min(session.target, session.level + step)
+        : Math.max(session.target, session.level - step);
+    this.scale(samples, levelStart, session.level);
+
+    if (session.level >= 1 && this.phase === 'fading-in') {
+      this.setPhase('on-air');
+    } else if (session.level <= 0 && session.target <= 0) {
+      this.endSession();
+    }
+
+    const frame = Buffer.allocUnsafe(this.frameBytes);
+    for (let i = 0; i < samples.length; i += 1) {
+      frame.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(samples[i]))), i * 2);
+    }
+    return frame;
+  }
+
+  /** Moves on from a finished track; returns null when the session had to end. */
+  private advanceTrack(session: Session): TrackDecoder | null {
+    while (session.current?.exhausted) {
+      const finished = session.current;
+      finished.close();
+      session.failures = finished.producedAudio ? 0 : session.failures + 1;
+      if (session.failures >= this.playlist.length) {
+        console.warn('Autopilot found no playable track, back to silence');
+        this.lastSpeechAt = Date.now();
+        this.endSession();
+        return null;
+      }
+      session.current = session.next ?? this.openNextTrack();
+      session.next = null;
+      session.trackStartedAt = Date.now();
+      console.info(`Autopilot now playing "${session.current.track.title}"`);
+      this.notify();
+    }
+    return session.current;
+  }
+
+  private accumulate(samples: Float32Array, frame: Buffer | null, gainStart: number, gainEnd: number): void {
+    if (!frame) {
+      return;
+    }
+    const gainStep = (gainEnd - gainStart) / samples.length;
+    for (let i = 0; i < samples.length; i += 1) {
+      samples[i] += frame.readInt16LE(i * 2) * (gainStart + gainStep * i);
+    }
+  }
+
+  private scale(samples: Float32Array, gainStart: number, gainEnd: number): void {
+    if (gainStart === 1 && gainEnd === 1) {
+      return;
+    }
+    const gainStep = (gainEnd - gainStart) / samples.length;
+    for (let i = 0; i < samples.length; i += 1) {
+      samples[i] *= gainStart + gainStep * i;
+    }
+  }
+
+  private endSession(): void {
+    const { session } = this;
+    if (!session) {
+      return;
+    }
+    session.playout.stop();
+    session.current?.close();
+    session.next?.close();
+    this.session = null;
+    this.mixer.removeSource(AUTOPILOT_SOURCE_ID);
+    console.info('Autopilot handed the air back');
+    this.setPhase('off');
+  }
+}
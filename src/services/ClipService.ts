@@ -0,0 +1,481 @@
+import { spawn } from 'child_process';
+import crypto from 'crypto';
+import { promises as fs, mkdirSync } from 'fs';
+import path from 'path';
+import { Writable } from 'stream';
+import type BroadcastDelay from '../audio/BroadcastDelay';
+import type PcmFanout from '../audio/PcmFanout';
+import PcmRingBuffer from '../audio/PcmRingBuffer';
+import type KaldiTranscriptionService from './KaldiTranscriptionService';
+import type { VoiceTranscriptionEvent } from './KaldiTranscriptionService';
+import type SpeakerTracker from './SpeakerTracker';
+import type { SpeakingChangeEvent } from './SpeakerTracker';
+
+export interface ClipServiceOptions {
+  ffmpegPath: string;
+  sampleRate: number;
+  channels: number;
+  directory: string;
+  bitrate: string;
+  bufferSeconds: number;
+  maxClipSeconds: number;
+  speakerTracker: Pick<SpeakerTracker, 'onSpeakingChange'>;
+  transcriptionService: Pick<KaldiTranscriptionService, 'onTranscription'> | null;
+  /** The buffered audio lags the room by the broadcast delay; speaking turns and transcriptions do not. */
+  broadcastDelay?: Pick<BroadcastDelay, 'getCurrentDelayMs'> | null;
+}
+
+export interface CreateClipOptions {
+  seconds: number;
+  title?: string | null;
+  requestedBy?: string | null;
+}
+
+export interface ClipTranscription {
+  offsetMs: number;
+  durationMs: number;
+  userId: string;
+  displayName: string | null;
+  content: string;
+}
+
+export interface ClipManifest {
+  id: string;
+  title: string;
+  createdAt: string;
+  startedAt: string;
+  durationMs: number;
+  audioFile: string;
+  sizeBytes: number;
+  requestedBy: string | null;
+  speakers: string[];
+  transcriptions: ClipTranscription[];
+}
+
+interface SpeakingTurn {
+  userId: string;
+  startedAt: number;
+  endedAt: number | null;
+}
+
+interface RecentTranscription {
+  userId: string;
+  content: string;
+  startedAt: number;
+  endedAt: number;
+}
+
+interface PendingClip {
+  manifest: ClipManifest;
+  startedAt: number;
+  endedAt: number;
+  expiresAt: number;
+}
+
+const MANIFEST_SUFFIX = '.json';
+
+const AUDIO_SUFFIX = '.mp3';
+
+const MAX_TITLE_LENGTH = 120;
+
+const MAX_SPEAKERS_IN_TITLE = 3;
+
+/** Utterances are transcribed once they end, so a fresh clip keeps collecting its excerpt for a while. */
+const LATE_TRANSCRIPTION_GRACE_MS = 60_000;
+
+export const CLIP_ID_PATTERN = /^[A-Za-z0-9_-]{12}$/;
+
+/**
+ * Keeps the last `bufferSeconds` of the master mix in memory and cuts clips of
+ * the last N seconds to MP3 on demand. Each `<id>.mp3` gets a `<id>.json`
+ * manifest with the speakers heard and the voice transcriptions that overlap
+ * the clip, placed on the clip timeline.
+ */
+export default class ClipService {
+  private readonly ffmpegPath: string;
+
+  private readonly sampleRate: number;
+
+  private readonly channels: number;
+
+  private readonly directory: string;
+
+  private readonly bitrate: string;
+
+  private readonly bufferMs: number;
+
+  private readonly maxClipSeconds: number;
+
+  private readonly bytesPerMs: number;
+
+  private readonly buffer: PcmRingBuffer;
+
+  private readonly speakerTracker: Pick<SpeakerTracker, 'onSpeakingChange'>;
+
+  private readonly transcriptionService: Pick<KaldiTranscriptionService, 'onTranscription'> | null;
+
+  private readonly broadcastDelay: Pick<BroadcastDelay, 'getCurrentDelayMs'> | null;
+
+  private readonly unsubscribers: Array<() => void> = [];
+
+  private readonly speakerNames = new Map<string, string>();
+
+  private readonly turns: SpeakingTurn[] = [];
+
+  private readonly recentTranscriptions: RecentTranscription[] = [];
+
+  private readonly pendingClips = new Map<string, PendingClip>();
+
+  private input: PcmFanout | null = null;
+
+  private sink: Writable | null = null;
+
+  constructor({
+    ffmpegPath,
+    sampleRate,
+    channels,
+    directory,
+    bitrate,
+    bufferSeconds,
+    maxClipSeconds,
+    speakerTracker,
+    transcriptionService,
+    broadcastDelay = null,
+  }: ClipServiceOptions) {
+    this.ffmpegPath = ffmpegPath;
+    this.sampleRate = sampleRate;
+    this.channels = channels;
+    this.directory = directory;
+    this.bitrate = bitrate;
+    this.bufferMs = Math.max(1, bufferSeconds) * 1000;
+    this.maxClipSeconds = Math.max(1, Math.min(bufferSeconds, maxClipSeconds));
+    this.bytesPerMs = (sampleRate * channels * 2) / 1000;
+    this.buffer = new PcmRingBuffer(Math.max(1, bufferSeconds) * sampleRate * channels * 2);
+    this.speakerTracker = speakerTracker;
+    this.transcriptionService = transcriptionService;
+    this.broadcastDelay = broadcastDelay;
+  }
+
+  public get maxSeconds(): number {
+    return this.maxClipSeconds;
+  }
+
+  public start(input: PcmFanout): void {
+    try {
+      mkdirSync(this.directory, { recursive: true });
+    } catch (error) {
+      console.error('Failed to prepare clip directory', { directory: this.directory, error });
+    }
+
+    this.input = input;
+    this.sink = new Writable({
+      write: (chunk: Buffer, _encoding, callback) => {
+        this.buffer.write(chunk);
+        callback();
+      },
+    });
+    input.addSink(this.sink);
+
+    this.unsubscribers.push(this.speakerTracker.onSpeakingChange((event) => this.handleSpeakingChange(event)));
+    if (this.transcriptionService) {
+      this.unsubscribers.push(this.transcriptionService.onTranscription((event) => this.handleTranscription(event)));
+    }
+  }
+
+  public stop(): void {
+    for (const unsubscribe of this.unsubscribers.splice(0)) {
+      unsubscribe();
+    }
+    if (this.sink) {
+      this.input?.removeSink(this.sink);
+      this.sink.destroy();
+      this.sink = null;
+    }
+    this.input = null;
+    this.buffer.clear();
+    this.pendingClips.clear();
+  }
+
+  /** Seconds of program audio currently available for a clip. */
+  public getBufferedSeconds(): number {
+    return Math.floor(this.buffer.length / this.bytesPerMs / 1000);
+  }
+
+  /**
+   * Encodes the last `seconds` of the mix. Throws `CLIP_BUFFER_EMPTY` when
+   * nothing has been buffered yet and `CLIP_ENCODING_FAILED` when ffmpeg fails.
+   */
+  public async createClip({ seconds, title = null, requestedBy = null }: CreateClipOptions): Promise<ClipManifest> {
+    const requestedMs = Math.min(this.maxClipSeconds, Math.max(1, seconds)) * 1000;
+    const frameBytes = this.channels * 2;
+    const byteLength = Math.floor((requestedMs * this.bytesPerMs) / frameBytes) * frameBytes;
+    const pcm = this.buffer.copyLatest(byteLength);
+    if (pcm.length === 0) {
+      throw new Error('CLIP_BUFFER_EMPTY');
+    }
+
+    const createdAt = Date.now();
+    const endedAt = createdAt - (this.broadcastDelay?.getCurrentDelayMs() ?? 0);
+    const durationMs = Math.round(pcm.length / this.bytesPerMs);
+    const startedAt = endedAt - durationMs;
+    const id = crypto.randomBytes(9).toString('base64url');
+    const transcriptions = this.recentTranscriptions
+      .filter((entry) => entry.endedAt > startedAt && entry.startedAt < endedAt)
+      .map((entry) => this.toClipTranscription(entry, startedAt));
+    const speakers = this.collectSpeakers(startedAt, endedAt, transcriptions);
+    const trimmedTitle = typeof title === 'string' ? title.trim().slice(0, MAX_TITLE_LENGTH) : '';
+
+    const audioPath = path.join(this.directory, `${id}${AUDIO_SUFFIX}`);
+    try {
+      await this.encode(pcm, audioPath, trimmedTitle || id);
+    } catch (error) {
+      await fs.rm(audioPath, { force: true }).catch(() => undefined);
+      throw error;
+    }
+
+    let sizeBytes = 0;
+    try {
+      sizeBytes = (await fs.stat(audioPath)).size;
+    } catch (error) {
+      console.error('Clip audio file is missing after encoding', { id, error });
+      throw new Error('CLIP_ENCODING_FAILED');
+    }
+
+    const manifest: ClipManifest = {
+      id,
+      title: trimmedTitle || this.buildDefaultTitle(speakers),
+      createdAt: new Date(createdAt).toISOString(),
+      startedAt: new Date(startedAt).toISOString(),
+      durationMs,
+      audioFile: `${id}${AUDIO_SUFFIX}`,
+      sizeBytes,
+      requestedBy: requestedBy?.trim() || null,
+      speakers,
+      transcriptions,
+    };
+    await this.writeManifest(manifest);
+
+    this.pendingClips.set(id, {
+      manifest,
+      startedAt,
+      endedAt,
+      expiresAt: Date.now() + LATE_TRANSCRIPTION_GRACE_MS,
+    });
+    console.log(`Clip ${id} saved (${Math.round(durationMs / 1000)} s, ${transcriptions.length} transcriptions)`);
+    return { ...manifest, speakers: manifest.speakers.slice(), transcriptions: transcriptions.slice() };
+  }
+
+  public async listClips(): Promise<ClipManifest[]> {
+    let entries: string[] = [];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+        console.error('Failed to list clip directory', error);
+      }
+      return [];
+    }
+
+    const clips: ClipManifest[] = [];
+    for (const entry of entries) {
+      const id = entry.endsWith(MANIFEST_SUFFIX) ? entry.slice(0, -MANIFEST_SUFFIX.length) : null;
+      if (!id || !CLIP_ID_PATTERN.test(id)) {
+        continue;
+      }
+      const manifest = await this.readManifest(id);
+      if (manifest) {
+        clips.push(manifest);
+      }
+    }
+
+    return clips.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  public async getClip(id: string): Promise<ClipManifest | null> {
+    return CLIP_ID_PATTERN.test(id) ? this.readManifest(id) : null;
+  }
+
+  /** Removes the audio file and the manifest. Returns false when the clip does not exist. */
+  public async deleteClip(id: string): Promise<boolean> {
+    if (!CLIP_ID_PATTERN.test(id)) {
+      return false;
+    }
+    this.pendingClips.delete(id);
+
+    let removed = false;
+    for (const suffix of [MANIFEST_SUFFIX, AUDIO_SUFFIX]) {
+      try {
+        await fs.unlink(path.join(this.directory, `${id}${suffix}`));
+        removed = true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    }
+    return removed;
+  }
+
+  /** Resolves the audio file of a clip from a request, or null when the id is not one of ours. */
+  public resolveAudioPath(id: string): string | null {
+    return CLIP_ID_PATTERN.test(id) ? path.join(this.directory, `${id}${AUDIO_SUFFIX}`) : null;
+  }
+
+  private handleSpeakingChange({ type, user, timestamp }: SpeakingChangeEvent): void {
+    this.speakerNames.set(user.id, user.displayName || user.username);
+
+    if (type === 'start') {
+      this.turns.push({ userId: user.id, startedAt: timestamp, endedAt: null });
+    } else {
+      for (let index = this.turns.length - 1; index >= 0; index -= 1) {
+        const turn = this.turns[index];
+        if (turn.userId === user.id && turn.endedAt === null) {
+          turn.endedAt = timestamp;
+          break;
+        }
+      }
+    }
+    this.pruneHistory(timestamp);
+  }
+
+  private handleTranscription({ userId, content, startedAt, endedAt }: VoiceTranscriptionEvent): void {
+    const entry: RecentTranscription = {
+      userId,
+      content,
+      startedAt: startedAt.getTime(),
+      endedAt: endedAt.getTime(),
+    };
+    this.recentTranscriptions.push(entry);
+    this.pruneHistory(Date.now());
+
+    for (const pending of this.pendingClips.values()) {
+      if (entry.endedAt <= pending.startedAt || entry.startedAt >= pending.endedAt) {
+        continue;
+      }
+      const transcription = this.toClipTranscription(entry, pending.startedAt);
+      pending.manifest.transcriptions.push(transcription);
+      pending.manifest.transcriptions.sort((a, b) => a.offsetMs - b.offsetMs);
+      if (transcription.displayName && !pending.manifest.speakers.includes(transcription.displayName)) {
+        pending.manifest.speakers.push(transcription.displayName);
+      }
+      void this.writeManifest(pending.manifest);
+    }
+  }
+
+  private pruneHistory(now: number): void {
+    const delayMs = this.broadcastDelay?.getCurrentDelayMs() ?? 0;
+    const horizon = now - delayMs - this.bufferMs - LATE_TRANSCRIPTION_GRACE_MS;
+    while (this.turns.length > 0 && this.turns[0].endedAt !== null && this.turns[0].endedAt < horizon) {
+      this.turns.shift();
+    }
+    while (this.recentTranscriptions.length > 0 && this.recentTranscriptions[0].endedAt < horizon) {
+      this.recentTranscriptions.shift();
+    }
+    for (const [id, pending] of this.pendingClips) {
+      if (pending.expiresAt <= now) {
+        this.pendingClips.delete(id);
+      }
+    }
+  }
+
+  private toClipTranscription(entry: RecentTranscription, clipStartedAt: number): ClipTranscription {
+    return {
+      offsetMs: Math.max(0, entry.startedAt - clipStartedAt),
+      durationMs: Math.max(0, entry.endedAt - entry.startedAt),
+      userId: entry.userId,
+      displayName: this.speakerNames.get(entry.userId) ?? null,
+      content: entry.content,
+    };
+  }
+
+  private collectSpeakers(startedAt: number, endedAt: number, transcriptions: ClipTranscription[]): string[] {
+    const speakers = new Set<string>();
+    for (const turn of this.turns) {
+      if (turn.startedAt < endedAt && (turn.endedAt === null || turn.endedAt > startedAt)) {
+        speakers.add(this.speakerNames.get(turn.userId) ?? turn.userId);
+      }
+    }
+    for (const transcription of transcriptions) {
+      if (transcription.displayName) {
+        speakers.add(transcription.displayName);
+      }
+    }
+    return Array.from(speakers);
+  }
+
+  private buildDefaultTitle(speakers: string[]): string {
+    if (speakers.length === 0) {
+      return 'Extrait du direct';
+    }
+    const names = speakers.slice(0, MAX_SPEAKERS_IN_TITLE).join(', ');
+    return speakers.length > MAX_SPEAKERS_IN_TITLE ? `Extrait avec ${names}…` : `Extrait avec ${names}`;
+  }
+
+  private encode(pcm: Buffer, target: string, title: string): Promise<void> {
+    const args = [
+      '-f',
+      's16le',
+      '-ar',
+      String(this.sampleRate),
+      '-ac',
+      String(this.channels),
+      '-i',
+      'pipe:0',
+      '-vn',
+      '-loglevel',
+      'error',
+      '-c:a',
+      'libmp3lame',
+      '-b:a',
+      String(this.bitrate),
+      '-metadata',
+      `title=${title}`,
+      '-f',
+      'mp3',
+      '-y',
+      target,
+    ];
+
+    return new Promise<void>((resolve, reject) => {
+      const ffmpeg = spawn(this.ffmpegPath, args, { stdio: ['pipe', 'ignore', 'pipe'] });
+      ffmpeg.stderr.on('data', (data: Buffer) => process.stderr.write(data.toString()));
+      ffmpeg.stdin.on('error', (error: Error) => {
+        console.error('Clip ffmpeg stdin error', error);
+      });
+      ffmpeg.on('error', (error) => {
+        console.error('Clip ffmpeg error', error);
+        reject(new Error('CLIP_ENCODING_FAILED'));
+      });
+      ffmpeg.on('exit', (code, signal) => {
+        if (code === 0) {
+          resolve();
+          return;
+        }
+        console.error(`Clip ffmpeg exited code=${code} signal=${signal}`);
+        reject(new Error('CLIP_ENCODING_FAILED'));
+      });
+      ffmpeg.stdin.end(pcm);
+    });
+  }
+
+  private async writeManifest(manifest: ClipManifest): Promise<void> {
+    const target = path.join(this.directory, `${manifest.id}${MANIFEST_SUFFIX}`);
+    try {
+      await fs.writeFile(target, `${JSON.stringify(manifest, null, 2)}\n`, 'utf8');
+    } catch (error) {
+      console.error('Failed to write clip manifest', { id: manifest.id, error });
+    }
+  }
+
+  private async readManifest(id: string): Promise<ClipManifest | null> {
+    try {
+      const raw = await fs.readFile(path.join(this.directory, `${id}${MANIFEST_SUFFIX}`), 'utf8');
+      return JSON.parse(raw) as ClipManifest;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+        console.error('Failed to read clip manifest', { id, error });
+      }
+      return null;
+    }
+  }
+}
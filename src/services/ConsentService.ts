@@ -0,0 +1,178 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+export type ConsentScope = 'mix' | 'transcription' | 'recording' | 'persona';
+
+export const CONSENT_SCOPES: readonly ConsentScope[] = ['mix', 'transcription', 'recording', 'persona'];
+
+/** `true` while the member accepts the use; everyone accepts everything until they opt out. */
+export interface MemberConsent {
+  userId: string;
+  mix: boolean;
+  transcription: boolean;
+  recording: boolean;
+  persona: boolean;
+  updatedAt: string | null;
+}
+
+export type ConsentUpdate = Partial<Record<ConsentScope, boolean>>;
+
+export interface ConsentChange {
+  consent: MemberConsent;
+  withdrawn: ConsentScope[];
+  granted: ConsentScope[];
+}
+
+interface ConsentServiceOptions {
+  storageDirectory: string;
+  fileName?: string;
+}
+
+/**
+ * Per-member opt-outs from the stream mix, the transcription, the recorded
+ * excerpts and persona generation. Lookups are synchronous so the audio path
+ * can check them on every packet; changes are persisted to a JSON file and
+ * announced to listeners, which apply them to live sessions.
+ */
+export default class ConsentService {
+  private readonly storageDirectory: string;
+
+  private readonly filePath: string;
+
+  private readonly listeners = new Set<(change: ConsentChange) => void>();
+
+  /** Only members who opted out of something are kept. */
+  private consents: Map<string, MemberConsent> = new Map();
+
+  private updateQueue: Promise<unknown> = Promise.resolve();
+
+  constructor({ storageDirectory, fileName = 'consent.json' }: ConsentServiceOptions) {
+    this.storageDirectory = storageDirectory;
+    this.filePath = path.join(this.storageDirectory, fileName);
+  }
+
+  public async initialize(): Promise<void> {
+    try {
+      await fs.mkdir(this.storageDirectory, { recursive: true });
+    } catch (error) {
+      console.warn('ConsentService: unable to ensure storage directory', error);
+    }
+
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      const parsed = JSON.parse(raw) as Array<Partial<MemberConsent>>;
+      if (Array.isArray(parsed)) {
+        this.consents = new Map(
+          parsed
+            .map((entry) => this.normalizeRecord(entry))
+            .filter((entry): entry is MemberConsent => entry !== null)
+            .map((entry) => [entry.userId, entry]),
+        );
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+        console.warn('ConsentService: failed to read consent registry', error);
+      }
+      this.consents = new Map();
+    }
+  }
+
+  public onChange(listener: (change: ConsentChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public getConsent(userId: string): MemberConsent {
+    const stored = this.consents.get(userId);
+    if (stored) {
+      return { ...stored };
+    }
+    return { userId, mix: true, transcription: true, recording: true, persona: true, updatedAt: null };
+  }
+
+  public hasConsented(userId: string, scope: ConsentScope): boolean {
+    return this.consents.get(userId)?.[scope] ?? true;
+  }
+
+  public listOptOuts(): MemberConsent[] {
+    return Array.from(this.consents.values(), (entry) => ({ ...entry }));
+  }
+
+  public async update(userId: string, update: ConsentUpdate): Promise<MemberConsent> {
+    const normalizedId = typeof userId === 'string' ? userId.trim() : '';
+    if (!normalizedId) {
+      throw new Error('USER_ID_REQUIRED');
+    }
+
+    // Updates are chained so each one starts from the registry the previous one saved.
+    const run = this.updateQueue.then(() => this.applyUpdate(normalizedId, update));
+    this.updateQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /** The registry only changes once the file is written, so a failed write leaves the previous consent in force. */
+  private async applyUpdate(userId: string, update: ConsentUpdate): Promise<MemberConsent> {
+    const previous = this.getConsent(userId);
+    const next: MemberConsent = { ...previous };
+    const withdrawn: ConsentScope[] = [];
+    const granted: ConsentScope[] = [];
+    for (const scope of CONSENT_SCOPES) {
+      const value = update[scope];
+      if (typeof value !== 'boolean' || value === previous[scope]) {
+        continue;
+      }
+      next[scope] = value;
+      (value ? granted : withdrawn).push(scope);
+    }
+
+    if (withdrawn.length === 0 && granted.length === 0) {
+      return previous;
+    }
+
+    next.updatedAt = new Date().toISOString();
+    const consents = new Map(this.consents);
+    if (CONSENT_SCOPES.every((scope) => next[scope])) {
+      consents.delete(userId);
+    } else {
+      consents.set(userId, next);
+    }
+    await this.persist(consents);
+    this.consents = consents;
+
+    console.info('Consent updated', { userId, withdrawn, granted });
+    for (const listener of this.listeners) {
+      try {
+        listener({ consent: { ...next }, withdrawn, granted });
+      } catch (error) {
+        console.error('Consent change listener failed', error);
+      }
+    }
+    return { ...next };
+  }
+
+  private normalizeRecord(entry: Partial<MemberConsent> | null | undefined): MemberConsent | null {
+    const userId = typeof entry?.userId === 'string' ? entry.userId.trim() : '';
+    if (!userId) {
+      return null;
+    }
+    return {
+      userId,
+      mix: entry?.mix !== false,
+      transcription: entry?.transcription !== false,
+      recording: entry?.recording !== false,
+      persona: entry?.persona !== false,
+      updatedAt: typeof entry?.updatedAt === 'string' ? entry.updatedAt : null,
+    };
+  }
+
+  private async persist(consents: Map<string, MemberConsent>): Promise<void> {
+    const payload = JSON.stringify(
+      Array.from(consents.values()).sort((a, b) => (a.updatedAt ?? '').localeCompare(b.updatedAt ?? '')),
+      null,
+      2,
+    );
+    await fs.writeFile(this.filePath, `${payload}\n`, 'utf8');
+  }
+}
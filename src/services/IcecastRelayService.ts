@@ -0,0 +1,383 @@
+import net from 'net';
+import type { PassThrough } from 'stream';
+
+export type IcecastProtocol = 'icecast' | 'shoutcast';
+
+export type IcecastRelayState = 'connecting' | 'connected' | 'waiting' | 'stopped';
+
+/** Encoded stream a relay reads from; `FfmpegTranscoder` satisfies it. */
+export interface IcecastStreamSource {
+  getHeaderBuffer(): Buffer;
+  createClientStream(): PassThrough;
+  releaseClientStream(stream: PassThrough): void;
+}
+
+export interface IcecastRelayTarget {
+  id: string;
+  protocol: IcecastProtocol;
+  host: string;
+  port: number;
+  mount: string;
+  username: string;
+  password: string;
+  format: string;
+  mimeType: string;
+  bitrate: string;
+  source: IcecastStreamSource;
+}
+
+export interface IcecastStreamMetadata {
+  name: string;
+  description: string;
+  genre: string;
+  url: string;
+  public: boolean;
+}
+
+export interface IcecastRelayServiceOptions {
+  targets: IcecastRelayTarget[];
+  metadata: IcecastStreamMetadata;
+  reconnectMinDelayMs?: number;
+  reconnectMaxDelayMs?: number;
+  handshakeTimeoutMs?: number;
+  maxBufferedBytes?: number;
+}
+
+export interface IcecastRelayStatus {
+  id: string;
+  protocol: IcecastProtocol;
+  host: string;
+  port: number;
+  mount: string;
+  format: string;
+  state: IcecastRelayState;
+  connectedAt: string | null;
+  bytesSent: number;
+  reconnectAttempts: number;
+  nextRetryAt: string | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+}
+
+interface RelayConnection {
+  target: IcecastRelayTarget;
+  state: IcecastRelayState;
+  socket: net.Socket | null;
+  clientStream: PassThrough | null;
+  retryTimer: NodeJS.Timeout | null;
+  connectedAt: number | null;
+  bytesSent: number;
+  reconnectAttempts: number;
+  nextRetryAt: number | null;
+  lastError: string | null;
+  lastErrorAt: number | null;
+}
+
+const USER_AGENT = 'LibreAntenne/1.0';
+
+const MAX_HANDSHAKE_BYTES = 16 * 1024;
+
+/**
+ * Source client that pushes encoded renditions to Icecast or Shoutcast servers
+ * so partner radios can relay the show from their own mountpoints. Icecast
+ * targets use the HTTP `PUT` source protocol (Icecast 2.4+); Shoutcast targets
+ * use the legacy v1 password handshake. Each target reconnects on its own with
+ * an exponential backoff, and a target that stops reading is dropped rather than
+ * buffered without bound.
+ */
+export default class IcecastRelayService {
+  private readonly connections: RelayConnection[];
+
+  private readonly metadata: IcecastStreamMetadata;
+
+  private readonly reconnectMinDelayMs: number;
+
+  private readonly reconnectMaxDelayMs: number;
+
+  private readonly handshakeTimeoutMs: number;
+
+  private readonly maxBufferedBytes: number;
+
+  private started = false;
+
+  constructor({
+    targets,
+    metadata,
+    reconnectMinDelayMs,
+    reconnectMaxDelayMs,
+    handshakeTimeoutMs,
+    maxBufferedBytes,
+  }: IcecastRelayServiceOptions) {
+    this.connections = targets.map((target) => ({
+      target,
+      state: 'stopped',
+      socket: null,
+      clientStream: null,
+      retryTimer: null,
+      connectedAt: null,
+      bytesSent: 0,
+      reconnectAttempts: 0,
+      nextRetryAt: null,
+      lastError: null,
+      lastErrorAt: null,
+    }));
+    this.metadata = metadata;
+    this.reconnectMinDelayMs = Math.max(0, reconnectMinDelayMs ?? 1000);
+    this.reconnectMaxDelayMs = Math.max(this.reconnectMinDelayMs, reconnectMaxDelayMs ?? 60000);
+    this.handshakeTimeoutMs = Math.max(100, handshakeTimeoutMs ?? 10000);
+    this.maxBufferedBytes = Math.max(1024, maxBufferedBytes ?? 1024 * 1024);
+  }
+
+  public start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    for (const connection of this.connections) {
+      this.connect(connection);
+    }
+  }
+
+  public stop(): void {
+    this.started = false;
+    for (const connection of this.connections) {
+      if (connection.retryTimer) {
+        clearTimeout(connection.retryTimer);
+        connection.retryTimer = null;
+      }
+      connection.nextRetryAt = null;
+      this.teardown(connection);
+      connection.state = 'stopped';
+    }
+  }
+
+  public getStatus(): IcecastRelayStatus[] {
+    return this.connections.map(({ target, ...connection }) => ({
+      id: target.id,
+      protocol: target.protocol,
+      host: target.host,
+      port: target.port,
+      mount: target.mount,
+      format: target.format,
+      state: connection.state,
+      connectedAt: toIsoString(connection.connectedAt),
+      bytesSent: connection.bytesSent,
+      reconnectAttempts: connection.reconnectAttempts,
+      nextRetryAt: toIsoString(connection.nextRetryAt),
+      lastError: connection.lastError,
+      lastErrorAt: toIsoString(connection.lastErrorAt),
+    }));
+  }
+
+  private connect(connection: RelayConnection): void {
+    if (!this.started || connection.socket) {
+      return;
+    }
+
+    const { target } = connection;
+    connection.state = 'connecting';
+    connection.nextRetryAt = null;
+
+    const socket = net.connect({ host: target.host, port: target.port });
+    connection.socket = socket;
+    socket.setNoDelay(true);
+    socket.setTimeout(this.handshakeTimeoutMs);
+
+    let response = '';
+    let handshakeDone = false;
+    let failure: string | null = null;
+
+    const fail = (reason: string): void => {
+      socket.destroy(new Error(reason));
+    };
+
+    socket.on('connect', () => {
+      socket.write(target.protocol === 'shoutcast' ? `${target.password}\r\n` : this.buildPutRequest(target));
+    });
+
+    socket.on('data', (data: Buffer) => {
+      if (handshakeDone) {
+        // Servers do not talk once the source is accepted; ignore anything they send.
+        return;
+      }
+
+      response += data.toString('latin1');
+      const lineEnd = response.indexOf('\r\n');
+      if (lineEnd === -1) {
+        if (response.length > MAX_HANDSHAKE_BYTES) {
+          fail('Invalid handshake response');
+        }
+        return;
+      }
+
+      const statusLine = response.slice(0, lineEnd).trim();
+      if (!this.isHandshakeAccepted(target, statusLine)) {
+        fail(`Rejected by server: ${statusLine || 'empty response'}`);
+        return;
+      }
+
+      handshakeDone = true;
+      socket.setTimeout(0);
+      if (target.protocol === 'shoutcast') {
+        socket.write(this.buildShoutcastHeaders(target));
+      }
+      this.beginStreaming(connection, socket);
+    });
+
+    socket.on('timeout', () => {
+      fail('Handshake timed out');
+    });
+
+    socket.on('error', (error: Error) => {
+      failure = failure ?? error.message;
+    });
+
+    socket.on('close', () => {
+      if (connection.socket !== socket) {
+        return;
+      }
+      const wasConnected = connection.state === 'connected';
+      this.teardown(connection);
+      if (!this.started) {
+        connection.state = 'stopped';
+        return;
+      }
+      const fallback = wasConnected ? 'Connection closed by server' : 'Connection closed during handshake';
+      this.recordError(connection, failure ?? fallback);
+      this.scheduleReconnect(connection);
+    });
+  }
+
+  private isHandshakeAccepted(target: IcecastRelayTarget, statusLine: string): boolean {
+    if (target.protocol === 'shoutcast') {
+      return statusLine.startsWith('OK');
+    }
+    const match = /^(?:HTTP\/\d\.\d|ICE\/1\.0)\s+(\d{3})/i.exec(statusLine);
+    if (!match) {
+      return false;
+    }
+    const status = Number.parseInt(match[1], 10);
+    return status === 100 || (status >= 200 && status < 300);
+  }
+
+  private beginStreaming(connection: RelayConnection, socket: net.Socket): void {
+    const { target } = connection;
+    connection.state = 'connected';
+    connection.connectedAt = Date.now();
+    connection.reconnectAttempts = 0;
+    console.log(`Icecast relay ${target.id} connected`);
+
+    const header = target.source.getHeaderBuffer();
+    if (header.length > 0) {
+      this.send(connection, socket, header);
+    }
+
+    const clientStream = target.source.createClientStream();
+    connection.clientStream = clientStream;
+    clientStream.on('data', (chunk: Buffer) => this.send(connection, socket, chunk));
+  }
+
+  private send(connection: RelayConnection, socket: net.Socket, chunk: Buffer): void {
+    if (socket.destroyed) {
+      return;
+    }
+    if (socket.writableLength > this.maxBufferedBytes) {
+      // A relay that cannot keep up with real time would only drift further behind.
+      socket.destroy(new Error('Server is not keeping up with the stream'));
+      return;
+    }
+    socket.write(chunk);
+    connection.bytesSent += chunk.length;
+  }
+
+  private teardown(connection: RelayConnection): void {
+    const { clientStream, socket } = connection;
+    connection.clientStream = null;
+    connection.socket = null;
+    connection.connectedAt = null;
+    if (clientStream) {
+      clientStream.removeAllListeners('data');
+      connection.target.source.releaseClientStream(clientStream);
+    }
+    if (socket && !socket.destroyed) {
+      socket.destroy();
+    }
+  }
+
+  private recordError(connection: RelayConnection, message: string): void {
+    connection.lastError = message;
+    connection.lastErrorAt = Date.now();
+    console.warn(`Icecast relay ${connection.target.id}: ${message}`);
+  }
+
+  private scheduleReconnect(connection: RelayConnection): void {
+    const delay = Math.min(
+      this.reconnectMaxDelayMs,
+      this.reconnectMinDelayMs * 2 ** Math.min(connection.reconnectAttempts, 16),
+    );
+    connection.reconnectAttempts += 1;
+    connection.state = 'waiting';
+    connection.nextRetryAt = Date.now() + delay;
+    connection.retryTimer = setTimeout(() => {
+      connection.retryTimer = null;
+      this.connect(connection);
+    }, delay);
+    if (typeof connection.retryTimer.unref === 'function') {
+      connection.retryTimer.unref();
+    }
+  }
+
+  private buildPutRequest(target: IcecastRelayTarget): string {
+    const credentials = Buffer.from(`${target.username}:${target.password}`).toString('base64');
+    const headers = [
+      `PUT ${target.mount} HTTP/1.1`,
+      `Host: ${target.host}:${target.port}`,
+      `Authorization: Basic ${credentials}`,
+      `User-Agent: ${USER_AGENT}`,
+      `Content-Type: ${target.mimeType}`,
+      `Ice-Public: ${this.metadata.public ? 1 : 0}`,
+      `Ice-Name: ${sanitizeHeaderValue(this.metadata.name)}`,
+      `Ice-Description: ${sanitizeHeaderValue(this.metadata.description)}`,
+      `Ice-Genre: ${sanitizeHeaderValue(this.metadata.genre)}`,
+      `Ice-Url: ${sanitizeHeaderValue(this.metadata.url)}`,
+    ];
+    const kbps = toKbps(target.bitrate);
+    if (kbps !== null) {
+      headers.push(`Ice-Audio-Info: bitrate=${kbps}`);
+    }
+    return `${headers.join('\r\n')}\r\n\r\n`;
+  }
+
+  private buildShoutcastHeaders(target: IcecastRelayTarget): string {
+    const headers = [
+      `content-type:${target.mimeType}`,
+      `icy-name:${sanitizeHeaderValue(this.metadata.name)}`,
+      `icy-genre:${sanitizeHeaderValue(this.metadata.genre)}`,
+      `icy-url:${sanitizeHeaderValue(this.metadata.url)}`,
+      `icy-pub:${this.metadata.public ? 1 : 0}`,
+    ];
+    const kbps = toKbps(target.bitrate);
+    if (kbps !== null) {
+      headers.push(`icy-br:${kbps}`);
+    }
+    return `${headers.join('\r\n')}\r\n\r\n`;
+  }
+}
+
+function toIsoString(timestamp: number | null): string | null {
+  return timestamp === null ? null : new Date(timestamp).toISOString();
+}
+
+function sanitizeHeaderValue(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+/** Converts an ffmpeg bitrate (`64000`, `64k`) to the kbit/s figure Icecast expects. */
+function toKbps(bitrate: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)\s*(k?)$/i.exec(bitrate.trim());
+  if (!match) {
+    return null;
+  }
+  const value = Number.parseFloat(match[1]);
+  return Math.round(match[2] ? value : value / 1000);
+}
@@ -11,6 +11,34 @@ export interface KaldiTranscriptionServiceOptions {
   inputChannels?: number;
 }
 
+export interface VoiceTranscriptionEvent {
+  userId: string;
+  guildId: string | null;
+  channelId: string | null;
+  content: string;
+  startedAt: Date;
+  endedAt: Date;
+}
+
+export interface VoiceTranscriptionWord {
+  word: string;
+  startedAt: Date;
+  endedAt: Date;
+}
+
+/** Hypothesis received while the user is still speaking, long before the session is persisted. */
+export interface VoiceLiveTranscriptionEvent {
+  userId: string;
+  guildId: string | null;
+  channelId: string | null;
+  text: string;
+  /** False once the recognizer has settled the segment; the next hypothesis starts a new one. */
+  partial: boolean;
+  /** Word timings, only when the recognizer returns them (Vosk finals). */
+  words: VoiceTranscriptionWord[];
+  receivedAt: Date;
+}
+
 interface SessionMetadata {
   userId: string;
   guildId: string | null;
@@ -32,6 +60,12 @@ interface KaldiSession extends SessionMetadata {
   finalizeTimeout: NodeJS.Timeout | null;
 }
 
+interface KaldiWordTiming {
+  word?: string;
+  start?: number;
+  end?: number;
+}
+
 const KALDI_DEFAULT_PATH = '/client/ws/speech';
 
 export default class KaldiTranscriptionService {
@@ -51,6 +85,10 @@ export default class KaldiTranscriptionService {
 
   private readonly sessions = new Map<string, KaldiSession>();
 
+  private readonly transcriptionListeners = new Set<(event: VoiceTranscriptionEvent) => void>();
+
+  private readonly liveTranscriptionListeners = new Set<(event: VoiceLiveTranscriptionEvent) => void>();
+
   private removeSession(session: KaldiSession): void {
     const current = this.sessions.get(session.userId);
     if (current === session) {
@@ -79,6 +117,20 @@ export default class KaldiTranscriptionService {
     return this.isEnabled;
   }
 
+  public onTranscription(listener: (event: VoiceTranscriptionEvent) => void): () => void {
+    this.transcriptionListeners.add(listener);
+    return () => {
+      this.transcriptionListeners.delete(listener);
+    };
+  }
+
+  public onLiveTranscription(listener: (event: VoiceLiveTranscriptionEvent) => void): () => void {
+    this.liveTranscriptionListeners.add(listener);
+    return () => {
+      this.liveTranscriptionListeners.delete(listener);
+    };
+  }
+
   public startSession(userId: string, metadata: { guildId: string | null; channelId: string | null }): void {
     if (!this.isEnabled) {
       return;
@@ -202,6 +254,27 @@ export default class KaldiTranscriptionService {
     return session.finalizePromise;
   }
 
+  /** Drops the user's session without persisting or announcing what was recognised. */
+  public discardSession(userId: string): void {
+    const session = this.sessions.get(userId);
+    if (!session) {
+      return;
+    }
+
+    session.transcripts.length = 0;
+    session.hasPersisted = true;
+    this.clearQueue(session);
+    if (session.ws) {
+      session.ws.removeAllListeners('message');
+      try {
+        session.ws.terminate();
+      } catch (error) {
+        console.error('Failed to close discarded Kaldi session', { userId, error });
+      }
+    }
+    this.terminateSession(session, null);
+  }
+
   private terminateSession(session: KaldiSession, error: unknown): void {
     this.clearFinalizeTimeout(session);
 
@@ -246,6 +319,15 @@ export default class KaldiTranscriptionService {
     }
 
     session.hasPersisted = true;
+    const endedAt = new Date();
+    this.notifyTranscription({
+      userId: session.userId,
+      guildId: session.guildId,
+      channelId: session.channelId,
+      content: transcript,
+      startedAt: session.startedAt,
+      endedAt,
+    });
 
     this.voiceActivityRepository
       .recordVoiceTranscription({
@@ -253,7 +335,7 @@ export default class KaldiTranscriptionService {
         guildId: session.guildId,
         channelId: session.channelId,
         content: transcript,
-        timestamp: new Date(),
+        timestamp: endedAt,
       })
       .catch((error) => {
         session.hasPersisted = false;
@@ -266,6 +348,26 @@ export default class KaldiTranscriptionService {
       });
   }
 
+  private notifyTranscription(event: VoiceTranscriptionEvent): void {
+    for (const listener of this.transcriptionListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Voice transcription listener failed', error);
+      }
+    }
+  }
+
+  private notifyLiveTranscription(event: VoiceLiveTranscriptionEvent): void {
+    for (const listener of this.liveTranscriptionListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Live voice transcription listener failed', error);
+      }
+    }
+  }
+
   private flushQueue(session: KaldiSession): void {
     if (!session.ready || !session.ws || session.ws.readyState !== WebSocket.OPEN || session.closed) {
       return;
@@ -326,25 +428,32 @@ export default class KaldiTranscriptionService {
     }
 
     const compatiblePayload = parsed as {
-      result?: { hypotheses?: Array<{ transcript?: string }>; final?: boolean };
+      result?: { hypotheses?: Array<{ transcript?: string }>; final?: boolean } | KaldiWordTiming[];
       text?: string;
       partial?: string;
       alternatives?: Array<{ text?: string }>;
     };
 
     const finalTextCandidates: string[] = [];
+    let partialText: string | null = null;
 
-    if (compatiblePayload.result) {
+    if (compatiblePayload.result && !Array.isArray(compatiblePayload.result)) {
       const { result } = compatiblePayload;
       const hypotheses = Array.isArray(result.hypotheses) ? result.hypotheses : [];
-      if (result.final) {
-        const transcriptCandidate = hypotheses.length > 0 ? hypotheses[0]?.transcript : null;
-        if (typeof transcriptCandidate === 'string') {
+      const transcriptCandidate = hypotheses.length > 0 ? hypotheses[0]?.transcript : null;
+      if (typeof transcriptCandidate === 'string') {
+        if (result.final) {
           finalTextCandidates.push(transcriptCandidate);
+        } else {
+          partialText = transcriptCandidate;
         }
       }
     }
 
+    if (typeof compatiblePayload.partial === 'string') {
+      partialText = compatiblePayload.partial;
+    }
+
     if (typeof compatiblePayload.text === 'string' && compatiblePayload.text.trim().length > 0) {
       finalTextCandidates.push(compatiblePayload.text);
     }
@@ -364,6 +473,38 @@ export default class KaldiTranscriptionService {
     if (normalizedTranscript) {
       session.transcripts.push(normalizedTranscript);
     }
+
+    const liveText = normalizedTranscript ?? partialText?.trim();
+    if (liveText && this.liveTranscriptionListeners.size > 0) {
+      this.notifyLiveTranscription({
+        userId: session.userId,
+        guildId: session.guildId,
+        channelId: session.channelId,
+        text: liveText,
+        partial: !normalizedTranscript,
+        words: Array.isArray(compatiblePayload.result)
+          ? this.parseWordTimings(session, compatiblePayload.result)
+          : [],
+        receivedAt: new Date(),
+      });
+    }
+  }
+
+  /** Vosk word offsets are in seconds from the first audio chunk of the session. */
+  private parseWordTimings(session: KaldiSession, entries: KaldiWordTiming[]): VoiceTranscriptionWord[] {
+    const origin = session.startedAt.getTime();
+    const words: VoiceTranscriptionWord[] = [];
+    for (const entry of entries) {
+      if (typeof entry?.word !== 'string' || !Number.isFinite(entry.start) || !Number.isFinite(entry.end)) {
+        continue;
+      }
+      words.push({
+        word: entry.word,
+        startedAt: new Date(origin + Number(entry.start) * 1000),
+        endedAt: new Date(origin + Number(entry.end) * 1000),
+      });
+    }
+    return words;
   }
 
   private sendConfig(ws: WebSocket): void {
@@ -373,6 +514,7 @@ export default class KaldiTranscriptionService {
           config: {
             'sample-rate': this.sampleRate,
             sample_rate: this.sampleRate,
+            words: 1,
           },
         }),
       );
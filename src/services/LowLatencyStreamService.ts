@@ -0,0 +1,367 @@
+import type { IncomingMessage } from 'http';
+import * as prism from 'prism-media';
+import { Writable } from 'stream';
+import WebSocket from 'ws';
+import type PcmFanout from '../audio/PcmFanout';
+
+export type LowLatencyCodec = 'opus' | 'pcm';
+
+export interface LowLatencyStreamServiceOptions {
+  sampleRate: number;
+  channels: number;
+  bytesPerSample: number;
+  maxClients: number;
+  maxQueueMs: number;
+  disconnectQueueMs: number;
+  pingIntervalMs?: number;
+}
+
+export interface LowLatencyClientStatus {
+  id: number;
+  codec: LowLatencyCodec;
+  connectedAt: string;
+  sentFrames: number;
+  droppedFrames: number;
+  queuedMs: number;
+  rttMs: number | null;
+  clientBufferMs: number | null;
+  estimatedLatencyMs: number | null;
+}
+
+export interface LowLatencyStreamStatus {
+  clients: number;
+  averageLatencyMs: number | null;
+  details: LowLatencyClientStatus[];
+}
+
+interface LiveClient {
+  id: number;
+  socket: WebSocket;
+  codec: LowLatencyCodec;
+  connectedAt: number;
+  sentFrames: number;
+  droppedFrames: number;
+  pingSentAt: number | null;
+  rttMs: number | null;
+  clientBufferMs: number | null;
+}
+
+// Opus packets are always 20 ms, whatever the mixer frame size.
+const OPUS_FRAME_MS = 20;
+
+// seq (uint32 LE) + capture time in epoch milliseconds (float64 LE).
+const FRAME_HEADER_BYTES = 12;
+
+// Initial guess of the Opus byte rate (64 kbit/s) before packet sizes are measured.
+const DEFAULT_OPUS_BYTES_PER_MS = 8;
+
+/**
+ * WebSocket counterpart of the chunked `/stream` endpoint for listeners who want
+ * to follow the room in near real time. Each mixer frame goes out as soon as it
+ * is produced, either as a 20 ms Opus packet (decoded in the browser with
+ * WebCodecs) or as raw 16-bit PCM, behind a small header carrying a sequence
+ * number and the capture time.
+ *
+ * Every client is handled on its own: frames are dropped for a client whose
+ * socket holds more than `maxQueueMs` of audio, and a client that stays behind
+ * by `disconnectQueueMs` is disconnected. Latency is estimated from the socket
+ * queue, the ping round trip and the playout buffer the player reports.
+ */
+export default class LowLatencyStreamService {
+  private readonly sampleRate: number;
+
+  private readonly channels: number;
+
+  private readonly bytesPerSample: number;
+
+  private readonly maxClients: number;
+
+  private readonly maxQueueMs: number;
+
+  private readonly disconnectQueueMs: number;
+
+  private readonly pingIntervalMs: number;
+
+  private readonly clients = new Map<WebSocket, LiveClient>();
+
+  private input: PcmFanout | null = null;
+
+  private opusEncoder: prism.opus.Encoder | null = null;
+
+  private pcmSink: Writable | null = null;
+
+  private pingTimer: NodeJS.Timeout | null = null;
+
+  private nextClientId = 1;
+
+  private opusSequence = 0;
+
+  private pcmSequence = 0;
+
+  private opusBytesPerMs = DEFAULT_OPUS_BYTES_PER_MS;
+
+  constructor({
+    sampleRate,
+    channels,
+    bytesPerSample,
+    maxClients,
+    maxQueueMs,
+    disconnectQueueMs,
+    pingIntervalMs = 5000,
+  }: LowLatencyStreamServiceOptions) {
+    this.sampleRate = sampleRate;
+    this.channels = channels;
+    this.bytesPerSample = bytesPerSample;
+    this.maxClients = Math.max(1, maxClients);
+    this.maxQueueMs = Math.max(OPUS_FRAME_MS, maxQueueMs);
+    this.disconnectQueueMs = Math.max(this.maxQueueMs, disconnectQueueMs);
+    this.pingIntervalMs = Math.max(1000, pingIntervalMs);
+  }
+
+  public start(input: PcmFanout): void {
+    this.input = input;
+    this.pingTimer = setInterval(() => this.pingClients(), this.pingIntervalMs);
+    if (typeof this.pingTimer.unref === 'function') {
+      this.pingTimer.unref();
+    }
+  }
+
+  public stop(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+    for (const client of this.clients.values()) {
+      try {
+        client.socket.close(1001, 'Arrêt du serveur.');
+      } catch (error) {
+        console.warn('Failed to close low-latency stream socket', error);
+      }
+    }
+    this.clients.clear();
+    this.updateEncoders();
+    this.input = null;
+  }
+
+  public handleSocketConnection(socket: WebSocket, request: IncomingMessage): void {
+    if (!this.input) {
+      socket.close(1013, 'Flux indisponible.');
+      return;
+    }
+    if (this.clients.size >= this.maxClients) {
+      socket.close(1013, 'Trop d’auditeurs en direct, réessaie plus tard.');
+      return;
+    }
+
+    const codec = this.parseCodec(request);
+    const client: LiveClient = {
+      id: this.nextClientId,
+      socket,
+      codec,
+      connectedAt: Date.now(),
+      sentFrames: 0,
+      droppedFrames: 0,
+      pingSentAt: null,
+      rttMs: null,
+      clientBufferMs: null,
+    };
+    this.nextClientId += 1;
+    this.clients.set(socket, client);
+    this.updateEncoders();
+
+    socket.send(
+      JSON.stringify({
+        type: 'config',
+        codec,
+        sampleRate: this.sampleRate,
+        channels: this.channels,
+        frameMs: codec === 'opus' ? OPUS_FRAME_MS : null,
+        headerBytes: FRAME_HEADER_BYTES,
+      }),
+    );
+
+    socket.on('message', (data, isBinary) => {
+      if (!isBinary) {
+        this.handleControlMessage(client, data.toString());
+      }
+    });
+
+    socket.on('pong', () => {
+      if (client.pingSentAt !== null) {
+        client.rttMs = Date.now() - client.pingSentAt;
+        client.pingSentAt = null;
+      }
+    });
+
+    socket.on('close', () => {
+      if (this.clients.delete(socket)) {
+        this.updateEncoders();
+      }
+    });
+
+    socket.on('error', (error) => {
+      console.warn('Erreur sur la connexion WebSocket du direct', error);
+    });
+  }
+
+  public getClientCount(): number {
+    return this.clients.size;
+  }
+
+  public getStatus(): LowLatencyStreamStatus {
+    const details = Array.from(this.clients.values()).map((client) => {
+      const queuedMs = this.getQueuedMs(client);
+      return {
+        id: client.id,
+        codec: client.codec,
+        connectedAt: new Date(client.connectedAt).toISOString(),
+        sentFrames: client.sentFrames,
+        droppedFrames: client.droppedFrames,
+        queuedMs: Math.round(queuedMs),
+        rttMs: client.rttMs,
+        clientBufferMs: client.clientBufferMs,
+        estimatedLatencyMs: this.estimateLatency(client, queuedMs),
+      };
+    });
+    const latencies = details
+      .map((client) => client.estimatedLatencyMs)
+      .filter((value): value is number => value !== null);
+
+    return {
+      clients: details.length,
+      averageLatencyMs: latencies.length > 0
+        ? Math.round(latencies.reduce((sum, value) => sum + value, 0) / latencies.length)
+        : null,
+      details,
+    };
+  }
+
+  private parseCodec(request: IncomingMessage): LowLatencyCodec {
+    try {
+      const url = new URL(request.url ?? '', 'http://localhost');
+      return url.searchParams.get('codec') === 'pcm' ? 'pcm' : 'opus';
+    } catch {
+      return 'opus';
+    }
+  }
+
+  private handleControlMessage(client: LiveClient, raw: string): void {
+    const trimmed = raw.trim();
+    if (!trimmed) {
+      return;
+    }
+
+    try {
+      const payload = JSON.parse(trimmed) as { type?: string; bufferedMs?: unknown };
+      if (payload?.type !== 'stats') {
+        return;
+      }
+      const bufferedMs = Number(payload.bufferedMs);
+      client.clientBufferMs = Number.isFinite(bufferedMs) ? Math.max(0, Math.round(bufferedMs)) : null;
+      const estimatedLatencyMs = this.estimateLatency(client, this.getQueuedMs(client));
+      if (estimatedLatencyMs !== null && client.socket.readyState === WebSocket.OPEN) {
+        client.socket.send(JSON.stringify({ type: 'latency', estimatedLatencyMs }));
+      }
+    } catch (error) {
+      console.warn('Impossible de parser le message de contrôle du direct', error);
+    }
+  }
+
+  /** Attaches the encoders that current clients need to the mixer output, and detaches the others. */
+  private updateEncoders(): void {
+    const codecs = new Set(Array.from(this.clients.values(), (client) => client.codec));
+
+    if (codecs.has('opus') && !this.opusEncoder && this.input) {
+      const encoder = new prism.opus.Encoder({
+        rate: this.sampleRate,
+        channels: this.channels,
+        frameSize: (this.sampleRate * OPUS_FRAME_MS) / 1000,
+      });
+      encoder.on('data', (packet: Buffer) => {
+        this.opusBytesPerMs = this.opusBytesPerMs * 0.95 + (packet.length / OPUS_FRAME_MS) * 0.05;
+        this.broadcast('opus', this.opusSequence, packet);
+        this.opusSequence = (this.opusSequence + 1) >>> 0;
+      });
+      encoder.on('error', (error: Error) => {
+        console.error('Low-latency Opus encoder error', error);
+      });
+      this.opusEncoder = encoder;
+      this.input.addSink(encoder);
+    } else if (!codecs.has('opus') && this.opusEncoder) {
+      this.input?.removeSink(this.opusEncoder);
+      this.opusEncoder.destroy();
+      this.opusEncoder = null;
+    }
+
+    if (codecs.has('pcm') && !this.pcmSink && this.input) {
+      this.pcmSink = new Writable({
+        write: (chunk: Buffer, _encoding, callback) => {
+          this.broadcast('pcm', this.pcmSequence, chunk);
+          this.pcmSequence = (this.pcmSequence + 1) >>> 0;
+          callback();
+        },
+      });
+      this.input.addSink(this.pcmSink);
+    } else if (!codecs.has('pcm') && this.pcmSink) {
+      this.input?.removeSink(this.pcmSink);
+      this.pcmSink.destroy();
+      this.pcmSink = null;
+    }
+  }
+
+  private broadcast(codec: LowLatencyCodec, sequence: number, payload: Buffer): void {
+    const frame = Buffer.allocUnsafe(FRAME_HEADER_BYTES + payload.length);
+    frame.writeUInt32LE(sequence, 0);
+    frame.writeDoubleLE(Date.now(), 4);
+    payload.copy(frame, FRAME_HEADER_BYTES);
+
+    for (const client of this.clients.values()) {
+      if (client.codec !== codec || client.socket.readyState !== WebSocket.OPEN) {
+        continue;
+      }
+
+      const queuedMs = this.getQueuedMs(client);
+      if (queuedMs > this.disconnectQueueMs) {
+        client.socket.close(1013, 'Connexion trop lente pour le direct.');
+        continue;
+      }
+      if (queuedMs > this.maxQueueMs) {
+        // Skipping a frame costs a short glitch; queueing it would add latency for good.
+        client.droppedFrames += 1;
+        continue;
+      }
+
+      client.socket.send(frame, { binary: true });
+      client.sentFrames += 1;
+    }
+  }
+
+  private getQueuedMs(client: LiveClient): number {
+    const bytesPerMs = client.codec === 'opus'
+      ? this.opusBytesPerMs
+      : (this.sampleRate * this.channels * this.bytesPerSample) / 1000;
+    return client.socket.bufferedAmount / Math.max(1, bytesPerMs);
+  }
+
+  private estimateLatency(client: LiveClient, queuedMs: number): number | null {
+    if (client.rttMs === null && client.clientBufferMs === null) {
+      return null;
+    }
+    return Math.round(queuedMs + (client.rttMs ?? 0) / 2 + (client.clientBufferMs ?? 0));
+  }
+
+  private pingClients(): void {
+    const now = Date.now();
+    for (const client of this.clients.values()) {
+      if (client.socket.readyState !== WebSocket.OPEN) {
+        continue;
+      }
+      client.pingSentAt = now;
+      try {
+        client.socket.ping();
+      } catch (error) {
+        console.warn('Failed to ping low-latency stream client', error);
+      }
+    }
+  }
+}
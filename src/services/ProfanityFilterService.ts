@@ -0,0 +1,306 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type ProfanityBleeper from '../audio/ProfanityBleeper';
+import type KaldiTranscriptionService from './KaldiTranscriptionService';
+import type { VoiceLiveTranscriptionEvent, VoiceTranscriptionWord } from './KaldiTranscriptionService';
+import type SpeakerTracker from './SpeakerTracker';
+
+export interface ProfanityFilterServiceOptions {
+  transcriptionService: Pick<KaldiTranscriptionService, 'onLiveTranscription'>;
+  bleeper: Pick<ProfanityBleeper, 'bleep'>;
+  speakerTracker?: Pick<SpeakerTracker, 'getSpeakers'> | null;
+  words: string[];
+  /** One entry per line; blank lines and `#` comments are ignored. */
+  wordsFile?: string | null;
+  /** Audio bleeped before a partial hypothesis, which carries no word timings. */
+  lookbackMs: number;
+  paddingMs: number;
+  /** JSON lines file the bleep log is appended to. */
+  logFile?: string | null;
+}
+
+export interface ProfanityFilterStatus {
+  words: number;
+  totalBleeps: number;
+  lastBleepAt: string | null;
+}
+
+export interface ProfanityBleepEntry {
+  id: string;
+  userId: string;
+  displayName: string | null;
+  guildId: string | null;
+  channelId: string | null;
+  /** Word list entry that matched. */
+  word: string;
+  /** What the recognizer heard. */
+  heard: string;
+  startedAt: string;
+  endedAt: string;
+  loggedAt: string;
+  /** `words` when the recognizer timed the words, `estimated` for a window before a partial hypothesis. */
+  timing: 'words' | 'estimated';
+  /** False when part of the word had already aired when it was recognised. */
+  covered: boolean;
+}
+
+interface WordPattern {
+  entry: string;
+  tokens: string[];
+  /** The last token matches as a prefix (`connard*`). */
+  prefix: boolean;
+}
+
+interface Token {
+  value: string;
+  word: VoiceTranscriptionWord | null;
+}
+
+interface Match {
+  index: number;
+  pattern: WordPattern;
+  heard: string;
+  words: VoiceTranscriptionWord[];
+}
+
+const MAX_RECENT_BLEEPS = 200;
+
+function normalize(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+function tokenize(text: string): string[] {
+  return normalize(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 0);
+}
+
+/**
+ * Watches the live transcription for words from a configurable list and asks
+ * the bleeper to cover them while they are still held back from the stream.
+ *
+ * Partial hypotheses carry no timings, so a match found there bleeps the last
+ * `lookbackMs` of audio; when the final hypothesis of the segment brings word
+ * timings the exact word is bleeped as well. A word is logged once per
+ * segment, with its speaker and time, for moderators to review.
+ */
+export default class ProfanityFilterService {
+  private readonly transcriptionService: Pick<KaldiTranscriptionService, 'onLiveTranscription'>;
+
+  private readonly bleeper: Pick<ProfanityBleeper, 'bleep'>;
+
+  private readonly speakerTracker: Pick<SpeakerTracker, 'getSpeakers'> | null;
+
+  private readonly wordsFile: string | null;
+
+  private readonly lookbackMs: number;
+
+  private readonly paddingMs: number;
+
+  private readonly logFile: string | null;
+
+  private readonly unsubscribers: Array<() => void> = [];
+
+  /** Token positions already bleeped in each user's current segment. */
+  private readonly segmentMatches = new Map<string, Set<number>>();
+
+  private readonly recentBleeps: ProfanityBleepEntry[] = [];
+
+  private patterns: WordPattern[];
+
+  private totalBleeps = 0;
+
+  constructor({
+    transcriptionService,
+    bleeper,
+    speakerTracker = null,
+    words,
+    wordsFile = null,
+    lookbackMs,
+    paddingMs,
+    logFile = null,
+  }: ProfanityFilterServiceOptions) {
+    this.transcriptionService = transcriptionService;
+    this.bleeper = bleeper;
+    this.speakerTracker = speakerTracker;
+    this.wordsFile = wordsFile;
+    this.lookbackMs = Math.max(0, lookbackMs);
+    this.paddingMs = Math.max(0, paddingMs);
+    this.logFile = logFile;
+    this.patterns = this.compilePatterns(words);
+  }
+
+  public async start(): Promise<void> {
+    if (this.wordsFile) {
+      try {
+        const content = await fs.readFile(this.wordsFile, 'utf8');
+        const words = content
+          .split(/\r?\n/)
+          .map((line) => line.replace(/#.*$/, '').trim())
+          .filter((line) => line.length > 0);
+        this.patterns = [...this.patterns, ...this.compilePatterns(words)];
+      } catch (error) {
+        console.error('Failed to read the profanity word list', { file: this.wordsFile, error });
+      }
+    }
+    if (this.patterns.length === 0) {
+      console.warn('Profanity filter is enabled but its word list is empty; nothing will be bleeped.');
+    }
+
+    if (this.logFile) {
+      try {
+        await fs.mkdir(path.dirname(this.logFile), { recursive: true });
+      } catch (error) {
+        console.error('Failed to prepare the bleep log directory', { file: this.logFile, error });
+      }
+    }
+
+    this.unsubscribers.push(
+      this.transcriptionService.onLiveTranscription((event) => this.handleLiveTranscription(event)),
+    );
+  }
+
+  public stop(): void {
+    for (const unsubscribe of this.unsubscribers.splice(0)) {
+      unsubscribe();
+    }
+    this.segmentMatches.clear();
+  }
+
+  /** Most recent bleeps first. */
+  public getRecentBleeps(limit = MAX_RECENT_BLEEPS): ProfanityBleepEntry[] {
+    return this.recentBleeps.slice(-Math.max(0, limit)).reverse();
+  }
+
+  public getStatus(): ProfanityFilterStatus {
+    const last = this.recentBleeps[this.recentBleeps.length - 1];
+    return {
+      words: this.patterns.length,
+      totalBleeps: this.totalBleeps,
+      lastBleepAt: last ? last.loggedAt : null,
+    };
+  }
+
+  private compilePatterns(words: string[]): WordPattern[] {
+    const patterns: WordPattern[] = [];
+    for (const entry of words) {
+      const trimmed = entry.trim();
+      const tokens = tokenize(trimmed);
+      if (tokens.length === 0) {
+        continue;
+      }
+      patterns.push({ entry: trimmed, tokens, prefix: trimmed.endsWith('*') });
+    }
+    return patterns;
+  }
+
+  private handleLiveTranscription(event: VoiceLiveTranscriptionEvent): void {
+    if (this.patterns.length === 0) {
+      return;
+    }
+
+    const tokens: Token[] = event.words.length > 0
+      ? event.words.flatMap((word) => tokenize(word.word).map((value) => ({ value, word })))
+      : tokenize(event.text).map((value) => ({ value, word: null }));
+
+    let seen = this.segmentMatches.get(event.userId);
+    if (!seen) {
+      seen = new Set<number>();
+      this.segmentMatches.set(event.userId, seen);
+    }
+
+    for (const match of this.findMatches(tokens)) {
+      const timed = match.words.length > 0;
+      const receivedAt = event.receivedAt.getTime();
+      const startMs = timed ? match.words[0].startedAt.getTime() : receivedAt - this.lookbackMs;
+      const endMs = timed ? match.words[match.words.length - 1].endedAt.getTime() : receivedAt;
+      const alreadyLogged = seen.has(match.index);
+      // Later partials repeat the word with no timing: only a timed final may refine the bleep.
+      if (alreadyLogged && !timed) {
+        continue;
+      }
+      const covered = this.bleeper.bleep(startMs - this.paddingMs, endMs + this.paddingMs);
+      if (alreadyLogged) {
+        continue;
+      }
+      seen.add(match.index);
+      this.record({
+        id: crypto.randomUUID(),
+        userId: event.userId,
+        displayName: this.resolveDisplayName(event.userId),
+        guildId: event.guildId,
+        channelId: event.channelId,
+        word: match.pattern.entry,
+        heard: match.heard,
+        startedAt: new Date(startMs).toISOString(),
+        endedAt: new Date(endMs).toISOString(),
+        loggedAt: new Date().toISOString(),
+        timing: timed ? 'words' : 'estimated',
+        covered,
+      });
+    }
+
+    if (!event.partial) {
+      this.segmentMatches.delete(event.userId);
+    }
+  }
+
+  private findMatches(tokens: Token[]): Match[] {
+    const matches: Match[] = [];
+    for (let index = 0; index < tokens.length; index += 1) {
+      const pattern = this.patterns.find((candidate) => this.matchesAt(tokens, index, candidate));
+      if (!pattern) {
+        continue;
+      }
+      const matched = tokens.slice(index, index + pattern.tokens.length);
+      const words: VoiceTranscriptionWord[] = [];
+      for (const token of matched) {
+        if (token.word && !words.includes(token.word)) {
+          words.push(token.word);
+        }
+      }
+      matches.push({ index, pattern, heard: matched.map((token) => token.value).join(' '), words });
+      index += pattern.tokens.length - 1;
+    }
+    return matches;
+  }
+
+  private matchesAt(tokens: Token[], index: number, pattern: WordPattern): boolean {
+    if (index + pattern.tokens.length > tokens.length) {
+      return false;
+    }
+    return pattern.tokens.every((expected, offset) => {
+      const actual = tokens[index + offset].value;
+      const isLast = offset === pattern.tokens.length - 1;
+      return isLast && pattern.prefix ? actual.startsWith(expected) : actual === expected;
+    });
+  }
+
+  private resolveDisplayName(userId: string): string | null {
+    const speaker = this.speakerTracker?.getSpeakers().find((participant) => participant.id === userId);
+    return speaker ? speaker.displayName || speaker.username || null : null;
+  }
+
+  private record(entry: ProfanityBleepEntry): void {
+    this.totalBleeps += 1;
+    this.recentBleeps.push(entry);
+    if (this.recentBleeps.length > MAX_RECENT_BLEEPS) {
+      this.recentBleeps.splice(0, this.recentBleeps.length - MAX_RECENT_BLEEPS);
+    }
+
+    console.warn(
+      `Bleeped "${entry.heard}" from ${entry.displayName ?? entry.userId} (${entry.userId}) at ${entry.startedAt}`
+        + (entry.covered ? '' : ' — recognised too late, part of it aired'),
+    );
+
+    if (this.logFile) {
+      fs.appendFile(this.logFile, `${JSON.stringify(entry)}\n`, 'utf8').catch((error) => {
+        console.error('Failed to append to the bleep log', { file: this.logFile, error });
+      });
+    }
+  }
+}
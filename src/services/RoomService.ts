@@ -0,0 +1,172 @@
+import AudioMixer from '../audio/AudioMixer';
+import StreamRenditions from '../audio/StreamRenditions';
+import type { Config, RoomConfig } from '../config';
+import DiscordAudioBridge from '../discord/DiscordAudioBridge';
+import type ConsentService from './ConsentService';
+import ListenerStatsService from './ListenerStatsService';
+import SpeakerTracker from './SpeakerTracker';
+import SseService from './SseService';
+
+export interface RoomServiceOptions {
+  config: Config;
+  consentService?: ConsentService | null;
+}
+
+export interface BridgedRoom {
+  id: string;
+  name: string;
+  voiceChannelId: string;
+  /** Base path of the room renditions; the primary one is also served here. */
+  streamPath: string;
+  eventsPath: string;
+  mixer: AudioMixer;
+  renditions: StreamRenditions;
+  sseService: SseService;
+  speakerTracker: SpeakerTracker;
+  listenerStats: ListenerStatsService;
+  bridge: DiscordAudioBridge;
+}
+
+export interface RoomSummary {
+  id: string;
+  name: string;
+  voiceChannelId: string;
+  connected: boolean;
+  streamPath: string;
+  eventsPath: string;
+  listenersPath: string;
+  renditions: Array<{ id: string; path: string; mimeType: string; bitrate: string }>;
+  speakers: number;
+  listeners: number;
+}
+
+/**
+ * Voice channels bridged next to the main one. Each room runs its own bot (a
+ * bot joins one voice channel per guild), mixer and encoders, and has its own
+ * speakers, SSE channel and listener statistics under `/rooms/<id>/`.
+ *
+ * Rooms only feed their HTTP renditions: the broadcast delay, profanity
+ * filter, HLS, relays, archive, clips and transcription stay with the main
+ * program.
+ */
+export default class RoomService {
+  private readonly rooms: BridgedRoom[];
+
+  private readonly consentService: ConsentService | null;
+
+  constructor({ config, consentService = null }: RoomServiceOptions) {
+    this.consentService = consentService;
+    this.rooms = config.rooms.map((room) => this.createRoom(config, room));
+  }
+
+  public async start(): Promise<void> {
+    for (const room of this.rooms) {
+      room.mixer.start();
+      room.renditions.start(room.mixer);
+      try {
+        await room.bridge.login();
+      } catch (error) {
+        console.error(`Failed to log in the bot of room "${room.id}"`, error);
+      }
+    }
+  }
+
+  public async stop(): Promise<void> {
+    for (const room of this.rooms) {
+      try {
+        await room.bridge.destroy();
+      } catch (error) {
+        console.error(`Failed to disconnect the bot of room "${room.id}"`, error);
+      }
+      room.sseService.closeAll();
+      room.renditions.stop();
+      room.mixer.stop();
+      room.listenerStats.stop();
+    }
+  }
+
+  public list(): BridgedRoom[] {
+    return [...this.rooms];
+  }
+
+  public get(id: string): BridgedRoom | null {
+    return this.rooms.find((room) => room.id === id) ?? null;
+  }
+
+  public getSummary(room: BridgedRoom): RoomSummary {
+    return {
+      id: room.id,
+      name: room.name,
+      voiceChannelId: room.voiceChannelId,
+      connected: room.bridge.hasActiveVoiceConnection(),
+      streamPath: room.streamPath,
+      eventsPath: room.eventsPath,
+      listenersPath: `/api/rooms/${room.id}/listeners`,
+      renditions: room.renditions.list().map(({ id, path, mimeType, bitrate }) => ({ id, path, mimeType, bitrate })),
+      speakers: room.speakerTracker.getSpeakerCount(),
+      listeners: room.listenerStats.getCurrentCount(),
+    };
+  }
+
+  private createRoom(config: Config, room: RoomConfig): BridgedRoom {
+    const streamPath = `/rooms/${room.id}/stream`;
+    const mixer = new AudioMixer({
+      frameBytes: config.audio.frameBytes,
+      mixFrameMs: config.mixFrameMs,
+      bytesPerSample: config.audio.bytesPerSample,
+      sampleRate: config.audio.sampleRate,
+      channels: config.audio.channels,
+      limiter: config.masterBus.limiter,
+      compressor: config.masterBus.compressor,
+      loudness: config.sourceLoudness,
+      sourceProcessors: config.audioProcessing.source,
+      masterProcessors: config.audioProcessing.master,
+    });
+    const renditions = new StreamRenditions({
+      renditions: config.streamRenditions,
+      basePath: streamPath,
+      frameBytes: config.audio.frameBytes,
+      mimeTypes: config.mimeTypes,
+      ffmpegPath: config.ffmpegPath,
+      sampleRate: config.audio.sampleRate,
+      channels: config.audio.channels,
+      headerBufferMaxBytes: config.headerBufferMaxBytes,
+      mixFrameMs: config.mixFrameMs,
+    });
+    const sseService = new SseService({
+      streamInfoProvider: () => ({
+        format: renditions.getPrimary().format,
+        path: streamPath,
+        mimeType: renditions.getPrimary().mimeType,
+        renditions: renditions.list().map(({ id, path, mimeType, bitrate }) => ({ id, path, mimeType, bitrate })),
+        hlsPath: null,
+        liveSocketPath: null,
+        room: { id: room.id, name: room.name },
+      }),
+      keepAliveInterval: config.keepAliveInterval,
+    });
+    // Guild activity is recorded by the main bot; room bots only feed their own stream.
+    const speakerTracker = new SpeakerTracker({ sseService });
+    const bridge = new DiscordAudioBridge({
+      config: { ...config, botToken: room.botToken, guildId: room.guildId, voiceChannelId: room.voiceChannelId },
+      mixer,
+      speakerTracker,
+      consentService: this.consentService,
+      commands: false,
+    });
+
+    return {
+      id: room.id,
+      name: room.name,
+      voiceChannelId: room.voiceChannelId,
+      streamPath,
+      eventsPath: `/rooms/${room.id}/events`,
+      mixer,
+      renditions,
+      sseService,
+      speakerTracker,
+      listenerStats: new ListenerStatsService(),
+      bridge,
+    };
+  }
+}
@@ -0,0 +1,595 @@
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+import { promises as fs, mkdirSync } from 'fs';
+import path from 'path';
+import type PcmFanout from '../audio/PcmFanout';
+import type KaldiTranscriptionService from './KaldiTranscriptionService';
+import type { VoiceTranscriptionEvent } from './KaldiTranscriptionService';
+import type SpeakerTracker from './SpeakerTracker';
+import type { SpeakingChangeEvent } from './SpeakerTracker';
+
+export type ShowArchiveMode = 'hourly' | 'show';
+
+export interface ShowArchiveServiceOptions {
+  ffmpegPath: string;
+  sampleRate: number;
+  channels: number;
+  directory: string;
+  bitrate: string;
+  mode: ShowArchiveMode;
+  showGapMinutes: number;
+  retentionDays: number;
+  minChapterSeconds?: number;
+  speakerTracker: Pick<SpeakerTracker, 'onSpeakingChange'>;
+  transcriptionService: Pick<KaldiTranscriptionService, 'onTranscription'> | null;
+}
+
+export interface ShowArchiveChapter {
+  startMs: number;
+  endMs: number;
+  title: string;
+  speakers: Array<{ id: string; displayName: string }>;
+}
+
+export interface ShowArchiveTranscription {
+  offsetMs: number;
+  durationMs: number;
+  userId: string;
+  displayName: string | null;
+  content: string;
+}
+
+export interface ShowArchiveManifest {
+  id: string;
+  mode: ShowArchiveMode;
+  startedAt: string;
+  endedAt: string | null;
+  durationMs: number;
+  audioFile: string;
+  sizeBytes: number;
+  chapters: ShowArchiveChapter[];
+  transcriptions: ShowArchiveTranscription[];
+}
+
+export interface ShowArchiveSummary {
+  id: string;
+  startedAt: string;
+  endedAt: string | null;
+  durationMs: number;
+  sizeBytes: number;
+  chapterCount: number;
+  speakers: string[];
+  inProgress: boolean;
+}
+
+interface ActiveArchive {
+  id: string;
+  startedAt: number;
+  process: ChildProcessWithoutNullStreams;
+  chapters: ShowArchiveChapter[];
+  transcriptions: ShowArchiveTranscription[];
+}
+
+const STOP_GRACE_MS = 5000;
+
+const RESTART_DELAY_MS = 5000;
+
+const MANIFEST_SUFFIX = '.json';
+
+const AUDIO_SUFFIX = '.opus';
+
+export const SHOW_ARCHIVE_ID_PATTERN = /^\d{8}-\d{6}$/;
+
+function formatArchiveId(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+}
+
+function nextHourBoundary(timestamp: number): number {
+  const hourMs = 60 * 60 * 1000;
+  return Math.floor(timestamp / hourMs) * hourMs + hourMs;
+}
+
+/**
+ * Records the master mix (the same PCM the stream renditions encode) to Opus
+ * files, either cut on every clock hour or one file per show. In show mode a
+ * file starts with the first speaking event after a quiet period and ends once
+ * nobody has spoken for `showGapMinutes`.
+ *
+ * Next to each `<id>.opus` file, a `<id>.json` manifest holds the chapters, built
+ * from speaking turns (a new chapter starts when someone else takes the floor
+ * after at least `minChapterSeconds`), and the voice transcriptions placed on the
+ * recording timeline. Manifests are written when a file is closed.
+ */
+export default class ShowArchiveService {
+  private readonly ffmpegPath: string;
+
+  private readonly sampleRate: number;
+
+  private readonly channels: number;
+
+  private readonly directory: string;
+
+  private readonly bitrate: string;
+
+  private readonly mode: ShowArchiveMode;
+
+  private readonly showGapMs: number;
+
+  private readonly retentionMs: number;
+
+  private readonly minChapterMs: number;
+
+  private readonly speakerTracker: Pick<SpeakerTracker, 'onSpeakingChange'>;
+
+  private readonly transcriptionService: Pick<KaldiTranscriptionService, 'onTranscription'> | null;
+
+  private readonly unsubscribers: Array<() => void> = [];
+
+  private readonly speakerNames = new Map<string, string>();
+
+  private readonly activeSpeakers = new Set<string>();
+
+  private input: PcmFanout | null = null;
+
+  private current: ActiveArchive | null = null;
+
+  private rotationTimer: NodeJS.Timeout | null = null;
+
+  private showEndTimer: NodeJS.Timeout | null = null;
+
+  private restartTimer: NodeJS.Timeout | null = null;
+
+  private stopped = true;
+
+  constructor({
+    ffmpegPath,
+    sampleRate,
+    channels,
+    directory,
+    bitrate,
+    mode,
+    showGapMinutes,
+    retentionDays,
+    minChapterSeconds = 30,
+    speakerTracker,
+    transcriptionService,
+  }: ShowArchiveServiceOptions) {
+    this.ffmpegPath = ffmpegPath;
+    this.sampleRate = sampleRate;
+    this.channels = channels;
+    this.directory = directory;
+    this.bitrate = bitrate;
+    this.mode = mode;
+    this.showGapMs = Math.max(1, showGapMinutes) * 60 * 1000;
+    this.retentionMs = Math.max(0, retentionDays) * 24 * 60 * 60 * 1000;
+    this.minChapterMs = Math.max(0, minChapterSeconds) * 1000;
+    this.speakerTracker = speakerTracker;
+    this.transcriptionService = transcriptionService;
+  }
+
+  public start(input: PcmFanout): void {
+    this.input = input;
+    this.stopped = false;
+    try {
+      mkdirSync(this.directory, { recursive: true });
+    } catch (error) {
+      console.error('Failed to prepare archive directory', { directory: this.directory, error });
+    }
+    void this.pruneExpired();
+
+    this.unsubscribers.push(this.speakerTracker.onSpeakingChange((event) => this.handleSpeakingChange(event)));
+    if (this.transcriptionService) {
+      this.unsubscribers.push(this.transcriptionService.onTranscription((event) => this.handleTranscription(event)));
+    }
+
+    if (this.mode === 'hourly') {
+      this.openArchive(Date.now());
+      this.scheduleRotation();
+    }
+  }
+
+  public stop(): void {
+    this.stopped = true;
+    for (const unsubscribe of this.unsubscribers.splice(0)) {
+      unsubscribe();
+    }
+    this.clearTimers();
+    this.closeArchive(Date.now());
+    this.input = null;
+  }
+
+  private handleSpeakingChange({ type, user, timestamp }: SpeakingChangeEvent): void {
+    this.speakerNames.set(user.id, user.displayName || user.username);
+
+    if (type === 'end') {
+      this.activeSpeakers.delete(user.id);
+      if (this.mode === 'show' && this.activeSpeakers.size === 0) {
+        this.scheduleShowEnd();
+      }
+      return;
+    }
+
+    this.activeSpeakers.add(user.id);
+    if (this.mode === 'show') {
+      this.clearShowEndTimer();
+      if (!this.current && !this.stopped) {
+        this.openArchive(timestamp);
+      }
+    }
+
+    const archive = this.current;
+    if (archive) {
+      this.recordSpeakingTurn(archive, user.id, timestamp);
+    }
+  }
+
+  private handleTranscription({ userId, content, startedAt, endedAt }: VoiceTranscriptionEvent): void {
+    const archive = this.current;
+    if (!archive) {
+      return;
+    }
+
+    const offsetMs = startedAt.getTime() - archive.startedAt;
+    if (offsetMs < 0) {
+      return;
+    }
+
+    archive.transcriptions.push({
+      offsetMs,
+      durationMs: Math.max(0, endedAt.getTime() - startedAt.getTime()),
+      userId,
+      displayName: this.speakerNames.get(userId) ?? null,
+      content,
+    });
+  }
+
+  public async listArchives(): Promise<ShowArchiveSummary[]> {
+    const summaries: ShowArchiveSummary[] = [];
+    if (this.current) {
+      const manifest = this.buildManifest(this.current, null, 0);
+      summaries.push({ ...this.summarize(manifest), inProgress: true });
+    }
+
+    let entries: string[] = [];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+        console.error('Failed to list archive directory', error);
+      }
+      return summaries;
+    }
+
+    for (const entry of entries) {
+      const id = entry.endsWith(MANIFEST_SUFFIX) ? entry.slice(0, -MANIFEST_SUFFIX.length) : null;
+      if (!id || !SHOW_ARCHIVE_ID_PATTERN.test(id)) {
+        continue;
+      }
+      const manifest = await this.readManifest(id);
+      if (manifest) {
+        summaries.push({ ...this.summarize(manifest), inProgress: false });
+      }
+    }
+
+    return summaries.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  /** Returns the manifest of a finished archive, or of the one being recorded (with `endedAt` null). */
+  public async getManifest(id: string): Promise<ShowArchiveManifest | null> {
+    if (!SHOW_ARCHIVE_ID_PATTERN.test(id)) {
+      return null;
+    }
+    if (this.current?.id === id) {
+      return this.buildManifest(this.current, null, 0);
+    }
+    return this.readManifest(id);
+  }
+
+  public isRecording(id: string): boolean {
+    return this.current?.id === id;
+  }
+
+  /** Resolves the audio file of an archive from a request, or null when the id is not one of ours. */
+  public resolveAudioPath(id: string): string | null {
+    return SHOW_ARCHIVE_ID_PATTERN.test(id) ? path.join(this.directory, `${id}${AUDIO_SUFFIX}`) : null;
+  }
+
+  private summarize(manifest: ShowArchiveManifest): Omit<ShowArchiveSummary, 'inProgress'> {
+    const speakers = new Set<string>();
+    for (const chapter of manifest.chapters) {
+      for (const speaker of chapter.speakers) {
+        speakers.add(speaker.displayName);
+      }
+    }
+    return {
+      id: manifest.id,
+      startedAt: manifest.startedAt,
+      endedAt: manifest.endedAt,
+      durationMs: manifest.durationMs,
+      sizeBytes: manifest.sizeBytes,
+      chapterCount: manifest.chapters.length,
+      speakers: Array.from(speakers),
+    };
+  }
+
+  private recordSpeakingTurn(archive: ActiveArchive, userId: string, timestamp: number): void {
+    const offsetMs = Math.max(0, timestamp - archive.startedAt);
+    const displayName = this.speakerNames.get(userId) ?? userId;
+    const chapter = archive.chapters[archive.chapters.length - 1];
+
+    if (chapter && chapter.speakers.some((speaker) => speaker.id === userId)) {
+      return;
+    }
+    if (chapter && offsetMs - chapter.startMs < this.minChapterMs) {
+      // Short exchanges stay in the current chapter instead of producing one chapter per interjection.
+      chapter.speakers.push({ id: userId, displayName });
+      chapter.title = chapter.speakers.map((speaker) => speaker.displayName).join(', ');
+      return;
+    }
+
+    if (chapter) {
+      chapter.endMs = offsetMs;
+    }
+    archive.chapters.push({
+      startMs: offsetMs,
+      endMs: offsetMs,
+      title: displayName,
+      speakers: [{ id: userId, displayName }],
+    });
+  }
+
+  private openArchive(timestamp: number): void {
+    if (this.current || this.stopped || !this.input) {
+      return;
+    }
+
+    const id = formatArchiveId(timestamp);
+    const args = [
+      '-f',
+      's16le',
+      '-ar',
+      String(this.sampleRate),
+      '-ac',
+      String(this.channels),
+      '-i',
+      'pipe:0',
+      '-vn',
+      '-loglevel',
+      'error',
+      '-c:a',
+      'libopus',
+      '-application',
+      'audio',
+      '-b:a',
+      String(this.bitrate),
+      '-metadata',
+      `title=${id}`,
+      '-f',
+      'ogg',
+      '-y',
+      path.join(this.directory, `${id}${AUDIO_SUFFIX}`),
+    ];
+
+    const ffmpeg = spawn(this.ffmpegPath, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+    const archive: ActiveArchive = { id, startedAt: timestamp, process: ffmpeg, chapters: [], transcriptions: [] };
+    this.current = archive;
+    this.input.addSink(ffmpeg.stdin);
+
+    ffmpeg.stdout.resume();
+    ffmpeg.stderr.on('data', (data: Buffer) => process.stderr.write(data.toString()));
+    ffmpeg.stdin.on('error', (error: Error) => {
+      console.error('Archive ffmpeg stdin error', error);
+    });
+    ffmpeg.on('error', (error) => {
+      console.error('Archive ffmpeg error', error);
+      this.handleUnexpectedExit(archive);
+    });
+    ffmpeg.on('exit', (code, signal) => {
+      if (this.current === archive) {
+        console.error(`Archive ffmpeg exited code=${code} signal=${signal}`);
+        this.handleUnexpectedExit(archive);
+      }
+    });
+
+    // Whoever is already speaking opens the first chapter.
+    for (const userId of this.activeSpeakers) {
+      this.recordSpeakingTurn(archive, userId, timestamp);
+    }
+    console.log(`Archive ${id} started`);
+  }
+
+  private handleUnexpectedExit(archive: ActiveArchive): void {
+    if (this.current !== archive) {
+      return;
+    }
+    // Keep what was written so far and continue in a new file.
+    this.closeArchive(Date.now());
+    if (this.mode !== 'hourly' || this.stopped || this.restartTimer) {
+      // In show mode, the next speaking turn opens the new file.
+      return;
+    }
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      this.openArchive(Date.now());
+    }, RESTART_DELAY_MS);
+    if (typeof this.restartTimer.unref === 'function') {
+      this.restartTimer.unref();
+    }
+  }
+
+  private closeArchive(timestamp: number): void {
+    const archive = this.current;
+    if (!archive) {
+      return;
+    }
+    this.current = null;
+
+    this.input?.removeSink(archive.process.stdin);
+    const endedAt = Math.max(archive.startedAt, timestamp);
+    const lastChapter = archive.chapters[archive.chapters.length - 1];
+    if (lastChapter) {
+      lastChapter.endMs = endedAt - archive.startedAt;
+    }
+
+    const processRef = archive.process;
+    const exited = new Promise<void>((resolve) => {
+      if (processRef.pid === undefined || processRef.exitCode !== null || processRef.signalCode !== null) {
+        resolve();
+        return;
+      }
+      processRef.once('exit', () => resolve());
+      processRef.once('error', () => resolve());
+    });
+
+    try {
+      // Closing stdin lets ffmpeg write the last Ogg page before it exits.
+      processRef.stdin.end();
+    } catch (error) {
+      console.error('Error while closing archive ffmpeg stdin', error);
+    }
+    const killTimer = setTimeout(() => {
+      if (processRef.exitCode === null && !processRef.killed) {
+        processRef.kill('SIGTERM');
+      }
+    }, STOP_GRACE_MS);
+    if (typeof killTimer.unref === 'function') {
+      killTimer.unref();
+    }
+
+    void exited
+      .then(() => this.writeManifest(archive, endedAt))
+      .finally(() => clearTimeout(killTimer));
+  }
+
+  private async writeManifest(archive: ActiveArchive, endedAt: number): Promise<void> {
+    let sizeBytes = 0;
+    try {
+      sizeBytes = (await fs.stat(path.join(this.directory, `${archive.id}${AUDIO_SUFFIX}`))).size;
+    } catch (error) {
+      console.error('Archive audio file is missing, skipping manifest', { id: archive.id, error });
+      return;
+    }
+
+    const manifest = this.buildManifest(archive, endedAt, sizeBytes);
+    const target = path.join(this.directory, `${archive.id}${MANIFEST_SUFFIX}`);
+    try {
+      await fs.writeFile(target, `${JSON.stringify(manifest, null, 2)}\n`, 'utf8');
+      console.log(
+        `Archive ${archive.id} saved (${Math.round(manifest.durationMs / 1000)} s, ${manifest.chapters.length} chapters)`,
+      );
+    } catch (error) {
+      console.error('Failed to write archive manifest', { id: archive.id, error });
+    }
+  }
+
+  private buildManifest(archive: ActiveArchive, endedAt: number | null, sizeBytes: number): ShowArchiveManifest {
+    const end = endedAt ?? Date.now();
+    return {
+      id: archive.id,
+      mode: this.mode,
+      startedAt: new Date(archive.startedAt).toISOString(),
+      endedAt: endedAt === null ? null : new Date(endedAt).toISOString(),
+      durationMs: Math.max(0, end - archive.startedAt),
+      audioFile: `${archive.id}${AUDIO_SUFFIX}`,
+      sizeBytes,
+      chapters: archive.chapters.map((chapter) => ({ ...chapter, speakers: chapter.speakers.map((s) => ({ ...s })) })),
+      transcriptions: archive.transcriptions
+        .slice()
+        .sort((a, b) => a.offsetMs - b.offsetMs)
+        .map((entry) => ({ ...entry })),
+    };
+  }
+
+  private async readManifest(id: string): Promise<ShowArchiveManifest | null> {
+    try {
+      const raw = await fs.readFile(path.join(this.directory, `${id}${MANIFEST_SUFFIX}`), 'utf8');
+      return JSON.parse(raw) as ShowArchiveManifest;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+        console.error('Failed to read archive manifest', { id, error });
+      }
+      return null;
+    }
+  }
+
+  private scheduleRotation(): void {
+    const now = Date.now();
+    this.rotationTimer = setTimeout(() => {
+      this.rotationTimer = null;
+      if (this.stopped) {
+        return;
+      }
+      const boundary = Date.now();
+      this.closeArchive(boundary);
+      this.openArchive(boundary);
+      void this.pruneExpired();
+      this.scheduleRotation();
+    }, nextHourBoundary(now) - now);
+    if (typeof this.rotationTimer.unref === 'function') {
+      this.rotationTimer.unref();
+    }
+  }
+
+  private scheduleShowEnd(): void {
+    this.clearShowEndTimer();
+    if (!this.current) {
+      return;
+    }
+    const lastActivity = Date.now();
+    this.showEndTimer = setTimeout(() => {
+      this.showEndTimer = null;
+      this.closeArchive(lastActivity);
+      void this.pruneExpired();
+    }, this.showGapMs);
+    if (typeof this.showEndTimer.unref === 'function') {
+      this.showEndTimer.unref();
+    }
+  }
+
+  private clearShowEndTimer(): void {
+    if (this.showEndTimer) {
+      clearTimeout(this.showEndTimer);
+      this.showEndTimer = null;
+    }
+  }
+
+  private clearTimers(): void {
+    this.clearShowEndTimer();
+    if (this.rotationTimer) {
+      clearTimeout(this.rotationTimer);
+      this.rotationTimer = null;
+    }
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+  }
+
+  private async pruneExpired(): Promise<void> {
+    if (this.retentionMs <= 0) {
+      return;
+    }
+
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch {
+      return;
+    }
+
+    const cutoff = formatArchiveId(Date.now() - this.retentionMs);
+    for (const entry of entries) {
+      const id = entry.slice(0, 15);
+      if (!SHOW_ARCHIVE_ID_PATTERN.test(id) || id >= cutoff || this.current?.id === id) {
+        continue;
+      }
+      if (entry !== `${id}${AUDIO_SUFFIX}` && entry !== `${id}${MANIFEST_SUFFIX}`) {
+        continue;
+      }
+      try {
+        await fs.rm(path.join(this.directory, entry), { force: true });
+      } catch (error) {
+        console.error('Failed to delete expired archive file', { entry, error });
+      }
+    }
+  }
+}
@@ -0,0 +1,287 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type AudioMixer from '../audio/AudioMixer';
+import { AUDIO_FILE_EXTENSIONS, decodeAudioFile } from '../audio/decodeAudioFile';
+import PcmPlayout from '../audio/PcmPlayout';
+import type DiscordAudioBridge from '../discord/DiscordAudioBridge';
+
+export interface SoundboardServiceOptions {
+  directory: string;
+  ffmpegPath: string;
+  mixer: Pick<AudioMixer, 'addSource' | 'removeSource' | 'pushToSource'>;
+  sampleRate: number;
+  channels: number;
+  frameBytes: number;
+  frameMs: number;
+  maxSeconds: number;
+}
+
+export interface SoundboardSound {
+  id: string;
+  label: string;
+  fileName: string;
+  volumeDb: number;
+}
+
+export interface SoundboardStatus {
+  sounds: number;
+  playing: { soundId: string; label: string; startedAt: string; durationMs: number } | null;
+}
+
+interface SoundSettings {
+  label?: string;
+  volumeDb?: number;
+}
+
+interface Playback {
+  sound: SoundboardSound;
+  playout: PcmPlayout;
+  startedAt: number;
+  durationMs: number;
+}
+
+export const SOUNDBOARD_SOURCE_ID = 'soundboard';
+export const MIN_SOUND_VOLUME_DB = -30;
+export const MAX_SOUND_VOLUME_DB = 6;
+
+const SETTINGS_FILE_NAME = 'soundboard.json';
+
+function toSoundId(fileName: string): string {
+  return path
+    .parse(fileName)
+    .name.normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 64);
+}
+
+/**
+ * Plays local files (jingles, station IDs, intro music) into the program and
+ * into the Discord voice channel. Sounds are the audio files of `directory`,
+ * identified by their slugged file name; labels and volumes set from the admin
+ * are kept in `soundboard.json` next to them.
+ *
+ * One sound plays at a time. It is decoded on demand and paced in real time
+ * into a mixer source of its own, which bypasses the voice processing, and
+ * into the bridge's playback pipeline so the people in the channel hear it.
+ */
+export default class SoundboardService {
+  private readonly directory: string;
+
+  private readonly settingsFile: string;
+
+  private readonly ffmpegPath: string;
+
+  private readonly mixer: Pick<AudioMixer, 'addSource' | 'removeSource' | 'pushToSource'>;
+
+  private readonly sampleRate: number;
+
+  private readonly channels: number;
+
+  private readonly frameBytes: number;
+
+  private readonly frameMs: number;
+
+  private readonly maxSeconds: number;
+
+  private voiceOutput: Pick<DiscordAudioBridge, 'pushAnonymousAudio'> | null = null;
+
+  private sounds: SoundboardSound[] = [];
+
+  private settings: Record<string, SoundSettings> = {};
+
+  private playback: Playback | null = null;
+
+  constructor({
+    directory,
+    ffmpegPath,
+    mixer,
+    sampleRate,
+    channels,
+    frameBytes,
+    frameMs,
+    maxSeconds,
+  }: SoundboardServiceOptions) {
+    this.directory = directory;
+    this.settingsFile = path.join(directory, SETTINGS_FILE_NAME);
+    this.ffmpegPath = ffmpegPath;
+    this.mixer = mixer;
+    this.sampleRate = sampleRate;
+    this.channels = channels;
+    this.frameBytes = frameBytes;
+    this.frameMs = frameMs;
+    this.maxSeconds = maxSeconds;
+  }
+
+  public async start(): Promise<void> {
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+    } catch (error) {
+      console.error('Failed to prepare the soundboard directory', { directory: this.directory, error });
+    }
+    try {
+      this.settings = JSON.parse(await fs.readFile(this.settingsFile, 'utf8')) as Record<string, SoundSettings>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+        console.warn('Failed to read the soundboard settings', { file: this.settingsFile, error });
+      }
+      this.settings = {};
+    }
+    await this.refresh();
+  }
+
+  public stop(): void {
+    this.stopPlayback();
+  }
+
+  /** The Discord side is attached once the bridge exists, which itself needs the soundboard for its commands. */
+  public setVoiceOutput(output: Pick<DiscordAudioBridge, 'pushAnonymousAudio'> | null): void {
+    this.voiceOutput = output;
+  }
+
+  /** Rescans the directory, so files dropped in while running show up. */
+  public async refresh(): Promise<SoundboardSound[]> {
+    let fileNames: string[] = [];
+    try {
+      fileNames = (await fs.readdir(this.directory)).sort((a, b) => a.localeCompare(b));
+    } catch (error) {
+      console.error('Failed to list the soundboard directory', { directory: this.directory, error });
+    }
+
+    const sounds: SoundboardSound[] = [];
+    for (const fileName of fileNames) {
+      const id = toSoundId(fileName);
+      if (!AUDIO_FILE_EXTENSIONS.has(path.extname(fileName).toLowerCase()) || !id) {
+        continue;
+      }
+      if (sounds.some((sound) => sound.id === id)) {
+        console.warn(`Soundboard file "${fileName}" ignored: another file already uses the id "${id}".`);
+        continue;
+      }
+      const settings = this.settings[id] ?? {};
+      sounds.push({
+        id,
+        label: settings.label?.trim() || path.parse(fileName).name,
+        fileName,
+        volumeDb: Number.isFinite(settings.volumeDb) ? (settings.volumeDb as number) : 0,
+      });
+    }
+    this.sounds = sounds;
+    return this.listSounds();
+  }
+
+  public listSounds(): SoundboardSound[] {
+    return this.sounds.map((sound) => ({ ...sound }));
+  }
+
+  public getStatus(): SoundboardStatus {
+    const { playback } = this;
+    return {
+      sounds: this.sounds.length,
+      playing: playback
+        ? {
+          soundId: playback.sound.id,
+          label: playback.sound.label,
+          startedAt: new Date(playback.startedAt).toISOString(),
+          durationMs: playback.durationMs,
+        }
+        : null,
+    };
+  }
+
+  public async updateSound(soundId: string, update: { volumeDb?: number; label?: string }): Promise<SoundboardSound> {
+    const sound = this.sounds.find((candidate) => candidate.id === soundId);
+    if (!sound) {
+      throw new Error('SOUND_NOT_FOUND');
+    }
+
+    const settings = { ...(this.settings[soundId] ?? {}) };
+    if (update.volumeDb !== undefined) {
+      sound.volumeDb = Math.min(MAX_SOUND_VOLUME_DB, Math.max(MIN_SOUND_VOLUME_DB, update.volumeDb));
+      settings.volumeDb = sound.volumeDb;
+    }
+    if (update.label !== undefined) {
+      const label = update.label.trim();
+      sound.label = label || path.parse(sound.fileName).name;
+      settings.label = label || undefined;
+    }
+    this.settings = { ...this.settings, [soundId]: settings };
+    await fs.writeFile(this.settingsFile, `${JSON.stringify(this.settings, null, 2)}\n`, 'utf8');
+    return { ...sound };
+  }
+
+  /** Replaces whatever is playing. */
+  public async play(soundId: string): Promise<SoundboardStatus> {
+    const sound = this.sounds.find((candidate) => candidate.id === soundId);
+    if (!sound) {
+      throw new Error('SOUND_NOT_FOUND');
+    }
+
+    let pcm: Buffer;
+    try {
+      pcm = await decodeAudioFile({
+        ffmpegPath: this.ffmpegPath,
+        filePath: path.join(this.directory, sound.fileName),
+        sampleRate: this.sampleRate,
+        channels: this.channels,
+        maxSeconds: this.maxSeconds,
+      });
+    } catch (error) {
+      console.error('Failed to decode soundboard file', { soundId, error });
+      throw new Error('SOUND_DECODE_FAILED');
+    }
+    if (pcm.length === 0) {
+      throw new Error('SOUND_DECODE_FAILED');
+    }
+
+    this.stopPlayback();
+    this.applyVolume(pcm, sound.volumeDb);
+    this.mixer.addSource(SOUNDBOARD_SOURCE_ID, { processed: false });
+    const playback: Playback = {
+      sound,
+      startedAt: Date.now(),
+      durationMs: Math.round((pcm.length / this.frameBytes) * this.frameMs),
+      playout: new PcmPlayout(pcm, {
+        frameBytes: this.frameBytes,
+        frameMs: this.frameMs,
+        onFrame: (frame) => {
+          this.mixer.pushToSource(SOUNDBOARD_SOURCE_ID, frame);
+          this.voiceOutput?.pushAnonymousAudio(frame);
+        },
+        onEnd: () => {
+          if (this.playback === playback) {
+            this.stopPlayback();
+          }
+        },
+      }),
+    };
+    this.playback = playback;
+    playback.playout.start();
+    console.info(`Soundboard playing "${sound.label}" (${sound.id})`);
+    return this.getStatus();
+  }
+
+  public stopPlayback(): boolean {
+    const { playback } = this;
+    if (!playback) {
+      return false;
+    }
+    playback.playout.stop();
+    this.playback = null;
+    this.mixer.removeSource(SOUNDBOARD_SOURCE_ID);
+    return true;
+  }
+
+  private applyVolume(pcm: Buffer, volumeDb: number): void {
+    if (volumeDb === 0) {
+      return;
+    }
+    const gain = 10 ** (volumeDb / 20);
+    for (let offset = 0; offset + 2 <= pcm.length; offset += 2) {
+      const sample = Math.round(pcm.readInt16LE(offset) * gain);
+      pcm.writeInt16LE(Math.max(-32768, Math.min(32767, sample)), offset);
+    }
+  }
+}
@@ -37,6 +37,12 @@ export interface Participant extends UserProfile {
   voiceState: VoiceStateSnapshot;
 }
 
+export interface SpeakingChangeEvent {
+  type: 'start' | 'end';
+  user: Participant;
+  timestamp: number;
+}
+
 export type UserFetcher = (userId: string) => Promise<{
   username?: string;
   globalName?: string | null;
@@ -63,6 +69,8 @@ export default class SpeakerTracker {
 
   private bridgeStatus: BridgeStatus;
 
+  private readonly speakingListeners = new Set<(event: SpeakingChangeEvent) => void>();
+
   constructor({ sseService, voiceActivityRepository = null }: SpeakerTrackerOptions) {
     this.sseService = sseService;
     this.participants = new Map();
@@ -81,6 +89,13 @@ export default class SpeakerTracker {
     this.userFetcher = fetcher;
   }
 
+  public onSpeakingChange(listener: (event: SpeakingChangeEvent) => void): () => void {
+    this.speakingListeners.add(listener);
+    return () => {
+      this.speakingListeners.delete(listener);
+    };
+  }
+
   public getSpeakers(): Participant[] {
     return Array.from(this.participants.values()).map((participant) => this.cloneParticipant(participant));
   }
@@ -180,6 +195,7 @@ export default class SpeakerTracker {
       this.participants.set(userId, updated);
       this.sseService.broadcast('speaking', { type: 'start', user: this.cloneParticipant(updated) });
       this.broadcastState();
+      this.notifySpeakingChange('start', updated, now);
       this.recordVoiceInterrupts(updated, now);
     } catch (error) {
       console.error('Failed to handle speaking start', error);
@@ -204,6 +220,17 @@ export default class SpeakerTracker {
     this.participants.set(userId, updated);
     this.sseService.broadcast('speaking', { type: 'end', user: this.cloneParticipant(updated) });
     this.broadcastState();
+    this.notifySpeakingChange('end', updated, endedAt);
+  }
+
+  private notifySpeakingChange(type: SpeakingChangeEvent['type'], participant: Participant, timestamp: number): void {
+    for (const listener of this.speakingListeners) {
+      try {
+        listener({ type, user: this.cloneParticipant(participant), timestamp });
+      } catch (error) {
+        console.error('Speaking change listener failed', error);
+      }
+    }
   }
 
   public async handleVoiceStateUpdate(userId: string, voiceState: VoiceStateSnapshot | null): Promise<void> {
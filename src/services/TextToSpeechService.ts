@@ -0,0 +1,565 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type AudioMixer from '../audio/AudioMixer';
+import { decodeAudioFile } from '../audio/decodeAudioFile';
+import PcmPlayout from '../audio/PcmPlayout';
+import type { TextToSpeechEngine } from '../audio/TextToSpeech';
+import type DiscordAudioBridge from '../discord/DiscordAudioBridge';
+import type SpeakerTracker from './SpeakerTracker';
+import type { SpeakingChangeEvent } from './SpeakerTracker';
+
+export interface TextToSpeechServiceOptions {
+  engine: TextToSpeechEngine;
+  ffmpegPath: string;
+  mixer: Pick<
+    AudioMixer,
+    'addSource' | 'removeSource' | 'pushToSource' | 'onVoiceActivity' | 'setDucking' | 'clearDucking'
+  >;
+  speakerTracker: Pick<SpeakerTracker, 'onSpeakingChange'>;
+  directory: string;
+  sampleRate: number;
+  channels: number;
+  frameBytes: number;
+  frameMs: number;
+  duckingDb: number;
+  maxCharacters: number;
+  maxWaitMs: number;
+  welcomeTemplate: string | null;
+  welcomeCooldownMs: number;
+}
+
+export type AnnouncementKind = 'manual' | 'welcome' | 'scheduled' | 'message';
+
+export interface QueuedAnnouncement {
+  id: string;
+  kind: AnnouncementKind;
+  text: string;
+  requestedBy: string | null;
+  queuedAt: string;
+}
+
+/** Read every `everyMinutes`, at each `HH:MM` of `at` (server time), or both. */
+export interface ScheduledAnnouncement {
+  id: string;
+  text: string;
+  everyMinutes: number | null;
+  at: string[];
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ScheduledAnnouncementInput = Partial<Pick<ScheduledAnnouncement, 'text' | 'everyMinutes' | 'at' | 'enabled'>>;
+
+export interface ListenerMessage {
+  id: string;
+  author: string | null;
+  text: string;
+  submittedAt: string;
+}
+
+export interface TextToSpeechStatus {
+  engine: string;
+  speaking: (QueuedAnnouncement & { startedAt: string }) | null;
+  queue: QueuedAnnouncement[];
+  scheduled: number;
+  pendingMessages: number;
+}
+
+export const TEXT_TO_SPEECH_SOURCE_ID = 'tts';
+
+const ANNOUNCEMENTS_FILE_NAME = 'announcements.json';
+const MESSAGES_FILE_NAME = 'messages.json';
+const MAX_QUEUE_LENGTH = 20;
+const MAX_PENDING_MESSAGES = 200;
+const MAX_AUTHOR_LENGTH = 40;
+const SCHEDULE_CHECK_INTERVAL_MS = 20 * 1000;
+const PAUSE_POLL_MS = 100;
+/** Silence played before the voice, while the other sources dip. */
+const DUCKING_LEAD_MS = 200;
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function formatTimeOfDay(date: Date): string {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+/**
+ * Lets the station speak: manual announcements from the admin and Discord,
+ * a welcome the first time someone speaks, scheduled announcements and
+ * listener messages once a moderator approves them.
+ *
+ * Announcements are read one at a time, in the next pause of the conversation
+ * (or after `maxWaitMs` at most), through a mixer source of their own. The
+ * other sources are ducked while the station speaks, and the Discord channel
+ * hears it through the bridge's playback pipeline, like the soundboard.
+ */
+export default class TextToSpeechService {
+  private readonly engine: TextToSpeechEngine;
+
+  private readonly ffmpegPath: string;
+
+  private readonly mixer: TextToSpeechServiceOptions['mixer'];
+
+  private readonly speakerTracker: Pick<SpeakerTracker, 'onSpeakingChange'>;
+
+  private readonly directory: string;
+
+  private readonly announcementsFile: string;
+
+  private readonly messagesFile: string;
+
+  private readonly sampleRate: number;
+
+  private readonly channels: number;
+
+  private readonly frameBytes: number;
+
+  private readonly frameMs: number;
+
+  private readonly duckingDb: number;
+
+  private readonly maxCharacters: number;
+
+  private readonly maxWaitMs: number;
+
+  private readonly welcomeTemplate: string | null;
+
+  private readonly welcomeCooldownMs: number;
+
+  private readonly speakingSources = new Set<string>();
+
+  private readonly welcomedAt = new Map<string, number>();
+
+  /** When each announcement was last read, or for `at` schedules the last `day time` key read. */
+  private readonly lastScheduledRuns = new Map<string, number | string>();
+
+  private readonly unsubscribers: Array<() => void> = [];
+
+  private voiceOutput: Pick<DiscordAudioBridge, 'pushAnonymousAudio'> | null = null;
+
+  private announcements: ScheduledAnnouncement[] = [];
+
+  private messages: ListenerMessage[] = [];
+
+  private queue: QueuedAnnouncement[] = [];
+
+  private playback: { item: QueuedAnnouncement; playout: PcmPlayout; startedAt: number; finish: () => void } | null =
+    null;
+
+  private scheduleTimer: NodeJS.Timeout | null = null;
+
+  private processing = false;
+
+  private started = false;
+
+  private startedAt = Date.now();
+
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor({
+    engine,
+    ffmpegPath,
+    mixer,
+    speakerTracker,
+    directory,
+    sampleRate,
+    channels,
+    frameBytes,
+    frameMs,
+    duckingDb,
+    maxCharacters,
+    maxWaitMs,
+    welcomeTemplate,
+    welcomeCooldownMs,
+  }: TextToSpeechServiceOptions) {
+    this.engine = engine;
+    this.ffmpegPath = ffmpegPath;
+    this.mixer = mixer;
+    this.speakerTracker = speakerTracker;
+    this.directory = directory;
+    this.announcementsFile = path.join(directory, ANNOUNCEMENTS_FILE_NAME);
+    this.messagesFile = path.join(directory, MESSAGES_FILE_NAME);
+    this.sampleRate = sampleRate;
+    this.channels = channels;
+    this.frameBytes = frameBytes;
+    this.frameMs = frameMs;
+    this.duckingDb = duckingDb;
+    this.maxCharacters = maxCharacters;
+    this.maxWaitMs = maxWaitMs;
+    this.welcomeTemplate = welcomeTemplate;
+    this.welcomeCooldownMs = welcomeCooldownMs;
+  }
+
+  public async start(): Promise<void> {
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+    } catch (error) {
+      console.error('Failed to prepare the text-to-speech directory', { directory: this.directory, error });
+    }
+    this.announcements = await this.readList<ScheduledAnnouncement>(this.announcementsFile);
+    this.messages = await this.readList<ListenerMessage>(this.messagesFile);
+
+    this.started = true;
+    this.startedAt = Date.now();
+    this.unsubscribers.push(
+      this.mixer.onVoiceActivity((id, speaking) => {
+        if (speaking) {
+          this.speakingSources.add(id);
+        } else {
+          this.speakingSources.delete(id);
+        }
+      }),
+    );
+    if (this.welcomeTemplate) {
+      this.unsubscribers.push(this.speakerTracker.onSpeakingChange((event) => this.handleSpeakingChange(event)));
+    }
+    this.scheduleTimer = setInterval(() => this.runSchedules(), SCHEDULE_CHECK_INTERVAL_MS);
+    if (typeof this.scheduleTimer.unref === 'function') {
+      this.scheduleTimer.unref();
+    }
+  }
+
+  public stop(): void {
+    this.started = false;
+    for (const unsubscribe of this.unsubscribers.splice(0)) {
+      unsubscribe();
+    }
+    if (this.scheduleTimer) {
+      clearInterval(this.scheduleTimer);
+      this.scheduleTimer = null;
+    }
+    this.queue = [];
+    this.playback?.finish();
+  }
+
+  /** The Discord side is attached once the bridge exists, which itself needs this service for its commands. */
+  public setVoiceOutput(output: Pick<DiscordAudioBridge, 'pushAnonymousAudio'> | null): void {
+    this.voiceOutput = output;
+  }
+
+  public getStatus(): TextToSpeechStatus {
+    const { playback } = this;
+    return {
+      engine: this.engine.name,
+      speaking: playback ? { ...playback.item, startedAt: new Date(playback.startedAt).toISOString() } : null,
+      queue: this.queue.map((item) => ({ ...item })),
+      scheduled: this.announcements.filter((announcement) => announcement.enabled).length,
+      pendingMessages: this.messages.length,
+    };
+  }
+
+  public say(
+    text: string,
+    { kind = 'manual', requestedBy = null }: { kind?: AnnouncementKind; requestedBy?: string | null } = {},
+  ): QueuedAnnouncement {
+    const normalized = this.normalizeText(text);
+    if (this.queue.length >= MAX_QUEUE_LENGTH) {
+      throw new Error('QUEUE_FULL');
+    }
+
+    const item: QueuedAnnouncement = {
+      id: randomUUID(),
+      kind,
+      text: normalized,
+      requestedBy,
+      queuedAt: new Date().toISOString(),
+    };
+    this.queue.push(item);
+    console.info(`Text-to-speech ${kind} announcement queued`, { id: item.id, requestedBy });
+    void this.processQueue();
+    return { ...item };
+  }
+
+  /** Stops the announcement being read and drops the queue. */
+  public silence(): boolean {
+    const hadWork = this.queue.length > 0 || this.playback !== null;
+    this.queue = [];
+    this.playback?.finish();
+    return hadWork;
+  }
+
+  public listAnnouncements(): ScheduledAnnouncement[] {
+    return this.announcements.map((announcement) => ({ ...announcement, at: announcement.at.slice() }));
+  }
+
+  public async createAnnouncement(input: ScheduledAnnouncementInput): Promise<ScheduledAnnouncement> {
+    const now = new Date().toISOString();
+    const announcement = this.validateAnnouncement({
+      id: randomUUID(),
+      text: input.text ?? '',
+      everyMinutes: input.everyMinutes ?? null,
+      at: input.at ?? [],
+      enabled: input.enabled ?? true,
+      createdAt: now,
+      updatedAt: now,
+    });
+    this.announcements = [...this.announcements, announcement];
+    this.lastScheduledRuns.set(announcement.id, Date.now());
+    await this.persist(this.announcementsFile, this.announcements);
+    return { ...announcement, at: announcement.at.slice() };
+  }
+
+  public async updateAnnouncement(id: string, input: ScheduledAnnouncementInput): Promise<ScheduledAnnouncement> {
+    const existing = this.announcements.find((announcement) => announcement.id === id);
+    if (!existing) {
+      throw new Error('ANNOUNCEMENT_NOT_FOUND');
+    }
+    const announcement = this.validateAnnouncement({
+      ...existing,
+      ...Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined)),
+      updatedAt: new Date().toISOString(),
+    });
+    this.announcements = this.announcements.map((candidate) => (candidate.id === id ? announcement : candidate));
+    await this.persist(this.announcementsFile, this.announcements);
+    return { ...announcement, at: announcement.at.slice() };
+  }
+
+  public async deleteAnnouncement(id: string): Promise<void> {
+    if (!this.announcements.some((announcement) => announcement.id === id)) {
+      throw new Error('ANNOUNCEMENT_NOT_FOUND');
+    }
+    this.announcements = this.announcements.filter((announcement) => announcement.id !== id);
+    this.lastScheduledRuns.delete(id);
+    await this.persist(this.announcementsFile, this.announcements);
+  }
+
+  public listMessages(): ListenerMessage[] {
+    return this.messages.map((message) => ({ ...message }));
+  }
+
+  /** Listener messages wait for a moderator; nothing is read before `approveMessage`. */
+  public async submitMessage({ author, text }: { author?: string | null; text: string }): Promise<ListenerMessage> {
+    const normalizedText = this.normalizeText(text);
+    if (this.messages.length >= MAX_PENDING_MESSAGES) {
+      throw new Error('MESSAGES_FULL');
+    }
+    const normalizedAuthor = typeof author === 'string' ? author.replace(/\s+/g, ' ').trim().slice(0, MAX_AUTHOR_LENGTH) : '';
+    const message: ListenerMessage = {
+      id: randomUUID(),
+      author: normalizedAuthor || null,
+      text: normalizedText,
+      submittedAt: new Date().toISOString(),
+    };
+    this.messages = [...this.messages, message];
+    await this.persist(this.messagesFile, this.messages);
+    return { ...message };
+  }
+
+  public async approveMessage(id: string, approvedBy: string | null = null): Promise<QueuedAnnouncement> {
+    const message = this.messages.find((candidate) => candidate.id === id);
+    if (!message) {
+      throw new Error('MESSAGE_NOT_FOUND');
+    }
+    const intro = message.author ? `Message de ${message.author}` : 'Message d’un auditeur';
+    const item = this.say(`${intro} : ${message.text}`.slice(0, this.maxCharacters), {
+      kind: 'message',
+      requestedBy: approvedBy,
+    });
+    this.messages = this.messages.filter((candidate) => candidate.id !== id);
+    await this.persist(this.messagesFile, this.messages);
+    return item;
+  }
+
+  public async rejectMessage(id: string): Promise<void> {
+    if (!this.messages.some((candidate) => candidate.id === id)) {
+      throw new Error('MESSAGE_NOT_FOUND');
+    }
+    this.messages = this.messages.filter((candidate) => candidate.id !== id);
+    await this.persist(this.messagesFile, this.messages);
+  }
+
+  private normalizeText(text: string): string {
+    const normalized = typeof text === 'string' ? text.replace(/\s+/g, ' ').trim() : '';
+    if (!normalized) {
+      throw new Error('TEXT_REQUIRED');
+    }
+    if (normalized.length > this.maxCharacters) {
+      throw new Error('TEXT_TOO_LONG');
+    }
+    return normalized;
+  }
+
+  private validateAnnouncement(announcement: ScheduledAnnouncement): ScheduledAnnouncement {
+    const everyMinutes =
+      announcement.everyMinutes === null ? null : Math.floor(Number(announcement.everyMinutes));
+    if (everyMinutes !== null && (!Number.isFinite(everyMinutes) || everyMinutes < 1 || everyMinutes > 24 * 60)) {
+      throw new Error('INVALID_SCHEDULE');
+    }
+    const at = Array.isArray(announcement.at) ? announcement.at.map((time) => String(time).trim()) : [];
+    if (at.some((time) => !TIME_OF_DAY_PATTERN.test(time))) {
+      throw new Error('INVALID_SCHEDULE');
+    }
+    if (everyMinutes === null && at.length === 0) {
+      throw new Error('SCHEDULE_REQUIRED');
+    }
+    return {
+      ...announcement,
+      text: this.normalizeText(announcement.text),
+      everyMinutes,
+      at: Array.from(new Set(at)).sort(),
+      enabled: announcement.enabled !== false,
+    };
+  }
+
+  private handleSpeakingChange({ type, user }: SpeakingChangeEvent): void {
+    if (type !== 'start' || !this.welcomeTemplate) {
+      return;
+    }
+    const now = Date.now();
+    const welcomedAt = this.welcomedAt.get(user.id);
+    if (welcomedAt !== undefined && now - welcomedAt < this.welcomeCooldownMs) {
+      return;
+    }
+    this.welcomedAt.set(user.id, now);
+
+    const name = (user.displayName || user.username || '').trim();
+    if (!name) {
+      return;
+    }
+    try {
+      this.say(this.welcomeTemplate.replace(/\{name\}/g, name).slice(0, this.maxCharacters), { kind: 'welcome' });
+    } catch (error) {
+      console.warn('Failed to queue a welcome announcement', { userId: user.id, error });
+    }
+  }
+
+  private runSchedules(): void {
+    const now = new Date();
+    const time = formatTimeOfDay(now);
+    const dayKey = `${now.toDateString()} ${time}`;
+    for (const announcement of this.announcements) {
+      if (!announcement.enabled) {
+        continue;
+      }
+
+      let due = false;
+      if (announcement.at.includes(time) && this.lastScheduledRuns.get(`${announcement.id}@`) !== dayKey) {
+        this.lastScheduledRuns.set(`${announcement.id}@`, dayKey);
+        due = true;
+      }
+      if (announcement.everyMinutes !== null) {
+        const lastRun = this.lastScheduledRuns.get(announcement.id);
+        const since = typeof lastRun === 'number' ? lastRun : this.startedAt;
+        if (now.getTime() - since >= announcement.everyMinutes * 60 * 1000) {
+          due = true;
+        }
+      }
+      if (!due || this.queue.some((item) => item.kind === 'scheduled' && item.text === announcement.text)) {
+        continue;
+      }
+
+      this.lastScheduledRuns.set(announcement.id, now.getTime());
+      try {
+        this.say(announcement.text, { kind: 'scheduled' });
+      } catch (error) {
+        console.warn('Failed to queue a scheduled announcement', { id: announcement.id, error });
+      }
+    }
+  }
+
+  private async processQueue(): Promise<void> {
+    if (this.processing) {
+      return;
+    }
+    this.processing = true;
+    try {
+      while (this.started && this.queue.length > 0) {
+        const item = this.queue[0];
+        let pcm: Buffer;
+        try {
+          pcm = await this.synthesize(item.text);
+        } catch (error) {
+          console.error('Text-to-speech synthesis failed', { id: item.id, engine: this.engine.name, error });
+          this.queue = this.queue.filter((candidate) => candidate !== item);
+          continue;
+        }
+
+        await this.waitForPause();
+        // Dropped by `silence()` while it was being synthesized.
+        if (!this.queue.includes(item)) {
+          continue;
+        }
+        this.queue = this.queue.filter((candidate) => candidate !== item);
+        await this.speak(item, pcm);
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async synthesize(text: string): Promise<Buffer> {
+    const wavFile = path.join(os.tmpdir(), `libre-antenne-tts-${randomUUID()}.wav`);
+    try {
+      await this.engine.synthesize(text, wavFile);
+      return await decodeAudioFile({
+        ffmpegPath: this.ffmpegPath,
+        filePath: wavFile,
+        sampleRate: this.sampleRate,
+        channels: this.channels,
+      });
+    } finally {
+      await fs.rm(wavFile, { force: true }).catch(() => undefined);
+    }
+  }
+
+  /** Waits for nobody to be speaking, for `maxWaitMs` at most. */
+  private async waitForPause(): Promise<void> {
+    const deadline = Date.now() + this.maxWaitMs;
+    while (this.started && this.speakingSources.size > 0 && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, PAUSE_POLL_MS));
+    }
+  }
+
+  private speak(item: QueuedAnnouncement, pcm: Buffer): Promise<void> {
+    return new Promise<void>((resolve) => {
+      const leadBytes = Math.round(DUCKING_LEAD_MS / this.frameMs) * this.frameBytes;
+      const playout = new PcmPlayout(Buffer.concat([Buffer.alloc(leadBytes), pcm]), {
+        frameBytes: this.frameBytes,
+        frameMs: this.frameMs,
+        onFrame: (frame) => {
+          this.mixer.pushToSource(TEXT_TO_SPEECH_SOURCE_ID, frame);
+          this.voiceOutput?.pushAnonymousAudio(frame);
+        },
+        onEnd: () => finish(),
+      });
+      const finish = (): void => {
+        if (this.playback?.playout !== playout) {
+          return;
+        }
+        playout.stop();
+        this.playback = null;
+        this.mixer.clearDucking(TEXT_TO_SPEECH_SOURCE_ID);
+        this.mixer.removeSource(TEXT_TO_SPEECH_SOURCE_ID);
+        resolve();
+      };
+
+      this.mixer.addSource(TEXT_TO_SPEECH_SOURCE_ID, { processed: false });
+      this.mixer.setDucking(TEXT_TO_SPEECH_SOURCE_ID, this.duckingDb);
+      this.playback = { item, playout, startedAt: Date.now(), finish };
+      console.info(`Text-to-speech reading ${item.kind} announcement`, { id: item.id });
+      playout.start();
+    });
+  }
+
+  private async readList<T>(file: string): Promise<T[]> {
+    try {
+      const parsed = JSON.parse(await fs.readFile(file, 'utf8')) as unknown;
+      return Array.isArray(parsed) ? (parsed as T[]) : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+        console.warn('Failed to read text-to-speech data', { file, error });
+      }
+      return [];
+    }
+  }
+
+  /** Writes are chained so concurrent changes land in the order they were made. */
+  private persist(file: string, entries: unknown[]): Promise<void> {
+    const payload = `${JSON.stringify(entries, null, 2)}\n`;
+    const write = this.writeQueue.then(() => fs.writeFile(file, payload, 'utf8'));
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+}
@@ -1,5 +1,6 @@
 import OpenAI from 'openai';
 import type { Config } from '../config';
+import type ConsentService from './ConsentService';
 import type VoiceActivityRepository from './VoiceActivityRepository';
 import type {
   PersonaInsightItem,
@@ -14,6 +15,7 @@ import type {
 interface UserPersonaServiceOptions {
   config: Config;
   voiceActivityRepository: VoiceActivityRepository | null;
+  consentService?: Pick<ConsentService, 'hasConsented'> | null;
 }
 
 type PersonaComputationResult =
@@ -37,6 +39,7 @@ type PersonaComputationResult =
 
 export type PersonaGenerationReason =
   | 'INVALID_USER_ID'
+  | 'CONSENT_WITHDRAWN'
   | 'SERVICE_UNAVAILABLE'
   | 'INSUFFICIENT_DATA'
   | 'EMPTY_RESPONSE'
@@ -344,6 +347,8 @@ export default class UserPersonaService {
 
   private readonly openai: OpenAI | null;
 
+  private readonly consentService: Pick<ConsentService, 'hasConsented'> | null;
+
   private timer: NodeJS.Timeout | null = null;
 
   private running = false;
@@ -357,6 +362,7 @@ export default class UserPersonaService {
   constructor(options: UserPersonaServiceOptions) {
     this.config = options.config;
     this.voiceActivityRepository = options.voiceActivityRepository ?? null;
+    this.consentService = options.consentService ?? null;
     this.openai = this.config.openAI.apiKey ? new OpenAI({ apiKey: this.config.openAI.apiKey }) : null;
 
     this.enabled = false;
@@ -425,6 +431,14 @@ export default class UserPersonaService {
       };
     }
 
+    if (this.consentService && !this.consentService.hasConsented(trimmedId, 'persona')) {
+      return {
+        status: 'skipped',
+        reason: 'CONSENT_WITHDRAWN',
+        message: 'Ce membre a refusé la génération de sa fiche persona.',
+      };
+    }
+
     const now = new Date();
     const lookbackSince = new Date(
       now.getTime() - this.config.openAI.personaLookbackDays * 24 * 60 * 60 * 1000,
@@ -609,6 +623,10 @@ export default class UserPersonaService {
       return false;
     }
 
+    if (this.consentService && !this.consentService.hasConsented(candidate.userId, 'persona')) {
+      return false;
+    }
+
     const lastActivityTime = candidate.lastActivityAt.getTime();
     if (!Number.isFinite(lastActivityTime)) {
       return false;
@@ -12,5 +12,7 @@ declare module 'discord.js' {
   export const ChannelType: {
     GuildText: number;
     GuildAnnouncement: number;
+    GuildVoice: number;
+    GuildStageVoice: number;
   };
 }
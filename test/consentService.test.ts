@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import ConsentService, { type ConsentChange } from '../src/services/ConsentService';
+
+async function createService(storageDirectory: string): Promise<ConsentService> {
+  const service = new ConsentService({ storageDirectory });
+  await service.initialize();
+  return service;
+}
+
+async function testDefaultsToFullConsent(storageDirectory: string): Promise<void> {
+  const service = await createService(storageDirectory);
+  assert.deepEqual(service.getConsent('42'), {
+    userId: '42',
+    mix: true,
+    transcription: true,
+    recording: true,
+    persona: true,
+    updatedAt: null,
+  });
+  assert.equal(service.hasConsented('42', 'recording'), true, 'Un membre inconnu accepte tout par défaut.');
+  assert.deepEqual(service.listOptOuts(), []);
+}
+
+async function testPersistsAndAnnouncesChanges(storageDirectory: string): Promise<void> {
+  const service = await createService(storageDirectory);
+  const changes: ConsentChange[] = [];
+  const unsubscribe = service.onChange((change) => changes.push(change));
+
+  const updated = await service.update(' 42 ', { recording: false, transcription: false, mix: true });
+  assert.equal(updated.userId, '42', 'L’identifiant est normalisé.');
+  assert.equal(updated.recording, false);
+  assert.equal(service.hasConsented('42', 'transcription'), false);
+  assert.equal(changes.length, 1);
+  assert.deepEqual(changes[0].withdrawn, ['transcription', 'recording'], 'Seuls les usages modifiés sont annoncés.');
+  assert.deepEqual(changes[0].granted, []);
+
+  await service.update('42', { recording: false });
+  assert.equal(changes.length, 1, 'Une mise à jour sans effet ne doit rien annoncer.');
+
+  const stored = JSON.parse(await fs.readFile(path.join(storageDirectory, 'consent.json'), 'utf8'));
+  assert.equal(stored.length, 1);
+  assert.equal(stored[0].userId, '42');
+  assert.equal(stored[0].recording, false);
+
+  const reloaded = await createService(storageDirectory);
+  assert.equal(reloaded.hasConsented('42', 'recording'), false, 'Le retrait doit survivre à un redémarrage.');
+  assert.equal(reloaded.hasConsented('42', 'mix'), true);
+
+  await service.update('42', { recording: true, transcription: true });
+  assert.equal(changes.length, 2);
+  assert.deepEqual(changes[1].granted, ['transcription', 'recording']);
+  assert.deepEqual(service.listOptOuts(), [], 'Un membre qui accepte tout n’est plus conservé.');
+  assert.deepEqual(JSON.parse(await fs.readFile(path.join(storageDirectory, 'consent.json'), 'utf8')), []);
+
+  unsubscribe();
+  await service.update('42', { persona: false });
+  assert.equal(changes.length, 2, 'Un écouteur désinscrit ne reçoit plus les changements.');
+}
+
+async function testFailedWriteKeepsPreviousConsent(storageDirectory: string): Promise<void> {
+  const service = await createService(storageDirectory);
+  const changes: ConsentChange[] = [];
+  service.onChange((change) => changes.push(change));
+
+  // A directory in place of the registry makes the next write fail.
+  const registry = path.join(storageDirectory, 'consent.json');
+  await fs.rm(registry, { force: true });
+  await fs.mkdir(registry);
+  try {
+    await assert.rejects(service.update('99', { mix: false }));
+    assert.equal(service.hasConsented('99', 'mix'), true, 'Un retrait non enregistré ne doit pas s’appliquer.');
+    assert.ok(!service.listOptOuts().some((entry) => entry.userId === '99'));
+    assert.equal(changes.length, 0, 'Un changement non enregistré ne doit pas être annoncé.');
+  } finally {
+    await fs.rm(registry, { recursive: true, force: true });
+  }
+
+  const updated = await service.update('99', { mix: false });
+  assert.equal(updated.mix, false, 'La mise à jour suivante repart de l’état enregistré.');
+  assert.equal(service.hasConsented('99', 'mix'), false);
+  assert.equal(changes.length, 1);
+  await service.update('99', { mix: true });
+}
+
+async function testIgnoresInvalidRecords(storageDirectory: string): Promise<void> {
+  await fs.writeFile(
+    path.join(storageDirectory, 'consent.json'),
+    JSON.stringify([{ userId: '  ', mix: false }, { userId: '7', mix: false, recording: 'non' }]),
+    'utf8',
+  );
+  const service = await createService(storageDirectory);
+  assert.deepEqual(
+    service.listOptOuts().map((entry) => entry.userId),
+    ['7'],
+    'Une entrée sans identifiant est ignorée.',
+  );
+  assert.equal(service.hasConsented('7', 'mix'), false);
+  assert.equal(service.hasConsented('7', 'recording'), true, 'Seul `false` vaut retrait.');
+
+  await assert.rejects(service.update('  ', { mix: false }), /USER_ID_REQUIRED/);
+}
+
+async function main(): Promise<void> {
+  const storageDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'consent-service-test-'));
+  try {
+    await testDefaultsToFullConsent(storageDirectory);
+    await testPersistsAndAnnouncesChanges(storageDirectory);
+    await testFailedWriteKeepsPreviousConsent(storageDirectory);
+    await testIgnoresInvalidRecords(storageDirectory);
+  } finally {
+    await fs.rm(storageDirectory, { recursive: true, force: true });
+  }
+  console.log('ConsentService tests passed.');
+}
+
+void main().catch((error) => {
+  console.error('ConsentService tests failed.', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,242 @@
+import assert from 'node:assert/strict';
+import net from 'node:net';
+import { PassThrough } from 'node:stream';
+
+import IcecastRelayService, {
+  type IcecastRelayTarget,
+  type IcecastStreamSource,
+} from '../src/services/IcecastRelayService';
+
+interface FakeSourceConnection {
+  request: string;
+  body: () => Buffer;
+  closed: Promise<void>;
+}
+
+interface FakeServer {
+  port: number;
+  nextConnection: () => Promise<FakeSourceConnection>;
+  close: () => Promise<void>;
+}
+
+/**
+ * Minimal Icecast/Shoutcast stand-in: answers each source connection with the
+ * next scripted reply, then records whatever the client streams.
+ */
+async function startFakeServer(replies: string[], handshakeEnd: string): Promise<FakeServer> {
+  const connections: FakeSourceConnection[] = [];
+  const waiters: Array<(connection: FakeSourceConnection) => void> = [];
+  let consumed = 0;
+  const sockets = new Set<net.Socket>();
+
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    const reply = replies.shift() ?? 'HTTP/1.0 200 OK\r\n\r\n';
+    let buffer = Buffer.alloc(0);
+    let request: string | null = null;
+    const chunks: Buffer[] = [];
+    let resolveClosed: () => void = () => {};
+    const closed = new Promise<void>((resolve) => {
+      resolveClosed = resolve;
+    });
+
+    socket.on('data', (data: Buffer) => {
+      if (request !== null) {
+        chunks.push(data);
+        return;
+      }
+      buffer = Buffer.concat([buffer, data]);
+      const end = buffer.indexOf(handshakeEnd);
+      if (end === -1) {
+        return;
+      }
+      request = buffer.subarray(0, end).toString('latin1');
+      const rest = buffer.subarray(end + handshakeEnd.length);
+      if (rest.length > 0) {
+        chunks.push(rest);
+      }
+      const connection: FakeSourceConnection = { request, body: () => Buffer.concat(chunks), closed };
+      connections.push(connection);
+      const waiter = waiters.shift();
+      if (waiter) {
+        consumed += 1;
+        waiter(connection);
+      }
+      socket.write(reply);
+      if (!reply.startsWith('HTTP/1.0 200') && !reply.startsWith('OK2')) {
+        socket.end();
+      }
+    });
+    socket.on('error', () => {});
+    socket.on('close', () => {
+      sockets.delete(socket);
+      resolveClosed();
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const address = server.address() as net.AddressInfo;
+
+  return {
+    port: address.port,
+    nextConnection: () =>
+      new Promise<FakeSourceConnection>((resolve) => {
+        if (consumed < connections.length) {
+          resolve(connections[consumed]);
+          consumed += 1;
+          return;
+        }
+        waiters.push(resolve);
+      }),
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const socket of sockets) {
+          socket.destroy();
+        }
+        server.close(() => resolve());
+      }),
+  };
+}
+
+function createFakeSource(header: Buffer): IcecastStreamSource & { broadcast: PassThrough } {
+  const broadcast = new PassThrough();
+  return {
+    broadcast,
+    getHeaderBuffer: () => header,
+    createClientStream: () => {
+      const stream = new PassThrough();
+      broadcast.pipe(stream);
+      return stream;
+    },
+    releaseClientStream: (stream) => {
+      broadcast.unpipe(stream);
+      stream.end();
+    },
+  };
+}
+
+async function waitFor(predicate: () => boolean, message: string, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!predicate()) {
+    if (Date.now() > deadline) {
+      throw new Error(message);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+const metadata = {
+  name: 'Libre Antenne',
+  description: 'Test de relais',
+  genre: 'Talk',
+  url: 'https://libre-antenne.test/',
+  public: false,
+};
+
+async function testIcecastReconnectsAfterRejection(): Promise<void> {
+  const server = await startFakeServer(['HTTP/1.0 401 Unauthorized\r\n\r\n', 'HTTP/1.0 200 OK\r\n\r\n'], '\r\n\r\n');
+  const source = createFakeSource(Buffer.from('OggS-header'));
+  const target: IcecastRelayTarget = {
+    id: `127.0.0.1:${server.port}/live.ogg`,
+    protocol: 'icecast',
+    host: '127.0.0.1',
+    port: server.port,
+    mount: '/live.ogg',
+    username: 'source',
+    password: 'hackme',
+    format: 'opus',
+    mimeType: 'audio/ogg',
+    bitrate: '64000',
+    source,
+  };
+  const relay = new IcecastRelayService({ targets: [target], metadata, reconnectMinDelayMs: 20 });
+
+  try {
+    relay.start();
+
+    const rejected = await server.nextConnection();
+    assert.match(rejected.request, /^PUT \/live\.ogg HTTP\/1\.1\r\n/);
+    const credentials = Buffer.from('source:hackme').toString('base64');
+    assert.ok(rejected.request.includes(`Authorization: Basic ${credentials}`), 'Les identifiants source sont manquants.');
+    assert.ok(rejected.request.includes('Content-Type: audio/ogg'));
+    assert.ok(rejected.request.includes('Ice-Name: Libre Antenne'));
+    assert.ok(rejected.request.includes('Ice-Public: 0'));
+    assert.ok(rejected.request.includes('Ice-Audio-Info: bitrate=64'));
+
+    const accepted = await server.nextConnection();
+    await waitFor(() => relay.getStatus()[0].state === 'connected', 'Le relais ne s’est pas reconnecté.');
+
+    const [status] = relay.getStatus();
+    assert.equal(status.reconnectAttempts, 0);
+    assert.match(status.lastError ?? '', /401/);
+    assert.ok(status.connectedAt, 'La date de connexion devrait être renseignée.');
+
+    source.broadcast.write(Buffer.from('-audio-1'));
+    source.broadcast.write(Buffer.from('-audio-2'));
+    await waitFor(
+      () => accepted.body().toString() === 'OggS-header-audio-1-audio-2',
+      'Le serveur devrait recevoir l’en-tête puis le flux.',
+    );
+    assert.equal(relay.getStatus()[0].bytesSent, 'OggS-header-audio-1-audio-2'.length);
+
+    relay.stop();
+    await accepted.closed;
+    assert.equal(relay.getStatus()[0].state, 'stopped');
+  } finally {
+    relay.stop();
+    await server.close();
+  }
+}
+
+async function testShoutcastHandshake(): Promise<void> {
+  const server = await startFakeServer(['OK2\r\nicy-caps:11\r\n\r\n'], '\r\n');
+  const source = createFakeSource(Buffer.alloc(0));
+  const relay = new IcecastRelayService({
+    targets: [
+      {
+        id: `127.0.0.1:${server.port}/`,
+        protocol: 'shoutcast',
+        host: '127.0.0.1',
+        port: server.port,
+        mount: '/',
+        username: 'source',
+        password: 'secret',
+        format: 'mp3',
+        mimeType: 'audio/mpeg',
+        bitrate: '128k',
+        source,
+      },
+    ],
+    metadata,
+    reconnectMinDelayMs: 20,
+  });
+
+  try {
+    relay.start();
+    const connection = await server.nextConnection();
+    assert.equal(connection.request, 'secret');
+    await waitFor(() => relay.getStatus()[0].state === 'connected', 'Le relais Shoutcast ne s’est pas connecté.');
+
+    source.broadcast.write(Buffer.from('ID3-frame'));
+    await waitFor(() => connection.body().toString().endsWith('ID3-frame'), 'Le flux MP3 devrait suivre les en-têtes ICY.');
+    const body = connection.body().toString();
+    assert.ok(body.startsWith('content-type:audio/mpeg\r\n'), 'Les en-têtes ICY doivent précéder le flux.');
+    assert.ok(body.includes('icy-name:Libre Antenne\r\n'));
+    assert.ok(body.includes('icy-br:128\r\n'));
+    assert.ok(body.includes('\r\n\r\nID3-frame'));
+  } finally {
+    relay.stop();
+    await server.close();
+  }
+}
+
+async function main(): Promise<void> {
+  await testIcecastReconnectsAfterRejection();
+  await testShoutcastHandshake();
+  console.log('IcecastRelayService tests passed.');
+}
+
+void main().catch((error) => {
+  console.error('IcecastRelayService tests failed.', error);
+  process.exitCode = 1;
+});
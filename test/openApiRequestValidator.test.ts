@@ -0,0 +1,171 @@
+import assert from 'node:assert/strict';
+
+import type { Request, Response } from 'express';
+
+import {
+  createOpenApiRequestValidator,
+  getValidatedInput,
+  type ValidatedRequestInput,
+} from '../src/http/openapi/requestValidator';
+import type { OpenApiDocument } from '../src/http/openapi/schemaValidator';
+
+const document: OpenApiDocument = {
+  openapi: '3.1.0',
+  paths: {
+    '/api/posts': {
+      get: {
+        operationId: 'listPosts',
+        parameters: [
+          { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1 } },
+          { name: 'published', in: 'query', schema: { type: 'boolean' } },
+          { name: 'tag', in: 'query', schema: { type: 'string' } },
+        ],
+      },
+      post: {
+        operationId: 'createPost',
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/PostInput' } } },
+        },
+      },
+    },
+    '/api/posts/latest': {
+      get: { operationId: 'getLatestPost' },
+    },
+    '/api/posts/{slug}': {
+      get: {
+        operationId: 'getPost',
+        parameters: [{ name: 'slug', in: 'path', required: true, schema: { type: 'string' } }],
+      },
+    },
+  },
+  components: {
+    schemas: {
+      PostInput: {
+        type: 'object',
+        required: ['title'],
+        properties: {
+          title: { type: 'string', minLength: 1 },
+          time: { type: 'string', pattern: '^([01]\\d|2[0-3]):[0-5]\\d$' },
+          tags: { type: 'array', items: { type: 'string' } },
+        },
+      },
+    },
+  },
+};
+
+interface ValidationResult {
+  nextCalled: boolean;
+  status: number | null;
+  payload: unknown;
+  locals: Record<string, unknown>;
+}
+
+/** Runs the middleware once against a bare request, the way Express would after `express.json()`. */
+function validate(
+  method: string,
+  path: string,
+  { query = {}, body }: { query?: Record<string, unknown>; body?: unknown } = {},
+): ValidationResult {
+  const middleware = createOpenApiRequestValidator(document);
+  const result: ValidationResult = { nextCalled: false, status: null, payload: undefined, locals: {} };
+  const req = { method, path, query, body, params: {} } as unknown as Request;
+  const res = {
+    locals: result.locals,
+    status(code: number) {
+      result.status = code;
+      return this;
+    },
+    json(payload: unknown) {
+      result.payload = payload;
+      return this;
+    },
+  } as unknown as Response;
+
+  middleware(req, res, () => {
+    result.nextCalled = true;
+  });
+  return result;
+}
+
+function testCoercesQueryParameters(): void {
+  const result = validate('GET', '/api/posts', { query: { limit: '20', published: 'false', tag: ['a', 'b'] } });
+  assert.ok(result.nextCalled, 'Une requête valide doit être transmise à la route.');
+  const input = result.locals.openapi as ValidatedRequestInput;
+  assert.equal(input.operationId, 'listPosts');
+  assert.deepEqual(input.query, { limit: 20, published: false, tag: ['a', 'b'] });
+}
+
+function testRejectsInvalidQuery(): void {
+  const result = validate('GET', '/api/posts', { query: { limit: '0', published: 'peut-être' } });
+  assert.equal(result.nextCalled, false, 'Une requête invalide ne doit pas atteindre la route.');
+  assert.equal(result.status, 400);
+  assert.deepEqual(result.payload, {
+    error: 'INVALID_REQUEST',
+    message: 'La requête ne respecte pas le format attendu.',
+    details: {
+      'query.limit': 'doit être supérieur ou égal à 1',
+      'query.published': 'doit être de type boolean',
+    },
+  });
+}
+
+function testValidatesBodies(): void {
+  const missing = validate('POST', '/api/posts');
+  assert.equal(missing.status, 400);
+  assert.deepEqual((missing.payload as { details: unknown }).details, { body: 'est requis' });
+
+  const invalid = validate('POST', '/api/posts', { body: { title: 'Bonjour', tags: 'a,b' } });
+  assert.equal(invalid.status, 400);
+  assert.ok('body.tags' in (invalid.payload as { details: Record<string, string> }).details);
+
+  const badTime = validate('POST', '/api/posts', { body: { title: 'Bonjour', time: '24:00' } });
+  assert.deepEqual((badTime.payload as { details: unknown }).details, {
+    'body.time': 'doit respecter le format ^([01]\\d|2[0-3]):[0-5]\\d$',
+  });
+
+  const valid = validate('POST', '/api/posts', { body: { title: 'Bonjour', tags: ['a'] } });
+  assert.ok(valid.nextCalled);
+  assert.deepEqual((valid.locals.openapi as ValidatedRequestInput).body, { title: 'Bonjour', tags: ['a'] });
+}
+
+function testMatchesPathTemplates(): void {
+  const latest = validate('GET', '/api/posts/latest');
+  assert.equal((latest.locals.openapi as ValidatedRequestInput).operationId, 'getLatestPost');
+
+  const post = validate('GET', '/api/posts/mon%20article');
+  const input = post.locals.openapi as ValidatedRequestInput;
+  assert.equal(input.operationId, 'getPost');
+  assert.deepEqual(input.params, { slug: 'mon article' }, 'Les paramètres de chemin doivent être décodés.');
+}
+
+function testUndocumentedRoutesPassThrough(): void {
+  const result = validate('GET', '/admin/unknown', { query: { limit: 'abc' } });
+  assert.ok(result.nextCalled, 'Une route absente de la spécification ne doit pas être bloquée.');
+  assert.equal(result.locals.openapi, undefined);
+
+  const req = { params: { id: '42' }, query: { limit: 'abc' }, body: undefined } as unknown as Request;
+  const res = { locals: {} } as unknown as Response;
+  assert.deepEqual(getValidatedInput(req, res), {
+    operationId: null,
+    params: { id: '42' },
+    query: { limit: 'abc' },
+    body: undefined,
+  });
+}
+
+function main(): void {
+  testCoercesQueryParameters();
+  testRejectsInvalidQuery();
+  testValidatesBodies();
+  testMatchesPathTemplates();
+  testUndocumentedRoutesPassThrough();
+  console.log('OpenAPI request validator tests passed.');
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('OpenAPI request validator tests failed.', error);
+  process.exitCode = 1;
+}
@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import path from 'node:path';
+
+import type { Router } from 'express';
+
+import { loadOpenApiDocument } from '../src/http/openapi/requestValidator';
+import type { OpenApiHttpMethod } from '../src/http/openapi/schemaValidator';
+import { createAdminRouter } from '../src/http/routes/admin';
+import { createAnonymousRouter } from '../src/http/routes/anonymous';
+import { createArchivesRouter } from '../src/http/routes/archives';
+import { createBlogRouter } from '../src/http/routes/blog';
+import { createClipsRouter } from '../src/http/routes/clips';
+import { createCommunityRouter } from '../src/http/routes/community';
+import { createDiscordRouter } from '../src/http/routes/discord';
+import { createMessagesRouter } from '../src/http/routes/messages';
+import { createPrivacyRouter } from '../src/http/routes/privacy';
+import { createRoomsRouter } from '../src/http/routes/rooms';
+import { createShopRouter } from '../src/http/routes/shop';
+import { createStatsRouter } from '../src/http/routes/stats';
+import { createUsersRouter } from '../src/http/routes/users';
+
+interface RouteLayer {
+  route?: { path: unknown; methods: Record<string, boolean> };
+}
+
+/** Routers are only built to read their routes: every dependency is a no-op. */
+const stubDeps = new Proxy({}, { get: () => () => undefined }) as never;
+
+/**
+ * Same prefixes as `AppServer.registerRoutes()`. The chat route is left out: `routes/chat.ts`
+ * loads the bot configuration as soon as it is imported.
+ */
+const MOUNTS: Array<{ prefix: string; router: Router }> = [
+  { prefix: '/api/rooms', router: createRoomsRouter(stubDeps) },
+  { prefix: '', router: createAnonymousRouter(stubDeps) },
+  { prefix: '/api', router: createStatsRouter(stubDeps) },
+  { prefix: '/api', router: createDiscordRouter(stubDeps) },
+  { prefix: '/api', router: createCommunityRouter(stubDeps) },
+  { prefix: '/api/privacy', router: createPrivacyRouter(stubDeps) },
+  { prefix: '/api/messages', router: createMessagesRouter(stubDeps) },
+  { prefix: '/api/users', router: createUsersRouter(stubDeps) },
+  { prefix: '/api/archives', router: createArchivesRouter(stubDeps) },
+  { prefix: '/api/clips', router: createClipsRouter(stubDeps) },
+  { prefix: '/api/blog', router: createBlogRouter(stubDeps) },
+  { prefix: '/api/shop', router: createShopRouter(stubDeps) },
+  { prefix: '/admin', router: createAdminRouter(stubDeps) },
+];
+
+/** `/api/users` + `/:userId/profile` → `/api/users/{userId}/profile`. */
+function toTemplate(prefix: string, routePath: string): string {
+  const joined = `${prefix}${routePath}`.replace(/\/$/, '') || '/';
+  return joined.replace(/:(\w+)/g, '{$1}');
+}
+
+function listRegisteredOperations(): string[] {
+  const operations: string[] = [];
+  for (const { prefix, router } of MOUNTS) {
+    for (const layer of router.stack as RouteLayer[]) {
+      if (!layer.route) {
+        continue;
+      }
+      assert.equal(typeof layer.route.path, 'string', `Chemin de route non textuel sous ${prefix || '/'}.`);
+      const template = toTemplate(prefix, layer.route.path as string);
+      for (const method of Object.keys(layer.route.methods)) {
+        operations.push(`${method} ${template}`);
+      }
+    }
+  }
+  return Array.from(new Set(operations));
+}
+
+function testEveryRouteIsDocumented(): void {
+  const document = loadOpenApiDocument(path.join(__dirname, '..', 'docs', 'openapi.json'));
+  const operations = listRegisteredOperations();
+  assert.ok(operations.length > 0, 'Aucune route n’a été trouvée.');
+
+  const undocumented = operations.filter((operation) => {
+    const [method, template] = operation.split(' ');
+    return !document.paths[template]?.[method as OpenApiHttpMethod];
+  });
+  assert.deepEqual(undocumented, [], 'Chaque route Express doit avoir son opération dans docs/openapi.json.');
+}
+
+function testTemplatesFollowTheSpecSyntax(): void {
+  assert.equal(toTemplate('/api/users', '/:userId/recordings/:recordingId/stream'), '/api/users/{userId}/recordings/{recordingId}/stream');
+  assert.equal(toTemplate('/api/messages', '/'), '/api/messages');
+  assert.equal(toTemplate('/api/archives', '/:archiveId/chapters.vtt'), '/api/archives/{archiveId}/chapters.vtt');
+}
+
+function main(): void {
+  testTemplatesFollowTheSpecSyntax();
+  testEveryRouteIsDocumented();
+  console.log('OpenAPI route coverage tests passed.');
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('OpenAPI route coverage tests failed.', error);
+  process.exitCode = 1;
+}
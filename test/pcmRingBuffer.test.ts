@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+
+import PcmRingBuffer from '../src/audio/PcmRingBuffer';
+
+function bytes(...values: number[]): Buffer {
+  return Buffer.from(values);
+}
+
+function read(ring: PcmRingBuffer, length: number): Buffer | null {
+  const target = Buffer.alloc(length);
+  return ring.readInto(target) ? target : null;
+}
+
+function testReadsAcrossTheWrapPoint(): void {
+  const ring = new PcmRingBuffer(8);
+  ring.write(bytes(1, 2, 3, 4, 5, 6));
+  assert.deepEqual(read(ring, 4), bytes(1, 2, 3, 4));
+
+  // Written past the end of the storage: 9 and 10 land at the start.
+  ring.write(bytes(7, 8, 9, 10));
+  assert.equal(ring.length, 6);
+  assert.deepEqual(ring.copyLatest(3), bytes(8, 9, 10), 'La copie des derniers octets doit suivre le bouclage.');
+  assert.deepEqual(read(ring, 6), bytes(5, 6, 7, 8, 9, 10), 'La lecture doit suivre le bouclage.');
+  assert.equal(ring.length, 0);
+}
+
+function testUnderrunLeavesTheBufferUntouched(): void {
+  const ring = new PcmRingBuffer(8);
+  ring.write(bytes(1, 2, 3));
+  assert.equal(read(ring, 4), null, 'Une lecture trop longue doit échouer.');
+  assert.equal(ring.length, 3, 'Une lecture refusée ne doit rien consommer.');
+  assert.deepEqual(read(ring, 3), bytes(1, 2, 3));
+  assert.equal(read(ring, 1), null);
+}
+
+function testOverflowDropsTheOldestBytes(): void {
+  const ring = new PcmRingBuffer(4);
+  ring.write(bytes(1, 2, 3));
+  ring.write(bytes(4, 5, 6));
+  assert.equal(ring.length, 4);
+  assert.deepEqual(read(ring, 4), bytes(3, 4, 5, 6), 'Les octets les plus anciens doivent être écrasés.');
+
+  ring.write(bytes(1, 2, 3, 4, 5, 6, 7));
+  assert.deepEqual(read(ring, 4), bytes(4, 5, 6, 7), 'Un bloc plus grand que la capacité garde sa fin.');
+}
+
+function testCopyLatestDoesNotConsume(): void {
+  const ring = new PcmRingBuffer(8);
+  ring.write(bytes(1, 2, 3));
+  assert.deepEqual(ring.copyLatest(10), bytes(1, 2, 3), 'La copie se limite à ce qui est disponible.');
+  assert.deepEqual(ring.copyLatest(0), Buffer.alloc(0));
+  assert.equal(ring.length, 3);
+}
+
+function testClearResetsForReuse(): void {
+  const ring = new PcmRingBuffer(4);
+  ring.write(bytes(1, 2, 3));
+  read(ring, 2);
+  ring.clear();
+  assert.equal(ring.length, 0);
+  assert.equal(read(ring, 1), null);
+
+  ring.write(bytes(7, 8, 9, 10));
+  assert.deepEqual(read(ring, 4), bytes(7, 8, 9, 10), 'Un tampon recyclé repart de zéro.');
+}
+
+function main(): void {
+  testReadsAcrossTheWrapPoint();
+  testUnderrunLeavesTheBufferUntouched();
+  testOverflowDropsTheOldestBytes();
+  testCopyLatestDoesNotConsume();
+  testClearResetsForReuse();
+  console.log('PcmRingBuffer tests passed.');
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('PcmRingBuffer tests failed.', error);
+  process.exitCode = 1;
+}
@@ -0,0 +1,237 @@
+import assert from 'node:assert/strict';
+
+import IcyMetadataInjector, { buildIcyMetadataBlock } from '../src/audio/IcyMetadataInjector';
+import OggOpusCommentUpdater from '../src/audio/OggOpusCommentUpdater';
+
+interface ParsedPage {
+  flags: number;
+  granule: bigint;
+  serial: number;
+  sequence: number;
+  crc: number;
+  body: Buffer;
+  raw: Buffer;
+}
+
+/** Bit-by-bit Ogg CRC-32 (polynomial 0x04c11db7, no reflection), independent of the table in the updater. */
+function oggCrc(page: Buffer): number {
+  let crc = 0;
+  for (const byte of page) {
+    crc = (crc ^ (byte << 24)) >>> 0;
+    for (let bit = 0; bit < 8; bit += 1) {
+      crc = crc & 0x80000000 ? ((crc << 1) ^ 0x04c11db7) >>> 0 : (crc << 1) >>> 0;
+    }
+  }
+  return crc;
+}
+
+function buildPage(flags: number, granule: bigint, serial: number, sequence: number, body: Buffer): Buffer {
+  const lacing: number[] = [];
+  let remaining = body.length;
+  while (remaining >= 255) {
+    lacing.push(255);
+    remaining -= 255;
+  }
+  lacing.push(remaining);
+
+  const page = Buffer.alloc(27 + lacing.length + body.length);
+  page.write('OggS', 0, 'latin1');
+  page[5] = flags;
+  page.writeBigInt64LE(granule, 6);
+  page.writeUInt32LE(serial, 14);
+  page.writeUInt32LE(sequence, 18);
+  page[26] = lacing.length;
+  Buffer.from(lacing).copy(page, 27);
+  body.copy(page, 27 + lacing.length);
+  page.writeUInt32LE(oggCrc(page), 22);
+  return page;
+}
+
+function parsePages(stream: Buffer): ParsedPage[] {
+  const pages: ParsedPage[] = [];
+  let offset = 0;
+  while (offset < stream.length) {
+    assert.equal(stream.toString('latin1', offset, offset + 4), 'OggS', `Page attendue à l’octet ${offset}.`);
+    const segmentCount = stream[offset + 26];
+    let bodyLength = 0;
+    for (let i = 0; i < segmentCount; i += 1) {
+      bodyLength += stream[offset + 27 + i];
+    }
+    const headerLength = 27 + segmentCount;
+    const raw = stream.subarray(offset, offset + headerLength + bodyLength);
+    pages.push({
+      flags: raw[5],
+      granule: raw.readBigInt64LE(6),
+      serial: raw.readUInt32LE(14),
+      sequence: raw.readUInt32LE(18),
+      crc: raw.readUInt32LE(22),
+      body: raw.subarray(headerLength),
+      raw,
+    });
+    offset += raw.length;
+  }
+  return pages;
+}
+
+function computePageCrc(page: ParsedPage): number {
+  const copy = Buffer.from(page.raw);
+  copy.writeUInt32LE(0, 22);
+  return oggCrc(copy);
+}
+
+function opusHead(preSkip: number): Buffer {
+  const head = Buffer.alloc(19);
+  head.write('OpusHead', 0, 'latin1');
+  head[8] = 1;
+  head[9] = 2;
+  head.writeUInt16LE(preSkip, 10);
+  head.writeUInt32LE(48000, 12);
+  return head;
+}
+
+function uint32(value: number): Buffer {
+  const bytes = Buffer.alloc(4);
+  bytes.writeUInt32LE(value, 0);
+  return bytes;
+}
+
+function opusTags(vendor: string, comments: string[]): Buffer {
+  const parts = [Buffer.from('OpusTags', 'latin1')];
+  const vendorBytes = Buffer.from(vendor, 'utf8');
+  parts.push(uint32(vendorBytes.length), vendorBytes);
+  parts.push(uint32(comments.length));
+  for (const comment of comments) {
+    const bytes = Buffer.from(comment, 'utf8');
+    parts.push(uint32(bytes.length), bytes);
+  }
+  return Buffer.concat(parts);
+}
+
+function readTitle(tags: Buffer): string | null {
+  assert.equal(tags.toString('latin1', 0, 8), 'OpusTags');
+  let offset = 8;
+  offset += 4 + tags.readUInt32LE(offset);
+  const count = tags.readUInt32LE(offset);
+  offset += 4;
+  for (let i = 0; i < count; i += 1) {
+    const length = tags.readUInt32LE(offset);
+    const comment = tags.toString('utf8', offset + 4, offset + 4 + length);
+    if (comment.startsWith('TITLE=')) {
+      return comment.slice('TITLE='.length);
+    }
+    offset += 4 + length;
+  }
+  return null;
+}
+
+async function collect(stream: NodeJS.ReadWriteStream, steps: Array<() => Buffer>): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const ended = new Promise<void>((resolve) => stream.on('end', resolve));
+  for (const step of steps) {
+    await new Promise<void>((resolve, reject) => {
+      stream.write(step(), (error) => (error ? reject(error) : resolve()));
+    });
+  }
+  stream.end();
+  await ended;
+  return Buffer.concat(chunks);
+}
+
+function testIcyBlockFraming(): void {
+  const block = buildIcyMetadataBlock("L'invité\ndu soir");
+  const payload = "StreamTitle='L invité du soir';";
+  const payloadLength = Buffer.byteLength(payload);
+  assert.equal(block[0], Math.ceil(payloadLength / 16), 'L’octet de longueur compte des blocs de 16 octets.');
+  assert.equal(block.length, 1 + block[0] * 16);
+  assert.equal(block.toString('utf8', 1, 1 + payloadLength), payload, 'Apostrophes et retours à la ligne sont remplacés.');
+  assert.ok(block.subarray(1 + payloadLength).every((byte) => byte === 0), 'Le bloc est complété par des octets nuls.');
+
+  const long = buildIcyMetadataBlock('é'.repeat(5000));
+  assert.equal(long[0], 255, 'Un titre trop long remplit le bloc maximal.');
+  const text = long.subarray(1).toString('utf8').replace(/\0+$/, '');
+  assert.ok(text.startsWith("StreamTitle='") && text.endsWith("';"), 'Un titre tronqué garde la fermeture du champ.');
+  assert.ok(!text.includes('�'), 'La troncature ne doit pas couper un caractère multioctet.');
+}
+
+async function testIcyInterleaving(): Promise<void> {
+  let title = 'Premier';
+  const injector = new IcyMetadataInjector({ metaInt: 4, getTitle: () => title });
+  const output = await collect(injector, [
+    () => Buffer.from('abcdef'),
+    () => Buffer.from('gh'),
+    () => {
+      title = 'Second';
+      return Buffer.from('ijkl');
+    },
+  ]);
+
+  const first = buildIcyMetadataBlock('Premier');
+  const second = buildIcyMetadataBlock('Second');
+  const expected = Buffer.concat([
+    Buffer.from('abcd'),
+    first,
+    Buffer.from('efgh'),
+    Buffer.alloc(1),
+    Buffer.from('ijkl'),
+    second,
+  ]);
+  assert.deepEqual(output, expected, 'Un bloc vide d’un octet signale un titre inchangé.');
+}
+
+async function testOggCommentsAndChaining(): Promise<void> {
+  let title = 'Premier';
+  const serial = 0x1234;
+  const updater = new OggOpusCommentUpdater({ getTitle: () => title });
+  const output = await collect(updater, [
+    () => buildPage(0x02, 0n, serial, 0, opusHead(312)),
+    () => buildPage(0, 0n, serial, 1, opusTags('libopus', ['ENCODER=ffmpeg'])),
+    () => buildPage(0, 960n, serial, 2, Buffer.alloc(40, 1)),
+    () => {
+      title = 'Second';
+      return buildPage(0, 1920n, serial, 3, Buffer.alloc(40, 2));
+    },
+  ]);
+
+  const pages = parsePages(output);
+  for (const page of pages) {
+    assert.equal(page.crc, computePageCrc(page), `CRC invalide pour la page ${page.sequence} du flux ${page.serial}.`);
+  }
+
+  const [head, tags, audio, eos, chainedHead, chainedTags, chainedAudio] = pages;
+  assert.equal(pages.length, 7);
+  assert.equal(head.serial, serial);
+  assert.equal(readTitle(tags.body), 'Premier', 'Les commentaires d’origine sont remplacés par le titre.');
+  assert.equal(tags.body.toString('utf8', 12, 19), 'libopus', 'Le vendeur de l’encodeur est conservé.');
+  assert.equal(audio.sequence, 2);
+
+  assert.equal(eos.flags, 0x04, 'Le changement de titre ferme le flux logique courant.');
+  assert.equal(eos.serial, serial);
+  assert.equal(eos.granule, 960n);
+  assert.equal(eos.sequence, 3);
+
+  assert.equal(chainedHead.flags, 0x02, 'Le nouveau flux logique commence par une page BOS.');
+  assert.notEqual(chainedHead.serial, serial);
+  assert.equal(chainedHead.sequence, 0);
+  assert.equal(chainedHead.body.readUInt16LE(10), 0, 'Le pre-skip est remis à zéro pour un maillon chaîné.');
+  assert.equal(readTitle(chainedTags.body), 'Second');
+  assert.equal(chainedTags.serial, chainedHead.serial);
+  assert.equal(chainedTags.sequence, 1);
+
+  assert.equal(chainedAudio.serial, chainedHead.serial, 'L’audio suit le nouveau numéro de flux.');
+  assert.equal(chainedAudio.sequence, 2);
+  assert.equal(chainedAudio.granule, 960n, 'La position est recalée sur le début du maillon.');
+  assert.deepEqual(chainedAudio.body, Buffer.alloc(40, 2));
+}
+
+async function main(): Promise<void> {
+  testIcyBlockFraming();
+  await testIcyInterleaving();
+  await testOggCommentsAndChaining();
+  console.log('Stream metadata tests passed.');
+}
+
+void main().catch((error) => {
+  console.error('Stream metadata tests failed.', error);
+  process.exitCode = 1;
+});